@@ -1,5 +1,6 @@
 /**
- * Server factory for running internal-server-config as a standalone MCP server.
+ * Server factory for internal-server-config: standalone, or mounted by a
+ * host application that supplies its own ServerConfigDeps.
  */
 import {
   registerAppResource,
@@ -51,20 +52,21 @@ interface StandaloneState {
 }
 
 /**
- * Creates a standalone MCP server for server configuration.
+ * Creates an MCP server for server configuration.
  *
- * Note: In standalone mode, the server config tools demonstrate the
- * interface but cannot actually manage external MCP servers.
- * The state is kept in memory and not persisted.
+ * A host passes `hostDeps` to manage its real servers (e.g. mounted
+ * in-process). Without them the server runs standalone: the tools
+ * demonstrate the interface but cannot actually manage external MCP
+ * servers, and the state is kept in memory and not persisted.
  */
-export function createServer(): ServerFactoryResponse {
+export function createServer(hostDeps?: ServerConfigDeps): ServerFactoryResponse {
   // Initialize in-memory state
   const state: StandaloneState = {
     servers: new Map(),
   };
 
   // Create dependencies for standalone mode
-  const deps: ServerConfigDeps = {
+  const deps: ServerConfigDeps = hostDeps ?? {
     async getServerConfigs(): Promise<ServerConfigWithStatus[]> {
       return Array.from(state.servers.values()).map((s) => ({
         name: s.name,
@@ -147,9 +149,10 @@ export function createServer(): ServerFactoryResponse {
         tools: {},
         resources: { subscribe: false, listChanged: false },
       },
-      instructions:
-        'This server provides tools for managing MCP server connections. ' +
-        'In standalone mode, server state is kept in memory and not persisted.',
+      instructions: hostDeps
+        ? 'This server provides tools for managing MCP server connections.'
+        : 'This server provides tools for managing MCP server connections. ' +
+          'In standalone mode, server state is kept in memory and not persisted.',
     }
   );
 
@@ -1,9 +1,11 @@
 /**
- * Health monitoring for MCP servers using ping-based checks
+ * Health monitoring for MCP servers using configurable probes
+ * (ping by default)
  */
 
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import type { HealthCheckResult } from '../types/state.js';
+import type { HealthProbe } from '../types/config.js';
+import type { HealthCheckResult, HealthProbeResult } from '../types/state.js';
 import { withTimeout } from '../utils/retry.js';
 import { createLogger, type Logger } from '../utils/logger.js';
 
@@ -13,10 +15,30 @@ import { createLogger, type Logger } from '../utils/logger.js';
 export interface HealthMonitorConfig {
   /** Interval between health checks in milliseconds */
   intervalMs: number;
-  /** Timeout for individual health check in milliseconds */
+  /** Timeout for each probe in milliseconds */
   timeoutMs: number;
   /** Number of consecutive failures before marking unhealthy */
   unhealthyThreshold: number;
+  /** Probes run by each check, in order (default: a single ping) */
+  probes?: HealthProbe[];
+}
+
+const DEFAULT_PROBES: HealthProbe[] = [{ type: 'ping' }];
+
+function probeTarget(probe: HealthProbe): string | undefined {
+  switch (probe.type) {
+    case 'call-tool':
+      return probe.name;
+    case 'read-resource':
+      return probe.uri;
+    default:
+      return undefined;
+  }
+}
+
+function probeLabel(probe: HealthProbe): string {
+  const target = probeTarget(probe);
+  return target ? `${probe.type} ${target}` : probe.type;
 }
 
 /**
@@ -40,6 +62,8 @@ export class HealthMonitor {
   private logger: Logger;
 
   private client: Client | null = null;
+  /** Tools already confirmed read-only for call-tool probes on this client */
+  private readOnlyTools = new Set<string>();
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private consecutiveFailures = 0;
   private wasUnhealthy = false;
@@ -61,6 +85,7 @@ export class HealthMonitor {
    */
   setClient(client: Client | null): void {
     this.client = client;
+    this.readOnlyTools.clear();
   }
 
   /**
@@ -143,46 +168,21 @@ export class HealthMonitor {
       return;
     }
 
-    const startTime = Date.now();
-    let result: HealthCheckResult;
-
-    try {
-      // Use the MCP ping method with timeout
-      await withTimeout(
-        this.client.ping(),
-        this.config.timeoutMs,
-        new Error(`Health check timed out after ${this.config.timeoutMs}ms`)
-      );
-
-      const latencyMs = Date.now() - startTime;
-      result = {
-        healthy: true,
-        latencyMs,
-        timestamp: new Date(),
-      };
+    const result = await this.check(this.client);
 
+    if (result.healthy) {
       this.consecutiveFailures = 0;
-      this.logger.debug('Health check passed', { latencyMs });
+      this.logger.debug('Health check passed', { latencyMs: result.latencyMs });
 
       // Check if we recovered from unhealthy state
       if (this.wasUnhealthy) {
         this.wasUnhealthy = false;
         this.callbacks.onRecovered(result);
       }
-    } catch (error) {
-      const latencyMs = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
-      result = {
-        healthy: false,
-        latencyMs,
-        error: errorMessage,
-        timestamp: new Date(),
-      };
-
+    } else {
       this.consecutiveFailures++;
       this.logger.warn('Health check failed', {
-        error: errorMessage,
+        error: result.error,
         consecutiveFailures: this.consecutiveFailures,
         threshold: this.config.unhealthyThreshold,
       });
@@ -210,27 +210,118 @@ export class HealthMonitor {
       };
     }
 
+    return this.check(this.client);
+  }
+
+  /**
+   * Runs the configured probes in order, stopping at the first failure
+   */
+  private async check(client: Client): Promise<HealthCheckResult> {
     const startTime = Date.now();
+    const probes: HealthProbeResult[] = [];
+
+    for (const probe of this.config.probes ?? DEFAULT_PROBES) {
+      const result = await this.runProbe(client, probe);
+      probes.push(result);
+      if (!result.healthy) {
+        break;
+      }
+    }
+
+    const failed = probes.find((probe) => !probe.healthy);
+    return {
+      healthy: !failed,
+      latencyMs: Date.now() - startTime,
+      error: failed?.error,
+      timestamp: new Date(),
+      probes,
+    };
+  }
+
+  /**
+   * Runs one probe with the timeout and checks its latency SLO
+   */
+  private async runProbe(client: Client, probe: HealthProbe): Promise<HealthProbeResult> {
+    const target = probeTarget(probe);
+    const timeoutError = () => new Error(`Health check timed out after ${this.config.timeoutMs}ms`);
+    let startTime = Date.now();
 
     try {
-      await withTimeout(
-        this.client.ping(),
-        this.config.timeoutMs,
-        new Error(`Health check timed out after ${this.config.timeoutMs}ms`)
-      );
+      if (probe.type === 'call-tool') {
+        // Verified outside the timed part so the first check's tools/list doesn't count against the SLO
+        await withTimeout(this.verifyReadOnlyTool(client, probe.name), this.config.timeoutMs, timeoutError());
+        startTime = Date.now();
+      }
 
-      return {
-        healthy: true,
-        latencyMs: Date.now() - startTime,
-        timestamp: new Date(),
-      };
+      await withTimeout(this.executeProbe(client, probe), this.config.timeoutMs, timeoutError());
+
+      const latencyMs = Date.now() - startTime;
+      if (probe.maxLatencyMs !== undefined && latencyMs > probe.maxLatencyMs) {
+        return {
+          type: probe.type,
+          target,
+          healthy: false,
+          latencyMs,
+          sloBreached: true,
+          error: `${probeLabel(probe)} took ${latencyMs}ms, over its ${probe.maxLatencyMs}ms SLO`,
+        };
+      }
+      return { type: probe.type, target, healthy: true, latencyMs };
     } catch (error) {
       return {
+        type: probe.type,
+        target,
         healthy: false,
         latencyMs: Date.now() - startTime,
         error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date(),
       };
     }
   }
+
+  private async executeProbe(client: Client, probe: HealthProbe): Promise<void> {
+    switch (probe.type) {
+      case 'ping':
+        await client.ping();
+        return;
+      case 'list-tools':
+        await client.listTools();
+        return;
+      case 'call-tool': {
+        const result = await client.callTool({ name: probe.name, arguments: probe.arguments ?? {} });
+        if (result.isError) {
+          throw new Error(`Tool "${probe.name}" returned an error`);
+        }
+        return;
+      }
+      case 'read-resource':
+        await client.readResource({ uri: probe.uri });
+        return;
+    }
+  }
+
+  /**
+   * Health checks must not change anything, so a call-tool probe only
+   * calls tools the server annotates as read-only.
+   */
+  private async verifyReadOnlyTool(client: Client, name: string): Promise<void> {
+    if (this.readOnlyTools.has(name)) {
+      return;
+    }
+
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined);
+      const tool = page.tools.find((t) => t.name === name);
+      if (tool) {
+        if (tool.annotations?.readOnlyHint !== true) {
+          throw new Error(`Tool "${name}" is not annotated readOnlyHint; refusing to call it as a health probe`);
+        }
+        this.readOnlyTools.add(name);
+        return;
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    throw new Error(`Tool "${name}" not found`);
+  }
 }
@@ -2,7 +2,14 @@
  * HTTP connection management for MCP servers
  */
 
-import type { HttpServerConfig } from '../types/config.js';
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+} from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { HttpServerConfig, SseServerConfig } from '../types/config.js';
 import { createLogger, type Logger } from '../utils/logger.js';
 
 /**
@@ -15,19 +22,92 @@ export interface HttpTransportConfig {
   headers?: Record<string, string>;
 }
 
+/**
+ * OAuth provider that can finish an interactive authorization.
+ *
+ * The SDK calls redirectToAuthorization() and fails the connection with
+ * UnauthorizedError; the lifecycle then waits for the code from the
+ * redirect, exchanges it and connects again.
+ */
+export interface InteractiveOAuthProvider extends OAuthClientProvider {
+  /** Resolves with the authorization code once the user has signed in */
+  waitForAuthCode(): Promise<string>;
+}
+
+/**
+ * Options for creating a Streamable HTTP transport
+ */
+export interface HttpTransportOptions {
+  authProvider?: OAuthClientProvider;
+  /** Session to rejoin instead of starting a new one */
+  sessionId?: string;
+  /** Last SSE event seen on a previous transport for the same session */
+  lastEventId?: string;
+}
+
+/**
+ * Streamable HTTP transport that remembers the last SSE event id it saw,
+ * so a later transport can ask the server to replay what was missed.
+ */
+export class ResumableHttpTransport extends StreamableHTTPClientTransport {
+  lastEventId?: string;
+
+  constructor(url: URL, options: ConstructorParameters<typeof StreamableHTTPClientTransport>[1], lastEventId?: string) {
+    super(url, options);
+    this.lastEventId = lastEventId;
+  }
+
+  override send(
+    message: JSONRPCMessage | JSONRPCMessage[],
+    options?: { resumptionToken?: string; onresumptiontoken?: (token: string) => void }
+  ): Promise<void> {
+    return super.send(message, {
+      ...options,
+      onresumptiontoken: (token) => {
+        this.lastEventId = token;
+        options?.onresumptiontoken?.(token);
+      },
+    });
+  }
+
+  /**
+   * Open the standalone server-to-client stream of a rejoined session,
+   * replaying events after lastEventId when one is known.
+   */
+  openStream(): Promise<void> {
+    // An empty id sends no Last-Event-ID header: a fresh stream
+    return this.resumeStream(this.lastEventId ?? '', {
+      onresumptiontoken: (token) => {
+        this.lastEventId = token;
+      },
+    });
+  }
+}
+
+/**
+ * Whether a failed Streamable HTTP connect means the server only speaks
+ * the legacy HTTP+SSE transport: the spec's backwards-compatibility rule is
+ * a 4xx answer to the initialize POST. 401 is left to the auth flow.
+ */
+export function shouldFallBackToSse(error: unknown): boolean {
+  if (!(error instanceof StreamableHTTPError) || error.code === undefined) {
+    return false;
+  }
+  return error.code >= 400 && error.code < 500 && error.code !== 401;
+}
+
 /**
  * Manages HTTP connections for MCP servers
  *
- * Note: This class provides the configuration needed for the MCP SDK's
- * StreamableHTTPClientTransport. The actual transport creation is handled
- * by the SDK.
+ * Validates the configuration and creates the MCP SDK's Streamable HTTP
+ * or legacy SSE transport with the configured headers applied.
  */
 export class HttpConnection {
-  private config: HttpServerConfig;
+  private config: HttpServerConfig | SseServerConfig;
   private logger: Logger;
   private connected = false;
 
-  constructor(serverName: string, config: HttpServerConfig, logger?: Logger) {
+  constructor(serverName: string, config: HttpServerConfig | SseServerConfig, logger?: Logger) {
     this.config = config;
     this.logger = logger ?? createLogger(`HttpConnection:${serverName}`);
   }
@@ -42,6 +122,33 @@ export class HttpConnection {
     };
   }
 
+  /**
+   * Creates a transport for this server. Configured headers go on every
+   * request; an auth provider adds (and refreshes) the Authorization header.
+   */
+  createTransport(options: HttpTransportOptions = {}): ResumableHttpTransport {
+    return new ResumableHttpTransport(
+      new URL(this.config.url),
+      {
+        requestInit: this.config.headers ? { headers: this.config.headers } : undefined,
+        authProvider: options.authProvider,
+        sessionId: options.sessionId,
+      },
+      options.lastEventId
+    );
+  }
+
+  /**
+   * Creates a legacy HTTP+SSE transport for this server. Headers go on
+   * both the event stream request and the message POSTs.
+   */
+  createSseTransport(authProvider?: OAuthClientProvider): SSEClientTransport {
+    return new SSEClientTransport(new URL(this.config.url), {
+      requestInit: this.config.headers ? { headers: this.config.headers } : undefined,
+      authProvider,
+    });
+  }
+
   /**
    * Gets the URL for this connection
    */
@@ -129,7 +236,7 @@ export class HttpConnection {
  * Creates fetch options with the configured headers
  */
 export function createFetchOptions(
-  config: HttpServerConfig,
+  config: HttpServerConfig | SseServerConfig,
   method: string = 'POST',
   body?: string
 ): RequestInit {
@@ -0,0 +1,58 @@
+/**
+ * In-process connections for MCP servers
+ */
+
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type {
+  InProcessServer,
+  InProcessServerConfig,
+  InProcessServerInstance,
+} from '../types/config.js';
+
+/**
+ * A server mounted on one end of a linked in-memory transport pair
+ */
+export interface InProcessMount {
+  /** Client end of the pair; pass it to Client.connect() */
+  transport: InMemoryTransport;
+  /** Closes the server and runs its cleanup */
+  close(): Promise<void>;
+}
+
+function isServer(created: InProcessServer | InProcessServerInstance): created is InProcessServer {
+  // McpServer has a `server` property too, so check for connect() first
+  return typeof (created as InProcessServer).connect === 'function';
+}
+
+/**
+ * Creates the configured server and connects it to the server end of a
+ * linked transport pair.
+ */
+export async function mountInProcessServer(config: InProcessServerConfig): Promise<InProcessMount> {
+  const created = await config.createServer();
+  const { server, cleanup } = isServer(created) ? { server: created, cleanup: undefined } : created;
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  try {
+    await server.connect(serverTransport);
+  } catch (error) {
+    await cleanup?.();
+    throw error;
+  }
+
+  let closed = false;
+  return {
+    transport: clientTransport,
+    async close() {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      try {
+        await server.close();
+      } finally {
+        await cleanup?.();
+      }
+    },
+  };
+}
@@ -8,12 +8,19 @@ import {
   StdioClientTransport,
   getDefaultEnvironment,
 } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { WebSocketClientTransport } from '@modelcontextprotocol/sdk/client/websocket.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js';
+import type { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
 import type {
   ServerConfig,
   LifecycleConfig,
   StdioServerConfig,
   HttpServerConfig,
+  SseServerConfig,
+  WebSocketServerConfig,
+  InProcessServerConfig,
 } from '../types/config.js';
 import { resolveLifecycleConfig } from '../types/config.js';
 import type {
@@ -25,7 +32,13 @@ import type {
 import { createInitialState, toStateSummary } from '../types/state.js';
 import type { LifecycleEvent, LifecycleEventMap } from '../types/events.js';
 import { HealthMonitor } from './health-monitor.js';
-import { HttpConnection } from './http-connection.js';
+import {
+  HttpConnection,
+  ResumableHttpTransport,
+  shouldFallBackToSse,
+  type InteractiveOAuthProvider,
+} from './http-connection.js';
+import { mountInProcessServer, type InProcessMount } from './in-process-connection.js';
 import { calculateBackoff, delay } from '../utils/retry.js';
 import { createLogger, type Logger } from '../utils/logger.js';
 
@@ -33,17 +46,29 @@ import { createLogger, type Logger } from '../utils/logger.js';
  * Valid state transitions
  */
 const VALID_TRANSITIONS: Record<ServerStatus, ServerStatus[]> = {
-  disconnected: ['connecting', 'stopped'],
+  disconnected: ['connecting', 'stopped', 'sleeping'],
   connecting: ['connected', 'failed', 'stopped'],
   // 'restarting' and 'failed': a connected server's process can die at any
   // moment (crash detection via the transport close callback)
-  connected: ['unhealthy', 'disconnected', 'stopped', 'restarting', 'failed'],
-  unhealthy: ['connected', 'restarting', 'stopped'],
+  connected: ['unhealthy', 'disconnected', 'stopped', 'restarting', 'failed', 'sleeping'],
+  unhealthy: ['connected', 'restarting', 'stopped', 'sleeping'],
   restarting: ['connecting', 'failed', 'stopped'],
   failed: ['connecting', 'stopped'],
-  stopped: ['connecting'],
+  stopped: ['connecting', 'sleeping'],
+  sleeping: ['connecting', 'stopped'],
 };
 
+/**
+ * A Streamable HTTP session kept across reconnects. The client is reused
+ * because rejoining a session skips initialize, so only the original
+ * client knows the server's capabilities.
+ */
+interface HttpSession {
+  client: Client;
+  /** Last transport used; holds the session id, protocol version and last event id */
+  transport: ResumableHttpTransport;
+}
+
 /**
  * Manages the complete lifecycle of a single MCP server
  */
@@ -51,26 +76,40 @@ export class ServerLifecycle extends EventEmitter {
   readonly name: string;
   private config: ServerConfig;
   private lifecycleConfig: Required<LifecycleConfig>;
+  private clientCapabilities: ClientCapabilities;
+  private authProvider?: InteractiveOAuthProvider;
   private logger: Logger;
 
   private state: ServerState;
   private client: Client | null = null;
-  private transport: StdioClientTransport | StreamableHTTPClientTransport | null = null;
+  private transport: Transport | null = null;
   private httpConnection: HttpConnection | null = null;
+  private httpSession: HttpSession | null = null;
+  private inProcessMount: InProcessMount | null = null;
   private healthMonitor: HealthMonitor | null = null;
 
   private restartInProgress = false;
   private stopRequested = false;
 
+  /** Requests in flight through use(); the server never idles out under them */
+  private activeRequests = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private wakePromise: Promise<void> | null = null;
+  private sleepPromise: Promise<void> | null = null;
+
   constructor(
     config: ServerConfig,
     globalDefaults?: LifecycleConfig,
-    logger?: Logger
+    logger?: Logger,
+    clientCapabilities: ClientCapabilities = {},
+    authProvider?: InteractiveOAuthProvider
   ) {
     super();
     this.name = config.name;
     this.config = config;
     this.lifecycleConfig = resolveLifecycleConfig(config.lifecycle, globalDefaults);
+    this.clientCapabilities = clientCapabilities;
+    this.authProvider = authProvider;
     this.state = createInitialState();
     this.logger = logger ?? createLogger(`ServerLifecycle:${config.name}`);
   }
@@ -107,8 +146,13 @@ export class ServerLifecycle extends EventEmitter {
    * Starts the server connection
    */
   async start(): Promise<void> {
-    // Allow starting from disconnected, failed, or stopped states
-    if (this.state.status !== 'disconnected' && this.state.status !== 'failed' && this.state.status !== 'stopped') {
+    // Allow starting from disconnected, failed, stopped or sleeping states
+    if (
+      this.state.status !== 'disconnected' &&
+      this.state.status !== 'failed' &&
+      this.state.status !== 'stopped' &&
+      this.state.status !== 'sleeping'
+    ) {
       this.logger.warn('Cannot start server in current state', {
         status: this.state.status,
       });
@@ -128,9 +172,124 @@ export class ServerLifecycle extends EventEmitter {
 
     // Stop health monitoring
     this.healthMonitor?.stop();
+    this.clearIdleTimer();
 
     const wasConnected = this.state.status === 'connected' || this.state.status === 'unhealthy';
 
+    await this.closeConnection();
+
+    this.transitionTo('stopped');
+    this.emitEvent({
+      type: 'server:stopped',
+      serverName: this.name,
+      timestamp: new Date(),
+      graceful: wasConnected,
+    });
+  }
+
+  /**
+   * Puts the server to sleep: closes its connection (ending a stdio
+   * server's process) until the next request made through use() or wake().
+   * 'lazy' is used for a server that has not been started yet.
+   */
+  async sleep(reason: 'lazy' | 'idle'): Promise<void> {
+    const status = this.state.status;
+    if (!VALID_TRANSITIONS[status].includes('sleeping') || this.restartInProgress || this.sleepPromise) {
+      this.logger.warn('Cannot sleep in current state', { status });
+      return;
+    }
+
+    this.logger.info('Going to sleep', { reason });
+    this.healthMonitor?.stop();
+    this.clearIdleTimer();
+
+    // Closing the connection on purpose must not look like a crash
+    if (this.client) {
+      this.client.onclose = undefined;
+    }
+
+    this.sleepPromise = this.closeConnection();
+    try {
+      await this.sleepPromise;
+    } finally {
+      this.sleepPromise = null;
+    }
+
+    this.transitionTo('sleeping');
+    this.emitEvent({
+      type: 'server:sleeping',
+      serverName: this.name,
+      timestamp: new Date(),
+      reason,
+    });
+  }
+
+  /**
+   * Returns the connected client, waking the server first if it is asleep.
+   * Concurrent callers share one connection attempt.
+   */
+  async wake(): Promise<Client> {
+    await this.sleepPromise;
+
+    if (this.state.status === 'sleeping' && !this.wakePromise) {
+      this.logger.info('Waking server');
+      this.wakePromise = this.start().finally(() => {
+        this.wakePromise = null;
+      });
+    }
+    await this.wakePromise;
+
+    const status = this.state.status;
+    if (!this.client || (status !== 'connected' && status !== 'unhealthy')) {
+      const detail = this.state.error ? `: ${this.state.error}` : '';
+      throw new Error(`Server "${this.name}" is not connected (${status})${detail}`);
+    }
+    return this.client;
+  }
+
+  /**
+   * Runs a request against the server, waking it first if it is asleep.
+   * Only requests made this way count as activity for idleTimeoutMs.
+   */
+  async use<T>(request: (client: Client) => Promise<T>): Promise<T> {
+    this.activeRequests++;
+    this.clearIdleTimer();
+    try {
+      return await request(await this.wake());
+    } finally {
+      this.activeRequests--;
+      this.scheduleIdleTimeout();
+    }
+  }
+
+  /**
+   * Manually triggers a restart. A sleeping server is simply woken.
+   */
+  async restart(): Promise<void> {
+    if (this.state.status === 'sleeping') {
+      await this.wake();
+      return;
+    }
+    this.logger.info('Manual restart requested');
+    await this.performRestart('manual');
+  }
+
+  /**
+   * Closes the client, transport and any mounted in-process server.
+   */
+  private async closeConnection(): Promise<void> {
+    // A closed HTTP session is over; let the server free it
+    if (this.transport instanceof ResumableHttpTransport && this.transport.sessionId) {
+      try {
+        await this.transport.terminateSession();
+      } catch (error) {
+        this.logger.warn('Error terminating HTTP session', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.httpSession = null;
+
     // Close client connection
     if (this.client) {
       try {
@@ -155,26 +314,37 @@ export class ServerLifecycle extends EventEmitter {
       this.transport = null;
     }
 
+    await this.closeInProcessServer();
+
     // Mark HTTP connection as disconnected
     if (this.httpConnection) {
       this.httpConnection.markDisconnected();
     }
-
-    this.transitionTo('stopped');
-    this.emitEvent({
-      type: 'server:stopped',
-      serverName: this.name,
-      timestamp: new Date(),
-      graceful: wasConnected,
-    });
   }
 
   /**
-   * Manually triggers a restart
+   * Arms the idle timer once no requests are in flight
    */
-  async restart(): Promise<void> {
-    this.logger.info('Manual restart requested');
-    await this.performRestart('manual');
+  private scheduleIdleTimeout(): void {
+    this.clearIdleTimer();
+
+    const idleTimeoutMs = this.lifecycleConfig.idleTimeoutMs;
+    const status = this.state.status;
+    if (idleTimeoutMs <= 0 || this.activeRequests > 0 || (status !== 'connected' && status !== 'unhealthy')) {
+      return;
+    }
+
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      void this.sleep('idle');
+    }, idleTimeoutMs);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
   }
 
   /**
@@ -189,23 +359,29 @@ export class ServerLifecycle extends EventEmitter {
     });
 
     try {
-      if (this.config.connection.type === 'stdio') {
-        await this.connectStdio(this.config.connection);
-      } else {
-        await this.connectHttp(this.config.connection);
+      let client: Client;
+      const connection = this.config.connection;
+      switch (connection.type) {
+        case 'stdio':
+          await this.connectStdio(connection);
+          client = this.createClient();
+          await client.connect(this.transport!);
+          this.state.transport = 'stdio';
+          break;
+        case 'websocket':
+          client = await this.connectWebSocket(connection);
+          break;
+        case 'in-process':
+          client = await this.connectInProcess(connection);
+          break;
+        default:
+          client = await this.connectHttp(connection);
       }
-
-      // Initialize client
-      this.client = new Client({
-        name: `mcp-manager-${this.name}`,
-        version: '1.0.0',
-      });
-
-      await this.client.connect(this.transport!);
+      this.client = client;
 
       // Detect unexpected connection loss (stdio child exit, stream close).
       // Guarded inside the handler so intentional stop/restart closes are ignored.
-      this.client.onclose = () => this.handleUnexpectedClose();
+      client.onclose = () => this.handleUnexpectedClose();
 
       // Update state
       this.transitionTo('connected');
@@ -225,6 +401,8 @@ export class ServerLifecycle extends EventEmitter {
       if (this.lifecycleConfig.healthCheckEnabled) {
         this.startHealthMonitoring();
       }
+
+      this.scheduleIdleTimeout();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error('Connection failed', { error: errorMessage });
@@ -270,21 +448,204 @@ export class ServerLifecycle extends EventEmitter {
   }
 
   /**
-   * Connects using HTTP transport
+   * Connects using WebSocket transport
+   */
+  private async connectWebSocket(config: WebSocketServerConfig): Promise<Client> {
+    const url = new URL(config.url);
+    if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+      throw new Error(`Invalid protocol: ${url.protocol}. Must be ws: or wss:`);
+    }
+    if (typeof WebSocket === 'undefined') {
+      throw new Error('WebSocket transport needs a runtime with a global WebSocket (Node 22+)');
+    }
+
+    const transport = new WebSocketClientTransport(url);
+    this.transport = transport;
+    const client = this.createClient();
+    await client.connect(transport);
+    this.state.transport = 'websocket';
+    return client;
+  }
+
+  /**
+   * Mounts an in-process server and connects to it over a linked
+   * in-memory transport.
    */
-  private async connectHttp(config: HttpServerConfig): Promise<void> {
-    this.httpConnection = new HttpConnection(this.name, config, this.logger);
+  private async connectInProcess(config: InProcessServerConfig): Promise<Client> {
+    const mount = await mountInProcessServer(config);
+    this.inProcessMount = mount;
+    this.transport = mount.transport;
+
+    const client = this.createClient();
+    await client.connect(mount.transport);
+    this.state.transport = 'in-process';
+    return client;
+  }
+
+  /**
+   * Closes the mounted in-process server, if any
+   */
+  private async closeInProcessServer(): Promise<void> {
+    const mount = this.inProcessMount;
+    this.inProcessMount = null;
+    try {
+      await mount?.close();
+    } catch (error) {
+      this.logger.warn('Error closing in-process server', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private createClient(): Client {
+    return new Client(
+      {
+        name: `mcp-manager-${this.name}`,
+        version: '1.0.0',
+      },
+      { capabilities: this.clientCapabilities }
+    );
+  }
+
+  /**
+   * Connects using HTTP transport: Streamable HTTP (rejoining the previous
+   * session when the server still has it), legacy SSE, or Streamable HTTP
+   * with SSE as the fallback in 'auto' mode.
+   */
+  private async connectHttp(config: HttpServerConfig | SseServerConfig): Promise<Client> {
+    const connection = new HttpConnection(this.name, config, this.logger);
+    this.httpConnection = connection;
 
     // Validate configuration
-    const validation = this.httpConnection.validate();
+    const validation = connection.validate();
     if (!validation.valid) {
       throw new Error(validation.error);
     }
 
-    // Create HTTP transport
-    this.transport = new StreamableHTTPClientTransport(new URL(config.url));
+    let client: Client;
+    if (config.type === 'sse') {
+      client = await this.startSseSession(connection);
+    } else {
+      try {
+        client = (await this.resumeHttpSession(connection)) ?? (await this.startHttpSession(connection));
+        this.state.transport = 'streamable-http';
+      } catch (error) {
+        if (config.mode !== 'auto' || !shouldFallBackToSse(error)) {
+          throw error;
+        }
+        this.logger.info('Streamable HTTP not supported, falling back to SSE', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        client = await this.startSseSession(connection);
+      }
+    }
 
-    this.httpConnection.markConnected();
+    connection.markConnected();
+    return client;
+  }
+
+  /**
+   * Starts a new Streamable HTTP session.
+   */
+  private async startHttpSession(connection: HttpConnection): Promise<Client> {
+    const { client, transport } = await this.connectAuthorized(() =>
+      connection.createTransport({ authProvider: this.authProvider })
+    );
+    this.httpSession = transport.sessionId ? { client, transport } : null;
+    return client;
+  }
+
+  /**
+   * Connects over the legacy HTTP+SSE transport.
+   */
+  private async startSseSession(connection: HttpConnection): Promise<Client> {
+    const { client } = await this.connectAuthorized(() => connection.createSseTransport(this.authProvider));
+    this.state.transport = 'sse';
+    return client;
+  }
+
+  /**
+   * Connects a new client over a fresh transport. If the server asks for
+   * OAuth and a provider is configured, waits for the user to authorize
+   * and connects again.
+   */
+  private async connectAuthorized<T extends ResumableHttpTransport | SSEClientTransport>(
+    createTransport: () => T
+  ): Promise<{ client: Client; transport: T }> {
+    let transport = createTransport();
+    let client = this.createClient();
+    this.transport = transport;
+
+    try {
+      await client.connect(transport);
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError) || !this.authProvider) {
+        throw error;
+      }
+      this.logger.info('Authorization required, waiting for the user to sign in');
+      await transport.finishAuth(await this.authProvider.waitForAuthCode());
+
+      // The rejected transport is spent; connect again with the new tokens
+      transport = createTransport();
+      client = this.createClient();
+      this.transport = transport;
+      await client.connect(transport);
+    }
+
+    return { client, transport };
+  }
+
+  /**
+   * Rejoins the previous HTTP session and replays missed server messages.
+   * Returns null (and forgets the session) when the server no longer has it.
+   */
+  private async resumeHttpSession(connection: HttpConnection): Promise<Client | null> {
+    const session = this.httpSession;
+    this.httpSession = null;
+    if (!session?.transport.sessionId) {
+      return null;
+    }
+
+    const previous = session.transport;
+    const transport = connection.createTransport({
+      authProvider: this.authProvider,
+      sessionId: previous.sessionId,
+      lastEventId: previous.lastEventId,
+    });
+    if (previous.protocolVersion) {
+      transport.setProtocolVersion(previous.protocolVersion);
+    }
+
+    // Closing a failed attempt must not look like a crash
+    session.client.onclose = undefined;
+    try {
+      // With a session id set, connect() skips initialize; the ping checks the server still knows us
+      await session.client.connect(transport);
+      await session.client.ping();
+    } catch (error) {
+      this.logger.info('Could not rejoin HTTP session, starting a new one', {
+        sessionId: previous.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await session.client.close().catch(() => {});
+      return null;
+    }
+
+    try {
+      await transport.openStream();
+    } catch (error) {
+      this.logger.warn('Could not reopen server event stream', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.transport = transport;
+    this.httpSession = { client: session.client, transport };
+    this.logger.info('Rejoined HTTP session', {
+      sessionId: transport.sessionId,
+      lastEventId: transport.lastEventId,
+    });
+    return session.client;
   }
 
   /**
@@ -313,8 +674,10 @@ export class ServerLifecycle extends EventEmitter {
     });
 
     // Clean up client
+    this.clearIdleTimer();
     this.client = null;
     this.transport = null;
+    void this.closeInProcessServer();
 
     if (willRestart) {
       void this.performRestart('crashed');
@@ -334,6 +697,7 @@ export class ServerLifecycle extends EventEmitter {
         intervalMs: this.lifecycleConfig.healthCheckIntervalMs,
         timeoutMs: this.lifecycleConfig.healthCheckTimeoutMs,
         unhealthyThreshold: this.lifecycleConfig.unhealthyThreshold,
+        probes: this.lifecycleConfig.healthProbes,
       },
       {
         onHealthCheck: (result) => this.handleHealthCheck(result),
@@ -407,6 +771,7 @@ export class ServerLifecycle extends EventEmitter {
 
     // Stop health monitoring during restart
     this.healthMonitor?.stop();
+    this.clearIdleTimer();
 
     // Clean up existing connections
     if (this.client) {
@@ -427,6 +792,8 @@ export class ServerLifecycle extends EventEmitter {
       this.transport = null;
     }
 
+    await this.closeInProcessServer();
+
     this.transitionTo('restarting');
 
     const maxAttempts = this.lifecycleConfig.maxRestartAttempts;
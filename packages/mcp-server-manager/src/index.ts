@@ -40,8 +40,18 @@ export type {
   ServerConfig,
   ManagerConfig,
   LifecycleConfig,
+  HealthProbe,
+  PingProbe,
+  ListToolsProbe,
+  CallToolProbe,
+  ReadResourceProbe,
   StdioServerConfig,
   HttpServerConfig,
+  SseServerConfig,
+  WebSocketServerConfig,
+  InProcessServerConfig,
+  InProcessServer,
+  InProcessServerInstance,
   ServerConnectionConfig,
 } from './types/config.js';
 
@@ -55,7 +65,9 @@ export type {
   ServerStatus,
   ServerState,
   ServerStateSummary,
+  ConnectionTransport,
   HealthCheckResult,
+  HealthProbeResult,
   RestartStats,
 } from './types/state.js';
 
@@ -80,6 +92,7 @@ export type {
   ServerRestartSucceededEvent,
   ServerRestartFailedEvent,
   ServerStoppedEvent,
+  ServerSleepingEvent,
   ServerConnectingEvent,
   ServerConnectedEvent,
   ServerConnectionFailedEvent,
@@ -104,6 +117,9 @@ export {
   createServerConfig,
   createStdioConfig,
   createHttpConfig,
+  createSseConfig,
+  createWebSocketConfig,
+  createInProcessConfig,
   type ValidationResult,
   type ValidationError,
 } from './manager/config-loader.js';
@@ -111,7 +127,16 @@ export {
 // Core components (for advanced usage)
 export { ServerLifecycle } from './core/server-lifecycle.js';
 export { HealthMonitor, type HealthMonitorConfig, type HealthMonitorCallbacks } from './core/health-monitor.js';
-export { HttpConnection, type HttpTransportConfig, createFetchOptions } from './core/http-connection.js';
+export {
+  HttpConnection,
+  ResumableHttpTransport,
+  shouldFallBackToSse,
+  type HttpTransportConfig,
+  type HttpTransportOptions,
+  type InteractiveOAuthProvider,
+  createFetchOptions,
+} from './core/http-connection.js';
+export { mountInProcessServer, type InProcessMount } from './core/in-process-connection.js';
 
 // Utilities
 export {
@@ -10,6 +10,10 @@ import type {
   LifecycleConfig,
   StdioServerConfig,
   HttpServerConfig,
+  SseServerConfig,
+  WebSocketServerConfig,
+  InProcessServerConfig,
+  ServerConnectionConfig,
 } from '../types/config.js';
 import { DEFAULT_LIFECYCLE_CONFIG } from '../types/config.js';
 import { createLogger, type Logger } from '../utils/logger.js';
@@ -179,6 +183,10 @@ export class ConfigLoader {
       errors.push({ path: `${path}.autoStart`, message: 'Must be a boolean' });
     }
 
+    if (obj.startMode !== undefined && obj.startMode !== 'eager' && obj.startMode !== 'lazy') {
+      errors.push({ path: `${path}.startMode`, message: 'Must be "eager" or "lazy"' });
+    }
+
     return errors;
   }
 
@@ -216,8 +224,8 @@ export class ConfigLoader {
       if (obj.cwd !== undefined && typeof obj.cwd !== 'string') {
         errors.push({ path: `${path}.cwd`, message: 'Must be a string' });
       }
-    } else if (obj.type === 'http') {
-      // Validate HTTP connection
+    } else if (obj.type === 'http' || obj.type === 'sse') {
+      // Validate HTTP / SSE connection
       if (typeof obj.url !== 'string' || obj.url.trim() === '') {
         errors.push({ path: `${path}.url`, message: 'Must be a non-empty string' });
       } else {
@@ -230,10 +238,32 @@ export class ConfigLoader {
       if (obj.headers !== undefined && (typeof obj.headers !== 'object' || obj.headers === null)) {
         errors.push({ path: `${path}.headers`, message: 'Must be an object' });
       }
+      if (obj.type === 'http' && obj.mode !== undefined && obj.mode !== 'streamable' && obj.mode !== 'auto') {
+        errors.push({ path: `${path}.mode`, message: 'Must be "streamable" or "auto"' });
+      }
+    } else if (obj.type === 'websocket') {
+      // Validate WebSocket connection
+      if (typeof obj.url !== 'string' || obj.url.trim() === '') {
+        errors.push({ path: `${path}.url`, message: 'Must be a non-empty string' });
+      } else {
+        try {
+          const url = new URL(obj.url);
+          if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+            errors.push({ path: `${path}.url`, message: 'Must be a ws:// or wss:// URL' });
+          }
+        } catch {
+          errors.push({ path: `${path}.url`, message: 'Must be a valid URL' });
+        }
+      }
+    } else if (obj.type === 'in-process') {
+      // Validate in-process connection (only possible from code)
+      if (typeof obj.createServer !== 'function') {
+        errors.push({ path: `${path}.createServer`, message: 'Must be a function' });
+      }
     } else {
       errors.push({
         path: `${path}.type`,
-        message: 'Must be "stdio" or "http"',
+        message: 'Must be "stdio", "http", "sse", "websocket" or "in-process"',
       });
     }
 
@@ -262,6 +292,7 @@ export class ConfigLoader {
       'restartBackoffBaseMs',
       'restartBackoffMaxMs',
       'shutdownTimeoutMs',
+      'idleTimeoutMs',
     ];
 
     booleanFields.forEach((field) => {
@@ -278,6 +309,54 @@ export class ConfigLoader {
       }
     });
 
+    if (obj.healthProbes !== undefined) {
+      if (!Array.isArray(obj.healthProbes) || obj.healthProbes.length === 0) {
+        errors.push({ path: `${path}.healthProbes`, message: 'Must be a non-empty array' });
+      } else {
+        obj.healthProbes.forEach((probe, i) => {
+          errors.push(...this.validateHealthProbe(probe, `${path}.healthProbes[${i}]`));
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates a health probe
+   */
+  private validateHealthProbe(probe: unknown, path: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (typeof probe !== 'object' || probe === null) {
+      errors.push({ path, message: 'Must be an object' });
+      return errors;
+    }
+
+    const obj = probe as Record<string, unknown>;
+
+    if (obj.type === 'call-tool') {
+      if (typeof obj.name !== 'string' || obj.name.trim() === '') {
+        errors.push({ path: `${path}.name`, message: 'Must be a non-empty string' });
+      }
+      if (obj.arguments !== undefined && (typeof obj.arguments !== 'object' || obj.arguments === null)) {
+        errors.push({ path: `${path}.arguments`, message: 'Must be an object' });
+      }
+    } else if (obj.type === 'read-resource') {
+      if (typeof obj.uri !== 'string' || obj.uri.trim() === '') {
+        errors.push({ path: `${path}.uri`, message: 'Must be a non-empty string' });
+      }
+    } else if (obj.type !== 'ping' && obj.type !== 'list-tools') {
+      errors.push({
+        path: `${path}.type`,
+        message: 'Must be "ping", "list-tools", "call-tool" or "read-resource"',
+      });
+    }
+
+    if (obj.maxLatencyMs !== undefined && (typeof obj.maxLatencyMs !== 'number' || obj.maxLatencyMs < 0)) {
+      errors.push({ path: `${path}.maxLatencyMs`, message: 'Must be a non-negative number' });
+    }
+
     return errors;
   }
 
@@ -309,10 +388,11 @@ export class ConfigLoader {
  */
 export function createServerConfig(
   name: string,
-  connection: StdioServerConfig | HttpServerConfig,
+  connection: ServerConnectionConfig,
   options?: {
     lifecycle?: LifecycleConfig;
     autoStart?: boolean;
+    startMode?: ServerConfig['startMode'];
   }
 ): ServerConfig {
   return {
@@ -320,6 +400,7 @@ export function createServerConfig(
     connection,
     lifecycle: options?.lifecycle,
     autoStart: options?.autoStart,
+    startMode: options?.startMode,
   };
 }
 
@@ -348,11 +429,49 @@ export function createStdioConfig(
  */
 export function createHttpConfig(
   url: string,
-  headers?: Record<string, string>
+  headers?: Record<string, string>,
+  mode?: HttpServerConfig['mode']
 ): HttpServerConfig {
   return {
     type: 'http',
     url,
     headers,
+    mode,
+  };
+}
+
+/**
+ * Creates a legacy HTTP+SSE server configuration
+ */
+export function createSseConfig(
+  url: string,
+  headers?: Record<string, string>
+): SseServerConfig {
+  return {
+    type: 'sse',
+    url,
+    headers,
+  };
+}
+
+/**
+ * Creates a WebSocket server configuration
+ */
+export function createWebSocketConfig(url: string): WebSocketServerConfig {
+  return {
+    type: 'websocket',
+    url,
+  };
+}
+
+/**
+ * Creates an in-process server configuration
+ */
+export function createInProcessConfig(
+  createServer: InProcessServerConfig['createServer']
+): InProcessServerConfig {
+  return {
+    type: 'in-process',
+    createServer,
   };
 }
@@ -4,10 +4,13 @@
 
 import { EventEmitter } from 'node:events';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
 import type {
   ManagerConfig,
   ServerConfig,
   LifecycleConfig,
+  HttpServerConfig,
+  SseServerConfig,
 } from '../types/config.js';
 import type { ServerStateSummary, ServerStatus } from '../types/state.js';
 import type {
@@ -19,6 +22,7 @@ import type {
   ManagerEventType,
 } from '../types/events.js';
 import { ServerLifecycle } from '../core/server-lifecycle.js';
+import type { InteractiveOAuthProvider } from '../core/http-connection.js';
 import { ConfigLoader } from './config-loader.js';
 import { createLogger, type Logger, type LoggerFactory } from '../utils/logger.js';
 
@@ -30,6 +34,20 @@ export interface ServerManagerOptions {
   loggerFactory?: LoggerFactory;
   /** Whether to auto-start servers marked with autoStart: true (default: true) */
   autoStart?: boolean;
+  /**
+   * Capabilities each MCP client declares during initialization.
+   * Must be set up front: the SDK rejects request handlers (e.g. sampling)
+   * for capabilities that weren't declared at connect time.
+   */
+  clientCapabilities?: ClientCapabilities;
+  /**
+   * OAuth provider for an HTTP or SSE server, or undefined if it needs
+   * none. Called once per server when its lifecycle is created.
+   */
+  authProviderFactory?: (
+    serverName: string,
+    config: HttpServerConfig | SseServerConfig
+  ) => InteractiveOAuthProvider | undefined;
 }
 
 /**
@@ -46,6 +64,8 @@ export class ServerManager extends EventEmitter {
   private servers: Map<string, ServerLifecycle> = new Map();
   private logger: Logger;
   private loggerFactory?: LoggerFactory;
+  private clientCapabilities?: ClientCapabilities;
+  private authProviderFactory?: ServerManagerOptions['authProviderFactory'];
   private started = false;
   private shuttingDown = false;
 
@@ -53,6 +73,8 @@ export class ServerManager extends EventEmitter {
     super();
     this.config = config;
     this.loggerFactory = options?.loggerFactory;
+    this.clientCapabilities = options?.clientCapabilities;
+    this.authProviderFactory = options?.authProviderFactory;
     this.logger = options?.loggerFactory?.createLogger('ServerManager') ??
       createLogger('ServerManager');
 
@@ -89,19 +111,7 @@ export class ServerManager extends EventEmitter {
    */
   private initializeServers(): void {
     for (const serverConfig of this.config.servers) {
-      const lifecycle = new ServerLifecycle(
-        serverConfig,
-        this.config.defaults,
-        this.loggerFactory?.createLogger(`Server:${serverConfig.name}`)
-      );
-
-      // Forward all events
-      lifecycle.on('*', (event: LifecycleEvent) => {
-        this.emit(event.type, event);
-        this.emit('*', event);
-      });
-
-      this.servers.set(serverConfig.name, lifecycle);
+      this.servers.set(serverConfig.name, this.createLifecycle(serverConfig));
     }
 
     this.logger.info('Initialized servers', {
@@ -110,6 +120,33 @@ export class ServerManager extends EventEmitter {
     });
   }
 
+  /**
+   * Creates a server lifecycle that forwards its events through the manager
+   */
+  private createLifecycle(config: ServerConfig): ServerLifecycle {
+    const { connection } = config;
+    const authProvider =
+      connection.type === 'http' || connection.type === 'sse'
+        ? this.authProviderFactory?.(config.name, connection)
+        : undefined;
+
+    const lifecycle = new ServerLifecycle(
+      config,
+      this.config.defaults,
+      this.loggerFactory?.createLogger(`Server:${config.name}`),
+      this.clientCapabilities,
+      authProvider
+    );
+
+    // Forward all events
+    lifecycle.on('*', (event: LifecycleEvent) => {
+      this.emit(event.type, event);
+      this.emit('*', event);
+    });
+
+    return lifecycle;
+  }
+
   /**
    * Starts all servers configured for auto-start
    */
@@ -134,10 +171,12 @@ export class ServerManager extends EventEmitter {
         names: autoStartServers.map((s) => s.name),
       });
 
-      // Start servers in parallel
+      // Start servers in parallel; lazy ones go to sleep until first used
       await Promise.allSettled(
         autoStartServers.map((serverConfig) =>
-          this.startServer(serverConfig.name)
+          serverConfig.startMode === 'lazy'
+            ? this.servers.get(serverConfig.name)!.sleep('lazy')
+            : this.startServer(serverConfig.name)
         )
       );
     }
@@ -224,6 +263,31 @@ export class ServerManager extends EventEmitter {
     await lifecycle.restart();
   }
 
+  /**
+   * Gets the MCP client for a server, waking it first if it is asleep
+   */
+  async wakeServer(name: string): Promise<Client> {
+    const lifecycle = this.servers.get(name);
+    if (!lifecycle) {
+      throw new Error(`Server not found: ${name}`);
+    }
+
+    return lifecycle.wake();
+  }
+
+  /**
+   * Runs a request against a server, waking it first if it is asleep.
+   * Requests made this way keep the server from idling out.
+   */
+  async useClient<T>(name: string, request: (client: Client) => Promise<T>): Promise<T> {
+    const lifecycle = this.servers.get(name);
+    if (!lifecycle) {
+      throw new Error(`Server not found: ${name}`);
+    }
+
+    return lifecycle.use(request);
+  }
+
   /**
    * Gets the status of a specific server
    */
@@ -306,19 +370,7 @@ export class ServerManager extends EventEmitter {
       throw new Error(`Server already exists: ${config.name}`);
     }
 
-    const lifecycle = new ServerLifecycle(
-      config,
-      this.config.defaults,
-      this.loggerFactory?.createLogger(`Server:${config.name}`)
-    );
-
-    // Forward all events
-    lifecycle.on('*', (event: LifecycleEvent) => {
-      this.emit(event.type, event);
-      this.emit('*', event);
-    });
-
-    this.servers.set(config.name, lifecycle);
+    this.servers.set(config.name, this.createLifecycle(config));
     this.config.servers.push(config);
 
     this.logger.info('Added new server', { name: config.name });
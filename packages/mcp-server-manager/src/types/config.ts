@@ -2,6 +2,8 @@
  * Configuration types for MCP server connections and lifecycle management
  */
 
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+
 /**
  * Configuration for stdio-based server connections
  */
@@ -26,12 +28,122 @@ export interface HttpServerConfig {
   url: string;
   /** HTTP headers to include with requests */
   headers?: Record<string, string>;
+  /**
+   * 'streamable' (default): Streamable HTTP only.
+   * 'auto': try Streamable HTTP and fall back to the legacy HTTP+SSE
+   * transport when the server answers with a 4xx status.
+   */
+  mode?: 'streamable' | 'auto';
+}
+
+/**
+ * Configuration for servers on the legacy HTTP+SSE transport
+ */
+export interface SseServerConfig {
+  type: 'sse';
+  /** URL of the SSE endpoint */
+  url: string;
+  /** HTTP headers to include with requests */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Configuration for WebSocket-based server connections.
+ * Needs a runtime with a global WebSocket (Node 22+, Electron, browsers).
+ */
+export interface WebSocketServerConfig {
+  type: 'websocket';
+  /** ws:// or wss:// URL of the server */
+  url: string;
+}
+
+/**
+ * An MCP server object that can be mounted in-process: the SDK's McpServer
+ * or low-level Server both fit.
+ */
+export interface InProcessServer {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * A mounted server plus whatever must be released when it goes away
+ */
+export interface InProcessServerInstance {
+  server: InProcessServer;
+  cleanup?: () => void | Promise<void>;
+}
+
+/**
+ * Configuration for a server that runs inside the manager's process,
+ * linked to its client by an in-memory transport. Only usable from code
+ * (ServerManager.fromConfig / addServer), not from a JSON config file.
+ */
+export interface InProcessServerConfig {
+  type: 'in-process';
+  /**
+   * Creates the server. Called on every connect, so a restart gets a
+   * fresh instance.
+   */
+  createServer: () =>
+    | InProcessServer
+    | InProcessServerInstance
+    | Promise<InProcessServer | InProcessServerInstance>;
 }
 
 /**
  * Union type for server connection configurations
  */
-export type ServerConnectionConfig = StdioServerConfig | HttpServerConfig;
+export type ServerConnectionConfig =
+  | StdioServerConfig
+  | HttpServerConfig
+  | SseServerConfig
+  | WebSocketServerConfig
+  | InProcessServerConfig;
+
+/**
+ * Settings shared by every health probe
+ */
+interface HealthProbeBase {
+  /**
+   * Latency SLO: a probe that succeeds but takes longer than this counts
+   * as a failed check
+   */
+  maxLatencyMs?: number;
+}
+
+/** `ping` must succeed */
+export interface PingProbe extends HealthProbeBase {
+  type: 'ping';
+}
+
+/** `tools/list` must succeed */
+export interface ListToolsProbe extends HealthProbeBase {
+  type: 'list-tools';
+}
+
+/**
+ * Call a tool with fixed arguments; the call must succeed without
+ * `isError`. Only tools annotated `readOnlyHint: true` are called.
+ */
+export interface CallToolProbe extends HealthProbeBase {
+  type: 'call-tool';
+  /** Tool name as the server lists it */
+  name: string;
+  arguments?: Record<string, unknown>;
+}
+
+/** `resources/read` of a fixed URI must succeed */
+export interface ReadResourceProbe extends HealthProbeBase {
+  type: 'read-resource';
+  uri: string;
+}
+
+/**
+ * One step of a health check. Probes run in order; the check passes only
+ * if every probe passes.
+ */
+export type HealthProbe = PingProbe | ListToolsProbe | CallToolProbe | ReadResourceProbe;
 
 /**
  * Lifecycle configuration options for a server
@@ -41,8 +153,10 @@ export interface LifecycleConfig {
   healthCheckEnabled?: boolean;
   /** Interval between health checks in milliseconds (default: 30000) */
   healthCheckIntervalMs?: number;
-  /** Timeout for individual health check in milliseconds (default: 5000) */
+  /** Timeout for each health probe in milliseconds (default: 5000) */
   healthCheckTimeoutMs?: number;
+  /** Probes run by each health check (default: a single ping) */
+  healthProbes?: HealthProbe[];
   /** Number of consecutive failures before marking unhealthy (default: 3) */
   unhealthyThreshold?: number;
   /** Enable automatic restart on failure (default: true) */
@@ -55,6 +169,11 @@ export interface LifecycleConfig {
   restartBackoffMaxMs?: number;
   /** Timeout for graceful shutdown in milliseconds (default: 10000) */
   shutdownTimeoutMs?: number;
+  /**
+   * Put the server to sleep after this long without a request made
+   * through ServerLifecycle.use (default: 0, never)
+   */
+  idleTimeoutMs?: number;
 }
 
 /**
@@ -63,12 +182,17 @@ export interface LifecycleConfig {
 export interface ServerConfig {
   /** Unique identifier for the server */
   name: string;
-  /** Connection configuration (stdio or HTTP) */
+  /** Connection configuration (stdio, HTTP, SSE, WebSocket or in-process) */
   connection: ServerConnectionConfig;
   /** Optional lifecycle configuration (defaults applied if not specified) */
   lifecycle?: LifecycleConfig;
   /** Whether this server should auto-start with the manager (default: true) */
   autoStart?: boolean;
+  /**
+   * 'eager' (default): connect when the manager starts.
+   * 'lazy': start asleep and connect on the first request.
+   */
+  startMode?: 'eager' | 'lazy';
 }
 
 /**
@@ -88,12 +212,14 @@ export const DEFAULT_LIFECYCLE_CONFIG: Required<LifecycleConfig> = {
   healthCheckEnabled: true,
   healthCheckIntervalMs: 30000,
   healthCheckTimeoutMs: 5000,
+  healthProbes: [{ type: 'ping' }],
   unhealthyThreshold: 3,
   autoRestartEnabled: true,
   maxRestartAttempts: 5,
   restartBackoffBaseMs: 1000,
   restartBackoffMaxMs: 30000,
   shutdownTimeoutMs: 10000,
+  idleTimeoutMs: 0,
 };
 
 /**
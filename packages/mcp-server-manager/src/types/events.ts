@@ -102,6 +102,16 @@ export interface ServerStoppedEvent extends BaseServerEvent {
   graceful: boolean;
 }
 
+/**
+ * Event emitted when a server is put to sleep. A sleeping server has no
+ * connection and wakes on its next request.
+ */
+export interface ServerSleepingEvent extends BaseServerEvent {
+  type: 'server:sleeping';
+  /** 'lazy': never started yet; 'idle': stopped after the idle timeout */
+  reason: 'lazy' | 'idle';
+}
+
 /**
  * Event emitted when a server starts connecting
  */
@@ -139,6 +149,7 @@ export type LifecycleEvent =
   | ServerRestartSucceededEvent
   | ServerRestartFailedEvent
   | ServerStoppedEvent
+  | ServerSleepingEvent
   | ServerConnectingEvent
   | ServerConnectedEvent
   | ServerConnectionFailedEvent;
@@ -160,6 +171,7 @@ export interface LifecycleEventMap {
   'server:restart-succeeded': ServerRestartSucceededEvent;
   'server:restart-failed': ServerRestartFailedEvent;
   'server:stopped': ServerStoppedEvent;
+  'server:sleeping': ServerSleepingEvent;
   'server:connecting': ServerConnectingEvent;
   'server:connected': ServerConnectedEvent;
   'server:connection-failed': ServerConnectionFailedEvent;
@@ -2,15 +2,20 @@
  * State types for MCP server lifecycle management
  */
 
+import type { HealthProbe } from './config.js';
+
 /**
  * Possible states for a managed server
  *
  * State transitions:
  * - disconnected → connecting (on start)
+ * - disconnected → sleeping (lazy start: connect on first use)
  * - connecting → connected (on successful connection)
  * - connecting → failed (on connection error, max retries exceeded)
  * - connected → unhealthy (on health check failures)
  * - connected → disconnected (on graceful stop)
+ * - connected → sleeping (idle timeout)
+ * - sleeping → connecting (woken by a request)
  * - unhealthy → connected (on health check recovery)
  * - unhealthy → restarting (on auto-restart trigger)
  * - restarting → connecting (restart initiated)
@@ -24,7 +29,32 @@ export type ServerStatus =
   | 'unhealthy'
   | 'restarting'
   | 'failed'
-  | 'stopped';
+  | 'stopped'
+  | 'sleeping';
+
+/**
+ * Transport a connected server actually uses. For HTTP servers in 'auto'
+ * mode this is the result of negotiation.
+ */
+export type ConnectionTransport = 'stdio' | 'streamable-http' | 'sse' | 'websocket' | 'in-process';
+
+/**
+ * Result of one probe within a health check
+ */
+export interface HealthProbeResult {
+  /** Probe type */
+  type: HealthProbe['type'];
+  /** Tool name or resource URI, for probes that have one */
+  target?: string;
+  /** Whether the probe succeeded within its latency SLO */
+  healthy: boolean;
+  /** Time taken by the probe in milliseconds */
+  latencyMs: number;
+  /** The probe succeeded but exceeded its maxLatencyMs */
+  sloBreached?: boolean;
+  /** Error message if the probe failed */
+  error?: string;
+}
 
 /**
  * Result of a health check operation
@@ -38,6 +68,8 @@ export interface HealthCheckResult {
   error?: string;
   /** Timestamp of the health check */
   timestamp: Date;
+  /** Per-probe results, in the order the probes ran */
+  probes?: HealthProbeResult[];
 }
 
 /**
@@ -68,6 +100,8 @@ export interface ServerState {
   restartStats: RestartStats;
   /** Process ID for stdio servers */
   pid?: number;
+  /** Transport of the current (or last) connection */
+  transport?: ConnectionTransport;
   /** Error message if in failed state */
   error?: string;
 }
@@ -100,6 +134,8 @@ export interface ServerStateSummary {
   timeInStatus: number;
   /** Process ID if applicable */
   pid?: number;
+  /** Transport in use, once connected */
+  transport?: ConnectionTransport;
   /** Last health check latency if available */
   lastLatencyMs?: number;
   /** Restart attempt count */
@@ -118,6 +154,7 @@ export function toStateSummary(name: string, state: ServerState): ServerStateSum
     healthy: state.status === 'connected',
     timeInStatus: Date.now() - state.statusChangedAt.getTime(),
     pid: state.pid,
+    transport: state.transport,
     lastLatencyMs: state.lastHealthCheck?.latencyMs,
     restartAttempts: state.restartStats.attempts,
     error: state.error,
@@ -4,6 +4,7 @@ import {
   createServerConfig,
   createStdioConfig,
   createHttpConfig,
+  createSseConfig,
 } from '../src/manager/config-loader.js';
 import { DEFAULT_LIFECYCLE_CONFIG } from '../src/types/config.js';
 
@@ -48,6 +49,93 @@ describe('ConfigLoader', () => {
       expect(result.errors).toHaveLength(0);
     });
 
+    it('validates an sse server config and http auto mode', () => {
+      const config = {
+        servers: [
+          { name: 'legacy', connection: { type: 'sse', url: 'http://localhost:3000/sse' } },
+          { name: 'either', connection: { type: 'http', url: 'http://localhost:3001/mcp', mode: 'auto' } },
+        ],
+      };
+
+      const result = loader.validate(config);
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('validates websocket and in-process connections', () => {
+      const config = {
+        servers: [
+          { name: 'socket', connection: { type: 'websocket', url: 'ws://localhost:3000' } },
+          { name: 'bad-socket', connection: { type: 'websocket', url: 'http://localhost:3000' } },
+          { name: 'inline', connection: { type: 'in-process', createServer: () => ({}) } },
+          { name: 'bad-inline', connection: { type: 'in-process' } },
+        ],
+      };
+
+      const result = loader.validate(config);
+      expect(result.errors).toEqual([
+        { path: 'servers[1].connection.url', message: 'Must be a ws:// or wss:// URL' },
+        { path: 'servers[3].connection.createServer', message: 'Must be a function' },
+      ]);
+    });
+
+    it('validates health probes', () => {
+      const config = {
+        servers: [
+          {
+            name: 'test',
+            connection: { type: 'stdio', command: 'node' },
+            lifecycle: {
+              healthProbes: [
+                { type: 'ping', maxLatencyMs: 250 },
+                { type: 'call-tool' },
+                { type: 'read-resource', uri: 'status://db', maxLatencyMs: -1 },
+                { type: 'shell' },
+              ],
+            },
+          },
+        ],
+      };
+
+      const result = loader.validate(config);
+      expect(result.errors).toEqual([
+        { path: 'servers[0].lifecycle.healthProbes[1].name', message: 'Must be a non-empty string' },
+        { path: 'servers[0].lifecycle.healthProbes[2].maxLatencyMs', message: 'Must be a non-negative number' },
+        {
+          path: 'servers[0].lifecycle.healthProbes[3].type',
+          message: 'Must be "ping", "list-tools", "call-tool" or "read-resource"',
+        },
+      ]);
+    });
+
+    it('rejects an unknown http mode', () => {
+      const config = {
+        servers: [{ name: 'test', connection: { type: 'http', url: 'http://localhost:3000', mode: 'sse' } }],
+      };
+
+      const result = loader.validate(config);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual({
+        path: 'servers[0].connection.mode',
+        message: 'Must be "streamable" or "auto"',
+      });
+    });
+
+    it('validates start mode and idle timeout', () => {
+      const config = {
+        servers: [
+          { name: 'lazy', connection: { type: 'stdio', command: 'node' }, startMode: 'lazy', lifecycle: { idleTimeoutMs: 60000 } },
+          { name: 'bad', connection: { type: 'stdio', command: 'node' }, startMode: 'later', lifecycle: { idleTimeoutMs: -1 } },
+        ],
+      };
+
+      const result = loader.validate(config);
+      expect(result.errors).toEqual([
+        { path: 'servers[1].lifecycle.idleTimeoutMs', message: 'Must be a non-negative number' },
+        { path: 'servers[1].startMode', message: 'Must be "eager" or "lazy"' },
+      ]);
+    });
+
     it('rejects missing servers array', () => {
       const config = {};
 
@@ -116,7 +204,7 @@ describe('ConfigLoader', () => {
       expect(result.valid).toBe(false);
       expect(result.errors).toContainEqual({
         path: 'servers[0].connection.type',
-        message: 'Must be "stdio" or "http"',
+        message: 'Must be "stdio", "http", "sse", "websocket" or "in-process"',
       });
     });
 
@@ -322,3 +410,10 @@ describe('createHttpConfig', () => {
     expect(config.headers).toEqual({ Authorization: 'Bearer token' });
   });
 });
+
+describe('createSseConfig', () => {
+  it('creates an sse config with url and headers', () => {
+    const config = createSseConfig('http://localhost:3000/sse', { 'X-Key': 'k' });
+    expect(config).toEqual({ type: 'sse', url: 'http://localhost:3000/sse', headers: { 'X-Key': 'k' } });
+  });
+});
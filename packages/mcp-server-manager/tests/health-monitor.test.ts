@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { HealthMonitor, type HealthMonitorCallbacks } from '../src/core/health-monitor.js';
 import type { HealthCheckResult } from '../src/types/state.js';
+import type { HealthProbe } from '../src/types/config.js';
 
 // Mock MCP client
 const createMockClient = () => ({
@@ -220,4 +221,99 @@ describe('HealthMonitor', () => {
       expect(result.error).toBe('No client available');
     });
   });
+
+  describe('probes', () => {
+    const createProbeClient = () => ({
+      ping: vi.fn().mockResolvedValue({}),
+      listTools: vi.fn().mockResolvedValue({
+        tools: [
+          { name: 'status', inputSchema: { type: 'object' }, annotations: { readOnlyHint: true } },
+          { name: 'delete-all', inputSchema: { type: 'object' } },
+        ],
+      }),
+      callTool: vi.fn().mockResolvedValue({ content: [] }),
+      readResource: vi.fn().mockResolvedValue({ contents: [] }),
+    });
+
+    function createProbeMonitor(probes: HealthProbe[]) {
+      return new HealthMonitor('test-server', { intervalMs: 1000, timeoutMs: 500, unhealthyThreshold: 1, probes }, callbacks);
+    }
+
+    it('runs every probe and records each result', async () => {
+      const client = createProbeClient();
+      const probeMonitor = createProbeMonitor([
+        { type: 'ping' },
+        { type: 'list-tools' },
+        { type: 'call-tool', name: 'status', arguments: { verbose: false } },
+        { type: 'read-resource', uri: 'status://backend' },
+      ]);
+      probeMonitor.setClient(client as any);
+
+      const result = await probeMonitor.checkNow();
+
+      expect(result.healthy).toBe(true);
+      expect(result.probes?.map((p) => [p.type, p.target, p.healthy])).toEqual([
+        ['ping', undefined, true],
+        ['list-tools', undefined, true],
+        ['call-tool', 'status', true],
+        ['read-resource', 'status://backend', true],
+      ]);
+      expect(client.callTool).toHaveBeenCalledWith({ name: 'status', arguments: { verbose: false } });
+      expect(client.readResource).toHaveBeenCalledWith({ uri: 'status://backend' });
+    });
+
+    it('stops at the first failing probe', async () => {
+      const client = createProbeClient();
+      client.listTools.mockRejectedValue(new Error('Backend down'));
+      const probeMonitor = createProbeMonitor([{ type: 'list-tools' }, { type: 'read-resource', uri: 'status://backend' }]);
+      probeMonitor.setClient(client as any);
+
+      const result = await probeMonitor.checkNow();
+
+      expect(result.healthy).toBe(false);
+      expect(result.error).toBe('Backend down');
+      expect(result.probes).toHaveLength(1);
+      expect(client.readResource).not.toHaveBeenCalled();
+    });
+
+    it('fails a tool probe whose result is an error', async () => {
+      const client = createProbeClient();
+      client.callTool.mockResolvedValue({ content: [], isError: true });
+      const probeMonitor = createProbeMonitor([{ type: 'call-tool', name: 'status' }]);
+      probeMonitor.setClient(client as any);
+
+      const result = await probeMonitor.checkNow();
+
+      expect(result.healthy).toBe(false);
+      expect(result.error).toBe('Tool "status" returned an error');
+    });
+
+    it('refuses to call tools that are not read-only', async () => {
+      const client = createProbeClient();
+      const probeMonitor = createProbeMonitor([{ type: 'call-tool', name: 'delete-all' }]);
+      probeMonitor.setClient(client as any);
+
+      const result = await probeMonitor.checkNow();
+
+      expect(result.healthy).toBe(false);
+      expect(result.error).toContain('not annotated readOnlyHint');
+      expect(client.callTool).not.toHaveBeenCalled();
+    });
+
+    it('marks the server unhealthy when a probe breaches its latency SLO', async () => {
+      const client = createProbeClient();
+      client.ping.mockImplementation(() => new Promise((resolve) => setTimeout(() => resolve({}), 200)));
+      const probeMonitor = createProbeMonitor([{ type: 'ping', maxLatencyMs: 100 }]);
+      probeMonitor.setClient(client as any);
+
+      probeMonitor.start();
+      await vi.advanceTimersByTimeAsync(200);
+      probeMonitor.stop();
+
+      expect(onHealthCheckResults[0].healthy).toBe(false);
+      expect(onHealthCheckResults[0].probes?.[0]).toMatchObject({ sloBreached: true, latencyMs: 200 });
+      expect(onHealthCheckResults[0].error).toBe('ping took 200ms, over its 100ms SLO');
+      expect(onUnhealthyCalls).toHaveLength(1);
+    });
+  });
 });
@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest';
-import { HttpConnection, createFetchOptions } from '../src/core/http-connection.js';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { HttpConnection, createFetchOptions, shouldFallBackToSse } from '../src/core/http-connection.js';
 import type { HttpServerConfig } from '../src/types/config.js';
 
 describe('HttpConnection', () => {
@@ -60,6 +61,69 @@ describe('HttpConnection', () => {
     });
   });
 
+  describe('createTransport', () => {
+    const ping = { jsonrpc: '2.0' as const, id: 1, method: 'ping' };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function stubFetch(response: () => Response) {
+      const fetchMock = vi.fn(async (_url: string | URL, _init?: RequestInit) => response());
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    function sentHeaders(fetchMock: ReturnType<typeof stubFetch>, call = 0): Headers {
+      return new Headers(fetchMock.mock.calls[call][1]?.headers);
+    }
+
+    it('sends the configured headers and the session id', async () => {
+      const fetchMock = stubFetch(() => new Response(null, { status: 202 }));
+      const conn = new HttpConnection('test', validConfig);
+      const transport = conn.createTransport({ sessionId: 'session-1' });
+
+      await transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+      const headers = sentHeaders(fetchMock);
+      expect(headers.get('authorization')).toBe('Bearer token');
+      expect(headers.get('mcp-session-id')).toBe('session-1');
+      expect(transport.sessionId).toBe('session-1');
+    });
+
+    it('remembers the last SSE event id of a response stream', async () => {
+      stubFetch(
+        () =>
+          new Response(`id: evt-7\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: 1, result: {} })}\n\n`, {
+            status: 200,
+            headers: { 'content-type': 'text/event-stream' },
+          })
+      );
+      const conn = new HttpConnection('test', validConfig);
+      const transport = conn.createTransport();
+      const received = new Promise((resolve) => {
+        transport.onmessage = resolve;
+      });
+
+      await transport.send(ping);
+      await received;
+
+      expect(transport.lastEventId).toBe('evt-7');
+    });
+
+    it('resumes the standalone stream from the last event id', async () => {
+      // 405: the server offers no standalone stream, which is not an error
+      const fetchMock = stubFetch(() => new Response(null, { status: 405 }));
+      const conn = new HttpConnection('test', validConfig);
+      const transport = conn.createTransport({ sessionId: 'session-1', lastEventId: 'evt-7' });
+
+      await transport.openStream();
+
+      expect(fetchMock.mock.calls[0][1]?.method).toBe('GET');
+      expect(sentHeaders(fetchMock).get('last-event-id')).toBe('evt-7');
+    });
+  });
+
   describe('getUrl', () => {
     it('returns the URL', () => {
       const conn = new HttpConnection('test', validConfig);
@@ -88,6 +152,19 @@ describe('HttpConnection', () => {
   });
 });
 
+describe('shouldFallBackToSse', () => {
+  it('falls back on 4xx answers to Streamable HTTP', () => {
+    expect(shouldFallBackToSse(new StreamableHTTPError(404, 'Not Found'))).toBe(true);
+    expect(shouldFallBackToSse(new StreamableHTTPError(405, 'Method Not Allowed'))).toBe(true);
+  });
+
+  it('leaves auth, server and network errors alone', () => {
+    expect(shouldFallBackToSse(new StreamableHTTPError(401, 'Unauthorized'))).toBe(false);
+    expect(shouldFallBackToSse(new StreamableHTTPError(500, 'Internal Server Error'))).toBe(false);
+    expect(shouldFallBackToSse(new TypeError('fetch failed'))).toBe(false);
+  });
+});
+
 describe('createFetchOptions', () => {
   it('creates fetch options with headers', () => {
     const config: HttpServerConfig = {
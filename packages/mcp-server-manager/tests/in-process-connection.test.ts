@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ServerLifecycle } from '../src/core/server-lifecycle.js';
+import { mountInProcessServer } from '../src/core/in-process-connection.js';
+import { createInProcessConfig, createServerConfig } from '../src/manager/config-loader.js';
+import { NoopLogger } from '../src/utils/logger.js';
+
+function createEchoServer(): McpServer {
+  const server = new McpServer({ name: 'echo', version: '1.0.0' });
+  server.registerTool('echo', { description: 'Echo the input' }, async () => ({
+    content: [{ type: 'text', text: 'hello' }],
+  }));
+  return server;
+}
+
+describe('mountInProcessServer', () => {
+  it('accepts a server instance with a cleanup callback', async () => {
+    const cleanup = vi.fn();
+    const mount = await mountInProcessServer(
+      createInProcessConfig(() => ({ server: createEchoServer(), cleanup }))
+    );
+
+    await mount.close();
+    await mount.close();
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs cleanup when the server fails to connect', async () => {
+    const cleanup = vi.fn();
+    const server = {
+      connect: vi.fn().mockRejectedValue(new Error('boom')),
+      close: vi.fn(),
+    };
+
+    await expect(mountInProcessServer(createInProcessConfig(() => ({ server, cleanup })))).rejects.toThrow('boom');
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ServerLifecycle (in-process)', () => {
+  let lifecycle: ServerLifecycle | null = null;
+
+  afterEach(async () => {
+    await lifecycle?.stop();
+    lifecycle = null;
+  });
+
+  function createLifecycle(createServer: () => McpServer | { server: McpServer; cleanup: () => void }) {
+    lifecycle = new ServerLifecycle(
+      createServerConfig('echo', createInProcessConfig(createServer), {
+        lifecycle: { healthCheckEnabled: false, restartBackoffBaseMs: 1 },
+      }),
+      undefined,
+      new NoopLogger()
+    );
+    return lifecycle;
+  }
+
+  it('connects a client to the mounted server', async () => {
+    const server = createLifecycle(createEchoServer);
+
+    await server.start();
+
+    expect(server.getStateSummary()).toMatchObject({ status: 'connected', transport: 'in-process' });
+    const result = await server.getClient()!.callTool({ name: 'echo', arguments: {} });
+    expect(result.content).toEqual([{ type: 'text', text: 'hello' }]);
+  });
+
+  it('mounts a fresh server on restart and cleans up the old one', async () => {
+    const cleanups: Array<ReturnType<typeof vi.fn>> = [];
+    const server = createLifecycle(() => {
+      const cleanup = vi.fn();
+      cleanups.push(cleanup);
+      return { server: createEchoServer(), cleanup };
+    });
+
+    await server.start();
+    await server.restart();
+
+    expect(server.getStateSummary().status).toBe('connected');
+    expect(cleanups).toHaveLength(2);
+    expect(cleanups[0]).toHaveBeenCalledTimes(1);
+    expect(cleanups[1]).not.toHaveBeenCalled();
+
+    await server.stop();
+    expect(cleanups[1]).toHaveBeenCalledTimes(1);
+  });
+});
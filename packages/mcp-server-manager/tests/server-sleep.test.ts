@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ServerLifecycle } from '../src/core/server-lifecycle.js';
+import { ServerManager } from '../src/manager/server-manager.js';
+import { createInProcessConfig, createServerConfig } from '../src/manager/config-loader.js';
+import type { LifecycleConfig } from '../src/types/config.js';
+import { NoopLogger, NoopLoggerFactory } from '../src/utils/logger.js';
+
+function createEchoServer(): McpServer {
+  const server = new McpServer({ name: 'echo', version: '1.0.0' });
+  server.registerTool('echo', { description: 'Echo the input' }, async () => ({
+    content: [{ type: 'text', text: 'hello' }],
+  }));
+  return server;
+}
+
+describe('ServerLifecycle sleep', () => {
+  let lifecycle: ServerLifecycle | null = null;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await lifecycle?.stop();
+    lifecycle = null;
+  });
+
+  function createLifecycle(createServer = vi.fn(createEchoServer), lifecycleConfig: LifecycleConfig = {}) {
+    lifecycle = new ServerLifecycle(
+      createServerConfig('echo', createInProcessConfig(createServer), {
+        lifecycle: { healthCheckEnabled: false, ...lifecycleConfig },
+      }),
+      undefined,
+      new NoopLogger()
+    );
+    return lifecycle;
+  }
+
+  it('connects a lazy server on its first request', async () => {
+    const createServer = vi.fn(createEchoServer);
+    const server = createLifecycle(createServer);
+    const events: string[] = [];
+    server.onAnyEvent((event) => events.push(event.type));
+
+    await server.sleep('lazy');
+    expect(server.getStatus()).toBe('sleeping');
+    expect(createServer).not.toHaveBeenCalled();
+
+    const result = await server.use((client) => client.callTool({ name: 'echo', arguments: {} }));
+
+    expect(result.content).toEqual([{ type: 'text', text: 'hello' }]);
+    expect(server.getStatus()).toBe('connected');
+    expect(events).toContain('server:sleeping');
+  });
+
+  it('shares one connection attempt between concurrent requests', async () => {
+    const createServer = vi.fn(createEchoServer);
+    const server = createLifecycle(createServer);
+    await server.sleep('lazy');
+
+    const [a, b] = await Promise.all([server.wake(), server.wake()]);
+
+    expect(a).toBe(b);
+    expect(createServer).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports why a sleeping server could not be woken', async () => {
+    const server = createLifecycle(
+      vi.fn(() => {
+        throw new Error('boom');
+      })
+    );
+    await server.sleep('lazy');
+
+    await expect(server.use(async () => 'never')).rejects.toThrow('Server "echo" is not connected (failed): boom');
+  });
+
+  it('goes to sleep after the idle timeout and wakes again', async () => {
+    vi.useFakeTimers();
+    const cleanup = vi.fn();
+    const createServer = vi.fn(() => ({ server: createEchoServer(), cleanup }));
+    const server = createLifecycle(createServer, { idleTimeoutMs: 1000 });
+
+    await server.start();
+    await server.use((client) => client.ping());
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(server.getStatus()).toBe('connected');
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(server.getStatus()).toBe('sleeping');
+    expect(cleanup).toHaveBeenCalledTimes(1);
+
+    await server.use((client) => client.ping());
+    expect(server.getStatus()).toBe('connected');
+    expect(createServer).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not idle out while a request is in flight', async () => {
+    vi.useFakeTimers();
+    const server = createLifecycle(undefined, { idleTimeoutMs: 1000 });
+    await server.start();
+
+    let finish!: () => void;
+    const request = server.use(() => new Promise<void>((resolve) => (finish = resolve)));
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(server.getStatus()).toBe('connected');
+
+    finish();
+    await request;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(server.getStatus()).toBe('sleeping');
+  });
+});
+
+describe('ServerManager lazy start', () => {
+  it('puts lazy servers to sleep and wakes them on use', async () => {
+    const createServer = vi.fn(createEchoServer);
+    const manager = new ServerManager(
+      {
+        servers: [
+          createServerConfig('lazy', createInProcessConfig(createServer), {
+            startMode: 'lazy',
+            lifecycle: { healthCheckEnabled: false },
+          }),
+        ],
+      },
+      { loggerFactory: new NoopLoggerFactory() }
+    );
+
+    await manager.start();
+    expect(manager.getServerStatus('lazy')).toBe('sleeping');
+    expect(manager.getConnectedClients().size).toBe(0);
+
+    const tools = await manager.useClient('lazy', (client) => client.listTools());
+    expect(tools.tools.map((tool) => tool.name)).toEqual(['echo']);
+    expect(manager.getServerStatus('lazy')).toBe('connected');
+
+    await manager.shutdown();
+    expect(manager.getServerStatus('lazy')).toBe('stopped');
+  });
+});
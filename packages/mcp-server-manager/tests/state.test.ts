@@ -42,6 +42,7 @@ describe('toStateSummary', () => {
         lastSuccess: true,
       },
       pid: 12345,
+      transport: 'stdio',
     };
 
     const summary = toStateSummary('my-server', state);
@@ -51,6 +52,7 @@ describe('toStateSummary', () => {
     expect(summary.healthy).toBe(true);
     expect(summary.timeInStatus).toBeGreaterThanOrEqual(5000);
     expect(summary.pid).toBe(12345);
+    expect(summary.transport).toBe('stdio');
     expect(summary.lastLatencyMs).toBe(50);
     expect(summary.restartAttempts).toBe(2);
   });
@@ -93,6 +95,7 @@ describe('toStateSummary', () => {
     const summary = toStateSummary('server', state);
 
     expect(summary.pid).toBeUndefined();
+    expect(summary.transport).toBeUndefined();
     expect(summary.lastLatencyMs).toBeUndefined();
     expect(summary.error).toBeUndefined();
   });
@@ -14,11 +14,27 @@
  *
  *   setupElicitation(client);
  *   await client.connect(transport);
+ *
+ * URL mode: the server sends a URL (e.g. a third-party consent page) and an
+ * elicitationId. Accepting means the user agreed to open it; the server
+ * later sends notifications/elicitation/complete with the same id once the
+ * out-of-band flow finishes. Tool calls that fail with a URL elicitation
+ * required error (-32042) can be retried after completion with
+ * withUrlElicitation().
  */
 
 import { createInterface } from 'node:readline';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { ElicitRequestSchema, type ElicitResult, type ElicitRequest, type CreateTaskResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ElicitRequestSchema,
+  ElicitationCompleteNotificationSchema,
+  ErrorCode,
+  McpError,
+  type CreateTaskResult,
+  type ElicitRequest,
+  type ElicitRequestURLParams,
+  type ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
 import { log } from '../logging.js';
 
 // ============================================================================
@@ -29,13 +45,15 @@ export interface ElicitationConfig {
   /** Custom handler for form mode (default: terminal prompt) */
   onForm?: (message: string, schema?: Record<string, unknown>) => Promise<ElicitResult>;
   /** Custom handler for URL mode (default: log URL to console) */
-  onUrl?: (url: string, message: string) => Promise<ElicitResult>;
+  onUrl?: (url: string, message: string, elicitationId: string) => Promise<ElicitResult>;
+  /** Called when the server reports a URL-mode elicitation finished */
+  onComplete?: (elicitationId: string) => void;
   /** Log callback for status messages */
   onLog?: (message: string) => void;
 }
 
-// Re-export the SDK type for convenience
-export type { ElicitResult as ElicitationResult };
+// Re-export the SDK types for convenience
+export type { ElicitResult as ElicitationResult, ElicitRequestURLParams as UrlElicitation };
 
 // ============================================================================
 // SETUP FUNCTION
@@ -81,6 +99,12 @@ async function executeElicitation(
 export function setupElicitation(client: Client, config: ElicitationConfig = {}): void {
   const logMsg = config.onLog ?? log;
 
+  client.setNotificationHandler(ElicitationCompleteNotificationSchema, (notification) => {
+    const { elicitationId } = notification.params;
+    logMsg(`[Elicitation] Server completed URL elicitation ${elicitationId}`);
+    config.onComplete?.(elicitationId);
+  });
+
   // Handler receives extra from SDK which includes taskStore if client was configured with one
   client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
     const { params } = request;
@@ -181,26 +205,56 @@ async function handleFormMode(
 }
 
 async function handleUrlMode(
-  params: { message: string; requestedSchema?: Record<string, unknown> },
+  params: ElicitRequestURLParams,
   customHandler?: ElicitationConfig['onUrl']
 ): Promise<ElicitResult> {
-  const schema = params.requestedSchema as { url?: string } | undefined;
-  const url = schema?.url;
+  const { url, message, elicitationId } = params;
 
   if (!url) {
-    // No URL provided - decline silently (custom handler would have been called with empty URL anyway)
+    // No URL provided - nothing for the user to open
     return { action: 'decline' };
   }
 
   if (customHandler) {
-    return customHandler(url, params.message);
+    return customHandler(url, message, elicitationId);
   }
 
   // Default: CLI output and accept
   log(`\n[Elicitation] ${params.message}`);
   log(`  URL: ${url}`);
   log('  (Open this URL in your browser)');
-  return { action: 'accept', content: { redirected: true } };
+  return { action: 'accept' };
+}
+
+// ============================================================================
+// URL ELICITATION RETRY
+// ============================================================================
+
+/**
+ * Run a request, and if the server answers with a URL elicitation required
+ * error (-32042), hand each elicitation to `elicit` and retry once they all
+ * succeed. `elicit` should show the URL, open it if the user agrees, and
+ * resolve true once the server reports completion (false if the user
+ * declines or gives up). A second -32042 is not retried.
+ */
+export async function withUrlElicitation<T>(
+  request: () => Promise<T>,
+  elicit: (elicitation: ElicitRequestURLParams) => Promise<boolean>
+): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    if (!(error instanceof McpError) || error.code !== ErrorCode.UrlElicitationRequired) {
+      throw error;
+    }
+    const elicitations = (error.data as { elicitations?: ElicitRequestURLParams[] } | undefined)?.elicitations ?? [];
+    for (const elicitation of elicitations) {
+      if (!(await elicit(elicitation))) {
+        throw error;
+      }
+    }
+    return request();
+  }
 }
 
 // ============================================================================
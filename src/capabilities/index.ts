@@ -5,18 +5,43 @@
 export {
   setupSampling,
   formatContentForDisplay,
+  applySamplingEdits,
   type SamplingConfig,
   type SamplingRequest,
   type SamplingResponse,
   type SamplingCallbacks,
+  type SamplingApproval,
+  type SamplingResponseReview,
+  type SamplingDelta,
   type SamplingMessage,
   type Tool,
   type ToolChoice,
   type ApprovalMode,
 } from './sampling.js';
+export {
+  SamplingUsage,
+  checkSamplingPolicy,
+  describeViolation,
+  createPolicyError,
+  type SamplingPolicy,
+  type SamplingPolicyViolation,
+} from './sampling-policy.js';
 export { setupElicitation, type ElicitationConfig, type ElicitationResult } from './elicitation.js';
-export { setupRoots, pathToRoot } from './roots.js';
+export {
+  setupRoots,
+  pathToRoot,
+  RootsManager,
+  type RootsScope,
+  type RootsManagerOptions,
+} from './roots.js';
 export { setupListChanged, type ListChangedCallbacks } from './list-changed.js';
+export {
+  listAll,
+  DEFAULT_MAX_PAGES,
+  type ListItems,
+  type ListKind,
+  type PaginationOptions,
+} from './pagination.js';
 export { setupSubscriptions, serverSupportsSubscriptions } from './subscriptions.js';
 export { setupLogging, serverSupportsLogging, type LoggingLevel } from './logging.js';
 export {
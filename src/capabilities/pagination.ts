@@ -0,0 +1,106 @@
+/**
+ * Pagination - Read every page of a list request
+ *
+ * This module is standalone. Copy this file to page through paginated
+ * tools/list, prompts/list, resources/list and resources/templates/list
+ * responses in any MCP client.
+ *
+ * Usage:
+ *   import { listAll } from './capabilities/pagination.js';
+ *
+ *   const tools = await listAll(client, 'tools');
+ *   const templates = await listAll(client, 'resourceTemplates', {
+ *     maxPages: 10,
+ *     onTruncated: (kind) => console.warn(`More ${kind} than 10 pages`),
+ *   });
+ */
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Tool, Prompt, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Item type of each list, keyed by the field it arrives in.
+ */
+export interface ListItems {
+  tools: Tool;
+  prompts: Prompt;
+  resources: Resource;
+  resourceTemplates: ResourceTemplate;
+}
+
+export type ListKind = keyof ListItems;
+
+/** Pages read before giving up on a server that keeps returning cursors */
+export const DEFAULT_MAX_PAGES = 100;
+
+export interface PaginationOptions {
+  /** Stop after this many pages (default: 100) */
+  maxPages?: number;
+  /** Called when the cap cut a list short */
+  onTruncated?: (kind: ListKind) => void;
+}
+
+/** Server capability each list needs */
+const CAPABILITY: Record<ListKind, 'tools' | 'prompts' | 'resources'> = {
+  tools: 'tools',
+  prompts: 'prompts',
+  resources: 'resources',
+  resourceTemplates: 'resources',
+};
+
+/**
+ * Fetch one page of a list.
+ */
+async function listPage<K extends ListKind>(
+  client: Client,
+  kind: K,
+  cursor?: string
+): Promise<{ items: ListItems[K][]; nextCursor?: string }> {
+  const params = cursor ? { cursor } : undefined;
+  const page =
+    kind === 'tools'
+      ? await client.listTools(params)
+      : kind === 'prompts'
+        ? await client.listPrompts(params)
+        : kind === 'resources'
+          ? await client.listResources(params)
+          : await client.listResourceTemplates(params);
+  return {
+    items: (page as unknown as Record<K, ListItems[K][]>)[kind],
+    nextCursor: page.nextCursor,
+  };
+}
+
+/**
+ * Fetch every page of a list, following nextCursor up to the page cap.
+ * A server that doesn't declare the capability has an empty list (no
+ * round trip).
+ */
+export async function listAll<K extends ListKind>(
+  client: Client,
+  kind: K,
+  options?: PaginationOptions
+): Promise<ListItems[K][]> {
+  if (!client.getServerCapabilities()?.[CAPABILITY[kind]]) {
+    return [];
+  }
+
+  const maxPages = options?.maxPages ?? DEFAULT_MAX_PAGES;
+  const items: ListItems[K][] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+
+  for (let pages = 0; pages < maxPages; pages++) {
+    const page = await listPage(client, kind, cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+    // A server handing out the same cursor again would loop until the cap
+    if (!cursor || seen.has(cursor)) {
+      return items;
+    }
+    seen.add(cursor);
+  }
+
+  options?.onTruncated?.(kind);
+  return items;
+}
@@ -14,6 +14,14 @@
  *
  *   setupRoots(client, ['/workspace']);
  *   await client.connect(transport);
+ *
+ * For roots that change at runtime, use RootsManager: it answers roots/list
+ * for every attached client and sends notifications/roots/list_changed to
+ * the ones whose view actually changed.
+ *
+ *   const roots = new RootsManager({ paths: ['/workspace'], followWorkspace: true });
+ *   roots.setClients(clients);              // Map<serverName, Client>
+ *   await roots.setWorkspace('/repo');      // e.g. an agent session's cwd
  */
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
@@ -50,14 +58,141 @@ export function pathToRoot(path: string): Root {
   return { uri, name };
 }
 
-/*
- * For dynamic roots, manage state yourself:
- *
- *   let roots = ['/workspace'].map(pathToRoot);
- *
- *   client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots }));
- *
- *   // Later, update and notify:
- *   roots.push(pathToRoot('/new/path'));
- *   await client.sendRootsListChanged();
+// ============================================
+// Dynamic Roots
+// ============================================
+
+/**
+ * Per-server override of the shared roots (the "roots" block in servers.json).
+ */
+export interface RootsScope {
+  /** Replaces the shared paths for this server; [] exposes none */
+  paths?: string[];
+  /** Also expose the followed workspace directory (default true) */
+  workspace?: boolean;
+}
+
+export interface RootsManagerOptions {
+  /** Paths every server sees unless scoped */
+  paths?: string[];
+  /** Expose the current workspace directory (see setWorkspace) as a root */
+  followWorkspace?: boolean;
+  /** Per-server overrides keyed by server name */
+  scopes?: Record<string, RootsScope>;
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Roots shared by many clients that can change while they are connected.
  */
+export class RootsManager {
+  private paths: string[];
+  private followWorkspace: boolean;
+  private workspace: string | undefined;
+  private scopes: Record<string, RootsScope>;
+  private clients = new Map<string, Client>();
+  private log: (message: string) => void;
+
+  constructor(options: RootsManagerOptions = {}) {
+    this.paths = options.paths ?? [];
+    this.followWorkspace = options.followWorkspace ?? false;
+    this.scopes = options.scopes ?? {};
+    this.log = options.onLog ?? (() => {});
+  }
+
+  /**
+   * Roots a server sees: its scoped paths (or the shared ones), with the
+   * workspace first when followed. Duplicates are dropped.
+   */
+  getRoots(serverName: string): Root[] {
+    const scope = this.scopes[serverName];
+    const paths = [...(scope?.paths ?? this.paths)];
+    if (this.followWorkspace && this.workspace && scope?.workspace !== false) {
+      paths.unshift(this.workspace);
+    }
+
+    const seen = new Set<string>();
+    return paths.map(pathToRoot).filter((root) => {
+      if (seen.has(root.uri)) return false;
+      seen.add(root.uri);
+      return true;
+    });
+  }
+
+  getPaths(): string[] {
+    return [...this.paths];
+  }
+
+  isFollowingWorkspace(): boolean {
+    return this.followWorkspace;
+  }
+
+  getWorkspace(): string | undefined {
+    return this.workspace;
+  }
+
+  /** Whether a server has its own scope instead of the shared paths */
+  isScoped(serverName: string): boolean {
+    return serverName in this.scopes;
+  }
+
+  /**
+   * Serve roots/list on these clients. Replaces the previous set, so pass
+   * every connected client again after a reconnect.
+   */
+  setClients(clients: Map<string, Client>): void {
+    this.clients = new Map(clients);
+    for (const [serverName, client] of clients) {
+      client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: this.getRoots(serverName) }));
+    }
+  }
+
+  /**
+   * Replace the per-server overrides. No notification is sent: scopes come
+   * from the server config, and changing it reconnects the servers anyway.
+   */
+  setScopes(scopes: Record<string, RootsScope>): void {
+    this.scopes = scopes;
+  }
+
+  setPaths(paths: string[]): Promise<void> {
+    return this.update(() => {
+      this.paths = [...paths];
+    });
+  }
+
+  setFollowWorkspace(follow: boolean): Promise<void> {
+    return this.update(() => {
+      this.followWorkspace = follow;
+    });
+  }
+
+  /** The directory the user is working in; undefined clears it. */
+  setWorkspace(directory: string | undefined): Promise<void> {
+    return this.update(() => {
+      this.workspace = directory;
+    });
+  }
+
+  /**
+   * Apply a change and notify the clients whose roots differ afterwards.
+   * A server that fails to take the notification is logged, not retried.
+   */
+  private async update(change: () => void): Promise<void> {
+    const snapshot = (serverName: string) => JSON.stringify(this.getRoots(serverName));
+    const before = new Map([...this.clients.keys()].map((name) => [name, snapshot(name)]));
+    change();
+
+    const changed = [...this.clients].filter(([name]) => snapshot(name) !== before.get(name));
+    await Promise.all(
+      changed.map(async ([name, client]) => {
+        try {
+          await client.sendRootsListChanged();
+          this.log(`[Roots] Notified ${name}`);
+        } catch (error) {
+          this.log(`[Roots] Failed to notify ${name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      })
+    );
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Sampling Policy - Per-server limits for server-initiated LLM requests
+ *
+ * Policies live next to each server in servers.json:
+ *
+ *   "mcpServers": {
+ *     "summarizer": {
+ *       "transport": "stdio",
+ *       "command": "node",
+ *       "args": ["summarizer.js"],
+ *       "sampling": {
+ *         "autoApprove": true,
+ *         "maxRequestsPerMinute": 10,
+ *         "maxTokensPerRequest": 2048,
+ *         "dailyTokenBudget": 100000,
+ *         "allowedTools": ["search"]
+ *       }
+ *     }
+ *   }
+ *
+ * Checks run before the approval prompt, so the user is never asked about
+ * a request the policy would refuse. Violations are returned to the server
+ * as McpError(InvalidRequest) with a machine-readable `data.policy` field.
+ *
+ * A request's maxTokens is reserved against the daily budget as soon as it
+ * passes, and settled with the real usage once the generation ends, so
+ * requests running in parallel can't all pass against the same total.
+ */
+
+import { ErrorCode, McpError, type CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SamplingPolicy {
+  /** Skip the approval prompt for this server (trusted servers only) */
+  autoApprove?: boolean;
+  /** Requests accepted per rolling minute */
+  maxRequestsPerMinute?: number;
+  /** Upper bound on a request's maxTokens */
+  maxTokensPerRequest?: number;
+  /** Tokens (input + output) the server may consume per rolling 24 hours */
+  dailyTokenBudget?: number;
+  /** Tools a tool-enabled sampling request may offer the model */
+  allowedTools?: string[];
+}
+
+export type SamplingPolicyViolation =
+  | { policy: 'maxRequestsPerMinute'; limit: number; retryAfterMs: number }
+  | { policy: 'maxTokensPerRequest'; limit: number; requested: number }
+  | { policy: 'dailyTokenBudget'; limit: number; used: number; requested: number }
+  | { policy: 'allowedTools'; allowed: string[]; rejected: string[] };
+
+/** Tokens held against the daily budget while a request is in flight */
+export interface TokenReservation {
+  /** Replace the held amount, e.g. with the tokens actually spent (0 releases it) */
+  settle(count: number): void;
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ============================================================================
+// USAGE TRACKING
+// ============================================================================
+
+/**
+ * Rolling request and token usage for one server.
+ * Keep one instance per server across reconnects so limits aren't reset.
+ */
+export class SamplingUsage {
+  private requests: number[] = [];
+  private tokens: Array<{ at: number; count: number }> = [];
+
+  recordRequest(now = Date.now()): void {
+    this.requests.push(now);
+  }
+
+  recordTokens(count: number, now = Date.now()): void {
+    this.tokens.push({ at: now, count });
+  }
+
+  /** Count `count` tokens as used until the reservation is settled */
+  reserveTokens(count: number, now = Date.now()): TokenReservation {
+    const entry = { at: now, count };
+    this.tokens.push(entry);
+    return {
+      settle: (actual) => {
+        entry.count = actual;
+      },
+    };
+  }
+
+  /** Request timestamps within the last minute, oldest first */
+  requestsInLastMinute(now = Date.now()): number[] {
+    this.requests = this.requests.filter((at) => now - at < MINUTE_MS);
+    return this.requests;
+  }
+
+  tokensInLastDay(now = Date.now()): number {
+    this.tokens = this.tokens.filter((entry) => now - entry.at < DAY_MS);
+    return this.tokens.reduce((sum, entry) => sum + entry.count, 0);
+  }
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Check a request against a policy. Returns the first violation, if any.
+ *
+ * @param maxTokens - Effective max tokens (request value or client default)
+ */
+export function checkSamplingPolicy(
+  policy: SamplingPolicy,
+  params: CreateMessageRequest['params'],
+  maxTokens: number,
+  usage: SamplingUsage,
+  now = Date.now()
+): SamplingPolicyViolation | undefined {
+  if (policy.maxRequestsPerMinute !== undefined) {
+    const recent = usage.requestsInLastMinute(now);
+    if (recent.length >= policy.maxRequestsPerMinute) {
+      return {
+        policy: 'maxRequestsPerMinute',
+        limit: policy.maxRequestsPerMinute,
+        retryAfterMs: recent.length > 0 ? MINUTE_MS - (now - recent[0]) : MINUTE_MS,
+      };
+    }
+  }
+
+  if (policy.maxTokensPerRequest !== undefined && maxTokens > policy.maxTokensPerRequest) {
+    return { policy: 'maxTokensPerRequest', limit: policy.maxTokensPerRequest, requested: maxTokens };
+  }
+
+  const overBudget = checkTokenBudget(policy, maxTokens, usage, now);
+  if (overBudget) {
+    return overBudget;
+  }
+
+  if (policy.allowedTools !== undefined && params.tools && params.tools.length > 0) {
+    const rejected = params.tools
+      .map((tool) => tool.name)
+      .filter((name) => !policy.allowedTools!.includes(name));
+    if (rejected.length > 0) {
+      return { policy: 'allowedTools', allowed: policy.allowedTools, rejected };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check only the daily token budget, e.g. again after the user edited a
+ * request's maxTokens.
+ */
+export function checkTokenBudget(
+  policy: SamplingPolicy,
+  maxTokens: number,
+  usage: SamplingUsage,
+  now = Date.now()
+): SamplingPolicyViolation | undefined {
+  if (policy.dailyTokenBudget === undefined) return undefined;
+  const used = usage.tokensInLastDay(now);
+  if (used + maxTokens > policy.dailyTokenBudget) {
+    return { policy: 'dailyTokenBudget', limit: policy.dailyTokenBudget, used, requested: maxTokens };
+  }
+  return undefined;
+}
+
+/**
+ * Human-readable summary of a violation (for logs and error messages).
+ */
+export function describeViolation(violation: SamplingPolicyViolation): string {
+  switch (violation.policy) {
+    case 'maxRequestsPerMinute':
+      return `rate limit of ${violation.limit} requests/minute reached; retry in ${Math.ceil(violation.retryAfterMs / 1000)}s`;
+    case 'maxTokensPerRequest':
+      return `maxTokens ${violation.requested} exceeds the per-request limit of ${violation.limit}`;
+    case 'dailyTokenBudget':
+      return `daily token budget exhausted (${violation.used}/${violation.limit} used, ${violation.requested} requested)`;
+    case 'allowedTools':
+      return `tools not allowed for sampling: ${violation.rejected.join(', ')}`;
+  }
+}
+
+/**
+ * Build the error returned to the server for a violation.
+ */
+export function createPolicyError(violation: SamplingPolicyViolation): McpError {
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `Sampling request rejected by client policy: ${describeViolation(violation)}`,
+    violation
+  );
+}
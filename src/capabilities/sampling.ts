@@ -1,8 +1,10 @@
 /**
  * Sampling Capability - Handle server-initiated LLM requests with tool support
  *
- * This module is standalone and UI-agnostic. Copy this file to add sampling support
- * to any MCP client (CLI, web, desktop, etc.).
+ * This module is UI-agnostic. LLM calls go through the AI SDK provider registry
+ * (src/web/llm/provider.ts), so any registered provider can serve sampling
+ * requests; message and tool conversions are shared with the chat stream
+ * (src/web/llm/conversions.ts).
  *
  * Usage:
  *   import { Client } from '@modelcontextprotocol/sdk/client/index.js';
@@ -14,11 +16,21 @@
  *   );
  *
  *   setupSampling(client, {
+ *     provider: 'openai', // any registry provider (default: 'anthropic')
  *     // Required: provide your UI callbacks
  *     onApprovalRequest: async (request) => {
  *       // Display request to user, return true to approve
+ *       // (or an edited copy of the request to approve with changes)
  *       return confirm('Approve this LLM request?');
  *     },
+ *     onResponseReview: async (response) => {
+ *       // Optional: return true to send, false to withhold, or an edited response
+ *       return true;
+ *     },
+ *     onResponseDelta: (delta) => {
+ *       // Optional: stream output while the LLM generates
+ *       process.stdout.write(delta.text);
+ *     },
  *     onResponse: (response) => {
  *       // Display LLM response to user
  *       console.log('Response:', response);
@@ -32,8 +44,7 @@
  *   await client.connect(transport);
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import type { MessageParam, ContentBlockParam, ToolUseBlock, ToolResultBlockParam } from '@anthropic-ai/sdk/resources/messages';
+import { streamText, type LanguageModel, type SystemModelMessage } from 'ai';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import {
   CreateMessageRequestSchema,
@@ -47,9 +58,27 @@ import {
   type ToolUseContent,
   type ToolResultContent,
   type TextContent,
-  type ImageContent,
 } from '@modelcontextprotocol/sdk/types.js';
 import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { getModel, getProviderApiKey, getDefaultModel, supportsMediaType } from '../web/llm/provider.js';
+import {
+  samplingMessagesToModelMessages,
+  samplingToolsToAiSdk,
+  samplingToolChoiceToAiSdk,
+  aiSdkResultToSamplingResult,
+  type ContentDowngrade,
+  type SamplingContentOptions,
+} from '../web/llm/conversions.js';
+import { selectSamplingModel, type ModelSelection } from '../web/llm/model-selection.js';
+import {
+  SamplingUsage,
+  checkSamplingPolicy,
+  checkTokenBudget,
+  createPolicyError,
+  describeViolation,
+  type SamplingPolicy,
+  type TokenReservation,
+} from './sampling-policy.js';
 
 // Union type for sampling responses - supports both text-only and tool-use cases
 type SamplingResponse = CreateMessageResult | CreateMessageResultWithTools;
@@ -68,18 +97,62 @@ export interface SamplingRequest {
   maxTokens?: number;
   temperature?: number;
   toolChoice?: ToolChoice;
+  /** Model chosen from the request's modelPreferences, with the reasoning */
+  modelSelection?: ModelSelection;
+  /** JSON-RPC id of the server's request; unique per server connection */
+  requestId?: string | number;
+}
+
+/**
+ * Incremental output while the LLM generates a response.
+ */
+export interface SamplingDelta {
+  /** Text generated since the previous delta ('' on the final call) */
+  text: string;
+  /** All text generated so far */
+  accumulated: string;
+  /** True on the last call for a request, whether generation finished or failed */
+  done: boolean;
+  /** The approved request being answered */
+  request: SamplingRequest;
 }
 
+/**
+ * Answer to an approval request: true to approve, false to reject, or a
+ * modified copy of the request to approve with edits (messages, system
+ * prompt, temperature, maxTokens, or a subset of the offered tools).
+ */
+export type SamplingApproval = boolean | SamplingRequest;
+
+/**
+ * Answer to a response review: true to send the response as-is, false to
+ * withhold it, or an edited response to send instead.
+ */
+export type SamplingResponseReview = boolean | SamplingResponse;
+
 /**
  * UI callbacks for sampling operations.
  */
 export interface SamplingCallbacks {
   /**
    * Called when a sampling request needs user approval.
-   * Display the request and return true to approve, false to reject.
+   * Display the request and return a SamplingApproval.
    * Only called when approvalMode is 'ask'.
    */
-  onApprovalRequest: (request: SamplingRequest) => Promise<boolean>;
+  onApprovalRequest: (request: SamplingRequest) => Promise<SamplingApproval>;
+
+  /**
+   * Called with the LLM response before it is returned to the server,
+   * so the user can review or edit it. Optional; only called when
+   * approvalMode is 'ask'.
+   */
+  onResponseReview?: (response: SamplingResponse, request: SamplingRequest) => Promise<SamplingResponseReview>;
+
+  /**
+   * Called as the LLM streams its response, ending with a `done` delta.
+   * Use this to show live output while long generations run.
+   */
+  onResponseDelta?: (delta: SamplingDelta) => void;
 
   /**
    * Called when an LLM response is received.
@@ -102,9 +175,17 @@ export interface SamplingCallbacks {
 export type ApprovalMode = 'ask' | 'auto';
 
 export interface SamplingConfig extends Partial<SamplingCallbacks> {
-  /** Anthropic API key (required for real LLM calls, otherwise uses mock handler) */
+  /** Provider from the LLM provider registry (default: 'anthropic') */
+  provider?: string;
+  /**
+   * API key for the provider. Falls back to the provider's environment
+   * variable; with neither, a mock handler is used.
+   */
   apiKey?: string;
-  /** Model to use (default: claude-sonnet-4-20250514) */
+  /**
+   * Fallback model when the request's modelPreferences don't pick one
+   * (default: the provider's default model)
+   */
   model?: string;
   /** Max tokens if not specified in request (default: 1024) */
   defaultMaxTokens?: number;
@@ -117,15 +198,33 @@ export interface SamplingConfig extends Partial<SamplingCallbacks> {
    * Server instructions to prepend to every system prompt.
    */
   serverInstructions?: string;
+  /**
+   * Limits for this server (rate, tokens, tools). `autoApprove` overrides
+   * approvalMode. Violations are returned to the server as errors.
+   */
+  policy?: SamplingPolicy;
+  /** Usage ledger the policy is checked against; reuse it across reconnects */
+  usage?: SamplingUsage;
+  /**
+   * What to do with images, audio or files the provider can't accept
+   * (default: 'describe' — replace them with a text note).
+   */
+  contentDowngrade?: ContentDowngrade;
 }
 
-// Content block types from MCP
-type SamplingContentBlock = TextContent | ImageContent | ToolUseContent | ToolResultContent;
-
 // ============================================================================
 // EXPORTS FOR UI HELPERS
 // ============================================================================
 
+/** Short placeholder for non-text content, e.g. `[audio: audio/wav]` */
+function describeMediaBlock(block: { type: string }): string {
+  const b = block as { type: string; mimeType?: string; uri?: string; resource?: { uri: string } };
+  if (b.type === 'image' || b.type === 'audio') return `[${b.type}: ${b.mimeType}]`;
+  if (b.type === 'resource') return `[resource: ${b.resource?.uri}]`;
+  if (b.type === 'resource_link') return `[resource_link: ${b.uri}]`;
+  return `[${b.type}]`;
+}
+
 /**
  * Format message content as a string for display.
  * Useful for UIs that want to show message content.
@@ -143,11 +242,11 @@ export function formatContentForDisplay(content: SamplingMessage['content']): st
       if (block.type === 'tool_result') {
         const tr = block as ToolResultContent;
         const resultText = tr.content?.map(c =>
-          c.type === 'text' ? (c as TextContent).text : `[${c.type}]`
+          c.type === 'text' ? (c as TextContent).text : describeMediaBlock(c)
         ).join('') || '';
         return `[tool_result: ${tr.toolUseId} => ${resultText}${tr.isError ? ' (error)' : ''}]`;
       }
-      return `[${block.type}]`;
+      return describeMediaBlock(block);
     }).join(' ');
   }
 
@@ -155,6 +254,10 @@ export function formatContentForDisplay(content: SamplingMessage['content']): st
     if ('type' in content && content.type === 'text' && 'text' in content) {
       return (content as TextContent).text;
     }
+    // Don't dump base64 payloads into the UI
+    if ('type' in content && content.type !== 'tool_use' && content.type !== 'tool_result') {
+      return describeMediaBlock(content);
+    }
   }
 
   return JSON.stringify(content);
@@ -163,73 +266,6 @@ export function formatContentForDisplay(content: SamplingMessage['content']): st
 // Re-export types for convenience
 export type { SamplingResponse, SamplingMessage, Tool, ToolChoice };
 
-// ============================================================================
-// TYPE CONVERTERS - MCP <-> Anthropic
-// ============================================================================
-
-function mcpToolToAnthropic(tool: Tool): Anthropic.Messages.Tool {
-  return {
-    name: tool.name,
-    description: tool.description,
-    input_schema: tool.inputSchema as Anthropic.Messages.Tool['input_schema'],
-  };
-}
-
-function mcpToolChoiceToAnthropic(choice: ToolChoice): Anthropic.Messages.ToolChoice {
-  switch (choice.mode) {
-    case 'auto':
-      return { type: 'auto' };
-    case 'required':
-      return { type: 'any' };
-    case 'none':
-      return { type: 'auto' };
-    default:
-      return { type: 'auto' };
-  }
-}
-
-function anthropicToolUseToMcp(block: ToolUseBlock): ToolUseContent {
-  return {
-    type: 'tool_use',
-    id: block.id,
-    name: block.name,
-    input: block.input as Record<string, unknown>,
-  };
-}
-
-function mcpToolResultToAnthropic(result: ToolResultContent): ToolResultBlockParam {
-  let content: ToolResultBlockParam['content'];
-
-  if (result.content && result.content.length > 0) {
-    content = result.content.map(block => {
-      if (block.type === 'text') {
-        return { type: 'text' as const, text: (block as TextContent).text };
-      }
-      return { type: 'text' as const, text: JSON.stringify(block) };
-    });
-  }
-
-  return {
-    type: 'tool_result',
-    tool_use_id: result.toolUseId,
-    content,
-    is_error: result.isError,
-  };
-}
-
-function mapStopReason(anthropicReason: string | null): string | undefined {
-  if (!anthropicReason) return undefined;
-
-  const mapping: Record<string, string> = {
-    'end_turn': 'endTurn',
-    'max_tokens': 'maxTokens',
-    'stop_sequence': 'stopSequence',
-    'tool_use': 'toolUse',
-  };
-
-  return mapping[anthropicReason] ?? anthropicReason;
-}
-
 // ============================================================================
 // SETUP FUNCTION
 // ============================================================================
@@ -238,101 +274,132 @@ function mapStopReason(anthropicReason: string | null): string | undefined {
  * Context passed to executeSampling for the core LLM call.
  */
 interface SamplingContext {
-  anthropic: Anthropic;
-  model: string;
+  getModel: (modelId: string) => LanguageModel;
+  /** Media support and downgrade policy for message conversion */
+  content: SamplingContentOptions;
   defaultMaxTokens: number;
-  serverInstructions?: string;
   log: (msg: string) => void;
   onResponse: (response: SamplingResponse) => void;
+  /** Bound to the approved request; undefined when responses aren't reviewed */
+  reviewResponse?: (response: SamplingResponse) => Promise<SamplingResponseReview>;
+  /** Bound to the approved request; undefined without an onResponseDelta callback */
+  onDelta?: (text: string, accumulated: string, done: boolean) => void;
+  /** Sends notifications/progress; undefined when the request has no progressToken */
+  reportProgress?: (progress: number, message: string) => Promise<void>;
 }
 
+/** Minimum gap between progress notifications, so fast streams don't flood the server */
+const PROGRESS_INTERVAL_MS = 500;
+
 /**
  * Execute the core sampling logic (LLM API call).
  * Extracted to support both sync and async (task-based) execution.
+ *
+ * @param params - Approved request params; systemPrompt already includes server instructions
+ * @param reservation - Settled with the tokens actually spent; if the
+ *   generation fails first, the reserved amount stays counted
  */
 async function executeSampling(
   params: CreateMessageRequest['params'],
-  ctx: SamplingContext
+  modelId: string,
+  ctx: SamplingContext,
+  reservation: TokenReservation
 ): Promise<SamplingResponse> {
-  const { anthropic, model, defaultMaxTokens, serverInstructions, log, onResponse } = ctx;
+  const { getModel: resolveModel, content, defaultMaxTokens, log, onResponse, reviewResponse, onDelta, reportProgress } = ctx;
   const hasTools = params.tools && params.tools.length > 0;
 
-  // Combine server instructions with request's system prompt
-  const fullSystemPrompt = [serverInstructions, params.systemPrompt]
-    .filter(Boolean)
-    .join('\n\n') || undefined;
-
-  // Convert MCP messages to Anthropic format
-  const messages: MessageParam[] = params.messages.map((msg: SamplingMessage) => ({
-    role: msg.role as 'user' | 'assistant',
-    content: formatMessageContent(msg.content),
-  }));
-
-  // Build Anthropic API request
-  const apiRequest: Anthropic.MessageCreateParams = {
-    model,
-    max_tokens: params.maxTokens ?? defaultMaxTokens,
-    messages,
-    system: fullSystemPrompt
-      ? [
-          {
-            type: 'text' as const,
-            text: fullSystemPrompt,
-            cache_control: { type: 'ephemeral' as const },
-          },
-        ]
-      : undefined,
+  // Cache the system prompt where the provider supports it (ignored elsewhere)
+  const system: SystemModelMessage | undefined = params.systemPrompt
+    ? {
+        role: 'system',
+        content: params.systemPrompt,
+        providerOptions: { anthropic: { cacheControl: { type: 'ephemeral' } } },
+      }
+    : undefined;
+
+  const stream = streamText({
+    model: resolveModel(modelId),
+    system,
+    messages: samplingMessagesToModelMessages(params.messages, content),
+    maxOutputTokens: params.maxTokens ?? defaultMaxTokens,
     temperature: params.temperature,
-    stop_sequences: params.stopSequences,
+    stopSequences: params.stopSequences,
+    tools: hasTools ? samplingToolsToAiSdk(params.tools!) : undefined,
+    toolChoice: hasTools && params.toolChoice
+      ? samplingToolChoiceToAiSdk(params.toolChoice)
+      : undefined,
+    maxRetries: 5,
+    // Errors are rethrown from the stream loop below
+    onError: () => {},
+  });
+
+  // Progress is best-effort: a failed notification must not fail a generation that was paid for
+  const sendProgress = async (progress: number, message: string) => {
+    await reportProgress?.(progress, message).catch((err) => log(`[Sampling] Failed to report progress: ${err}`));
   };
 
-  // Add tools if provided (and toolChoice is not 'none')
-  if (hasTools && params.toolChoice?.mode !== 'none') {
-    apiRequest.tools = params.tools!.map(mcpToolToAnthropic);
+  let accumulated = '';
+  let chunks = 0;
+  let lastProgressAt = 0;
+  try {
+    for await (const chunk of stream.fullStream) {
+      if (chunk.type === 'error') {
+        throw chunk.error;
+      }
+      if (chunk.type !== 'text-delta') continue;
+
+      accumulated += chunk.text;
+      chunks++;
+      onDelta?.(chunk.text, accumulated, false);
 
-    if (params.toolChoice) {
-      apiRequest.tool_choice = mcpToolChoiceToAnthropic(params.toolChoice);
+      if (reportProgress && Date.now() - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+        lastProgressAt = Date.now();
+        await sendProgress(chunks, `Generated ${accumulated.length} characters`);
+      }
     }
+  } finally {
+    onDelta?.('', accumulated, true);
   }
 
-  // Make API call
-  const response = await anthropic.messages.create(apiRequest);
-
-  // Handle tool use response
-  if (response.stop_reason === 'tool_use') {
-    const toolUseBlocks = response.content
-      .filter((block): block is ToolUseBlock => block.type === 'tool_use')
-      .map(anthropicToolUseToMcp);
-
-    log(`[Sampling] LLM requested ${toolUseBlocks.length} tool(s): ${toolUseBlocks.map(t => t.name).join(', ')}`);
-
-    const result: CreateMessageResultWithTools = {
-      role: 'assistant',
-      content: toolUseBlocks,
-      model: response.model,
-      stopReason: 'toolUse',
-    };
+  const [toolCalls, finishReason, response, totalUsage] = await Promise.all([
+    stream.toolCalls,
+    stream.finishReason,
+    stream.response,
+    stream.totalUsage,
+  ]);
+
+  reservation.settle(totalUsage.totalTokens ?? 0);
+  // Progress must increase with every notification, so the final one counts one past the last chunk
+  await sendProgress(chunks + 1, 'Generation complete');
+
+  const result = aiSdkResultToSamplingResult({
+    text: accumulated,
+    toolCalls,
+    finishReason,
+    modelId: response.modelId,
+  });
 
-    onResponse(result);
-    return result;
+  if (Array.isArray(result.content)) {
+    const names = result.content.map(block => (block as ToolUseContent).name);
+    log(`[Sampling] LLM requested ${names.length} tool(s): ${names.join(', ')}`);
+  } else {
+    log(`[Sampling] LLM returned text response (stopReason: ${result.stopReason})`);
   }
 
-  // Handle text response
-  const textBlock = response.content.find(c => c.type === 'text');
-  log(`[Sampling] LLM returned text response (stopReason: ${response.stop_reason})`);
-
-  const result: CreateMessageResult = {
-    role: 'assistant',
-    content: {
-      type: 'text',
-      text: textBlock?.type === 'text' ? textBlock.text : '',
-    },
-    model: response.model,
-    stopReason: mapStopReason(response.stop_reason),
-  };
+  let final: SamplingResponse = result;
+  if (reviewResponse) {
+    const review = await reviewResponse(result);
+    if (review === false) {
+      log('[Sampling] Response withheld by user');
+      final = rejectedResult('[Response rejected by user]');
+    } else if (review !== true) {
+      log('[Sampling] Response edited by user');
+      final = review;
+    }
+  }
 
-  onResponse(result);
-  return result;
+  onResponse(final);
+  return final;
 }
 
 /**
@@ -360,32 +427,56 @@ function hasTaskParams(params: unknown): boolean {
  * to receive tool-enabled sampling requests from servers.
  */
 export function setupSampling(client: Client, config: SamplingConfig = {}): void {
-  const apiKey = config.apiKey;
+  const provider = config.provider ?? 'anthropic';
+  const apiKey = getProviderApiKey(provider, config.apiKey);
   const log = config.onLog ?? (() => {});
   const onApprovalRequest = config.onApprovalRequest ?? (async () => true);
   const onResponse = config.onResponse ?? (() => {});
+  const onResponseReview = config.onResponseReview;
+  const onResponseDelta = config.onResponseDelta;
+  const defaultMaxTokens = config.defaultMaxTokens ?? 1024;
+  const policy = config.policy;
+  const usage = config.usage ?? new SamplingUsage();
+
+  // Enforce the server's policy before bothering the user; returns the request's maxTokens
+  const admit = (params: CreateMessageRequest['params']): number => {
+    const maxTokens = params.maxTokens ?? defaultMaxTokens;
+    if (policy) {
+      const violation = checkSamplingPolicy(policy, params, maxTokens, usage);
+      if (violation) {
+        log(`[Sampling] Rejected by policy: ${describeViolation(violation)}`);
+        throw createPolicyError(violation);
+      }
+    }
+    usage.recordRequest();
+    return maxTokens;
+  };
 
   if (!apiKey) {
     log('[Sampling] No API key - using mock handler');
-    client.setRequestHandler(CreateMessageRequestSchema, createMockHandler(log));
+    const mockHandler = createMockHandler(log);
+    // The mock spends no tokens, so nothing is reserved against the budget
+    client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      admit(request.params);
+      return mockHandler(request);
+    });
     return;
   }
 
-  const anthropic = new Anthropic({
-    apiKey,
-    maxRetries: 5,
-  });
-  const model = config.model ?? 'claude-sonnet-4-20250514';
-  const defaultMaxTokens = config.defaultMaxTokens ?? 1024;
-  const approvalMode = config.approvalMode ?? 'ask';
+  const defaultModel = config.model ?? getDefaultModel(provider);
+  log(`[Sampling] Using ${provider} (default model: ${defaultModel})`);
+  const approvalMode = config.policy?.autoApprove ? 'auto' : config.approvalMode ?? 'ask';
   const serverInstructions = config.serverInstructions;
 
   // Context for executeSampling
   const samplingCtx: SamplingContext = {
-    anthropic,
-    model,
+    getModel: (modelId) => getModel(provider, modelId, apiKey),
+    content: {
+      supportsMediaType: (mediaType) => supportsMediaType(provider, mediaType),
+      downgrade: config.contentDowngrade ?? 'describe',
+      onDowngrade: (description) => log(`[Sampling] Content ${description}`),
+    },
     defaultMaxTokens,
-    serverInstructions,
     log,
     onResponse,
   };
@@ -397,76 +488,130 @@ export function setupSampling(client: Client, config: SamplingConfig = {}): void
     const hasTools = params.tools && params.tools.length > 0;
     log(`[Sampling] Server requested LLM completion${hasTools ? ` with ${params.tools!.length} tools` : ''}`);
 
-    // Check if this is a task-based request
-    // The SDK adds `task` to params when server sends task creation options
-    const isTaskRequest = hasTaskParams(params) && extra.taskStore;
-    if (isTaskRequest) {
-      log(`[Sampling] Task-based request detected (ttl: ${extra.taskRequestedTtl ?? 'default'})`);
-    }
+    const maxTokens = admit(params);
+
+    // Hold maxTokens against the budget now, so parallel requests see each other;
+    // released below if the request never reaches the model
+    const reservation = usage.reserveTokens(maxTokens);
+    let generating = false;
+    try {
+      // Check if this is a task-based request
+      // The SDK adds `task` to params when server sends task creation options
+      const isTaskRequest = hasTaskParams(params) && extra.taskStore;
+      if (isTaskRequest) {
+        log(`[Sampling] Task-based request detected (ttl: ${extra.taskRequestedTtl ?? 'default'})`);
+      }
 
-    // Combine server instructions with request's system prompt for approval display
-    const fullSystemPrompt = [serverInstructions, params.systemPrompt]
-      .filter(Boolean)
-      .join('\n\n') || undefined;
-
-    // Build the request object for the UI
-    const samplingRequest: SamplingRequest = {
-      messages: params.messages,
-      systemPrompt: fullSystemPrompt,
-      tools: params.tools,
-      maxTokens: params.maxTokens,
-      temperature: params.temperature,
-      toolChoice: params.toolChoice,
-    };
+      const modelSelection = selectSamplingModel(params.modelPreferences, { provider, defaultModel });
+      log(`[Sampling] Model: ${modelSelection.modelId} (${modelSelection.reason})`);
+
+      // Combine server instructions with request's system prompt for approval display
+      const fullSystemPrompt = [serverInstructions, params.systemPrompt]
+        .filter(Boolean)
+        .join('\n\n') || undefined;
+
+      // Build the request object for the UI
+      const samplingRequest: SamplingRequest = {
+        messages: params.messages,
+        systemPrompt: fullSystemPrompt,
+        tools: params.tools,
+        maxTokens: params.maxTokens,
+        temperature: params.temperature,
+        toolChoice: params.toolChoice,
+        modelSelection,
+        requestId: extra.requestId,
+      };
 
-    // Human-in-the-loop: get approval via callback
-    if (approvalMode === 'ask') {
-      const approved = await onApprovalRequest(samplingRequest);
-      if (!approved) {
-        log('[Sampling] Request rejected by user');
-        const result: CreateMessageResult = {
-          role: 'assistant',
-          content: { type: 'text', text: '[Request rejected by user]' },
-          model: 'rejected',
-          stopReason: 'endTurn',
-        };
-        // For task requests, we still need to store the rejection as a task result
-        if (isTaskRequest && extra.taskStore) {
-          const task = await extra.taskStore.createTask({ ttl: extra.taskRequestedTtl ?? undefined });
-          await extra.taskStore.storeTaskResult(task.taskId, 'completed', result);
-          log(`[Sampling] Task ${task.taskId}: Request rejected by user`);
-          return { task } as CreateTaskResult;
+      // Params actually sent to the LLM; replaced below if the user edits the request
+      let approvedParams: CreateMessageRequest['params'] = { ...params, systemPrompt: fullSystemPrompt };
+      let approvedRequest = samplingRequest;
+      let requestCtx = samplingCtx;
+
+      // Human-in-the-loop: get approval via callback
+      if (approvalMode === 'ask') {
+        const approval = await onApprovalRequest(samplingRequest);
+        if (!approval) {
+          log('[Sampling] Request rejected by user');
+          const result = rejectedResult('[Request rejected by user]');
+          // For task requests, we still need to store the rejection as a task result
+          if (isTaskRequest && extra.taskStore) {
+            const task = await extra.taskStore.createTask({ ttl: extra.taskRequestedTtl ?? undefined });
+            await extra.taskStore.storeTaskResult(task.taskId, 'completed', result);
+            log(`[Sampling] Task ${task.taskId}: Request rejected by user`);
+            return { task } as CreateTaskResult;
+          }
+          return result;
+        }
+        if (approval !== true) {
+          approvedParams = applySamplingEdits(approvedParams, approval, policy);
+          approvedRequest = { ...approval, requestId: extra.requestId };
+          log('[Sampling] Request edited by user');
+
+          // The edit may have raised maxTokens; hold the new amount if the budget still allows it
+          const editedMaxTokens = approvedParams.maxTokens ?? defaultMaxTokens;
+          reservation.settle(0);
+          const overBudget = policy && checkTokenBudget(policy, editedMaxTokens, usage);
+          if (overBudget) {
+            log(`[Sampling] Edited request rejected by policy: ${describeViolation(overBudget)}`);
+            throw createPolicyError(overBudget);
+          }
+          reservation.settle(editedMaxTokens);
+        }
+        log('[Sampling] Request approved, sending to LLM...');
+
+        if (onResponseReview) {
+          requestCtx = {
+            ...requestCtx,
+            reviewResponse: (response) => onResponseReview(response, approvedRequest),
+          };
         }
-        return result;
       }
-      log('[Sampling] Request approved, sending to LLM...');
-    }
 
-    // Execute the LLM call
-    const executeAndReturn = async (): Promise<SamplingResponse | CreateTaskResult> => {
-      // If task-based request, create task and store result
-      if (isTaskRequest && extra.taskStore) {
-        const task = await extra.taskStore.createTask({ ttl: extra.taskRequestedTtl ?? undefined });
-        log(`[Sampling] Task ${task.taskId}: Starting LLM call...`);
+      if (onResponseDelta) {
+        requestCtx = {
+          ...requestCtx,
+          onDelta: (text, accumulated, done) => onResponseDelta({ text, accumulated, done, request: approvedRequest }),
+        };
+      }
 
-        // Update task status to show we're working
-        await extra.taskStore.updateTaskStatus(task.taskId, 'working', 'Calling LLM API...');
+      const progressToken = params._meta?.progressToken;
+      if (progressToken !== undefined) {
+        requestCtx = {
+          ...requestCtx,
+          reportProgress: (progress, message) =>
+            extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress, message } }),
+        };
+      }
 
-        // Execute the sampling
-        const result = await executeSampling(params, samplingCtx);
+      // Execute the LLM call; from here on the generation settles the reservation
+      generating = true;
+      const executeAndReturn = async (): Promise<SamplingResponse | CreateTaskResult> => {
+        // If task-based request, create task and store result
+        if (isTaskRequest && extra.taskStore) {
+          const task = await extra.taskStore.createTask({ ttl: extra.taskRequestedTtl ?? undefined });
+          log(`[Sampling] Task ${task.taskId}: Starting LLM call...`);
 
-        // Store the result and return CreateTaskResult
-        await extra.taskStore.storeTaskResult(task.taskId, 'completed', result);
-        log(`[Sampling] Task ${task.taskId}: LLM call completed`);
+          // Update task status to show we're working
+          await extra.taskStore.updateTaskStatus(task.taskId, 'working', 'Calling LLM API...');
 
-        return { task } as CreateTaskResult;
-      }
+          // Execute the sampling
+          const result = await executeSampling(approvedParams, modelSelection.modelId, requestCtx, reservation);
 
-      // Synchronous execution (no task params)
-      return executeSampling(params, samplingCtx);
-    };
+          // Store the result and return CreateTaskResult
+          await extra.taskStore.storeTaskResult(task.taskId, 'completed', result);
+          log(`[Sampling] Task ${task.taskId}: LLM call completed`);
 
-    return executeAndReturn();
+          return { task } as CreateTaskResult;
+        }
+
+        // Synchronous execution (no task params)
+        return executeSampling(approvedParams, modelSelection.modelId, requestCtx, reservation);
+      };
+
+      return await executeAndReturn();
+    } finally {
+      if (!generating) reservation.settle(0);
+    }
   });
 }
 
@@ -474,51 +619,44 @@ export function setupSampling(client: Client, config: SamplingConfig = {}): void
 // HELPERS
 // ============================================================================
 
-function formatMessageContent(content: SamplingMessage['content']): MessageParam['content'] {
-  if (typeof content === 'string') {
-    return content;
-  }
-
-  if (!Array.isArray(content)) {
-    return [formatSingleBlock(content as SamplingContentBlock)];
-  }
-
-  return content.map(block => formatSingleBlock(block as SamplingContentBlock));
+function rejectedResult(text: string): CreateMessageResult {
+  return {
+    role: 'assistant',
+    content: { type: 'text', text },
+    model: 'rejected',
+    stopReason: 'endTurn',
+  };
 }
 
-function formatSingleBlock(block: SamplingContentBlock): ContentBlockParam {
-  switch (block.type) {
-    case 'text':
-      return { type: 'text', text: (block as TextContent).text };
-
-    case 'image': {
-      const imageBlock = block as ImageContent;
-      return {
-        type: 'image',
-        source: {
-          type: 'base64',
-          media_type: imageBlock.mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
-          data: imageBlock.data,
-        },
-      };
-    }
-
-    case 'tool_use': {
-      const toolUseBlock = block as ToolUseContent;
-      return {
-        type: 'tool_use',
-        id: toolUseBlock.id,
-        name: toolUseBlock.name,
-        input: toolUseBlock.input,
-      };
-    }
-
-    case 'tool_result':
-      return mcpToolResultToAnthropic(block as ToolResultContent);
-
-    default:
-      return { type: 'text', text: JSON.stringify(block) };
+/**
+ * Apply a user-edited request to the params sent to the LLM.
+ *
+ * Tools can only be removed: edited tools are matched by name against the
+ * server's originals, so a UI can't inject new tool definitions. maxTokens
+ * is clamped to the server's policy limit.
+ */
+export function applySamplingEdits(
+  params: CreateMessageRequest['params'],
+  edited: SamplingRequest,
+  policy?: SamplingPolicy
+): CreateMessageRequest['params'] {
+  const keep = new Set((edited.tools ?? []).map(tool => tool.name));
+  const tools = params.tools?.filter(tool => keep.has(tool.name));
+
+  let maxTokens = edited.maxTokens ?? params.maxTokens;
+  if (policy?.maxTokensPerRequest !== undefined) {
+    maxTokens = Math.min(maxTokens, policy.maxTokensPerRequest);
   }
+
+  return {
+    ...params,
+    messages: edited.messages,
+    systemPrompt: edited.systemPrompt,
+    temperature: edited.temperature,
+    maxTokens,
+    tools: tools && tools.length > 0 ? tools : undefined,
+    toolChoice: tools && tools.length > 0 ? edited.toolChoice ?? params.toolChoice : undefined,
+  };
 }
 
 function formatContentAsString(content: unknown): string {
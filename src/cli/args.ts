@@ -196,7 +196,7 @@ Connection:
   --url <url>              Connect via HTTP
 
 Capabilities:
-  --sampling               Enable sampling (requires ANTHROPIC_API_KEY)
+  --sampling               Enable sampling (ANTHROPIC_API_KEY or OPENAI_API_KEY)
   --approval-mode <mode>   Sampling approval mode (default: ask)
                            ask  = user approves each request (per MCP spec)
                            auto = auto-approve (trusted servers only)
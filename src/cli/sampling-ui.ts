@@ -11,12 +11,16 @@
  *   });
  */
 
-import { createInterface } from 'node:readline';
+import { createInterface, type Interface } from 'node:readline';
+import type { TextContent } from '@modelcontextprotocol/sdk/types.js';
 import {
   formatContentForDisplay,
+  type SamplingApproval,
   type SamplingRequest,
   type SamplingResponse,
+  type SamplingResponseReview,
   type SamplingCallbacks,
+  type SamplingDelta,
 } from '../capabilities/sampling.js';
 
 // ============================================================================
@@ -26,6 +30,10 @@ import {
 export interface SamplingUIConfig {
   /** Log function for output */
   log: (...args: unknown[]) => void;
+  /** Review each LLM response before it goes back to the server (default: true) */
+  reviewResponses?: boolean;
+  /** Raw output without newlines; when set, responses stream as they generate */
+  write?: (text: string) => void;
 }
 
 // ============================================================================
@@ -61,6 +69,9 @@ export function displaySamplingRequest(request: SamplingRequest, log: (...args:
   }
 
   log('\n[Parameters]');
+  if (request.modelSelection) {
+    log(`  Model: ${request.modelSelection.modelId} (${request.modelSelection.reason})`);
+  }
   log(`  Max tokens: ${request.maxTokens ?? 'default'}`);
   if (request.temperature !== undefined) {
     log(`  Temperature: ${request.temperature}`);
@@ -93,18 +104,138 @@ export function displaySamplingResponse(response: SamplingResponse, log: (...arg
   log('-'.repeat(60) + '\n');
 }
 
+// ============================================================================
+// PROMPTS
+// ============================================================================
+
+function ask(rl: Interface, question: string): Promise<string> {
+  return new Promise((resolve) => rl.question(question, (answer) => resolve(answer.trim())));
+}
+
+async function askOnce(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await ask(rl, question);
+  } finally {
+    rl.close();
+  }
+}
+
+function isYes(answer: string): boolean {
+  const normalized = answer.toLowerCase();
+  return normalized === '' || normalized === 'y' || normalized === 'yes';
+}
+
+function isEdit(answer: string): boolean {
+  const normalized = answer.toLowerCase();
+  return normalized === 'e' || normalized === 'edit';
+}
+
+/** Text of a message that is a single text block, or undefined if it has other content */
+function editableText(content: SamplingRequest['messages'][number]['content']): string | undefined {
+  const blocks = Array.isArray(content) ? content : [content];
+  if (blocks.length !== 1 || blocks[0].type !== 'text') return undefined;
+  return (blocks[0] as TextContent).text;
+}
+
+function parseNumber(answer: string, fallback: number | undefined, log: (...args: unknown[]) => void): number | undefined {
+  if (answer === '') return fallback;
+  const value = Number(answer);
+  if (Number.isNaN(value)) {
+    log(`  Not a number, keeping ${fallback ?? 'default'}`);
+    return fallback;
+  }
+  return value;
+}
+
 /**
- * Prompt user for approval of a sampling request.
+ * Walk the user through editing a sampling request. Enter keeps a value.
+ * Only plain-text messages can be edited; tools can be removed, not added.
  */
-export async function promptForApproval(): Promise<boolean> {
+export async function editSamplingRequest(
+  request: SamplingRequest,
+  log: (...args: unknown[]) => void
+): Promise<SamplingRequest> {
   const rl = createInterface({ input: process.stdin, output: process.stdout });
-  return new Promise((resolve) => {
-    rl.question('\nApprove this request? [Y/n]: ', (answer) => {
-      rl.close();
-      const normalized = answer.trim().toLowerCase();
-      resolve(normalized === '' || normalized === 'y' || normalized === 'yes');
-    });
-  });
+  try {
+    log('\nEditing request (press Enter to keep the current value)');
+
+    const systemPrompt = await ask(rl, 'System prompt: ');
+
+    const messages = [];
+    for (const [index, message] of request.messages.entries()) {
+      const text = editableText(message.content);
+      if (text === undefined) {
+        messages.push(message);
+        continue;
+      }
+      const answer = await ask(rl, `Message ${index + 1} (${message.role}): `);
+      messages.push(answer ? { ...message, content: { type: 'text' as const, text: answer } } : message);
+    }
+
+    const maxTokens = parseNumber(await ask(rl, `Max tokens [${request.maxTokens ?? 'default'}]: `), request.maxTokens, log);
+    const temperature = parseNumber(
+      await ask(rl, `Temperature [${request.temperature ?? 'default'}]: `),
+      request.temperature,
+      log
+    );
+
+    let tools = request.tools;
+    if (tools && tools.length > 0) {
+      const answer = await ask(rl, `Tools to keep, comma-separated [${tools.map(t => t.name).join(', ')}]: `);
+      if (answer) {
+        const keep = new Set(answer.split(',').map(name => name.trim()));
+        tools = tools.filter(tool => keep.has(tool.name));
+      }
+    }
+
+    return {
+      ...request,
+      systemPrompt: systemPrompt || request.systemPrompt,
+      messages,
+      maxTokens,
+      temperature,
+      tools,
+    };
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Prompt user for approval of a sampling request.
+ * With a request, the user can also choose to edit it before approving.
+ */
+export async function promptForApproval(
+  request?: SamplingRequest,
+  log: (...args: unknown[]) => void = console.log
+): Promise<SamplingApproval> {
+  const answer = await askOnce(request ? '\nApprove this request? [Y/n/e(dit)]: ' : '\nApprove this request? [Y/n]: ');
+  if (request && isEdit(answer)) {
+    const edited = await editSamplingRequest(request, log);
+    displaySamplingRequest(edited, log);
+    return isYes(await askOnce('\nApprove the edited request? [Y/n]: ')) ? edited : false;
+  }
+  return isYes(answer);
+}
+
+/**
+ * Show an LLM response and ask whether to send it to the server.
+ * Text responses can be replaced; tool calls can only be sent or withheld.
+ */
+export async function promptForResponseReview(
+  response: SamplingResponse,
+  log: (...args: unknown[]) => void
+): Promise<SamplingResponseReview> {
+  displaySamplingResponse(response, log);
+
+  const isText = !Array.isArray(response.content) && response.content.type === 'text';
+  const answer = await askOnce(isText ? 'Send this response to the server? [Y/n/e(dit)]: ' : 'Send this response to the server? [Y/n]: ');
+  if (isText && isEdit(answer)) {
+    const text = await askOnce('Replacement text: ');
+    return text ? { ...response, content: { type: 'text', text } } : true;
+  }
+  return isYes(answer);
 }
 
 // ============================================================================
@@ -117,17 +248,40 @@ export async function promptForApproval(): Promise<boolean> {
  * @param config - UI configuration
  * @returns Sampling callbacks object
  */
-export function createSamplingCallbacks(config: SamplingUIConfig): Pick<SamplingCallbacks, 'onApprovalRequest' | 'onResponse' | 'onLog'> {
-  const { log } = config;
+export function createSamplingCallbacks(
+  config: SamplingUIConfig
+): Pick<SamplingCallbacks, 'onApprovalRequest' | 'onResponseReview' | 'onResponseDelta' | 'onResponse' | 'onLog'> {
+  const { log, reviewResponses = true, write } = config;
+  // Responses already shown during review aren't displayed a second time
+  const reviewed = new WeakSet<SamplingResponse>();
 
   return {
     onApprovalRequest: async (request: SamplingRequest) => {
       displaySamplingRequest(request, log);
-      return promptForApproval();
+      return promptForApproval(request, log);
     },
 
+    onResponseDelta: write
+      ? (delta: SamplingDelta) => {
+          if (delta.accumulated === delta.text && delta.text) {
+            log('\n[Generating]');
+          }
+          if (delta.text) write(delta.text);
+          if (delta.done && delta.accumulated) write('\n');
+        }
+      : undefined,
+
+    onResponseReview: reviewResponses
+      ? async (response: SamplingResponse) => {
+          reviewed.add(response);
+          return promptForResponseReview(response, log);
+        }
+      : undefined,
+
     onResponse: (response: SamplingResponse) => {
-      displaySamplingResponse(response, log);
+      if (!reviewed.has(response)) {
+        displaySamplingResponse(response, log);
+      }
     },
 
     onLog: (message: string) => {
@@ -15,8 +15,11 @@ import type {
   ToolWithEnabledState,
   ToolCallResult,
   ResourceInfo,
+  ResourceTemplateInfo,
+  CompletionValues,
   UIResource,
   PromptInfo,
+  PromptResult,
   ChatRequest,
   StreamEvent,
   WebSocketEvent,
@@ -63,6 +66,25 @@ export function createHTTPAdapter(options: AdapterOptions = {}): CommunicationAd
     }
   }
 
+  function subscribe(handler: (event: WebSocketEvent) => void): () => void {
+    eventHandlers.add(handler);
+
+    // Connect WebSocket on first listener
+    if (eventHandlers.size === 1) {
+      connectWebSocket();
+    }
+
+    return () => {
+      eventHandlers.delete(handler);
+
+      // Disconnect if no more listeners
+      if (eventHandlers.size === 0 && ws) {
+        ws.close();
+        ws = null;
+      }
+    };
+  }
+
   async function fetchJSON<T>(path: string, init?: RequestInit): Promise<T> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
@@ -233,6 +255,25 @@ export function createHTTPAdapter(options: AdapterOptions = {}): CommunicationAd
       }
     },
 
+    async getResourceTemplates(): Promise<ResourceTemplateInfo[]> {
+      const data = await fetchJSON<{ resourceTemplates: ResourceTemplateInfo[] }>('/api/resource-templates');
+      return data.resourceTemplates || [];
+    },
+
+    async completeResourceArgument(
+      serverName: string,
+      uriTemplate: string,
+      argName: string,
+      value: string,
+      context?: Record<string, string>
+    ): Promise<CompletionValues> {
+      return fetchJSON<CompletionValues>('/api/resource-templates/complete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serverName, uriTemplate, argName, value, context }),
+      });
+    },
+
     // ============================================
     // Prompts
     // ============================================
@@ -242,6 +283,28 @@ export function createHTTPAdapter(options: AdapterOptions = {}): CommunicationAd
       return data.prompts || [];
     },
 
+    async getPrompt(serverName: string, name: string, args?: Record<string, string>): Promise<PromptResult> {
+      return fetchJSON<PromptResult>('/api/prompts/get', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serverName, name, arguments: args }),
+      });
+    },
+
+    async completePromptArgument(
+      serverName: string,
+      name: string,
+      argName: string,
+      value: string,
+      context?: Record<string, string>
+    ): Promise<CompletionValues> {
+      return fetchJSON<CompletionValues>('/api/prompts/complete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serverName, name, argName, value, context }),
+      });
+    },
+
     // ============================================
     // Chat (Streaming)
     // ============================================
@@ -300,23 +363,70 @@ export function createHTTPAdapter(options: AdapterOptions = {}): CommunicationAd
     // Events
     // ============================================
 
-    onEvent(handler: (event: WebSocketEvent) => void): () => void {
-      eventHandlers.add(handler);
+    onEvent: subscribe,
 
-      // Connect WebSocket on first listener
-      if (eventHandlers.size === 1) {
-        connectWebSocket();
-      }
+    // ============================================
+    // Elicitation
+    // ============================================
 
-      return () => {
-        eventHandlers.delete(handler);
+    elicitation: {
+      async respond(requestId, decision) {
+        await fetchJSON(`/api/elicitation/${encodeURIComponent(requestId)}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(decision),
+        });
+      },
+
+      onRequest(callback) {
+        return subscribe((event) => {
+          if (event.type === 'elicitation_request') {
+            callback(event.data);
+          }
+        });
+      },
 
-        // Disconnect if no more listeners
-        if (eventHandlers.size === 0 && ws) {
-          ws.close();
-          ws = null;
-        }
-      };
+      onComplete(callback) {
+        return subscribe((event) => {
+          if (event.type === 'elicitation_complete') {
+            callback(event.data);
+          }
+        });
+      },
+
+      openUrl(url) {
+        window.open(url, '_blank', 'noopener,noreferrer');
+      },
+    },
+
+    // ============================================
+    // Resource Subscriptions
+    // ============================================
+
+    subscriptions: {
+      async subscribe(serverName, uri) {
+        await fetchJSON('/api/resources/subscribe', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ serverName, uri }),
+        });
+      },
+
+      async unsubscribe(serverName, uri) {
+        await fetchJSON('/api/resources/unsubscribe', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ serverName, uri }),
+        });
+      },
+
+      onUpdated(callback) {
+        return subscribe((event) => {
+          if (event.type === 'resource_updated') {
+            callback(event.data);
+          }
+        });
+      },
     },
 
     // ============================================
@@ -15,8 +15,11 @@ import type {
   ToolWithEnabledState,
   ToolCallResult,
   ResourceInfo,
+  ResourceTemplateInfo,
+  CompletionValues,
   UIResource,
   PromptInfo,
+  PromptResult,
   ChatRequest,
   StreamEvent,
   WebSocketEvent,
@@ -102,8 +105,19 @@ export function createIPCAdapter(electronAPI: ElectronAPI): CommunicationAdapter
       return data.tools || [];
     },
 
-    async callTool(name: string, args: Record<string, unknown>): Promise<ToolCallResult> {
-      return electronAPI.callTool(name, args);
+    async callTool(
+      name: string,
+      args: Record<string, unknown>,
+      options?: { callId?: string }
+    ): Promise<ToolCallResult> {
+      // Only calls started with an id can be cancelled
+      return options?.callId
+        ? electronAPI.callTool(name, args, options.callId)
+        : electronAPI.callTool(name, args);
+    },
+
+    async cancelToolCall(callId: string): Promise<void> {
+      await electronAPI.cancelToolCall(callId);
     },
 
     // ============================================
@@ -180,6 +194,21 @@ export function createIPCAdapter(electronAPI: ElectronAPI): CommunicationAdapter
       return electronAPI.getUIResource(serverName, uri);
     },
 
+    async getResourceTemplates(): Promise<ResourceTemplateInfo[]> {
+      const data = await electronAPI.getResourceTemplates();
+      return data.resourceTemplates || [];
+    },
+
+    async completeResourceArgument(
+      serverName: string,
+      uriTemplate: string,
+      argName: string,
+      value: string,
+      context?: Record<string, string>
+    ): Promise<CompletionValues> {
+      return electronAPI.completeResourceArgument(serverName, uriTemplate, argName, value, context);
+    },
+
     // ============================================
     // Prompts
     // ============================================
@@ -189,6 +218,20 @@ export function createIPCAdapter(electronAPI: ElectronAPI): CommunicationAdapter
       return data.prompts || [];
     },
 
+    async getPrompt(serverName: string, name: string, args?: Record<string, string>): Promise<PromptResult> {
+      return electronAPI.getPrompt(serverName, name, args);
+    },
+
+    async completePromptArgument(
+      serverName: string,
+      name: string,
+      argName: string,
+      value: string,
+      context?: Record<string, string>
+    ): Promise<CompletionValues> {
+      return electronAPI.completePromptArgument(serverName, name, argName, value, context);
+    },
+
     // ============================================
     // Chat (Streaming)
     // ============================================
@@ -263,7 +306,7 @@ export function createIPCAdapter(electronAPI: ElectronAPI): CommunicationAdapter
 
       cleanups.push(
         electronAPI.onResourceUpdated((data) => {
-          handler({ type: 'resource_updated', ...data });
+          handler({ type: 'resource_updated', data });
         })
       );
 
@@ -273,6 +316,12 @@ export function createIPCAdapter(electronAPI: ElectronAPI): CommunicationAdapter
         })
       );
 
+      cleanups.push(
+        electronAPI.onToolProgress((data) => {
+          handler({ type: 'tool_progress', data });
+        })
+      );
+
       // Lifecycle events
       cleanups.push(
         electronAPI.onServerStatusChanged((data) => {
@@ -350,8 +399,12 @@ export function createIPCAdapter(electronAPI: ElectronAPI): CommunicationAdapter
         return electronAPI.acpNewSession(agentId, cwd);
       },
 
-      prompt(sessionId, text) {
-        return electronAPI.acpPrompt(sessionId, text);
+      loadSession(agentId, sessionId, cwd) {
+        return electronAPI.acpLoadSession(agentId, sessionId, cwd);
+      },
+
+      prompt(sessionId, text, images) {
+        return electronAPI.acpPrompt(sessionId, text, images);
       },
 
       async cancel(sessionId) {
@@ -391,6 +444,124 @@ export function createIPCAdapter(electronAPI: ElectronAPI): CommunicationAdapter
       },
     },
 
+    // ============================================
+    // Sampling (Electron-only)
+    // ============================================
+
+    sampling: {
+      async respond(requestId, decision) {
+        await electronAPI.samplingRespond(requestId, decision);
+      },
+
+      onRequest(callback) {
+        return electronAPI.onSamplingRequest(callback);
+      },
+
+      onProgress(callback) {
+        return electronAPI.onSamplingProgress(callback);
+      },
+    },
+
+    // ============================================
+    // Elicitation
+    // ============================================
+
+    elicitation: {
+      async respond(requestId, decision) {
+        await electronAPI.elicitationRespond(requestId, decision);
+      },
+
+      onRequest(callback) {
+        return electronAPI.onElicitationRequest(callback);
+      },
+
+      onComplete(callback) {
+        return electronAPI.onElicitationComplete(callback);
+      },
+    },
+
+    // ============================================
+    // Roots (Electron-only)
+    // ============================================
+
+    roots: {
+      get() {
+        return electronAPI.rootsGet();
+      },
+
+      set(settings) {
+        return electronAPI.rootsSet(settings);
+      },
+
+      async pickDirectory() {
+        const result = await electronAPI.browsePath('directory');
+        return result.path ?? null;
+      },
+
+      onChanged(callback) {
+        return electronAPI.onRootsChanged(callback);
+      },
+    },
+
+    // ============================================
+    // Tool Approval (Electron-only)
+    // ============================================
+
+    toolApproval: {
+      get() {
+        return electronAPI.toolApprovalGet();
+      },
+
+      set(settings) {
+        return electronAPI.toolApprovalSet(settings);
+      },
+    },
+
+    // ============================================
+    // Resource Subscriptions
+    // ============================================
+
+    subscriptions: {
+      async subscribe(serverName, uri) {
+        await electronAPI.subscribeResource(serverName, uri);
+      },
+
+      async unsubscribe(serverName, uri) {
+        await electronAPI.unsubscribeResource(serverName, uri);
+      },
+
+      onUpdated(callback) {
+        return electronAPI.onResourceUpdated(callback);
+      },
+    },
+
+    // ============================================
+    // Conversation History (Electron-only)
+    // ============================================
+
+    history: {
+      async list(query) {
+        const data = await electronAPI.historyList(query);
+        return data.conversations || [];
+      },
+
+      get(id) {
+        return electronAPI.historyGet(id);
+      },
+
+      save(conversation) {
+        return electronAPI.historySave(conversation);
+      },
+
+      rename(id, title) {
+        return electronAPI.historyRename(id, title);
+      },
+
+      async remove(id) {
+        await electronAPI.historyDelete(id);
+      },
+    },
+
     // ============================================
     // Cleanup
     // ============================================
@@ -11,8 +11,14 @@ import type {
   ToolWithEnabledState,
   ToolCallResult,
   ResourceInfo,
+  ResourceTemplateInfo,
+  CompletionValues,
+  ResourceUpdatedPayload,
+  ToolProgressPayload,
   UIResource,
   PromptInfo,
+  PromptResult,
+  MessageImage,
   ChatRequest,
   StreamEvent,
   WebSocketEvent,
@@ -35,6 +41,23 @@ import type {
   AcpSessionUpdatePayload,
   AcpTerminalOutputResult,
 } from '../shared/acp-types.js';
+import type {
+  SamplingApprovalRequestPayload,
+  SamplingDecision,
+  SamplingProgressPayload,
+} from '../shared/sampling-types.js';
+import type {
+  ElicitationCompletePayload,
+  ElicitationDecision,
+  ElicitationRequestPayload,
+} from '../shared/elicitation-types.js';
+import type { RootsSettings, RootsState } from '../shared/roots-types.js';
+import type { ToolApprovalSettings } from '../shared/tool-approval.js';
+import type {
+  Conversation,
+  ConversationInput,
+  ConversationSummary,
+} from '../shared/conversation-types.js';
 
 // ============================================
 // ACP Adapter Interface (Electron-only)
@@ -49,7 +72,10 @@ export interface AcpAdapter {
   removeAgent(id: string): Promise<{ success: boolean }>;
   stopAgent(id: string): Promise<{ success: boolean }>;
   newSession(agentId: string, cwd: string): Promise<AcpNewSessionResult>;
-  prompt(sessionId: string, text: string): Promise<{ turnId: string }>;
+  /** Reopen a saved session with its context; null if the agent can't load sessions */
+  loadSession(agentId: string, sessionId: string, cwd: string): Promise<AcpNewSessionResult | null>;
+  /** Images go to the agent as image blocks when it accepts them */
+  prompt(sessionId: string, text: string, images?: MessageImage[]): Promise<{ turnId: string }>;
   cancel(sessionId: string): Promise<void>;
   setMode(sessionId: string, modeId: string): Promise<void>;
   setConfigOption(sessionId: string, configId: string, value: string | boolean): Promise<void>;
@@ -62,6 +88,84 @@ export interface AcpAdapter {
   onOpenApp(callback: (data: AcpOpenAppPayload) => void): () => void;
 }
 
+// ============================================
+// Sampling Adapter Interface (Electron-only)
+// ============================================
+
+export interface SamplingAdapter {
+  /** Answer a pending sampling card (approve / edit / reject a request, or review a response) */
+  respond(requestId: string, decision: SamplingDecision): Promise<void>;
+  onRequest(callback: (data: SamplingApprovalRequestPayload) => void): () => void;
+  /** Live LLM output for approved requests */
+  onProgress(callback: (data: SamplingProgressPayload) => void): () => void;
+}
+
+// ============================================
+// Elicitation Adapter Interface
+// ============================================
+
+export interface ElicitationAdapter {
+  /** Answer a pending elicitation form */
+  respond(requestId: string, decision: ElicitationDecision): Promise<void>;
+  onRequest(callback: (data: ElicitationRequestPayload) => void): () => void;
+  /** An accepted URL-mode request finished */
+  onComplete(callback: (data: ElicitationCompletePayload) => void): () => void;
+  /**
+   * Open an accepted URL-mode page from the renderer. Call it from the
+   * click handler so browsers don't block the tab. Undefined when the
+   * backend opens it (Electron uses the system browser).
+   */
+  openUrl?(url: string): void;
+}
+
+// ============================================
+// Roots Adapter Interface (Electron-only)
+// ============================================
+
+export interface RootsAdapter {
+  get(): Promise<RootsState>;
+  /** Save settings; resolves with the updated state */
+  set(settings: Partial<RootsSettings>): Promise<RootsState>;
+  /** Open a native directory picker; resolves null if cancelled */
+  pickDirectory(): Promise<string | null>;
+  onChanged(callback: (state: RootsState) => void): () => void;
+}
+
+// ============================================
+// Tool Approval Adapter Interface (Electron-only)
+// ============================================
+
+export interface ToolApprovalAdapter {
+  get(): Promise<ToolApprovalSettings>;
+  /** Save settings; resolves with the updated settings */
+  set(settings: Partial<ToolApprovalSettings>): Promise<ToolApprovalSettings>;
+}
+
+// ============================================
+// Conversation History Adapter Interface (Electron-only)
+// ============================================
+
+export interface HistoryAdapter {
+  /** Newest first; `query` searches titles and message text */
+  list(query?: string): Promise<ConversationSummary[]>;
+  get(id: string): Promise<Conversation | null>;
+  save(conversation: ConversationInput): Promise<ConversationSummary>;
+  rename(id: string, title: string): Promise<ConversationSummary | null>;
+  remove(id: string): Promise<void>;
+}
+
+// ============================================
+// Resource Subscriptions Adapter Interface
+// ============================================
+
+export interface SubscriptionsAdapter {
+  /** Ask the server for notifications/resources/updated on this resource */
+  subscribe(serverName: string, uri: string): Promise<void>;
+  unsubscribe(serverName: string, uri: string): Promise<void>;
+  /** A subscribed resource changed (or may have, after a reconnect); read it again */
+  onUpdated(callback: (data: ResourceUpdatedPayload) => void): () => void;
+}
+
 // ============================================
 // Core Adapter Interface
 // ============================================
@@ -73,7 +177,10 @@ export interface CommunicationAdapter {
 
   // Tools
   getTools(options?: { hasUi?: boolean }): Promise<ToolWithUIInfo[]>;
-  callTool(name: string, args: Record<string, unknown>): Promise<ToolCallResult>;
+  /** callId names the call for cancelToolCall */
+  callTool(name: string, args: Record<string, unknown>, options?: { callId?: string }): Promise<ToolCallResult>;
+  /** Cancel an in-flight call; the server is notified and callTool rejects (Electron only) */
+  cancelToolCall?(callId: string): Promise<void>;
 
   // Tool Manager
   getToolManagerTools(options?: { hasUi?: boolean }): Promise<ToolWithEnabledState[]>;
@@ -99,9 +206,27 @@ export interface CommunicationAdapter {
   getResources(): Promise<ResourceInfo[]>;
   readResource(serverName: string, uri: string): Promise<unknown>;
   getUIResource(serverName: string, uri: string): Promise<UIResource | null>;
+  getResourceTemplates(): Promise<ResourceTemplateInfo[]>;
+  /** Suggestions for one template variable; `context` holds the variables already filled in */
+  completeResourceArgument(
+    serverName: string,
+    uriTemplate: string,
+    argName: string,
+    value: string,
+    context?: Record<string, string>
+  ): Promise<CompletionValues>;
 
   // Prompts
   getPrompts(): Promise<PromptInfo[]>;
+  getPrompt(serverName: string, name: string, args?: Record<string, string>): Promise<PromptResult>;
+  /** Suggestions for one prompt argument; `context` holds the arguments already filled in */
+  completePromptArgument(
+    serverName: string,
+    name: string,
+    argName: string,
+    value: string,
+    context?: Record<string, string>
+  ): Promise<CompletionValues>;
 
   // Chat (streaming)
   streamChat(request: ChatRequest): AsyncIterable<StreamEvent>;
@@ -112,6 +237,24 @@ export interface CommunicationAdapter {
   // ACP agents (Electron-only; undefined in web/HTTP mode)
   acp?: AcpAdapter;
 
+  // Server sampling approvals (Electron-only; undefined in web/HTTP mode)
+  sampling?: SamplingAdapter;
+
+  // Server elicitation forms (IPC in Electron, WebSocket + REST in web mode)
+  elicitation?: ElicitationAdapter;
+
+  // Filesystem roots exposed to servers (Electron-only; undefined in web/HTTP mode)
+  roots?: RootsAdapter;
+
+  // Server trust and "always allow" memory for tool calls (Electron-only; undefined in web/HTTP mode)
+  toolApproval?: ToolApprovalAdapter;
+
+  // Resource update subscriptions (IPC in Electron, WebSocket + REST in web mode)
+  subscriptions?: SubscriptionsAdapter;
+
+  // Saved conversations (Electron-only; undefined in web/HTTP mode)
+  history?: HistoryAdapter;
+
   // Cleanup
   dispose(): void;
 }
@@ -140,7 +283,8 @@ export interface ElectronAPI {
 
   // Tools
   getTools(options?: { hasUi?: boolean }): Promise<{ tools: ToolWithUIInfo[] }>;
-  callTool(name: string, args: Record<string, unknown>): Promise<ToolCallResult>;
+  callTool(name: string, args: Record<string, unknown>, callId?: string): Promise<ToolCallResult>;
+  cancelToolCall(callId: string): Promise<{ cancelled: boolean }>;
 
   // Tool Manager
   getToolManagerTools(options?: { hasUi?: boolean }): Promise<{ tools: ToolWithEnabledState[] }>;
@@ -152,9 +296,27 @@ export interface ElectronAPI {
   getResources(): Promise<{ resources: ResourceInfo[] }>;
   readResource(serverName: string, uri: string): Promise<unknown>;
   getUIResource(serverName: string, uri: string): Promise<UIResource | null>;
+  getResourceTemplates(): Promise<{ resourceTemplates: ResourceTemplateInfo[] }>;
+  completeResourceArgument(
+    serverName: string,
+    uriTemplate: string,
+    argName: string,
+    value: string,
+    context?: Record<string, string>
+  ): Promise<CompletionValues>;
+  subscribeResource(serverName: string, uri: string): Promise<{ success: boolean }>;
+  unsubscribeResource(serverName: string, uri: string): Promise<{ success: boolean }>;
 
   // Prompts
   getPrompts(): Promise<{ prompts: PromptInfo[] }>;
+  getPrompt(serverName: string, name: string, args?: Record<string, string>): Promise<PromptResult>;
+  completePromptArgument(
+    serverName: string,
+    name: string,
+    argName: string,
+    value: string,
+    context?: Record<string, string>
+  ): Promise<CompletionValues>;
 
   // Chat (streaming)
   startChatStream(request: ChatRequest): Promise<string>; // Returns stream ID
@@ -166,8 +328,9 @@ export interface ElectronAPI {
   // Events
   onToolsChanged(callback: () => void): () => void;
   onServersChanged(callback: () => void): () => void;
-  onResourceUpdated(callback: (data: { uri: string; serverName: string }) => void): () => void;
+  onResourceUpdated(callback: (data: ResourceUpdatedPayload) => void): () => void;
   onConnectionError(callback: (data: { serverName: string; error: string }) => void): () => void;
+  onToolProgress(callback: (data: ToolProgressPayload) => void): () => void;
 
   // Lifecycle Events
   onServerStatusChanged(callback: (data: ServerStatusChangedPayload) => void): () => void;
@@ -210,7 +373,8 @@ export interface ElectronAPI {
   acpRemoveAgent(id: string): Promise<{ success: boolean }>;
   acpStopAgent(id: string): Promise<{ success: boolean }>;
   acpNewSession(agentId: string, cwd: string): Promise<AcpNewSessionResult>;
-  acpPrompt(sessionId: string, text: string): Promise<{ turnId: string }>;
+  acpLoadSession(agentId: string, sessionId: string, cwd: string): Promise<AcpNewSessionResult | null>;
+  acpPrompt(sessionId: string, text: string, images?: MessageImage[]): Promise<{ turnId: string }>;
   acpCancel(sessionId: string): Promise<{ success: boolean }>;
   acpSetMode(sessionId: string, modeId: string): Promise<{ success: boolean }>;
   acpSetConfigOption(
@@ -227,6 +391,32 @@ export interface ElectronAPI {
   onAcpPermissionRequest(callback: (data: AcpPermissionRequestPayload) => void): () => void;
   onAcpAgentStatusChanged(callback: (data: AcpAgentStatusPayload) => void): () => void;
   onAcpOpenApp(callback: (data: AcpOpenAppPayload) => void): () => void;
+
+  // Sampling
+  samplingRespond(requestId: string, decision: SamplingDecision): Promise<{ success: boolean }>;
+  onSamplingRequest(callback: (data: SamplingApprovalRequestPayload) => void): () => void;
+  onSamplingProgress(callback: (data: SamplingProgressPayload) => void): () => void;
+
+  // Elicitation
+  elicitationRespond(requestId: string, decision: ElicitationDecision): Promise<{ success: boolean }>;
+  onElicitationRequest(callback: (data: ElicitationRequestPayload) => void): () => void;
+  onElicitationComplete(callback: (data: ElicitationCompletePayload) => void): () => void;
+
+  // Roots
+  rootsGet(): Promise<RootsState>;
+  rootsSet(settings: Partial<RootsSettings>): Promise<RootsState>;
+  onRootsChanged(callback: (state: RootsState) => void): () => void;
+
+  // Tool Approval
+  toolApprovalGet(): Promise<ToolApprovalSettings>;
+  toolApprovalSet(settings: Partial<ToolApprovalSettings>): Promise<ToolApprovalSettings>;
+
+  // Conversation History
+  historyList(query?: string): Promise<{ conversations: ConversationSummary[] }>;
+  historyGet(id: string): Promise<Conversation | null>;
+  historySave(conversation: ConversationInput): Promise<ConversationSummary>;
+  historyRename(id: string, title: string): Promise<ConversationSummary | null>;
+  historyDelete(id: string): Promise<{ success: boolean }>;
 }
 
 // Extend Window interface for TypeScript
@@ -14,6 +14,7 @@ import {
   ClientSideConnection,
   ndJsonStream,
   PROTOCOL_VERSION,
+  type ContentBlock,
   type InitializeResponse,
   type McpServer,
   type RequestPermissionRequest,
@@ -30,6 +31,7 @@ import type {
   AcpToolCallView,
   AcpUiEvent,
 } from '../../../shared/acp-types.js';
+import type { MessageImage } from '../../../shared/types.js';
 import { SkilljackAcpClient, type AcpClientDelegate } from './acp-client-impl.js';
 import { killProcessTree, spawnAgentProcess } from './agent-spawner.js';
 import type { PermissionBroker } from './permission-broker.js';
@@ -54,6 +56,8 @@ interface SessionState {
   cwd: string;
   toolCalls: Map<string, AcpToolCallView>;
   promptActive: boolean;
+  /** True while session/load replays history the chat already shows */
+  replaying?: boolean;
 }
 
 export interface AcpConnectionCallbacks {
@@ -111,6 +115,16 @@ export class AcpAgentConnection {
     return this.initResult?.agentCapabilities?.mcpCapabilities?.http === true;
   }
 
+  /** Whether the agent can reopen an earlier session with session/load */
+  get supportsLoadSession(): boolean {
+    return this.initResult?.agentCapabilities?.loadSession === true;
+  }
+
+  /** Whether the agent accepts image blocks in session/prompt */
+  get supportsImagePrompts(): boolean {
+    return this.initResult?.agentCapabilities?.promptCapabilities?.image === true;
+  }
+
   // ============================================
   // Lifecycle
   // ============================================
@@ -245,6 +259,46 @@ export class AcpAgentConnection {
     };
   }
 
+  /**
+   * Reopen a session from an earlier run with its context intact. The
+   * agent replays the conversation as session updates while loading; the
+   * chat already shows it, so those updates aren't forwarded.
+   */
+  async loadSession(sessionId: string, cwd: string, mcpServers: McpServer[]): Promise<AcpNewSessionResult> {
+    if (!this.isAlive) {
+      await this.start();
+    }
+    const connection = this.requireConnection();
+    if (!this.supportsLoadSession) {
+      throw new Error('The agent cannot load earlier sessions');
+    }
+
+    const session: SessionState = { cwd, toolCalls: new Map(), promptActive: false, replaying: true };
+    this.sessions.set(sessionId, session);
+
+    let result;
+    try {
+      result = await withTimeout(
+        connection.loadSession({ sessionId, cwd, mcpServers }),
+        NEW_SESSION_TIMEOUT_MS,
+        'session/load'
+      );
+    } catch (err) {
+      this.sessions.delete(sessionId);
+      throw new Error(this.describeSessionError(err));
+    } finally {
+      session.replaying = false;
+    }
+
+    return {
+      sessionId,
+      agentId: this.agentId,
+      cwd,
+      modes: toModeStateView(result.modes),
+      configOptions: toConfigOptionViews(result.configOptions),
+    };
+  }
+
   private describeSessionError(err: unknown): string {
     const message = err instanceof Error ? err.message : String(err);
     const authMethods = this.initResult?.authMethods ?? [];
@@ -263,7 +317,7 @@ export class AcpAgentConnection {
    * Fire the prompt in the background; the outcome arrives on the session
    * event stream as turn_ended / turn_error.
    */
-  prompt(sessionId: string, text: string): string {
+  prompt(sessionId: string, text: string, images: MessageImage[] = []): string {
     const connection = this.requireConnection();
     const session = this.requireSession(sessionId);
     if (session.promptActive) {
@@ -274,8 +328,18 @@ export class AcpAgentConnection {
     session.promptActive = true;
     this.callbacks.onSessionEvent(sessionId, { type: 'turn_started', turnId });
 
+    // Agents that don't take images get a note instead, so the text still makes sense
+    const prompt: ContentBlock[] = [{ type: 'text', text }];
+    for (const image of images) {
+      prompt.push(
+        this.supportsImagePrompts
+          ? { type: 'image', data: image.data, mimeType: image.mimeType }
+          : { type: 'text', text: `[image (${image.mimeType}) omitted: not supported by this agent]` }
+      );
+    }
+
     connection
-      .prompt({ sessionId, prompt: [{ type: 'text', text }] })
+      .prompt({ sessionId, prompt })
       .then((result) => {
         session.promptActive = false;
         this.callbacks.onSessionEvent(sessionId, {
@@ -343,7 +407,9 @@ export class AcpAgentConnection {
       log.warn(`[ACP:${this.agentId}] update for unknown session ${sessionId}`);
       return;
     }
-    const emit = (event: AcpUiEvent) => this.callbacks.onSessionEvent(sessionId, event);
+    const emit = (event: AcpUiEvent) => {
+      if (!session.replaying) this.callbacks.onSessionEvent(sessionId, event);
+    };
 
     switch (update.sessionUpdate) {
       case 'agent_message_chunk':
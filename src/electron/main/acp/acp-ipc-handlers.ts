@@ -11,6 +11,7 @@ import type {
   AcpAgentConfig,
   AcpPermissionOutcome,
 } from '../../../shared/acp-types.js';
+import type { MessageImage } from '../../../shared/types.js';
 import type { AcpManager } from './acp-manager.js';
 
 export function setupAcpIpcHandlers(acpManager: AcpManager): void {
@@ -46,8 +47,16 @@ export function setupAcpIpcHandlers(acpManager: AcpManager): void {
     return acpManager.newSession(agentId, cwd);
   });
 
-  ipcMain.handle(channels.ACP_PROMPT, (_event, sessionId: string, text: string) => {
-    return { turnId: acpManager.prompt(sessionId, text) };
+  ipcMain.handle(
+    channels.ACP_LOAD_SESSION,
+    async (_event, agentId: string, sessionId: string, cwd: string) => {
+      log.info(`[ACP] Load session requested: agent=${agentId}, session=${sessionId}, cwd=${cwd}`);
+      return acpManager.loadSession(agentId, sessionId, cwd);
+    }
+  );
+
+  ipcMain.handle(channels.ACP_PROMPT, (_event, sessionId: string, text: string, images?: MessageImage[]) => {
+    return { turnId: acpManager.prompt(sessionId, text, images) };
   });
 
   ipcMain.handle(channels.ACP_CANCEL, async (_event, sessionId: string) => {
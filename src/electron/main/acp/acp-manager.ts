@@ -25,6 +25,7 @@ import type {
   AcpTerminalOutputResult,
   AcpUiEvent,
 } from '../../../shared/acp-types.js';
+import type { MessageImage } from '../../../shared/types.js';
 import type { McpManager } from '../mcp-manager.js';
 import { AcpAgentConnection } from './acp-connection.js';
 import { loadAgentsConfig, saveAgentsConfig } from './agents-config.js';
@@ -127,6 +128,36 @@ export class AcpManager {
   // ============================================
 
   async newSession(agentId: string, cwd: string): Promise<AcpNewSessionResult> {
+    const { connection, mcpServers } = await this.prepareSession(agentId, cwd);
+    const result = await connection.newSession(cwd, mcpServers);
+    this.sessionOpened(agentId, result);
+    return result;
+  }
+
+  /**
+   * Reopen a session saved in the conversation history, so the agent keeps
+   * the earlier context. Resolves null when the agent can't load sessions;
+   * the chat then starts a new one.
+   */
+  async loadSession(agentId: string, sessionId: string, cwd: string): Promise<AcpNewSessionResult | null> {
+    const { connection, mcpServers } = await this.prepareSession(agentId, cwd);
+    if (!connection.supportsLoadSession) {
+      log.info(`[ACP] Agent ${agentId} does not support session/load`);
+      return null;
+    }
+    const result = await connection.loadSession(sessionId, cwd, mcpServers);
+    this.sessionOpened(agentId, result);
+    return result;
+  }
+
+  /**
+   * Check the agent and cwd, start the agent if needed and assemble the
+   * MCP servers offered to its session.
+   */
+  private async prepareSession(
+    agentId: string,
+    cwd: string
+  ): Promise<{ connection: AcpAgentConnection; mcpServers: McpServer[] }> {
     const config = this.agents[agentId];
     if (!config) {
       throw new Error(`Unknown agent: ${agentId}`);
@@ -178,15 +209,21 @@ export class AcpManager {
       log.info('[ACP] Agent does not support http MCP servers; skipping config bridge');
     }
 
-    const result = await connection.newSession(cwd, mcpServers);
+    return { connection, mcpServers };
+  }
+
+  private sessionOpened(agentId: string, result: AcpNewSessionResult): void {
     this.sessionToAgent.set(result.sessionId, agentId);
 
     // Remember the cwd as the default for this agent's next session
-    if (config.defaultSessionCwd !== cwd) {
-      this.updateAgent(agentId, { defaultSessionCwd: cwd });
+    if (this.agents[agentId].defaultSessionCwd !== result.cwd) {
+      this.updateAgent(agentId, { defaultSessionCwd: result.cwd });
     }
 
-    return result;
+    // MCP servers follow the agent's workspace as a root (if enabled in Settings)
+    this.getMcpManager()
+      ?.setWorkspaceRoot(result.cwd)
+      .catch((error) => log.warn('[ACP] Failed to update roots:', error));
   }
 
   /**
@@ -242,8 +279,8 @@ export class AcpManager {
     }
   }
 
-  prompt(sessionId: string, text: string): string {
-    return this.requireConnectionForSession(sessionId).prompt(sessionId, text);
+  prompt(sessionId: string, text: string, images?: MessageImage[]): string {
+    return this.requireConnectionForSession(sessionId).prompt(sessionId, text, images);
   }
 
   async cancel(sessionId: string): Promise<void> {
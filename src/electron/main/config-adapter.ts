@@ -10,6 +10,8 @@ import type {
   ServerConfig,
   StdioServerConfig as NewStdioConfig,
   HttpServerConfig as NewHttpConfig,
+  SseServerConfig as NewSseConfig,
+  WebSocketServerConfig as NewWebSocketConfig,
 } from '@skilljack/mcp-server-manager';
 import type {
   MultiServerConfig,
@@ -21,7 +23,9 @@ import type {
 /**
  * Convert a legacy server connection config to the new format
  */
-function convertConnection(legacy: LegacyConnectionConfig): NewStdioConfig | NewHttpConfig {
+function convertConnection(
+  legacy: LegacyConnectionConfig
+): NewStdioConfig | NewHttpConfig | NewSseConfig | NewWebSocketConfig {
   if (legacy.transport === 'stdio') {
     const stdio = legacy as LegacyStdioConfig;
     return {
@@ -31,12 +35,24 @@ function convertConnection(legacy: LegacyConnectionConfig): NewStdioConfig | New
       env: stdio.env,
       cwd: stdio.cwd,
     };
+  } else if (legacy.transport === 'websocket') {
+    return {
+      type: 'websocket',
+      url: legacy.url,
+    };
+  } else if (legacy.transport === 'sse') {
+    return {
+      type: 'sse',
+      url: legacy.url,
+      headers: legacy.headers,
+    };
   } else {
     const http = legacy as LegacyHttpConfig;
     return {
       type: 'http',
       url: http.url,
       headers: http.headers,
+      mode: http.mode,
     };
   }
 }
@@ -52,7 +68,13 @@ export function convertLegacyConfig(legacy: MultiServerConfig): ManagerConfig {
     ([name, connectionConfig]): ServerConfig => ({
       name,
       connection: convertConnection(connectionConfig),
+      // Only set keys override the defaults; an undefined value would erase them
+      lifecycle: {
+        ...(connectionConfig.healthProbes && { healthProbes: connectionConfig.healthProbes }),
+        ...(connectionConfig.idleTimeoutMs !== undefined && { idleTimeoutMs: connectionConfig.idleTimeoutMs }),
+      },
       autoStart: true,
+      startMode: connectionConfig.lazy ? 'lazy' : 'eager',
     })
   );
 
@@ -5,7 +5,8 @@
  * All handlers use the channel constants from shared/channels.ts.
  */
 
-import { ipcMain, BrowserWindow, dialog } from 'electron';
+import { ipcMain, BrowserWindow, dialog, app } from 'electron';
+import { join } from 'node:path';
 import log from 'electron-log';
 import Store from 'electron-store';
 import type { ModelMessage } from 'ai';
@@ -14,6 +15,12 @@ import { streamChat, mergeSettings } from '../../web/llm/provider.js';
 import { buildSystemPrompt } from '../../web/llm/system-prompt.js';
 import type { McpManager } from './mcp-manager.js';
 import type { ChatRequest, StreamEvent, McpContext } from '../../shared/types.js';
+import type { SamplingDecision } from '../../shared/sampling-types.js';
+import type { ElicitationDecision } from '../../shared/elicitation-types.js';
+import type { RootsSettings } from '../../shared/roots-types.js';
+import type { ToolApprovalSettings } from '../../shared/tool-approval.js';
+import type { ConversationInput } from '../../shared/conversation-types.js';
+import { createConversationStore, type ConversationStore } from '../../stores/conversation-store.js';
 
 // Settings store for renderer preferences
 const settingsStore = new Store({
@@ -34,6 +41,9 @@ const settingsStore = new Store({
   },
 });
 
+// Saved chat sessions (userData/conversations), created with the first window
+let conversationStore: ConversationStore | null = null;
+
 // Track active chat streams
 const activeStreams = new Map<string, AbortController>();
 let streamIdCounter = 0;
@@ -83,9 +93,9 @@ export function setupIPCHandlers(
 
   ipcMain.handle(
     channels.CALL_TOOL,
-    async (_event, name: string, args: Record<string, unknown>) => {
+    async (_event, name: string, args: Record<string, unknown>, callId?: string) => {
       try {
-        return await serverManager.callTool(name, args);
+        return await serverManager.callTool(name, args, callId);
       } catch (error) {
         log.error('CALL_TOOL error:', error);
         throw error;
@@ -93,6 +103,15 @@ export function setupIPCHandlers(
     }
   );
 
+  ipcMain.handle(channels.CANCEL_TOOL_CALL, async (_event, callId: string) => {
+    try {
+      return { cancelled: serverManager.cancelToolCall(callId) };
+    } catch (error) {
+      log.error('CANCEL_TOOL_CALL error:', error);
+      throw error;
+    }
+  });
+
   // ============================================
   // Tool Manager
   // ============================================
@@ -172,6 +191,61 @@ export function setupIPCHandlers(
     }
   );
 
+  ipcMain.handle(
+    channels.SUBSCRIBE_RESOURCE,
+    async (_event, serverName: string, uri: string) => {
+      try {
+        await serverManager.subscribeResource(serverName, uri);
+        return { success: true };
+      } catch (error) {
+        log.error('SUBSCRIBE_RESOURCE error:', error);
+        throw error;
+      }
+    }
+  );
+
+  ipcMain.handle(
+    channels.UNSUBSCRIBE_RESOURCE,
+    async (_event, serverName: string, uri: string) => {
+      try {
+        await serverManager.unsubscribeResource(serverName, uri);
+        return { success: true };
+      } catch (error) {
+        log.error('UNSUBSCRIBE_RESOURCE error:', error);
+        throw error;
+      }
+    }
+  );
+
+  ipcMain.handle(channels.GET_RESOURCE_TEMPLATES, async () => {
+    try {
+      const resourceTemplates = await serverManager.getResourceTemplates();
+      return { resourceTemplates };
+    } catch (error) {
+      log.error('GET_RESOURCE_TEMPLATES error:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    channels.COMPLETE_RESOURCE_ARGUMENT,
+    async (
+      _event,
+      serverName: string,
+      uriTemplate: string,
+      argName: string,
+      value: string,
+      context?: Record<string, string>
+    ) => {
+      try {
+        return await serverManager.completeResourceArgument(serverName, uriTemplate, argName, value, context);
+      } catch (error) {
+        log.error('COMPLETE_RESOURCE_ARGUMENT error:', error);
+        throw error;
+      }
+    }
+  );
+
   // ============================================
   // Prompts
   // ============================================
@@ -186,6 +260,37 @@ export function setupIPCHandlers(
     }
   });
 
+  ipcMain.handle(
+    channels.GET_PROMPT,
+    async (_event, serverName: string, name: string, args?: Record<string, string>) => {
+      try {
+        return await serverManager.getPrompt(serverName, name, args);
+      } catch (error) {
+        log.error('GET_PROMPT error:', error);
+        throw error;
+      }
+    }
+  );
+
+  ipcMain.handle(
+    channels.COMPLETE_PROMPT_ARGUMENT,
+    async (
+      _event,
+      serverName: string,
+      name: string,
+      argName: string,
+      value: string,
+      context?: Record<string, string>
+    ) => {
+      try {
+        return await serverManager.completePromptArgument(serverName, name, argName, value, context);
+      } catch (error) {
+        log.error('COMPLETE_PROMPT_ARGUMENT error:', error);
+        throw error;
+      }
+    }
+  );
+
   // ============================================
   // Chat Streaming
   // ============================================
@@ -399,6 +504,98 @@ export function setupIPCHandlers(
     }
   });
 
+  // ============================================
+  // Sampling
+  // ============================================
+
+  ipcMain.handle(channels.SAMPLING_RESPOND, (_event, requestId: string, decision: SamplingDecision) => {
+    serverManager.respondToSampling(requestId, decision);
+    return { success: true };
+  });
+
+  // ============================================
+  // Elicitation
+  // ============================================
+
+  ipcMain.handle(channels.ELICITATION_RESPOND, (_event, requestId: string, decision: ElicitationDecision) => {
+    serverManager.respondToElicitation(requestId, decision);
+    return { success: true };
+  });
+
+  // ============================================
+  // Roots
+  // ============================================
+
+  ipcMain.handle(channels.ROOTS_GET, () => {
+    return serverManager.getRootsState();
+  });
+
+  ipcMain.handle(channels.ROOTS_SET, async (_event, settings: Partial<RootsSettings>) => {
+    try {
+      return await serverManager.setRootsSettings(settings);
+    } catch (error) {
+      log.error('ROOTS_SET error:', error);
+      throw error;
+    }
+  });
+
+  // ============================================
+  // Tool Approval
+  // ============================================
+
+  ipcMain.handle(channels.TOOL_APPROVAL_GET, () => {
+    return serverManager.getToolApprovalSettings();
+  });
+
+  ipcMain.handle(channels.TOOL_APPROVAL_SET, (_event, settings: Partial<ToolApprovalSettings>) => {
+    try {
+      return serverManager.setToolApprovalSettings(settings);
+    } catch (error) {
+      log.error('TOOL_APPROVAL_SET error:', error);
+      throw error;
+    }
+  });
+
+  // ============================================
+  // Conversation History
+  // ============================================
+
+  conversationStore ??= createConversationStore({
+    dataDir: join(app.getPath('userData'), 'conversations'),
+    onLog: (msg) => log.warn(msg),
+  });
+  const conversations = conversationStore;
+
+  ipcMain.handle(channels.HISTORY_LIST, (_event, query?: string) => {
+    return { conversations: conversations.list(query) };
+  });
+
+  ipcMain.handle(channels.HISTORY_GET, (_event, id: string) => {
+    return conversations.get(id) ?? null;
+  });
+
+  ipcMain.handle(channels.HISTORY_SAVE, (_event, conversation: ConversationInput) => {
+    try {
+      return conversations.save(conversation);
+    } catch (error) {
+      log.error('HISTORY_SAVE error:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(channels.HISTORY_RENAME, (_event, id: string, title: string) => {
+    return conversations.rename(id, title) ?? null;
+  });
+
+  ipcMain.handle(channels.HISTORY_DELETE, (_event, id: string) => {
+    try {
+      return { success: conversations.remove(id) };
+    } catch (error) {
+      log.error('HISTORY_DELETE error:', error);
+      throw error;
+    }
+  });
+
   log.info('IPC handlers registered');
 }
 
@@ -509,6 +706,17 @@ async function handleChatStream(
             }),
           };
         }
+        if (m.role === 'user' && Array.isArray(m.content)) {
+          // User message with images (e.g. inserted from a server prompt)
+          return {
+            role: 'user' as const,
+            content: m.content.map((part) =>
+              part.type === 'image'
+                ? { type: 'image' as const, image: part.image, mediaType: part.mediaType }
+                : { type: 'text' as const, text: part.text }
+            ),
+          };
+        }
         // Simple text message (user, system, or text-only assistant)
         return {
           role: m.role as 'user' | 'assistant' | 'system',
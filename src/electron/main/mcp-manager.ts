@@ -5,11 +5,16 @@
  * 1. @skilljack/mcp-server-manager - Lifecycle management (connect, health, restart)
  * 2. multi-server.ts - Tool/resource aggregation
  * 3. ToolManagerState - Enabled/disabled persistence (electron-store)
+ * 4. CatalogCache - Tool/prompt/resource lists per server (userData/catalog.json)
+ *
+ * The built-in tool-manager and server-config servers are mounted
+ * in-process in their own lifecycle manager, so they are called like any
+ * other MCP server but stay out of the user's server list.
  *
  * This wrapper is intentionally thin (~150 lines of orchestration).
  */
 
-import { app, BrowserWindow } from 'electron';
+import { app, BrowserWindow, shell } from 'electron';
 import Store from 'electron-store';
 import log from 'electron-log';
 import { readFile, writeFile } from 'node:fs/promises';
@@ -21,20 +26,43 @@ import {
   type LifecycleEvent,
   type ManagerEvent,
   ConsoleLoggerFactory,
+  createInProcessConfig,
 } from '@skilljack/mcp-server-manager';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError, type Progress } from '@modelcontextprotocol/sdk/types.js';
 import {
   loadMultiServerConfig,
-  aggregateTools,
-  aggregatePrompts,
-  aggregateResources,
+  getSamplingPolicies,
+  getRootsScopes,
+  getToolTimeouts,
+  resolveToolTimeout,
   callTool,
-  getServersSummary,
+  completeResourceArgument,
+  completePromptArgument,
+  subscribeResource,
+  unsubscribeResource,
+  qualifyName,
+  parseQualifiedName,
   setupAllCapabilities,
   type AggregatedTool,
+  type ServerConnectionConfig,
+  type ToolTimeouts,
 } from '../../multi-server.js';
+import { CliOAuthProvider } from '../../transports/oauth.js';
+import type { SamplingPolicy, SamplingUsage } from '../../capabilities/sampling-policy.js';
+import { RootsManager } from '../../capabilities/roots.js';
+import { createCatalogCache, type CatalogItems, type CatalogKind } from '../../stores/catalog-cache.js';
 import { getToolUiResourceUri, fetchUIResource, isToolVisibleToModel, RESOURCE_MIME_TYPE } from '../../capabilities/apps.js';
+import { serverSupportsCompletions } from '../../capabilities/completions.js';
+import { serverSupportsSubscriptions } from '../../capabilities/subscriptions.js';
 import { convertLegacyConfig } from './config-adapter.js';
+import { SamplingBroker } from './sampling-broker.js';
+import type { SamplingDecision, SamplingProgressPayload } from '../../shared/sampling-types.js';
+import { ElicitationBroker } from '../../web/elicitation-broker.js';
+import type { ElicitationDecision } from '../../shared/elicitation-types.js';
+import type { RootsSettings, RootsState } from '../../shared/roots-types.js';
+import type { ToolApprovalSettings } from '../../shared/tool-approval.js';
+import { getConfiguredProviders } from '../../web/llm/provider.js';
 import {
   previewMcpb,
   installMcpb,
@@ -46,17 +74,13 @@ import * as channels from '../../shared/channels.js';
 
 // Import internal tool packages
 import {
-  MANAGE_TOOLS_TOOL as TOOL_MANAGER_TOOL,
   TOOL_MANAGER_UI_URI,
-  handleManageTools,
+  createServer as createToolManagerServer,
 } from '@skilljack/internal-tool-manager';
 import {
-  SERVER_CONFIG_TOOL,
-  SERVER_CONFIG_ACTION_TOOLS,
-  ALL_SERVER_CONFIG_TOOLS,
   SERVER_CONFIG_UI_URI,
   MCPB_CONFIRM_UI_URI,
-  createServerConfigHandler,
+  createServer as createServerConfigServer,
   type ServerConfigDeps,
 } from '@skilljack/internal-server-config';
 
@@ -72,9 +96,13 @@ import type {
   ToolWithUIInfo,
   ToolWithEnabledState,
   ToolCallResult,
+  ToolProgressPayload,
   ResourceInfo,
+  ResourceTemplateInfo,
+  CompletionValues,
   UIResource,
   PromptInfo,
+  PromptResult,
   WebConfig,
   ServerWithState,
   ServerConfigEntry,
@@ -90,12 +118,22 @@ interface StoreSchema {
   configPath?: string;
   disabledTools: string[];
   disabledServers: string[];
+  rootPaths: string[];
+  rootsFollowWorkspace: boolean;
+  trustedServers: string[];
+  allowedServers: string[];
+  allowedTools: string[];
 }
 
 const store = new Store<StoreSchema>({
   defaults: {
     disabledTools: [],
     disabledServers: [],
+    rootPaths: [],
+    rootsFollowWorkspace: true,
+    trustedServers: [],
+    allowedServers: [],
+    allowedTools: [],
   },
 });
 
@@ -169,6 +207,21 @@ class ToolManagerState {
   }
 }
 
+// ============================================
+// Client Capabilities
+// ============================================
+
+/**
+ * Declared by every managed client at connect time. Handlers for these are
+ * installed in setupCapabilities(); the SDK refuses handlers for anything
+ * not declared here.
+ */
+const CLIENT_CAPABILITIES = {
+  sampling: { tools: {} },
+  elicitation: { form: {}, url: {} },
+  roots: { listChanged: true },
+};
+
 // ============================================
 // MCP Manager Class
 // ============================================
@@ -176,12 +229,45 @@ class ToolManagerState {
 export class McpManager {
   private lifecycleManager: LifecycleManager | null = null;
   private toolState = new ToolManagerState();
+  private catalog = createCatalogCache({
+    dataDir: app.getPath('userData'),
+    // A list shown from the last session turned out stale
+    onRevalidated: (_serverName, kind) => {
+      if (kind === 'tools') this.notifyToolsChanged();
+      else this.sendToRenderer(channels.ON_SERVERS_CHANGED, undefined);
+    },
+    onLog: (message) => log.warn(message),
+  });
+  /** Resource URIs the renderer watches, per server; subscribed again after a reconnect */
+  private watchedResources = new Map<string, Set<string>>();
   private mainWindow: BrowserWindow | null = null;
   private pendingMcpbPreview: McpbPreviewResult | null = null;
-  private serverConfigHandler: ReturnType<typeof createServerConfigHandler>;
+  private builtInServers: LifecycleManager;
+  private samplingBroker = new SamplingBroker((payload) => {
+    this.sendToRenderer(channels.ON_SAMPLING_REQUEST, payload);
+  });
+  private elicitationBroker = new ElicitationBroker({
+    send: (payload) => this.sendToRenderer(channels.ON_ELICITATION_REQUEST, payload),
+    sendComplete: (payload) => this.sendToRenderer(channels.ON_ELICITATION_COMPLETE, payload),
+    // URL-mode consent pages open in the system browser, never in an app window
+    openUrl: (url) => shell.openExternal(url),
+    log: (message) => log.info(message),
+  });
+  private roots = new RootsManager({
+    paths: store.get('rootPaths'),
+    followWorkspace: store.get('rootsFollowWorkspace'),
+    onLog: (message) => log.info(message),
+  });
+  private samplingPolicies: Record<string, SamplingPolicy> = {};
+  private toolTimeouts: Record<string, ToolTimeouts> = {};
+  // In-flight tool calls the renderer can cancel, keyed by its tool call id
+  private toolCallControllers = new Map<string, AbortController>();
+  // Survives config reloads and reconnects so limits can't be reset by restarting a server
+  private samplingUsage = new Map<string, SamplingUsage>();
 
   constructor() {
-    // Create server config handler with dependencies
+    // Dependencies of the built-in server-config server
+    let lastPreview: McpbPreviewResult | null = null;
     const deps: ServerConfigDeps = {
       getServerConfigs: async () => {
         const configs = await this.getServerConfigs();
@@ -199,6 +285,7 @@ export class McpManager {
       setServerEnabled: (name, enabled) => { this.setServerEnabled(name, enabled); },
       previewMcpb: async (mcpbPath: string) => {
         const preview = await previewMcpb(mcpbPath);
+        lastPreview = preview;
         return {
           mcpbPath: preview.mcpbPath,
           manifest: {
@@ -212,18 +299,29 @@ export class McpManager {
         };
       },
       setPendingMcpbPreview: (preview) => {
-        // Store preview for later use - the UI will fetch it via getMcpbPreviewData
-        if (preview && typeof preview === 'object' && 'mcpbPath' in preview) {
-          previewMcpb((preview as { mcpbPath: string }).mcpbPath).then((p) => {
-            this.pendingMcpbPreview = p;
-          });
+        // Keep the full preview for the confirmation UI (fetched via getMcpbPreviewData)
+        const { mcpbPath } = preview as { mcpbPath: string };
+        if (lastPreview?.mcpbPath === mcpbPath) {
+          this.pendingMcpbPreview = lastPreview;
         }
       },
     };
-    this.serverConfigHandler = createServerConfigHandler(deps);
+
+    this.builtInServers = new LifecycleManager(
+      {
+        servers: [
+          { name: 'tool-manager', connection: createInProcessConfig(() => createToolManagerServer()) },
+          { name: 'server-config', connection: createInProcessConfig(() => createServerConfigServer(deps)) },
+        ],
+        defaults: { healthCheckEnabled: false },
+      },
+      { loggerFactory: new ConsoleLoggerFactory() }
+    );
   }
 
   async initialize(): Promise<void> {
+    await this.builtInServers.start();
+
     // Try to load config from default locations
     const configPaths = [
       store.get('configPath'),
@@ -248,12 +346,22 @@ export class McpManager {
 
   setMainWindow(window: BrowserWindow | null): void {
     this.mainWindow = window;
+    // Pending sampling and elicitation cards die with the renderer; answer them so servers aren't left hanging
+    window?.webContents.once('destroyed', () => {
+      if (this.mainWindow === window) {
+        this.samplingBroker.rejectAll();
+        this.elicitationBroker.cancelAll();
+      }
+    });
   }
 
   async loadConfig(path: string): Promise<void> {
     // Load legacy config and convert to new format
     const legacyConfig = await loadMultiServerConfig(path);
     const managerConfig = convertLegacyConfig(legacyConfig);
+    this.samplingPolicies = getSamplingPolicies(legacyConfig);
+    this.roots.setScopes(getRootsScopes(legacyConfig));
+    this.toolTimeouts = getToolTimeouts(legacyConfig);
 
     // Shutdown existing manager if any
     if (this.lifecycleManager) {
@@ -263,6 +371,8 @@ export class McpManager {
     // Create new lifecycle manager
     this.lifecycleManager = LifecycleManager.fromConfig(managerConfig, {
       loggerFactory: new ConsoleLoggerFactory(),
+      clientCapabilities: CLIENT_CAPABILITIES,
+      authProviderFactory: (name) => this.createAuthProvider(name, legacyConfig.mcpServers[name]),
     });
 
     // Wire up lifecycle events to IPC
@@ -278,6 +388,22 @@ export class McpManager {
     store.set('configPath', path);
   }
 
+  /**
+   * OAuth provider for an HTTP or SSE server with `oauth` set. The sign-in page
+   * opens in the system browser; tokens are kept per server in userData.
+   */
+  private createAuthProvider(name: string, config: ServerConnectionConfig | undefined): CliOAuthProvider | undefined {
+    if (!config || (config.transport !== 'http' && config.transport !== 'sse') || !config.oauth) return undefined;
+    const options = config.oauth === true ? {} : config.oauth;
+    return new CliOAuthProvider({
+      tokenFile: join(app.getPath('userData'), 'oauth', `${name}.json`),
+      callbackPort: options.callbackPort,
+      clientName: options.clientName ?? 'Skilljack',
+      openBrowser: (url) => shell.openExternal(url),
+      log: (message) => log.info(message.trim()),
+    });
+  }
+
   private setupEventBridge(): void {
     if (!this.lifecycleManager) return;
 
@@ -299,7 +425,13 @@ export class McpManager {
           this.sendToRenderer(channels.ON_SERVER_HEALTHY, payload);
           break;
         case 'server:unhealthy':
-          this.sendToRenderer(channels.ON_SERVER_UNHEALTHY, payload);
+          // Flatten the failing check (e.g. a probe over its latency SLO) into the health payload
+          this.sendToRenderer(channels.ON_SERVER_UNHEALTHY, {
+            ...payload,
+            healthy: false,
+            latencyMs: event.lastHealthCheck.latencyMs,
+            error: event.lastHealthCheck.error,
+          });
           break;
         case 'server:crashed':
           this.sendToRenderer(channels.ON_SERVER_CRASHED, payload);
@@ -308,10 +440,14 @@ export class McpManager {
           this.sendToRenderer(channels.ON_SERVER_RESTARTING, payload);
           break;
         case 'server:connected':
+          // A new connection may bring a different catalog
+          this.catalog.invalidate(event.serverName);
           this.sendToRenderer(channels.ON_SERVERS_CHANGED, undefined);
           // Re-setup capabilities when a server reconnects
           const clients = this.lifecycleManager?.getConnectedClients();
           if (clients) this.setupCapabilities(clients);
+          const client = clients?.get(event.serverName);
+          if (client) this.resubscribe(event.serverName, client);
           break;
         case 'server:connection-failed':
           this.sendToRenderer(channels.ON_CONNECTION_ERROR, {
@@ -335,11 +471,49 @@ export class McpManager {
 
   private setupCapabilities(clients: Map<string, Client>): void {
     setupAllCapabilities(clients, {
+      sampling: {
+        // First provider with a key in the environment; mock handler if none
+        provider: getConfiguredProviders()[0],
+        policies: this.samplingPolicies,
+        usage: this.samplingUsage,
+        callbacks: {
+          onApprovalRequest: (serverName, request) =>
+            this.samplingBroker.request(serverName, request),
+          onResponseReview: (serverName, response, request) =>
+            this.samplingBroker.reviewResponse(serverName, response, request),
+          onResponseDelta: (serverName, delta) => {
+            const progress: SamplingProgressPayload = {
+              streamId: `${serverName}:${delta.request.requestId}`,
+              serverName,
+              text: delta.text,
+              done: delta.done,
+            };
+            this.sendToRenderer(channels.ON_SAMPLING_PROGRESS, progress);
+          },
+          onLog: (serverName, message) => {
+            log.info(`[${serverName}] ${message}`);
+          },
+        },
+      },
+      elicitation: {
+        onForm: (serverName, message, schema) => this.elicitationBroker.request(serverName, message, schema),
+        onUrl: (serverName, url, message, elicitationId) =>
+          this.elicitationBroker.requestUrl(serverName, message, url, elicitationId),
+        onComplete: (serverName, elicitationId) => this.elicitationBroker.complete(serverName, elicitationId),
+      },
+      rootsManager: this.roots,
       listChanged: {
-        onToolsChanged: (_serverName, _tools) => {
+        onToolsChanged: (serverName, _tools) => {
+          this.catalog.invalidate(serverName, 'tools');
           this.notifyToolsChanged();
         },
-        onResourcesChanged: (_serverName, _resources) => {
+        onPromptsChanged: (serverName, _prompts) => {
+          this.catalog.invalidate(serverName, 'prompts');
+        },
+        onResourcesChanged: (serverName, _resources) => {
+          // resources/list_changed covers templates too
+          this.catalog.invalidate(serverName, 'resources');
+          this.catalog.invalidate(serverName, 'resourceTemplates');
           this.sendToRenderer(channels.ON_SERVERS_CHANGED, undefined);
         },
       },
@@ -353,10 +527,13 @@ export class McpManager {
   }
 
   async shutdown(): Promise<void> {
+    this.samplingBroker.rejectAll();
+    this.elicitationBroker.cancelAll();
     if (this.lifecycleManager) {
       await this.lifecycleManager.shutdown();
       this.lifecycleManager = null;
     }
+    await this.builtInServers.shutdown();
   }
 
   // ============================================
@@ -384,19 +561,22 @@ export class McpManager {
   // ============================================
 
   async getServers(): Promise<ServerSummary[]> {
-    const clients = this.lifecycleManager?.getConnectedClients() ?? new Map();
-    const summary = await getServersSummary(clients);
-    const states = this.lifecycleManager?.getAllServerStates() ?? [];
-
-    return summary.map((s) => {
-      const state = states.find((st) => st.name === s.name);
+    const manager = this.lifecycleManager;
+    if (!manager) return [];
+
+    // Sleeping servers have no client; their tool count is from the cache
+    const clients = manager.getConnectedClients();
+    const toolLists = await this.listCatalog('tools');
+    return toolLists.map(({ serverName, items }): ServerSummary => {
+      const state = manager.getServerState(serverName);
       return {
-        name: s.name,
-        version: s.serverVersion?.version,
+        name: serverName,
+        version: clients.get(serverName)?.getServerVersion()?.version,
         status: state?.status ?? 'disconnected',
-        toolCount: s.toolCount,
+        toolCount: items.length,
         healthy: state?.healthy,
         restartAttempts: state?.restartAttempts,
+        transport: state?.transport,
         error: state?.error,
       };
     });
@@ -415,38 +595,8 @@ export class McpManager {
   // Tools (uses multi-server.ts aggregation)
   // ============================================
 
-  /**
-   * Convert a package tool (with Zod schema) to ToolWithUIInfo (with JSON Schema).
-   * This handles the difference between the package's Zod-based schemas and the app's expected format.
-   */
-  private convertPackageTool(tool: {
-    name: string;
-    displayName: string;
-    title?: string;
-    description: string;
-    inputSchema?: unknown;
-    hasUi: boolean;
-    uiResourceUri?: string;
-    serverName: string;
-    annotations?: Record<string, unknown>;
-  }): ToolWithUIInfo {
-    return {
-      name: tool.name,
-      displayName: tool.displayName,
-      description: tool.description,
-      inputSchema: tool.inputSchema && typeof (tool.inputSchema as { _def?: unknown })._def === 'object'
-        ? undefined  // Zod schema - let the caller use the Zod validation
-        : tool.inputSchema as Record<string, unknown> | undefined,
-      hasUi: tool.hasUi,
-      uiResourceUri: tool.uiResourceUri,
-      serverName: tool.serverName,
-      annotations: tool.annotations,
-    };
-  }
-
   async getTools(options?: { hasUi?: boolean }): Promise<ToolWithUIInfo[]> {
-    const clients = this.lifecycleManager?.getConnectedClients() ?? new Map();
-    const allTools = await aggregateTools(clients);
+    const allTools = await this.listAllTools();
     const modelVisibleTools = allTools.filter((t) => isToolVisibleToModel(t));
     let toolsWithUI = this.toolsToUIInfo(modelVisibleTools);
 
@@ -454,87 +604,66 @@ export class McpManager {
       toolsWithUI = toolsWithUI.filter((t) => t.hasUi);
     }
 
-    // Convert built-in tools from packages (with Zod schemas) to app format
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const builtInTools: ToolWithUIInfo[] = [
-      this.convertPackageTool(TOOL_MANAGER_TOOL as any),
-      this.convertPackageTool(SERVER_CONFIG_TOOL as any),
-      ...SERVER_CONFIG_ACTION_TOOLS.map((t) => this.convertPackageTool(t as any)),
-    ];
+    // Built-in tools can't be disabled
+    const builtInTools = this.toolsToUIInfo(await this.listBuiltInTools());
 
-    // Add built-in tools and filter disabled tools
     return [
       ...builtInTools,
       ...this.toolState.filterEnabledTools(toolsWithUI),
     ];
   }
 
-  async callTool(name: string, args: Record<string, unknown>): Promise<ToolCallResult> {
-    // Handle built-in tool-manager using imported handler
-    if (name === 'tool-manager__manage-tools') {
-      const result = handleManageTools();
+  async callTool(name: string, args: Record<string, unknown>, callId?: string): Promise<ToolCallResult> {
+    // Built-in servers answer in-process; others are woken if asleep
+    const { serverName: target } = parseQualifiedName(name);
+    const manager = this.builtInServers.getServerState(target) ? this.builtInServers : this.lifecycleManager;
+    if (!manager) {
+      throw new Error('No MCP servers loaded');
+    }
+    const timeout = resolveToolTimeout(this.toolTimeouts, name);
+    const controller = new AbortController();
+    if (callId) this.toolCallControllers.set(callId, controller);
+    try {
+      const { serverName, result } = await manager.useClient(target, (client) =>
+        callTool(new Map([[target, client]]), name, args, {
+          timeout,
+          signal: controller.signal,
+          onProgress: callId ? (progress) => this.notifyToolProgress(callId, progress) : undefined,
+          onUrlElicitation: (server, elicitation) => this.elicitationBroker.elicitUrl(server, elicitation),
+        })
+      );
       return {
         content: result.content,
-        serverName: 'tool-manager',
+        structuredContent: result.structuredContent as Record<string, unknown> | undefined,
+        isError: result.isError === true,
+        serverName,
       };
-    }
-
-    // Handle server-config tools using the imported handler
-    if (name.startsWith('server-config__')) {
-      // Special handling for install-mcpb to store preview data
-      if (name === 'server-config__install-mcpb') {
-        const { mcpbPath } = args as { mcpbPath: string };
-        if (!mcpbPath) {
-          return {
-            content: [{ type: 'text', text: 'Missing required parameter: mcpbPath' }],
-            serverName: 'server-config',
-            isError: true,
-          };
-        }
-        try {
-          // Preview the MCPB and store for UI access
-          const preview = await previewMcpb(mcpbPath);
-          this.pendingMcpbPreview = preview;
-          const displayInfo = getManifestDisplayInfo(preview.manifest);
-          return {
-            content: [{
-              type: 'text',
-              text: `Opening installation dialog for "${displayInfo.displayName}" v${displayInfo.version}...`,
-            }],
-            serverName: 'server-config',
-          };
-        } catch (err) {
-          return {
-            content: [{ type: 'text', text: `Failed to preview MCPB: ${err instanceof Error ? err.message : 'Unknown error'}` }],
-            serverName: 'server-config',
-            isError: true,
-          };
-        }
-      }
-
-      // Delegate to the imported handler for all other server-config tools
-      const result = await this.serverConfigHandler(name, args);
-      if (result) {
-        return {
-          content: result.content,
-          structuredContent: result.structuredContent,
-          isError: result.isError,
-          serverName: result.serverName,
-        };
+    } catch (error) {
+      // The SDK reports its own timeout as a bare "Request timed out"
+      if (error instanceof McpError && error.code === ErrorCode.RequestTimeout && !controller.signal.aborted) {
+        throw new Error(`${name} timed out after ${timeout / 1000}s`);
       }
+      throw error;
+    } finally {
+      if (callId) this.toolCallControllers.delete(callId);
     }
+  }
 
-    // Handle external MCP server tools
-    const clients = this.lifecycleManager?.getConnectedClients() ?? new Map();
-    const { serverName, result } = await callTool(clients, name, args, {
-      timeout: 120000,
-    });
-    return {
-      content: result.content,
-      structuredContent: result.structuredContent as Record<string, unknown> | undefined,
-      isError: result.isError === true,
-      serverName,
-    };
+  private notifyToolProgress(callId: string, { progress, total, message }: Progress): void {
+    const payload: ToolProgressPayload = { callId, progress, total, message };
+    this.sendToRenderer(channels.ON_TOOL_PROGRESS, payload);
+  }
+
+  /**
+   * Cancel an in-flight tool call. The server is sent notifications/cancelled
+   * and the pending callTool rejects. Returns false if the call already ended.
+   */
+  cancelToolCall(callId: string): boolean {
+    const controller = this.toolCallControllers.get(callId);
+    if (!controller) return false;
+    log.info(`Cancelling tool call ${callId}`);
+    controller.abort('Cancelled by the user');
+    return true;
   }
 
   // ============================================
@@ -542,8 +671,7 @@ export class McpManager {
   // ============================================
 
   async getToolManagerTools(options?: { hasUi?: boolean }): Promise<ToolWithEnabledState[]> {
-    const clients = this.lifecycleManager?.getConnectedClients() ?? new Map();
-    const allTools = await aggregateTools(clients);
+    const allTools = await this.listAllTools();
     let toolsWithUI = this.toolsToUIInfo(allTools);
 
     if (options?.hasUi) {
@@ -560,8 +688,7 @@ export class McpManager {
   }
 
   async getToolManagerServers(): Promise<ServerWithState[]> {
-    const clients = this.lifecycleManager?.getConnectedClients() ?? new Map();
-    const allTools = await aggregateTools(clients);
+    const allTools = await this.listAllTools();
     const toolsWithUI = this.toolsToUIInfo(allTools);
     return this.toolState.getServersWithState(toolsWithUI);
   }
@@ -577,24 +704,108 @@ export class McpManager {
   // ============================================
 
   async getResources(): Promise<ResourceInfo[]> {
-    const clients = this.lifecycleManager?.getConnectedClients() ?? new Map();
-    const resources = await aggregateResources(clients);
-    return resources.map((r) => ({
-      uri: r.uri,
-      name: r.name,
-      description: r.description,
-      mimeType: r.mimeType,
-      serverName: r.serverName,
-    }));
+    const lists = await this.listCatalog('resources');
+    return lists.flatMap(({ serverName, items }) =>
+      items.map((r) => ({
+        uri: qualifyName(serverName, r.uri),
+        name: r.name,
+        description: r.description,
+        mimeType: r.mimeType,
+        serverName,
+      }))
+    );
   }
 
   async readResource(serverName: string, uri: string): Promise<unknown> {
-    const clients = this.lifecycleManager?.getConnectedClients() ?? new Map();
-    const client = clients.get(serverName);
-    if (!client) {
+    const manager = this.lifecycleManager;
+    if (!manager) {
       throw new Error(`Server not found: ${serverName}`);
     }
-    return client.readResource({ uri });
+    return manager.useClient(serverName, (client) => client.readResource({ uri }));
+  }
+
+  async subscribeResource(serverName: string, uri: string): Promise<void> {
+    const manager = this.lifecycleManager;
+    if (!manager) {
+      throw new Error(`Server not found: ${serverName}`);
+    }
+    await manager.useClient(serverName, async (client) => {
+      if (!serverSupportsSubscriptions(client)) {
+        throw new Error(`Server "${serverName}" does not support resource subscriptions`);
+      }
+      await subscribeResource(new Map([[serverName, client]]), qualifyName(serverName, uri));
+    });
+
+    const uris = this.watchedResources.get(serverName) ?? new Set<string>();
+    uris.add(uri);
+    this.watchedResources.set(serverName, uris);
+  }
+
+  async unsubscribeResource(serverName: string, uri: string): Promise<void> {
+    const uris = this.watchedResources.get(serverName);
+    uris?.delete(uri);
+    if (uris?.size === 0) {
+      this.watchedResources.delete(serverName);
+    }
+
+    // A sleeping or stopped server has no subscription left to cancel
+    const client = this.lifecycleManager?.getConnectedClients().get(serverName);
+    if (client) {
+      await unsubscribeResource(new Map([[serverName, client]]), qualifyName(serverName, uri));
+    }
+  }
+
+  /**
+   * Subscriptions end with the connection. Renew them on a fresh one and
+   * have the renderer re-read, since updates sent meanwhile were missed.
+   */
+  private resubscribe(serverName: string, client: Client): void {
+    for (const uri of this.watchedResources.get(serverName) ?? []) {
+      client
+        .subscribeResource({ uri })
+        .then(() => this.sendToRenderer(channels.ON_RESOURCE_UPDATED, { serverName, uri }))
+        .catch((error) => log.warn(`Failed to resubscribe to ${uri} on ${serverName}:`, error));
+    }
+  }
+
+  async getResourceTemplates(): Promise<ResourceTemplateInfo[]> {
+    const lists = await this.listCatalog('resourceTemplates');
+    return lists.flatMap(({ serverName, items }) =>
+      items.map((t) => ({
+        uriTemplate: qualifyName(serverName, t.uriTemplate),
+        originalUriTemplate: t.uriTemplate,
+        name: t.name,
+        description: t.description,
+        mimeType: t.mimeType,
+        serverName,
+      }))
+    );
+  }
+
+  async completeResourceArgument(
+    serverName: string,
+    uriTemplate: string,
+    argName: string,
+    value: string,
+    context?: Record<string, string>
+  ): Promise<CompletionValues> {
+    const manager = this.lifecycleManager;
+    if (!manager) {
+      throw new Error(`Server not found: ${serverName}`);
+    }
+    return manager.useClient(serverName, async (client) => {
+      if (!serverSupportsCompletions(client)) {
+        return { values: [] };
+      }
+      const { result } = await completeResourceArgument(
+        new Map([[serverName, client]]),
+        qualifyName(serverName, uriTemplate),
+        argName,
+        value,
+        context && { arguments: context }
+      );
+      return result;
+    });
   }
 
   async getUIResource(serverName: string, uri: string): Promise<UIResource | null> {
@@ -652,14 +863,50 @@ export class McpManager {
   // ============================================
 
   async getPrompts(): Promise<PromptInfo[]> {
-    const clients = this.lifecycleManager?.getConnectedClients() ?? new Map();
-    const prompts = await aggregatePrompts(clients);
-    return prompts.map((p) => ({
-      name: p.name,
-      description: p.description,
-      arguments: p.arguments,
-      serverName: p.serverName,
-    }));
+    const lists = await this.listCatalog('prompts');
+    return lists.flatMap(({ serverName, items }) =>
+      items.map((p) => ({
+        name: qualifyName(serverName, p.name),
+        originalName: p.name,
+        description: p.description,
+        arguments: p.arguments,
+        serverName,
+      }))
+    );
+  }
+
+  async getPrompt(serverName: string, name: string, args: Record<string, string> = {}): Promise<PromptResult> {
+    const manager = this.lifecycleManager;
+    if (!manager) {
+      throw new Error(`Server not found: ${serverName}`);
+    }
+    return manager.useClient(serverName, (client) => client.getPrompt({ name, arguments: args }));
+  }
+
+  async completePromptArgument(
+    serverName: string,
+    name: string,
+    argName: string,
+    value: string,
+    context?: Record<string, string>
+  ): Promise<CompletionValues> {
+    const manager = this.lifecycleManager;
+    if (!manager) {
+      throw new Error(`Server not found: ${serverName}`);
+    }
+    return manager.useClient(serverName, async (client) => {
+      if (!serverSupportsCompletions(client)) {
+        return { values: [] };
+      }
+      const { result } = await completePromptArgument(
+        new Map([[serverName, client]]),
+        qualifyName(serverName, name),
+        argName,
+        value,
+        context && { arguments: context }
+      );
+      return result;
+    });
   }
 
   // ============================================
@@ -838,6 +1085,8 @@ export class McpManager {
         log.warn(`Failed to remove server "${name}" from lifecycle manager:`, err);
       }
     }
+    this.catalog.remove(name);
+    this.watchedResources.delete(name);
     this.notifyToolsChanged();
     this.sendToRenderer(channels.ON_SERVERS_CHANGED, undefined);
   }
@@ -941,10 +1190,180 @@ export class McpManager {
     }
   }
 
+  // ============================================
+  // Sampling
+  // ============================================
+
+  /**
+   * Answer a pending sampling approval request from the renderer
+   */
+  respondToSampling(requestId: string, decision: SamplingDecision): void {
+    this.samplingBroker.respond(requestId, decision);
+  }
+
+  // ============================================
+  // Elicitation
+  // ============================================
+
+  /**
+   * Answer a pending elicitation form from the renderer
+   */
+  respondToElicitation(requestId: string, decision: ElicitationDecision): void {
+    this.elicitationBroker.respond(requestId, decision);
+  }
+
+  // ============================================
+  // Roots
+  // ============================================
+
+  getRootsState(): RootsState {
+    const clients = this.lifecycleManager?.getConnectedClients() ?? new Map<string, Client>();
+    return {
+      paths: this.roots.getPaths(),
+      followWorkspace: this.roots.isFollowingWorkspace(),
+      workspace: this.roots.getWorkspace(),
+      servers: [...clients.keys()].map((serverName) => ({
+        serverName,
+        roots: this.roots.getRoots(serverName),
+        scoped: this.roots.isScoped(serverName),
+      })),
+    };
+  }
+
+  /**
+   * Update the roots from Settings; servers whose roots change are notified.
+   */
+  async setRootsSettings(settings: Partial<RootsSettings>): Promise<RootsState> {
+    if (settings.paths !== undefined) {
+      store.set('rootPaths', settings.paths);
+      await this.roots.setPaths(settings.paths);
+    }
+    if (settings.followWorkspace !== undefined) {
+      store.set('rootsFollowWorkspace', settings.followWorkspace);
+      await this.roots.setFollowWorkspace(settings.followWorkspace);
+    }
+    return this.notifyRootsChanged();
+  }
+
+  /**
+   * The agent session's working directory moved (exposed as a root when
+   * followWorkspace is on).
+   */
+  async setWorkspaceRoot(directory: string | undefined): Promise<void> {
+    if (directory === this.roots.getWorkspace()) return;
+    await this.roots.setWorkspace(directory);
+    this.notifyRootsChanged();
+  }
+
+  private notifyRootsChanged(): RootsState {
+    const state = this.getRootsState();
+    this.sendToRenderer(channels.ON_ROOTS_CHANGED, state);
+    return state;
+  }
+
+  // ============================================
+  // Tool Approval
+  // ============================================
+
+  getToolApprovalSettings(): ToolApprovalSettings {
+    return {
+      trustedServers: store.get('trustedServers'),
+      allowedServers: store.get('allowedServers'),
+      allowedTools: store.get('allowedTools'),
+    };
+  }
+
+  /**
+   * Update which servers are trusted and what runs without asking; the
+   * chat checks these before running a tool call.
+   */
+  setToolApprovalSettings(settings: Partial<ToolApprovalSettings>): ToolApprovalSettings {
+    for (const key of ['trustedServers', 'allowedServers', 'allowedTools'] as const) {
+      const value = settings[key];
+      if (value !== undefined) {
+        store.set(key, [...new Set(value)]);
+      }
+    }
+    return this.getToolApprovalSettings();
+  }
+
   // ============================================
   // Helper Methods
   // ============================================
 
+  /**
+   * Tools of every running or sleeping server, with qualified names.
+   */
+  private async listAllTools(): Promise<AggregatedTool[]> {
+    const lists = await this.listCatalog('tools');
+    return lists.flatMap(({ serverName, items }) =>
+      items.map((tool) => ({
+        ...tool,
+        name: qualifyName(serverName, tool.name),
+        originalName: tool.name,
+        serverName,
+      }))
+    );
+  }
+
+  /**
+   * Tools of the built-in in-process servers, with qualified names.
+   */
+  private async listBuiltInTools(): Promise<AggregatedTool[]> {
+    const lists = await Promise.all(
+      Array.from(this.builtInServers.getConnectedClients().entries()).map(async ([serverName, client]) => {
+        try {
+          const { tools } = await client.listTools();
+          return tools.map((tool) => ({
+            ...tool,
+            name: qualifyName(serverName, tool.name),
+            originalName: tool.name,
+            serverName,
+          }));
+        } catch (error) {
+          log.warn(`Failed to list tools of built-in ${serverName}:`, error);
+          return [];
+        }
+      })
+    );
+    return lists.flat();
+  }
+
+  /**
+   * One catalog list per running or sleeping server. Connected servers are
+   * listed through the cache; sleeping ones from what was cached before
+   * they went to sleep, and one never listed (first run) is woken instead.
+   */
+  private async listCatalog<K extends CatalogKind>(
+    kind: K
+  ): Promise<Array<{ serverName: string; items: CatalogItems[K][] }>> {
+    const manager = this.lifecycleManager;
+    if (!manager) return [];
+
+    const neverListed = manager
+      .getAllServerStates()
+      .filter((st) => st.status === 'sleeping' && !this.catalog.cached(st.name, kind));
+    await Promise.allSettled(neverListed.map((st) => manager.wakeServer(st.name)));
+
+    const clients = manager.getConnectedClients();
+    const live = await Promise.all(
+      Array.from(clients.entries()).map(async ([serverName, client]) => {
+        try {
+          return { serverName, items: await this.catalog.list(serverName, client, kind) };
+        } catch (error) {
+          log.warn(`Failed to list ${kind} of ${serverName}:`, error);
+          return { serverName, items: this.catalog.cached(serverName, kind) ?? [] };
+        }
+      })
+    );
+
+    const sleeping = manager
+      .getAllServerStates()
+      .filter((st) => st.status === 'sleeping')
+      .map((st) => ({ serverName: st.name, items: this.catalog.cached(st.name, kind) ?? [] }));
+    return [...live, ...sleeping];
+  }
+
   private toolsToUIInfo(tools: AggregatedTool[]): ToolWithUIInfo[] {
     return tools.map((tool) => {
       const uiResourceUri = getToolUiResourceUri(tool);
@@ -0,0 +1,191 @@
+/**
+ * Sampling Approval Broker
+ *
+ * Bridges server-initiated sampling/createMessage requests to the
+ * renderer. Requests are pushed as ON_SAMPLING_REQUEST events with a
+ * correlation id; the renderer answers via the SAMPLING_RESPOND invoke
+ * channel. The same round trip runs twice per request: once to approve
+ * (or edit) the request, once to review the LLM's answer. Pending
+ * requests are rejected when the window goes away, so a server never
+ * waits on a card nobody can see.
+ */
+
+import log from 'electron-log';
+import type { TextContent, ToolUseContent } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  SamplingApproval,
+  SamplingRequest,
+  SamplingResponse,
+  SamplingResponseReview,
+} from '../../capabilities/sampling.js';
+import { formatContentForDisplay } from '../../capabilities/sampling.js';
+import type {
+  SamplingApprovalRequestPayload,
+  SamplingDecision,
+  SamplingRequestEdits,
+  SamplingResponseView,
+} from '../../shared/sampling-types.js';
+
+interface PendingRequest {
+  serverName: string;
+  stage: SamplingApprovalRequestPayload['stage'];
+  resolve: (decision: SamplingDecision) => void;
+}
+
+function isPlainText(content: SamplingRequest['messages'][number]['content']): boolean {
+  const blocks = Array.isArray(content) ? content : [content];
+  return blocks.length === 1 && blocks[0].type === 'text';
+}
+
+/**
+ * Flatten an SDK sampling request into the serializable IPC view.
+ */
+export function toSamplingApprovalPayload(
+  requestId: string,
+  serverName: string,
+  request: SamplingRequest
+): SamplingApprovalRequestPayload {
+  return {
+    requestId,
+    stage: 'request',
+    serverName,
+    messages: request.messages.map((message) => ({
+      role: message.role,
+      text: formatContentForDisplay(message.content),
+      editable: isPlainText(message.content),
+    })),
+    systemPrompt: request.systemPrompt,
+    tools: (request.tools ?? []).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+    })),
+    toolChoice: request.toolChoice?.mode,
+    maxTokens: request.maxTokens,
+    temperature: request.temperature,
+    model: request.modelSelection?.modelId,
+    modelReason: request.modelSelection?.reason,
+    receivedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Flatten an SDK sampling result into the serializable IPC view.
+ */
+export function toSamplingResponseView(response: SamplingResponse): SamplingResponseView {
+  const blocks = Array.isArray(response.content) ? response.content : [response.content];
+  const text = blocks
+    .filter((block) => block.type === 'text')
+    .map((block) => (block as TextContent).text)
+    .join('\n');
+  return {
+    text: text || undefined,
+    toolCalls: blocks
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => {
+        const toolUse = block as ToolUseContent;
+        return { name: toolUse.name, input: JSON.stringify(toolUse.input, null, 2) };
+      }),
+    model: response.model,
+    stopReason: response.stopReason,
+  };
+}
+
+/**
+ * Apply renderer edits to the original SDK request.
+ */
+export function applyRequestEdits(request: SamplingRequest, edits: SamplingRequestEdits): SamplingRequest {
+  const keep = edits.tools ? new Set(edits.tools) : undefined;
+  return {
+    ...request,
+    systemPrompt: edits.systemPrompt ?? request.systemPrompt,
+    messages: request.messages.map((message, index) => {
+      const text = edits.messages?.[index];
+      return text !== undefined && isPlainText(message.content)
+        ? { ...message, content: { type: 'text' as const, text } }
+        : message;
+    }),
+    maxTokens: edits.maxTokens ?? request.maxTokens,
+    temperature: edits.temperature ?? request.temperature,
+    tools: keep ? request.tools?.filter((tool) => keep.has(tool.name)) : request.tools,
+  };
+}
+
+export class SamplingBroker {
+  private pending = new Map<string, PendingRequest>();
+  private counter = 0;
+
+  constructor(private sendToRenderer: (payload: SamplingApprovalRequestPayload) => void) {}
+
+  /**
+   * Push an approval request to the renderer and wait for the answer.
+   * No timeout by design: the server's tool call legitimately blocks on the user.
+   */
+  async request(serverName: string, request: SamplingRequest): Promise<SamplingApproval> {
+    const decision = await this.ask(serverName, (requestId) =>
+      toSamplingApprovalPayload(requestId, serverName, request)
+    );
+    if (!decision.approved) return false;
+    return decision.edits ? applyRequestEdits(request, decision.edits) : true;
+  }
+
+  /**
+   * Show the LLM's answer and wait for the user to send, edit or withhold it.
+   */
+  async reviewResponse(
+    serverName: string,
+    response: SamplingResponse,
+    request: SamplingRequest
+  ): Promise<SamplingResponseReview> {
+    const decision = await this.ask(serverName, (requestId) => ({
+      ...toSamplingApprovalPayload(requestId, serverName, request),
+      stage: 'response',
+      response: toSamplingResponseView(response),
+    }));
+    if (!decision.approved) return false;
+    if (decision.responseText === undefined) return true;
+    return {
+      role: 'assistant',
+      content: { type: 'text', text: decision.responseText },
+      model: response.model,
+      stopReason: 'endTurn',
+    };
+  }
+
+  /** Called from the SAMPLING_RESPOND IPC handler. */
+  respond(requestId: string, decision: SamplingDecision): void {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      log.warn(`[Sampling] Response for unknown request: ${requestId}`);
+      return;
+    }
+    const edited = decision.edits || decision.responseText !== undefined ? ' with edits' : '';
+    log.info(`[Sampling] ${entry.serverName}: ${entry.stage} ${decision.approved ? 'approved' : 'rejected'}${edited}`);
+    entry.resolve(decision);
+  }
+
+  /** Reject everything still pending (window destroyed, config reload, app quit). */
+  rejectAll(): void {
+    for (const entry of [...this.pending.values()]) {
+      entry.resolve({ approved: false });
+    }
+  }
+
+  private ask(
+    serverName: string,
+    buildPayload: (requestId: string) => SamplingApprovalRequestPayload
+  ): Promise<SamplingDecision> {
+    const requestId = `sampling-${++this.counter}-${Date.now()}`;
+    const payload = buildPayload(requestId);
+    return new Promise<SamplingDecision>((resolve) => {
+      this.pending.set(requestId, {
+        serverName,
+        stage: payload.stage,
+        resolve: (decision) => {
+          this.pending.delete(requestId);
+          resolve(decision);
+        },
+      });
+      this.sendToRenderer(payload);
+    });
+  }
+}
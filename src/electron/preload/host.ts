@@ -15,6 +15,9 @@ import type {
   ServerCrashedPayload,
   ServerRestartingPayload,
   ManagerReadyPayload,
+  ResourceUpdatedPayload,
+  ToolProgressPayload,
+  MessageImage,
 } from '../../shared/types.js';
 import type {
   AcpAgentConfig,
@@ -24,6 +27,23 @@ import type {
   AcpPermissionRequestPayload,
   AcpSessionUpdatePayload,
 } from '../../shared/acp-types.js';
+import type {
+  SamplingApprovalRequestPayload,
+  SamplingDecision,
+  SamplingProgressPayload,
+} from '../../shared/sampling-types.js';
+import type {
+  ElicitationCompletePayload,
+  ElicitationDecision,
+  ElicitationRequestPayload,
+} from '../../shared/elicitation-types.js';
+import type { RootsSettings, RootsState } from '../../shared/roots-types.js';
+import type { ToolApprovalSettings } from '../../shared/tool-approval.js';
+import type {
+  Conversation,
+  ConversationInput,
+  ConversationSummary,
+} from '../../shared/conversation-types.js';
 
 // ============================================
 // Channel Whitelist Validation
@@ -72,9 +92,14 @@ const electronAPI = {
     return ipcRenderer.invoke(channels.GET_TOOLS, options);
   },
 
-  callTool: (name: string, args: Record<string, unknown>) => {
+  callTool: (name: string, args: Record<string, unknown>, callId?: string) => {
     validateInvokeChannel(channels.CALL_TOOL);
-    return ipcRenderer.invoke(channels.CALL_TOOL, name, args);
+    return ipcRenderer.invoke(channels.CALL_TOOL, name, args, callId);
+  },
+
+  cancelToolCall: (callId: string): Promise<{ cancelled: boolean }> => {
+    validateInvokeChannel(channels.CANCEL_TOOL_CALL);
+    return ipcRenderer.invoke(channels.CANCEL_TOOL_CALL, callId);
   },
 
   // ============================================
@@ -120,6 +145,32 @@ const electronAPI = {
     return ipcRenderer.invoke(channels.GET_UI_RESOURCE, serverName, uri);
   },
 
+  subscribeResource: (serverName: string, uri: string) => {
+    validateInvokeChannel(channels.SUBSCRIBE_RESOURCE);
+    return ipcRenderer.invoke(channels.SUBSCRIBE_RESOURCE, serverName, uri);
+  },
+
+  unsubscribeResource: (serverName: string, uri: string) => {
+    validateInvokeChannel(channels.UNSUBSCRIBE_RESOURCE);
+    return ipcRenderer.invoke(channels.UNSUBSCRIBE_RESOURCE, serverName, uri);
+  },
+
+  getResourceTemplates: () => {
+    validateInvokeChannel(channels.GET_RESOURCE_TEMPLATES);
+    return ipcRenderer.invoke(channels.GET_RESOURCE_TEMPLATES);
+  },
+
+  completeResourceArgument: (
+    serverName: string,
+    uriTemplate: string,
+    argName: string,
+    value: string,
+    context?: Record<string, string>
+  ) => {
+    validateInvokeChannel(channels.COMPLETE_RESOURCE_ARGUMENT);
+    return ipcRenderer.invoke(channels.COMPLETE_RESOURCE_ARGUMENT, serverName, uriTemplate, argName, value, context);
+  },
+
   // ============================================
   // Prompts
   // ============================================
@@ -129,6 +180,22 @@ const electronAPI = {
     return ipcRenderer.invoke(channels.GET_PROMPTS);
   },
 
+  getPrompt: (serverName: string, name: string, args?: Record<string, string>) => {
+    validateInvokeChannel(channels.GET_PROMPT);
+    return ipcRenderer.invoke(channels.GET_PROMPT, serverName, name, args);
+  },
+
+  completePromptArgument: (
+    serverName: string,
+    name: string,
+    argName: string,
+    value: string,
+    context?: Record<string, string>
+  ) => {
+    validateInvokeChannel(channels.COMPLETE_PROMPT_ARGUMENT);
+    return ipcRenderer.invoke(channels.COMPLETE_PROMPT_ARGUMENT, serverName, name, argName, value, context);
+  },
+
   // ============================================
   // Chat Streaming
   // ============================================
@@ -179,10 +246,10 @@ const electronAPI = {
   },
 
   onResourceUpdated: (
-    callback: (data: { uri: string; serverName: string }) => void
+    callback: (data: ResourceUpdatedPayload) => void
   ): (() => void) => {
     validateOnChannel(channels.ON_RESOURCE_UPDATED);
-    const handler = (_event: Electron.IpcRendererEvent, data: { uri: string; serverName: string }) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: ResourceUpdatedPayload) => {
       callback(data);
     };
     ipcRenderer.on(channels.ON_RESOURCE_UPDATED, handler);
@@ -204,6 +271,17 @@ const electronAPI = {
     };
   },
 
+  onToolProgress: (callback: (data: ToolProgressPayload) => void): (() => void) => {
+    validateOnChannel(channels.ON_TOOL_PROGRESS);
+    const handler = (_event: Electron.IpcRendererEvent, data: ToolProgressPayload) => {
+      callback(data);
+    };
+    ipcRenderer.on(channels.ON_TOOL_PROGRESS, handler);
+    return () => {
+      ipcRenderer.removeListener(channels.ON_TOOL_PROGRESS, handler);
+    };
+  },
+
   // ============================================
   // Settings
   // ============================================
@@ -430,9 +508,14 @@ const electronAPI = {
     return ipcRenderer.invoke(channels.ACP_NEW_SESSION, agentId, cwd);
   },
 
-  acpPrompt: (sessionId: string, text: string) => {
+  acpLoadSession: (agentId: string, sessionId: string, cwd: string) => {
+    validateInvokeChannel(channels.ACP_LOAD_SESSION);
+    return ipcRenderer.invoke(channels.ACP_LOAD_SESSION, agentId, sessionId, cwd);
+  },
+
+  acpPrompt: (sessionId: string, text: string, images?: MessageImage[]) => {
     validateInvokeChannel(channels.ACP_PROMPT);
-    return ipcRenderer.invoke(channels.ACP_PROMPT, sessionId, text);
+    return ipcRenderer.invoke(channels.ACP_PROMPT, sessionId, text, images);
   },
 
   acpCancel: (sessionId: string) => {
@@ -505,6 +588,144 @@ const electronAPI = {
   ): (() => void) => {
     return () => {};
   },
+
+  // ============================================
+  // Sampling
+  // ============================================
+
+  samplingRespond: (requestId: string, decision: SamplingDecision) => {
+    validateInvokeChannel(channels.SAMPLING_RESPOND);
+    return ipcRenderer.invoke(channels.SAMPLING_RESPOND, requestId, decision);
+  },
+
+  onSamplingRequest: (
+    callback: (data: SamplingApprovalRequestPayload) => void
+  ): (() => void) => {
+    validateOnChannel(channels.ON_SAMPLING_REQUEST);
+    const handler = (_event: Electron.IpcRendererEvent, data: SamplingApprovalRequestPayload) => {
+      callback(data);
+    };
+    ipcRenderer.on(channels.ON_SAMPLING_REQUEST, handler);
+    return () => {
+      ipcRenderer.removeListener(channels.ON_SAMPLING_REQUEST, handler);
+    };
+  },
+
+  onSamplingProgress: (
+    callback: (data: SamplingProgressPayload) => void
+  ): (() => void) => {
+    validateOnChannel(channels.ON_SAMPLING_PROGRESS);
+    const handler = (_event: Electron.IpcRendererEvent, data: SamplingProgressPayload) => {
+      callback(data);
+    };
+    ipcRenderer.on(channels.ON_SAMPLING_PROGRESS, handler);
+    return () => {
+      ipcRenderer.removeListener(channels.ON_SAMPLING_PROGRESS, handler);
+    };
+  },
+
+  // ============================================
+  // Elicitation
+  // ============================================
+
+  elicitationRespond: (requestId: string, decision: ElicitationDecision) => {
+    validateInvokeChannel(channels.ELICITATION_RESPOND);
+    return ipcRenderer.invoke(channels.ELICITATION_RESPOND, requestId, decision);
+  },
+
+  onElicitationRequest: (
+    callback: (data: ElicitationRequestPayload) => void
+  ): (() => void) => {
+    validateOnChannel(channels.ON_ELICITATION_REQUEST);
+    const handler = (_event: Electron.IpcRendererEvent, data: ElicitationRequestPayload) => {
+      callback(data);
+    };
+    ipcRenderer.on(channels.ON_ELICITATION_REQUEST, handler);
+    return () => {
+      ipcRenderer.removeListener(channels.ON_ELICITATION_REQUEST, handler);
+    };
+  },
+
+  onElicitationComplete: (
+    callback: (data: ElicitationCompletePayload) => void
+  ): (() => void) => {
+    validateOnChannel(channels.ON_ELICITATION_COMPLETE);
+    const handler = (_event: Electron.IpcRendererEvent, data: ElicitationCompletePayload) => {
+      callback(data);
+    };
+    ipcRenderer.on(channels.ON_ELICITATION_COMPLETE, handler);
+    return () => {
+      ipcRenderer.removeListener(channels.ON_ELICITATION_COMPLETE, handler);
+    };
+  },
+
+  // ============================================
+  // Roots
+  // ============================================
+
+  rootsGet: (): Promise<RootsState> => {
+    validateInvokeChannel(channels.ROOTS_GET);
+    return ipcRenderer.invoke(channels.ROOTS_GET);
+  },
+
+  rootsSet: (settings: Partial<RootsSettings>): Promise<RootsState> => {
+    validateInvokeChannel(channels.ROOTS_SET);
+    return ipcRenderer.invoke(channels.ROOTS_SET, settings);
+  },
+
+  onRootsChanged: (callback: (state: RootsState) => void): (() => void) => {
+    validateOnChannel(channels.ON_ROOTS_CHANGED);
+    const handler = (_event: Electron.IpcRendererEvent, state: RootsState) => {
+      callback(state);
+    };
+    ipcRenderer.on(channels.ON_ROOTS_CHANGED, handler);
+    return () => {
+      ipcRenderer.removeListener(channels.ON_ROOTS_CHANGED, handler);
+    };
+  },
+
+  // ============================================
+  // Tool Approval
+  // ============================================
+
+  toolApprovalGet: (): Promise<ToolApprovalSettings> => {
+    validateInvokeChannel(channels.TOOL_APPROVAL_GET);
+    return ipcRenderer.invoke(channels.TOOL_APPROVAL_GET);
+  },
+
+  toolApprovalSet: (settings: Partial<ToolApprovalSettings>): Promise<ToolApprovalSettings> => {
+    validateInvokeChannel(channels.TOOL_APPROVAL_SET);
+    return ipcRenderer.invoke(channels.TOOL_APPROVAL_SET, settings);
+  },
+
+  // ============================================
+  // Conversation History
+  // ============================================
+
+  historyList: (query?: string): Promise<{ conversations: ConversationSummary[] }> => {
+    validateInvokeChannel(channels.HISTORY_LIST);
+    return ipcRenderer.invoke(channels.HISTORY_LIST, query);
+  },
+
+  historyGet: (id: string): Promise<Conversation | null> => {
+    validateInvokeChannel(channels.HISTORY_GET);
+    return ipcRenderer.invoke(channels.HISTORY_GET, id);
+  },
+
+  historySave: (conversation: ConversationInput): Promise<ConversationSummary> => {
+    validateInvokeChannel(channels.HISTORY_SAVE);
+    return ipcRenderer.invoke(channels.HISTORY_SAVE, conversation);
+  },
+
+  historyRename: (id: string, title: string): Promise<ConversationSummary | null> => {
+    validateInvokeChannel(channels.HISTORY_RENAME);
+    return ipcRenderer.invoke(channels.HISTORY_RENAME, id, title);
+  },
+
+  historyDelete: (id: string): Promise<{ success: boolean }> => {
+    validateInvokeChannel(channels.HISTORY_DELETE);
+    return ipcRenderer.invoke(channels.HISTORY_DELETE, id);
+  },
 };
 
 // ============================================
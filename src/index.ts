@@ -25,6 +25,7 @@ import { createPersistentTaskStore } from './stores/index.js';
 
 // Import standalone capabilities
 import { setupSampling } from './capabilities/sampling.js';
+import { getConfiguredProviders } from './web/llm/provider.js';
 import { setupElicitation } from './capabilities/elicitation.js';
 import { setupRoots } from './capabilities/roots.js';
 import {
@@ -42,7 +43,7 @@ import { combineInstructionsWithSources, logInstructions } from './instructions.
 import { loadConfig, getServerInstructions } from './config.js';
 
 // Import client logging (routes to stderr in stdio mode)
-import { log, logError, setStdioMode } from './logging.js';
+import { log, logError, setStdioMode, write } from './logging.js';
 
 // Import conformance runner
 import { runConformanceScenario } from './conformance/runner.js';
@@ -88,7 +89,7 @@ async function main() {
   const capabilities: Record<string, unknown> = {};
   if (args.enableSampling) capabilities.sampling = { tools: {} };
   if (args.roots.length) capabilities.roots = { listChanged: true };
-  capabilities.elicitation = { form: {} };
+  capabilities.elicitation = { form: {}, url: {} };
   capabilities.tasks = {
     list: {},
     cancel: {},
@@ -216,10 +217,10 @@ async function main() {
   // Set up sampling with combined instructions (after connect so we have server info)
   if (args.enableSampling) {
     setupSampling(client, {
-      apiKey: process.env.ANTHROPIC_API_KEY,
+      provider: getConfiguredProviders()[0],
       approvalMode: args.approvalMode,
       serverInstructions: instructionsResult.combined,
-      ...createSamplingCallbacks({ log }),
+      ...createSamplingCallbacks({ log, write }),
     });
   }
 
@@ -32,6 +32,13 @@ export function log(...args: unknown[]): void {
   }
 }
 
+/**
+ * Write text without a trailing newline, e.g. streamed output (routes to stderr in stdio mode)
+ */
+export function write(text: string): void {
+  (useStderr ? process.stderr : process.stdout).write(text);
+}
+
 /**
  * Log a warning message (always goes to stderr)
  */
@@ -32,22 +32,54 @@
  *       "time": {
  *         "transport": "stdio",
  *         "command": "node",
- *         "args": ["time-server.js"]
+ *         "args": ["time-server.js"],
+ *         "lazy": true,
+ *         "idleTimeoutMs": 600000,
+ *         "toolTimeouts": { "defaultMs": 30000, "tools": { "sync": 600000 } }
  *       },
  *       "weather": {
  *         "transport": "http",
- *         "url": "http://localhost:3000/mcp"
+ *         "url": "http://localhost:3000/mcp",
+ *         "mode": "auto",
+ *         "sampling": { "maxRequestsPerMinute": 10, "dailyTokenBudget": 100000 },
+ *         "roots": { "paths": ["/data/weather"], "workspace": false }
+ *       },
+ *       "legacy": {
+ *         "transport": "sse",
+ *         "url": "http://localhost:3001/sse"
+ *       },
+ *       "socket": {
+ *         "transport": "websocket",
+ *         "url": "ws://localhost:3002"
  *       }
  *     }
  *   }
+ *
+ * HTTP servers use Streamable HTTP; "mode": "auto" falls back to the
+ * legacy HTTP+SSE transport when the server answers with a 4xx, and
+ * "transport": "sse" uses it directly.
+ *
+ * The optional per-server "sampling" block is a SamplingPolicy
+ * (see capabilities/sampling-policy.ts); "roots" is a RootsScope that
+ * narrows the roots that server sees (see capabilities/roots.ts);
+ * "healthProbes" replaces the desktop app's ping health check.
+ * In the desktop app, "lazy" servers start on their first tool call or
+ * list request (tools from the last session are listed meanwhile) and
+ * "idleTimeoutMs" stops a server that has gone unused that long.
+ * "toolTimeouts" sets how long the desktop app lets that server's tool
+ * calls run before cancelling them, for all tools or per tool.
  */
 
 import { readFile } from 'node:fs/promises';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import type { Tool, Prompt, Resource } from '@modelcontextprotocol/sdk/types.js';
+import type { Tool, Prompt, Resource, ResourceTemplate, Progress } from '@modelcontextprotocol/sdk/types.js';
 import { createStdioTransport } from './transports/stdio.js';
-import { createHttpTransport } from './transports/http.js';
+import { createHttpTransport, createSseTransport, createWebSocketTransport } from './transports/http.js';
+import { shouldFallBackToSse, type HealthProbe } from '@skilljack/mcp-server-manager';
 import { log, logError, logWarn } from './logging.js';
+import type { SamplingPolicy } from './capabilities/sampling-policy.js';
+import type { RootsScope } from './capabilities/roots.js';
+import { listAll, DEFAULT_MAX_PAGES, type ListItems, type ListKind } from './capabilities/pagination.js';
 
 // ============================================================================
 // CONSTANTS
@@ -56,11 +88,38 @@ import { log, logError, logWarn } from './logging.js';
 /** Separator between server name and tool/resource name */
 export const SEPARATOR = '__';
 
+/** Tool call timeout when a server's config doesn't set one */
+export const DEFAULT_TOOL_TIMEOUT_MS = 120000;
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export interface StdioServerConfig {
+/** Settings shared by every transport */
+interface BaseServerConfig {
+  /** Sampling limits and auto-approval for this server */
+  sampling?: SamplingPolicy;
+  /** Roots this server sees instead of the shared ones */
+  roots?: RootsScope;
+  /** Health check probes, run in order (desktop app; default: ping) */
+  healthProbes?: HealthProbe[];
+  /** Start on first use instead of at launch (desktop app) */
+  lazy?: boolean;
+  /** Stop after this long without a tool call; 0 never (desktop app) */
+  idleTimeoutMs?: number;
+  /** How long tool calls may run before they are cancelled (desktop app) */
+  toolTimeouts?: ToolTimeouts;
+}
+
+/** Tool call timeouts for one server */
+export interface ToolTimeouts {
+  /** Every tool of the server (default: DEFAULT_TOOL_TIMEOUT_MS) */
+  defaultMs?: number;
+  /** Overrides keyed by the tool's own (unqualified) name */
+  tools?: Record<string, number>;
+}
+
+export interface StdioServerConfig extends BaseServerConfig {
   transport: 'stdio';
   command: string;
   args?: string[];
@@ -68,13 +127,39 @@ export interface StdioServerConfig {
   cwd?: string;
 }
 
-export interface HttpServerConfig {
+/** OAuth sign-in for an HTTP server (true uses the defaults) */
+export interface HttpOAuthConfig {
+  /** Local port for the authorization redirect (default: 8787) */
+  callbackPort?: number;
+  /** Client name sent during dynamic registration */
+  clientName?: string;
+}
+
+export interface HttpServerConfig extends BaseServerConfig {
   transport: 'http';
   url: string;
   headers?: Record<string, string>;
+  /** 'auto': fall back to the legacy SSE transport on a 4xx (default: 'streamable') */
+  mode?: 'streamable' | 'auto';
+  /** Sign in through the browser when the server asks for authorization */
+  oauth?: boolean | HttpOAuthConfig;
 }
 
-export type ServerConnectionConfig = StdioServerConfig | HttpServerConfig;
+/** Server on the legacy HTTP+SSE transport */
+export interface SseServerConfig extends BaseServerConfig {
+  transport: 'sse';
+  url: string;
+  headers?: Record<string, string>;
+  oauth?: boolean | HttpOAuthConfig;
+}
+
+/** Server reached over a WebSocket (ws:// or wss://) */
+export interface WebSocketServerConfig extends BaseServerConfig {
+  transport: 'websocket';
+  url: string;
+}
+
+export type ServerConnectionConfig = StdioServerConfig | HttpServerConfig | SseServerConfig | WebSocketServerConfig;
 
 export interface MultiServerConfig {
   /** Server configurations keyed by name */
@@ -105,6 +190,13 @@ export interface AggregatedResource extends Omit<Resource, 'uri'> {
   serverName: string;
 }
 
+/** Resource template with qualified (prefixed) URI template */
+export interface AggregatedResourceTemplate extends Omit<ResourceTemplate, 'uriTemplate'> {
+  uriTemplate: string;
+  originalUriTemplate: string;
+  serverName: string;
+}
+
 /** Connection result for a single server */
 export interface ConnectionResult {
   name: string;
@@ -190,14 +282,127 @@ export async function loadMultiServerConfig(path: string): Promise<MultiServerCo
       throw new Error(`Server "${name}" (stdio) missing required field: command`);
     }
 
-    if (serverConfig.transport === 'http' && !serverConfig.url) {
-      throw new Error(`Server "${name}" (http) missing required field: url`);
+    if (serverConfig.transport !== 'stdio' && !serverConfig.url) {
+      throw new Error(`Server "${name}" (${serverConfig.transport}) missing required field: url`);
+    }
+
+    if (serverConfig.transport === 'http' && serverConfig.mode !== undefined && serverConfig.mode !== 'streamable' && serverConfig.mode !== 'auto') {
+      throw new Error(`Server "${name}" field "mode" must be "streamable" or "auto"`);
+    }
+
+    if ((serverConfig.transport === 'http' || serverConfig.transport === 'sse') && serverConfig.oauth !== undefined) {
+      const oauth = serverConfig.oauth;
+      if (typeof oauth !== 'boolean' && (typeof oauth !== 'object' || oauth === null || Array.isArray(oauth))) {
+        throw new Error(`Server "${name}" field "oauth" must be true or an object`);
+      }
+      if (typeof oauth === 'object' && oauth.callbackPort !== undefined && !Number.isInteger(oauth.callbackPort)) {
+        throw new Error(`Server "${name}" field "oauth.callbackPort" must be a port number`);
+      }
+    }
+
+    if (serverConfig.sampling !== undefined && (typeof serverConfig.sampling !== 'object' || serverConfig.sampling === null)) {
+      throw new Error(`Server "${name}" field "sampling" must be an object`);
+    }
+
+    if (serverConfig.healthProbes !== undefined && !Array.isArray(serverConfig.healthProbes)) {
+      throw new Error(`Server "${name}" field "healthProbes" must be an array`);
+    }
+
+    if (serverConfig.lazy !== undefined && typeof serverConfig.lazy !== 'boolean') {
+      throw new Error(`Server "${name}" field "lazy" must be a boolean`);
+    }
+
+    const idleTimeoutMs = serverConfig.idleTimeoutMs;
+    if (idleTimeoutMs !== undefined && (typeof idleTimeoutMs !== 'number' || idleTimeoutMs < 0)) {
+      throw new Error(`Server "${name}" field "idleTimeoutMs" must be a non-negative number`);
+    }
+
+    const toolTimeouts = serverConfig.toolTimeouts;
+    if (toolTimeouts !== undefined) {
+      if (typeof toolTimeouts !== 'object' || toolTimeouts === null || Array.isArray(toolTimeouts)) {
+        throw new Error(`Server "${name}" field "toolTimeouts" must be an object`);
+      }
+      if (toolTimeouts.defaultMs !== undefined && !isTimeout(toolTimeouts.defaultMs)) {
+        throw new Error(`Server "${name}" field "toolTimeouts.defaultMs" must be a positive number`);
+      }
+      for (const [tool, timeout] of Object.entries(toolTimeouts.tools ?? {})) {
+        if (!isTimeout(timeout)) {
+          throw new Error(`Server "${name}" field "toolTimeouts.tools.${tool}" must be a positive number`);
+        }
+      }
+    }
+
+    const roots = serverConfig.roots;
+    if (roots !== undefined) {
+      if (typeof roots !== 'object' || roots === null || Array.isArray(roots)) {
+        throw new Error(`Server "${name}" field "roots" must be an object`);
+      }
+      if (roots.paths !== undefined && !(Array.isArray(roots.paths) && roots.paths.every((p) => typeof p === 'string'))) {
+        throw new Error(`Server "${name}" field "roots.paths" must be an array of paths`);
+      }
     }
   }
 
   return config;
 }
 
+function isTimeout(value: unknown): boolean {
+  return typeof value === 'number' && value > 0;
+}
+
+/**
+ * Collect the per-server sampling policies from a config.
+ */
+export function getSamplingPolicies(config: MultiServerConfig): Record<string, SamplingPolicy> {
+  const policies: Record<string, SamplingPolicy> = {};
+  for (const [name, serverConfig] of Object.entries(config.mcpServers)) {
+    if (serverConfig.sampling) {
+      policies[name] = serverConfig.sampling;
+    }
+  }
+  return policies;
+}
+
+/**
+ * Collect the per-server roots scopes from a config.
+ */
+export function getRootsScopes(config: MultiServerConfig): Record<string, RootsScope> {
+  const scopes: Record<string, RootsScope> = {};
+  for (const [name, serverConfig] of Object.entries(config.mcpServers)) {
+    if (serverConfig.roots) {
+      scopes[name] = serverConfig.roots;
+    }
+  }
+  return scopes;
+}
+
+/**
+ * Collect the per-server tool timeouts from a config.
+ */
+export function getToolTimeouts(config: MultiServerConfig): Record<string, ToolTimeouts> {
+  const timeouts: Record<string, ToolTimeouts> = {};
+  for (const [name, serverConfig] of Object.entries(config.mcpServers)) {
+    if (serverConfig.toolTimeouts) {
+      timeouts[name] = serverConfig.toolTimeouts;
+    }
+  }
+  return timeouts;
+}
+
+/**
+ * Timeout for a tool call: the tool's own override, then its server's
+ * default, then DEFAULT_TOOL_TIMEOUT_MS.
+ *
+ * @example
+ * resolveToolTimeout({ files: { tools: { sync: 600000 } } }, "files__sync") // -> 600000
+ */
+export function resolveToolTimeout(timeouts: Record<string, ToolTimeouts>, qualifiedToolName: string): number {
+  const { serverName, name } = parseQualifiedName(qualifiedToolName);
+  const server = timeouts[serverName];
+  const override = server?.tools && Object.hasOwn(server.tools, name) ? server.tools[name] : undefined;
+  return override ?? server?.defaultMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+}
+
 // ============================================================================
 // CONNECTION MANAGEMENT
 // ============================================================================
@@ -215,18 +420,40 @@ export async function connectToServer(
   config: ServerConnectionConfig,
   capabilities?: Record<string, unknown>
 ): Promise<Client> {
-  const transport =
-    config.transport === 'stdio'
-      ? createStdioTransport(config.command, config.args, config.env, config.cwd)
-      : createHttpTransport(config.url, config.headers);
-
-  const client = new Client(
-    { name: `skilljack-client-${name}`, version: '0.1.0' },
-    { capabilities }
-  );
+  const createClient = () =>
+    new Client({ name: `skilljack-client-${name}`, version: '0.1.0' }, { capabilities });
 
-  await client.connect(transport);
-  return client;
+  if (config.transport === 'stdio') {
+    const client = createClient();
+    await client.connect(createStdioTransport(config.command, config.args, config.env, config.cwd));
+    return client;
+  }
+
+  if (config.transport === 'sse') {
+    const client = createClient();
+    await client.connect(createSseTransport(config.url, config.headers));
+    return client;
+  }
+
+  if (config.transport === 'websocket') {
+    const client = createClient();
+    await client.connect(createWebSocketTransport(config.url));
+    return client;
+  }
+
+  try {
+    const client = createClient();
+    await client.connect(createHttpTransport(config.url, config.headers));
+    return client;
+  } catch (error) {
+    if (config.mode !== 'auto' || !shouldFallBackToSse(error)) {
+      throw error;
+    }
+    log(`[${name}] Streamable HTTP not supported, falling back to SSE`);
+    const client = createClient();
+    await client.connect(createSseTransport(config.url, config.headers));
+    return client;
+  }
 }
 
 /**
@@ -316,12 +543,51 @@ export async function disconnectAll(clients: Map<string, Client>): Promise<void>
 // AGGREGATION
 // ============================================================================
 
+/** Options for the aggregate list operations */
+export interface AggregateOptions {
+  /** Pages read per server before its list is cut short (default: 100) */
+  maxPages?: number;
+}
+
+/**
+ * Read every page of one server's list, warning when the page cap cuts it short.
+ */
+function listAllFromServer<K extends ListKind>(
+  serverName: string,
+  client: Client,
+  kind: K,
+  options?: AggregateOptions
+): Promise<ListItems[K][]> {
+  const maxPages = options?.maxPages ?? DEFAULT_MAX_PAGES;
+  return listAll(client, kind, {
+    maxPages,
+    onTruncated: () => logWarn(`Server "${serverName}": ${kind} list cut short after ${maxPages} pages`),
+  });
+}
+
+/**
+ * Run a list on every client and flatten the results. Servers whose list
+ * fails are left out.
+ */
+async function aggregate<T>(
+  clients: Map<string, Client>,
+  list: (serverName: string, client: Client) => Promise<T[]>
+): Promise<T[]> {
+  const results = await Promise.allSettled(
+    Array.from(clients.entries()).map(([serverName, client]) => list(serverName, client))
+  );
+
+  return results.flatMap((result) => (result.status === 'fulfilled' ? result.value : []));
+}
+
 /**
  * Get all tools from all connected servers with qualified names.
  *
- * Tool names are prefixed with server name: "server__tool-name"
+ * Tool names are prefixed with server name: "server__tool-name".
+ * Paginated lists are read to the end (up to options.maxPages per server).
  *
  * @param clients - Map of connected clients
+ * @param options - Optional page cap
  * @returns Array of tools with qualified names
  *
  * @example
@@ -331,90 +597,90 @@ export async function disconnectAll(clients: Map<string, Client>): Promise<void>
  * //   { name: "weather__get-forecast", originalName: "get-forecast", serverName: "weather", ... }
  * // ]
  */
-export async function aggregateTools(clients: Map<string, Client>): Promise<AggregatedTool[]> {
-  const allTools: AggregatedTool[] = [];
-
-  const results = await Promise.allSettled(
-    Array.from(clients.entries()).map(async ([serverName, client]) => {
-      const response = await client.listTools();
-      return response.tools.map((tool) => ({
-        ...tool,
-        name: qualifyName(serverName, tool.name),
-        originalName: tool.name,
-        serverName,
-      }));
-    })
-  );
-
-  for (const result of results) {
-    if (result.status === 'fulfilled') {
-      allTools.push(...result.value);
-    }
-  }
-
-  return allTools;
+export async function aggregateTools(
+  clients: Map<string, Client>,
+  options?: AggregateOptions
+): Promise<AggregatedTool[]> {
+  return aggregate(clients, async (serverName, client) => {
+    const tools = await listAllFromServer(serverName, client, 'tools', options);
+    return tools.map((tool) => ({
+      ...tool,
+      name: qualifyName(serverName, tool.name),
+      originalName: tool.name,
+      serverName,
+    }));
+  });
 }
 
 /**
  * Get all prompts from all connected servers with qualified names.
  *
  * @param clients - Map of connected clients
+ * @param options - Optional page cap
  * @returns Array of prompts with qualified names
  */
-export async function aggregatePrompts(clients: Map<string, Client>): Promise<AggregatedPrompt[]> {
-  const allPrompts: AggregatedPrompt[] = [];
-
-  const results = await Promise.allSettled(
-    Array.from(clients.entries()).map(async ([serverName, client]) => {
-      const response = await client.listPrompts();
-      return response.prompts.map((prompt) => ({
-        ...prompt,
-        name: qualifyName(serverName, prompt.name),
-        originalName: prompt.name,
-        serverName,
-      }));
-    })
-  );
-
-  for (const result of results) {
-    if (result.status === 'fulfilled') {
-      allPrompts.push(...result.value);
-    }
-  }
-
-  return allPrompts;
+export async function aggregatePrompts(
+  clients: Map<string, Client>,
+  options?: AggregateOptions
+): Promise<AggregatedPrompt[]> {
+  return aggregate(clients, async (serverName, client) => {
+    const prompts = await listAllFromServer(serverName, client, 'prompts', options);
+    return prompts.map((prompt) => ({
+      ...prompt,
+      name: qualifyName(serverName, prompt.name),
+      originalName: prompt.name,
+      serverName,
+    }));
+  });
 }
 
 /**
  * Get all resources from all connected servers with qualified URIs.
  *
  * @param clients - Map of connected clients
+ * @param options - Optional page cap
  * @returns Array of resources with qualified URIs
  */
 export async function aggregateResources(
-  clients: Map<string, Client>
+  clients: Map<string, Client>,
+  options?: AggregateOptions
 ): Promise<AggregatedResource[]> {
-  const allResources: AggregatedResource[] = [];
-
-  const results = await Promise.allSettled(
-    Array.from(clients.entries()).map(async ([serverName, client]) => {
-      const response = await client.listResources();
-      return response.resources.map((resource) => ({
-        ...resource,
-        uri: qualifyName(serverName, resource.uri),
-        originalUri: resource.uri,
-        serverName,
-      }));
-    })
-  );
-
-  for (const result of results) {
-    if (result.status === 'fulfilled') {
-      allResources.push(...result.value);
-    }
-  }
+  return aggregate(clients, async (serverName, client) => {
+    const resources = await listAllFromServer(serverName, client, 'resources', options);
+    return resources.map((resource) => ({
+      ...resource,
+      uri: qualifyName(serverName, resource.uri),
+      originalUri: resource.uri,
+      serverName,
+    }));
+  });
+}
 
-  return allResources;
+/**
+ * Get all resource templates from all connected servers with qualified
+ * URI templates.
+ *
+ * @param clients - Map of connected clients
+ * @param options - Optional page cap
+ * @returns Array of resource templates with qualified URI templates
+ *
+ * @example
+ * const templates = await aggregateResourceTemplates(clients);
+ * // [{ uriTemplate: "files__file:///{path}", originalUriTemplate: "file:///{path}", serverName: "files", ... }]
+ */
+export async function aggregateResourceTemplates(
+  clients: Map<string, Client>,
+  options?: AggregateOptions
+): Promise<AggregatedResourceTemplate[]> {
+  return aggregate(clients, async (serverName, client) => {
+    const templates = await listAllFromServer(serverName, client, 'resourceTemplates', options);
+    return templates.map((template) => ({
+      ...template,
+      uriTemplate: qualifyName(serverName, template.uriTemplate),
+      originalUriTemplate: template.uriTemplate,
+      serverName,
+    }));
+  });
 }
 
 // ============================================================================
@@ -425,6 +691,20 @@ export async function aggregateResources(
 export interface CallToolOptions {
   /** Request timeout in milliseconds (default: 60000) */
   timeout?: number;
+  /** Aborting cancels the call; the server gets notifications/cancelled */
+  signal?: AbortSignal;
+  /**
+   * Receive the server's notifications/progress for this call (a
+   * progressToken is sent). Each notification restarts the timeout, so
+   * servers that keep reporting progress aren't cut off.
+   */
+  onProgress?: (progress: Progress) => void;
+  /**
+   * Handle a URL elicitation the server requires before the tool can run
+   * (error -32042). Resolve true once it completed; the call is then retried.
+   * Without this, the error is thrown as-is.
+   */
+  onUrlElicitation?: (serverName: string, elicitation: UrlElicitation) => Promise<boolean>;
 }
 
 /**
@@ -456,11 +736,20 @@ export async function callTool(
     );
   }
 
-  const result = await client.callTool(
+  const call = () => client.callTool(
     { name: toolName, arguments: args },
     undefined, // resultSchema
-    { timeout: options?.timeout }
+    {
+      timeout: options?.timeout,
+      signal: options?.signal,
+      onprogress: options?.onProgress,
+      resetTimeoutOnProgress: options?.onProgress !== undefined,
+    }
   );
+  const onUrlElicitation = options?.onUrlElicitation;
+  const result = onUrlElicitation
+    ? await withUrlElicitation(call, (elicitation) => onUrlElicitation(serverName, elicitation))
+    : await call();
   return { serverName, result };
 }
 
@@ -708,17 +997,17 @@ export async function getServersSummary(clients: Map<string, Client>): Promise<
   const summaries = await Promise.all(
     Array.from(clients.entries()).map(async ([name, client]) => {
       const [tools, prompts, resources] = await Promise.allSettled([
-        client.listTools(),
-        client.listPrompts(),
-        client.listResources(),
+        listAllFromServer(name, client, 'tools'),
+        listAllFromServer(name, client, 'prompts'),
+        listAllFromServer(name, client, 'resources'),
       ]);
 
       return {
         name,
         serverVersion: client.getServerVersion(),
-        toolCount: tools.status === 'fulfilled' ? tools.value.tools.length : 0,
-        promptCount: prompts.status === 'fulfilled' ? prompts.value.prompts.length : 0,
-        resourceCount: resources.status === 'fulfilled' ? resources.value.resources.length : 0,
+        toolCount: tools.status === 'fulfilled' ? tools.value.length : 0,
+        promptCount: prompts.status === 'fulfilled' ? prompts.value.length : 0,
+        resourceCount: resources.status === 'fulfilled' ? resources.value.length : 0,
       };
     })
   );
@@ -731,9 +1020,24 @@ export async function getServersSummary(clients: Map<string, Client>): Promise<
 // ============================================================================
 
 // Import capability modules
-import { setupSampling, type SamplingConfig, type SamplingRequest, type SamplingResponse } from './capabilities/sampling.js';
-import { setupElicitation, type ElicitationConfig, type ElicitationResult } from './capabilities/elicitation.js';
-import { setupRoots } from './capabilities/roots.js';
+import {
+  setupSampling,
+  type SamplingApproval,
+  type SamplingConfig,
+  type SamplingDelta,
+  type SamplingRequest,
+  type SamplingResponse,
+  type SamplingResponseReview,
+} from './capabilities/sampling.js';
+import { SamplingUsage } from './capabilities/sampling-policy.js';
+import {
+  setupElicitation,
+  withUrlElicitation,
+  type ElicitationConfig,
+  type ElicitationResult,
+  type UrlElicitation,
+} from './capabilities/elicitation.js';
+import { setupRoots, type RootsManager } from './capabilities/roots.js';
 import { setupLogging, type LoggingLevel } from './capabilities/logging.js';
 import { setupListChanged, type ListChangedCallbacks } from './capabilities/list-changed.js';
 import { setupSubscriptions } from './capabilities/subscriptions.js';
@@ -758,19 +1062,36 @@ function setupForAllClients(
  * Each callback receives the server name as the first argument.
  */
 export interface MultiServerSamplingCallbacks {
-  onApprovalRequest?: (serverName: string, request: SamplingRequest) => Promise<boolean>;
+  onApprovalRequest?: (serverName: string, request: SamplingRequest) => Promise<SamplingApproval>;
+  onResponseReview?: (
+    serverName: string,
+    response: SamplingResponse,
+    request: SamplingRequest
+  ) => Promise<SamplingResponseReview>;
+  onResponseDelta?: (serverName: string, delta: SamplingDelta) => void;
   onResponse?: (serverName: string, response: SamplingResponse) => void;
   onLog?: (serverName: string, message: string) => void;
 }
 
-export interface MultiServerSamplingConfig extends Omit<SamplingConfig, 'onApprovalRequest' | 'onResponse' | 'onLog'> {
+export interface MultiServerSamplingConfig extends Omit<
+  SamplingConfig,
+  'onApprovalRequest' | 'onResponseReview' | 'onResponseDelta' | 'onResponse' | 'onLog' | 'policy' | 'usage'
+> {
   callbacks?: MultiServerSamplingCallbacks;
+  /** Per-server policies keyed by server name (see getSamplingPolicies) */
+  policies?: Record<string, SamplingPolicy>;
+  /**
+   * Usage ledgers keyed by server name. Pass the same map when setting up
+   * again after a reconnect so rate limits and budgets carry over.
+   */
+  usage?: Map<string, SamplingUsage>;
 }
 
 /**
  * Set up sampling capability on all clients.
  *
  * Callbacks include the server name so you know which server is making the request.
+ * Each server gets its own policy and usage ledger.
  *
  * @param clients - Map of connected clients
  * @param config - Sampling configuration with server-aware callbacks
@@ -779,14 +1100,28 @@ export function setupSamplingForAll(
   clients: Map<string, Client>,
   config: MultiServerSamplingConfig = {}
 ): void {
-  const { callbacks, ...baseConfig } = config;
+  const { callbacks, policies, usage = new Map<string, SamplingUsage>(), ...baseConfig } = config;
 
   setupForAllClients(clients, (serverName, client) => {
+    let serverUsage = usage.get(serverName);
+    if (!serverUsage) {
+      serverUsage = new SamplingUsage();
+      usage.set(serverName, serverUsage);
+    }
+
     setupSampling(client, {
       ...baseConfig,
+      policy: policies?.[serverName],
+      usage: serverUsage,
       onApprovalRequest: callbacks?.onApprovalRequest
         ? (request) => callbacks.onApprovalRequest!(serverName, request)
         : undefined,
+      onResponseReview: callbacks?.onResponseReview
+        ? (response, request) => callbacks.onResponseReview!(serverName, response, request)
+        : undefined,
+      onResponseDelta: callbacks?.onResponseDelta
+        ? (delta) => callbacks.onResponseDelta!(serverName, delta)
+        : undefined,
       onResponse: callbacks?.onResponse
         ? (response) => callbacks.onResponse!(serverName, response)
         : undefined,
@@ -802,7 +1137,8 @@ export function setupSamplingForAll(
  */
 export interface MultiServerElicitationConfig {
   onForm?: (serverName: string, message: string, schema?: Record<string, unknown>) => Promise<ElicitationResult>;
-  onUrl?: (serverName: string, url: string, message: string) => Promise<ElicitationResult>;
+  onUrl?: (serverName: string, url: string, message: string, elicitationId: string) => Promise<ElicitationResult>;
+  onComplete?: (serverName: string, elicitationId: string) => void;
 }
 
 /**
@@ -821,7 +1157,10 @@ export function setupElicitationForAll(
         ? (message, schema) => config.onForm!(serverName, message, schema)
         : undefined,
       onUrl: config.onUrl
-        ? (url, message) => config.onUrl!(serverName, url, message)
+        ? (url, message, elicitationId) => config.onUrl!(serverName, url, message, elicitationId)
+        : undefined,
+      onComplete: config.onComplete
+        ? (elicitationId) => config.onComplete!(serverName, elicitationId)
         : undefined,
     });
   });
@@ -932,6 +1271,8 @@ export interface MultiServerCapabilitiesConfig {
   elicitation?: MultiServerElicitationConfig;
   /** Filesystem roots to expose */
   roots?: string[];
+  /** Dynamic roots; takes precedence over `roots` */
+  rootsManager?: RootsManager;
   /** Logging callback */
   onLogMessage?: MultiServerLogCallback;
   /** List changed callbacks */
@@ -979,7 +1320,9 @@ export function setupAllCapabilities(
     setupElicitationForAll(clients, config.elicitation);
   }
 
-  if (config.roots && config.roots.length > 0) {
+  if (config.rootsManager) {
+    config.rootsManager.setClients(clients);
+  } else if (config.roots && config.roots.length > 0) {
     setupRootsForAll(clients, config.roots);
   }
 
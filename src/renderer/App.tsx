@@ -9,24 +9,30 @@ import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { ThemeProvider } from './chat/context/ThemeContext';
 import { ChatProvider } from './chat/context/ChatContext';
+import { ToolApprovalProvider } from './chat/context/ToolApprovalContext';
 import { SettingsProvider } from './settings';
 import { ChatDrawer } from './chat/components';
 import { McpAppProvider, McpAppPanelsContainer } from './mcp-apps';
+import { ResourceWatchProvider } from './resources';
 
 function App() {
   return (
     <SettingsProvider>
       <ThemeProvider>
-        <ChatProvider>
-          <McpAppProvider>
-            <div className="skilljack-app">
-              {/* MCP App panels area */}
-              <McpAppPanelsContainer />
-              {/* In Electron mode, the drawer is always visible as the main UI */}
-              <ChatDrawer alwaysOpen />
-            </div>
-          </McpAppProvider>
-        </ChatProvider>
+        <ResourceWatchProvider>
+          <ToolApprovalProvider>
+            <ChatProvider>
+              <McpAppProvider>
+                <div className="skilljack-app">
+                  {/* MCP App panels area */}
+                  <McpAppPanelsContainer />
+                  {/* In Electron mode, the drawer is always visible as the main UI */}
+                  <ChatDrawer alwaysOpen />
+                </div>
+              </McpAppProvider>
+            </ChatProvider>
+          </ToolApprovalProvider>
+        </ResourceWatchProvider>
       </ThemeProvider>
     </SettingsProvider>
   );
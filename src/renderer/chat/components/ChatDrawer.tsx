@@ -6,6 +6,8 @@
  * - Resizable height via drag handle
  * - Toggle button when closed
  * - Server status indicators
+ * - Conversation history sidebar (Electron)
+ * - Transcript export and import
  * - Theme-aware styling
  */
 
@@ -18,7 +20,11 @@ import { ThemeToggle } from './ThemeToggle';
 import { ToolExecutor } from './ToolExecutor';
 import { BackendSelector } from './BackendSelector';
 import { ModeSelector } from './ModeSelector';
+import { HistorySidebar } from './HistorySidebar';
+import { TranscriptDialog } from './TranscriptDialog';
+import { useCommunication } from '../../hooks/useCommunication';
 import { SettingsDialog } from '../../settings';
+import { ResourcesDialog } from '../../resources';
 
 // Icons
 const TerminalIcon = () => <span style={{ fontWeight: 600 }}>&gt;_</span>;
@@ -29,6 +35,13 @@ const MinimizeIcon = () => (
   </svg>
 );
 
+const HistoryIcon = () => (
+  <svg className="icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <circle cx="12" cy="12" r="9" />
+    <polyline points="12 7 12 12 15 14" />
+  </svg>
+);
+
 interface ChatDrawerProps {
   /** When true, drawer is always open and fills the window (for Electron mode) */
   alwaysOpen?: boolean;
@@ -36,6 +49,8 @@ interface ChatDrawerProps {
 
 export function ChatDrawer({ alwaysOpen = false }: ChatDrawerProps) {
   const { state, toggleDrawer, closeDrawer } = useChat();
+  const adapter = useCommunication();
+  const [showHistory, setShowHistory] = useState(false);
   const [height, setHeight] = useState(() => Math.round(window.innerHeight * 0.6));
   const drawerRef = useRef<HTMLDivElement>(null);
   const isDragging = useRef(false);
@@ -117,6 +132,19 @@ export function ChatDrawer({ alwaysOpen = false }: ChatDrawerProps) {
             <ServerStatus servers={state.servers} />
           </div>
           <div className="chat-drawer-actions">
+            {adapter.history && (
+              <button
+                className="chat-header-button"
+                onClick={() => setShowHistory((open) => !open)}
+                aria-label="Conversation history"
+                aria-pressed={showHistory}
+                title="Conversation history"
+              >
+                <HistoryIcon />
+              </button>
+            )}
+            <TranscriptDialog />
+            <ResourcesDialog />
             <SettingsDialog />
             <ThemeToggle />
             {!alwaysOpen && (
@@ -133,8 +161,13 @@ export function ChatDrawer({ alwaysOpen = false }: ChatDrawerProps) {
         </div>
 
         {/* Content */}
-        <ChatOutput messages={state.messages} isProcessing={state.isProcessing} />
-        <ChatInput />
+        <div className="chat-drawer-body">
+          {showHistory && <HistorySidebar />}
+          <div className="chat-drawer-main">
+            <ChatOutput messages={state.messages} isProcessing={state.isProcessing} />
+            <ChatInput />
+          </div>
+        </div>
 
         {/* Tool execution handler (renders nothing) */}
         <ToolExecutor />
@@ -6,10 +6,15 @@
  * - Auto-resize textarea
  * - History navigation (Arrow Up/Down)
  * - Enter to send, Shift+Enter for newline
+ * - Slash commands: ACP agent commands and server prompts (/server:prompt)
  */
 
-import { useRef, useCallback, useEffect } from 'react';
+import { useRef, useCallback, useEffect, useState } from 'react';
 import { useChat } from '../context/ChatContext';
+import { useCommunication } from '../../hooks/useCommunication';
+import { PromptArgumentsForm } from './PromptArgumentsForm';
+import type { PromptInfo } from '../../../shared/types';
+import { findPromptCommand, matchPromptCommands, promptCommand } from '../../../shared/prompt-commands.js';
 
 const SendIcon = () => (
   <svg className="icon" viewBox="0 0 24 24" fill="currentColor" stroke="none">
@@ -24,13 +29,18 @@ const StopIcon = () => (
 );
 
 export function ChatInput() {
-  const { state, setInput, sendMessage, navigateHistory, cancelAcpTurn } = useChat();
+  const { state, setInput, sendMessage, runPrompt, navigateHistory, cancelAcpTurn } = useChat();
+  const adapter = useCommunication();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [prompts, setPrompts] = useState<PromptInfo[]>([]);
+  /** Prompt waiting for its arguments */
+  const [pendingPrompt, setPendingPrompt] = useState<PromptInfo | null>(null);
 
   const isAcp = state.backend.kind === 'acp';
   const permissionPending = !!state.acpSession?.activePermission;
+  const samplingPending = state.samplingRequests.length > 0;
   const acpPrompting = isAcp && state.acpSession?.status === 'prompting';
-  const inputDisabled = state.isProcessing || permissionPending;
+  const inputDisabled = state.isProcessing || permissionPending || samplingPending;
 
   // Slash-command suggestions advertised by the ACP agent
   const commandSuggestions =
@@ -40,6 +50,42 @@ export function ChatInput() {
         )
       : [];
 
+  // Server prompts, refreshed whenever a slash command is started
+  const typingCommand = state.inputValue.startsWith('/');
+  useEffect(() => {
+    if (!typingCommand) return;
+    let cancelled = false;
+    adapter
+      .getPrompts()
+      .then((list) => {
+        if (!cancelled) setPrompts(list);
+      })
+      .catch((err) => console.error('[ChatInput] Failed to load prompts:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [adapter, typingCommand]);
+
+  const promptSuggestions = pendingPrompt ? [] : matchPromptCommands(state.inputValue, prompts);
+
+  /** Run a prompt now, or ask for its arguments first */
+  const choosePrompt = useCallback(
+    (prompt: PromptInfo) => {
+      if (prompt.arguments?.length) {
+        setPendingPrompt(prompt);
+        setInput(promptCommand(prompt));
+      } else {
+        runPrompt(prompt, {});
+      }
+    },
+    [runPrompt, setInput]
+  );
+
+  const closePromptForm = useCallback(() => {
+    setPendingPrompt(null);
+    textareaRef.current?.focus();
+  }, []);
+
   // Auto-focus textarea on initial load
   useEffect(() => {
     const focusInput = () => {
@@ -94,7 +140,12 @@ export function ChatInput() {
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
         if (state.inputValue.trim() && !inputDisabled) {
-          sendMessage(state.inputValue);
+          const prompt = findPromptCommand(state.inputValue, prompts);
+          if (prompt) {
+            choosePrompt(prompt);
+          } else {
+            sendMessage(state.inputValue);
+          }
         }
         return;
       }
@@ -120,12 +171,13 @@ export function ChatInput() {
         return;
       }
     },
-    [state.inputValue, inputDisabled, sendMessage, navigateHistory]
+    [state.inputValue, inputDisabled, prompts, choosePrompt, sendMessage, navigateHistory]
   );
 
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       setInput(e.target.value);
+      setPendingPrompt(null);
 
       // Auto-resize
       const textarea = e.target;
@@ -137,9 +189,14 @@ export function ChatInput() {
 
   const handleSend = useCallback(() => {
     if (state.inputValue.trim() && !inputDisabled) {
-      sendMessage(state.inputValue);
+      const prompt = findPromptCommand(state.inputValue, prompts);
+      if (prompt) {
+        choosePrompt(prompt);
+      } else {
+        sendMessage(state.inputValue);
+      }
     }
-  }, [state.inputValue, inputDisabled, sendMessage]);
+  }, [state.inputValue, inputDisabled, prompts, choosePrompt, sendMessage]);
 
   return (
     <div className="chat-input-area">
@@ -162,6 +219,34 @@ export function ChatInput() {
           ))}
         </div>
       )}
+      {promptSuggestions.length > 0 && (
+        <div className="chat-command-suggestions">
+          {promptSuggestions.slice(0, 8).map((prompt) => (
+            <button
+              key={prompt.name}
+              className="chat-command-suggestion"
+              onClick={() => {
+                choosePrompt(prompt);
+                textareaRef.current?.focus();
+              }}
+            >
+              <span className="chat-command-name">{promptCommand(prompt)}</span>
+              {prompt.description && <span className="chat-command-description">{prompt.description}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      {pendingPrompt && (
+        <PromptArgumentsForm
+          key={pendingPrompt.name}
+          prompt={pendingPrompt}
+          onRun={(args) => {
+            setPendingPrompt(null);
+            if (!inputDisabled) runPrompt(pendingPrompt, args);
+          }}
+          onCancel={closePromptForm}
+        />
+      )}
       <div className="chat-input-wrapper">
         <span className="chat-input-prompt">&gt;</span>
         <textarea
@@ -173,7 +258,9 @@ export function ChatInput() {
           placeholder={
             permissionPending
               ? 'Waiting for permission decision above…'
-              : 'Type a message...'
+              : samplingPending
+                ? 'Waiting for sampling decision above…'
+                : 'Type a message...'
           }
           disabled={inputDisabled}
           rows={1}
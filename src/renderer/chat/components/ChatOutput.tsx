@@ -10,6 +10,10 @@ import type { ChatMessage } from '../types';
 import { MessageBubble } from './MessageBubble';
 import { PlanBlock } from './PlanBlock';
 import { AcpPermissionCard } from './AcpPermissionCard';
+import { SamplingApprovalCard } from './SamplingApprovalCard';
+import { SamplingStreamBlock } from './SamplingStreamBlock';
+import { ElicitationCard } from './ElicitationCard';
+import { ElicitationWaitBlock } from './ElicitationWaitBlock';
 import { useChat } from '../context/ChatContext';
 
 interface ChatOutputProps {
@@ -22,7 +26,13 @@ export function ChatOutput({ messages, isProcessing }: ChatOutputProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const shouldScrollRef = useRef(true);
   const acpPlan = state.acpSession?.plan;
+  // Plans recorded on a message render with it; only an unattached plan shows here
+  const showAcpPlan = !!acpPlan?.length && !messages.some((m) => m.plan === acpPlan);
   const activePermission = state.acpSession?.activePermission;
+  const samplingRequest = state.samplingRequests[0];
+  const samplingStreams = state.samplingStreams;
+  const elicitationRequest = state.elicitationRequests[0];
+  const elicitationWaits = state.elicitationWaits;
 
   // Track if user has scrolled up
   const handleScroll = () => {
@@ -32,12 +42,12 @@ export function ChatOutput({ messages, isProcessing }: ChatOutputProps) {
     shouldScrollRef.current = scrollHeight - scrollTop - clientHeight < 50;
   };
 
-  // Auto-scroll on new messages (and when a permission card appears)
+  // Auto-scroll on new messages (and when a permission, sampling or elicitation card appears or streams)
   useEffect(() => {
     if (shouldScrollRef.current && containerRef.current) {
       containerRef.current.scrollTop = containerRef.current.scrollHeight;
     }
-  }, [messages, activePermission]);
+  }, [messages, activePermission, samplingRequest, samplingStreams, elicitationRequest, elicitationWaits]);
 
   return (
     <div
@@ -61,10 +71,22 @@ export function ChatOutput({ messages, isProcessing }: ChatOutputProps) {
         ))
       )}
 
-      {acpPlan && acpPlan.length > 0 && <PlanBlock entries={acpPlan} />}
+      {showAcpPlan && <PlanBlock entries={acpPlan!} />}
 
       {activePermission && <AcpPermissionCard />}
 
+      {samplingStreams.map((stream) => (
+        <SamplingStreamBlock key={stream.streamId} stream={stream} />
+      ))}
+
+      {samplingRequest && <SamplingApprovalCard />}
+
+      {elicitationWaits.map((wait) => (
+        <ElicitationWaitBlock key={wait.requestId} wait={wait} />
+      ))}
+
+      {elicitationRequest && <ElicitationCard />}
+
       {isProcessing && !messages.some((m) => m.isStreaming) && (
         <div className="chat-typing">
           <span className="chat-typing-dot" />
@@ -0,0 +1,267 @@
+/**
+ * Elicitation Card
+ *
+ * Blocking inline card shown when an MCP server asks the user for input
+ * (elicitation/create). In form mode the requested schema arrives already
+ * flattened into fields; each becomes a typed input with its default,
+ * enum choices and required marker. Values are validated as the user
+ * types, and only a valid form can be accepted. In URL mode the card
+ * shows where the link leads and opens it only if the user agrees.
+ * Queued requests are answered oldest first.
+ */
+
+import { useState } from 'react';
+import { useChat } from '../context/ChatContext';
+import type { ElicitationField, ElicitationRequestPayload } from '../../../shared/elicitation-types';
+import {
+  initialElicitationValues,
+  validateElicitationForm,
+  type ElicitationFormValues,
+} from '../../../shared/elicitation-form';
+
+export function ElicitationCard() {
+  const { state } = useChat();
+  const request = state.elicitationRequests[0];
+  if (!request) return null;
+
+  const queued = state.elicitationRequests.length - 1;
+
+  // Keyed so form state resets when the next request comes up
+  return request.mode === 'url' ? (
+    <UrlElicitationReview key={request.requestId} request={request} queued={queued} />
+  ) : (
+    <ElicitationForm key={request.requestId} request={request} queued={queued} />
+  );
+}
+
+interface CardProps {
+  request: ElicitationRequestPayload;
+  queued: number;
+}
+
+function CardTitle({ request, queued, icon, action }: CardProps & { icon: string; action: string }) {
+  return (
+    <div className="sampling-approval-title">
+      <span className="sampling-approval-icon">{icon}</span>
+      <span>
+        <strong>{request.serverName}</strong> {action}
+      </span>
+      {queued > 0 && <span className="sampling-approval-queued">+{queued} queued</span>}
+    </div>
+  );
+}
+
+// ============================================
+// URL mode
+// ============================================
+
+function UrlElicitationReview({ request, queued }: CardProps) {
+  const { respondElicitation } = useChat();
+  // The broker only forwards http(s) URLs, so parsing succeeds
+  const host = request.url ? new URL(request.url).host : '';
+
+  return (
+    <div className="sampling-approval-card elicitation-card" role="alertdialog" aria-label="Open link request">
+      <CardTitle request={request} queued={queued} icon="🔗" action="wants you to open a link" />
+
+      <p className="elicitation-message">{request.message}</p>
+
+      <div className="sampling-approval-section">
+        <div className="sampling-approval-label">
+          Opens <strong className="elicitation-host">{host}</strong>
+        </div>
+        <code className="elicitation-url">{request.url}</code>
+      </div>
+
+      <div className="sampling-approval-options">
+        <button
+          className="acp-permission-button permission-allow"
+          onClick={() => respondElicitation(request.requestId, { action: 'accept' })}
+        >
+          Open in browser
+        </button>
+        <button
+          className="acp-permission-button permission-reject"
+          onClick={() => respondElicitation(request.requestId, { action: 'decline' })}
+        >
+          Decline
+        </button>
+        <button
+          className="acp-permission-button"
+          onClick={() => respondElicitation(request.requestId, { action: 'cancel' })}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Form mode
+// ============================================
+
+const INPUT_TYPES: Record<string, string> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+};
+
+interface FieldInputProps {
+  field: ElicitationField;
+  value: string | boolean | string[];
+  onChange: (value: string | boolean | string[]) => void;
+}
+
+function FieldInput({ field, value, onChange }: FieldInputProps) {
+  const id = `elicitation-${field.name}`;
+
+  switch (field.kind) {
+    case 'boolean':
+      return (
+        <input id={id} type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} />
+      );
+
+    case 'select':
+      return (
+        <select
+          id={id}
+          className="elicitation-input"
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          <option value="">— choose —</option>
+          {field.options?.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+
+    case 'multiselect': {
+      const selected = value as string[];
+      const toggle = (optionValue: string) =>
+        onChange(
+          selected.includes(optionValue)
+            ? selected.filter((v) => v !== optionValue)
+            : [...selected, optionValue]
+        );
+      return (
+        <div id={id} className="elicitation-choices">
+          {field.options?.map((option) => (
+            <label key={option.value}>
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={() => toggle(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'number':
+    case 'integer':
+      return (
+        <input
+          id={id}
+          className="elicitation-input"
+          type="number"
+          step={field.kind === 'integer' ? 1 : 'any'}
+          min={field.minimum}
+          max={field.maximum}
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+
+    default:
+      return (
+        <input
+          id={id}
+          className="elicitation-input"
+          type={(field.format && INPUT_TYPES[field.format]) || 'text'}
+          maxLength={field.maxLength}
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+}
+
+function ElicitationForm({ request, queued }: CardProps) {
+  const { respondElicitation } = useChat();
+  const [values, setValues] = useState<ElicitationFormValues>(() => initialElicitationValues(request.fields));
+  // Errors stay hidden until the first submit attempt
+  const [submitted, setSubmitted] = useState(false);
+
+  const validation = validateElicitationForm(request.fields, values);
+  const errors = submitted ? validation.errors : {};
+
+  const accept = () => {
+    setSubmitted(true);
+    if (validation.content) {
+      respondElicitation(request.requestId, { action: 'accept', content: validation.content });
+    }
+  };
+
+  return (
+    <div className="sampling-approval-card elicitation-card" role="alertdialog" aria-label="Input request">
+      <CardTitle request={request} queued={queued} icon="📝" action="is asking for input" />
+
+      <p className="elicitation-message">{request.message}</p>
+
+      {request.fields.length > 0 && (
+        <form
+          className="elicitation-fields"
+          onSubmit={(e) => {
+            e.preventDefault();
+            accept();
+          }}
+        >
+          {request.fields.map((field) => (
+            <div key={field.name} className={`elicitation-field${errors[field.name] ? ' has-error' : ''}`}>
+              <label className="sampling-approval-label" htmlFor={`elicitation-${field.name}`}>
+                {field.label}
+                {field.required && <span className="elicitation-required" aria-label="required"> *</span>}
+              </label>
+              <FieldInput
+                field={field}
+                value={values[field.name]}
+                onChange={(value) => setValues((prev) => ({ ...prev, [field.name]: value }))}
+              />
+              {field.description && <div className="elicitation-description">{field.description}</div>}
+              {errors[field.name] && (
+                <div className="elicitation-error" role="alert">
+                  {errors[field.name]}
+                </div>
+              )}
+            </div>
+          ))}
+        </form>
+      )}
+
+      <div className="sampling-approval-options">
+        <button className="acp-permission-button permission-allow" onClick={accept}>
+          {request.fields.length > 0 ? 'Submit' : 'Accept'}
+        </button>
+        <button
+          className="acp-permission-button permission-reject"
+          onClick={() => respondElicitation(request.requestId, { action: 'decline' })}
+        >
+          Decline
+        </button>
+        <button
+          className="acp-permission-button"
+          onClick={() => respondElicitation(request.requestId, { action: 'cancel' })}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * Elicitation Wait Block
+ *
+ * Shown after the user agrees to open a URL-mode elicitation (e.g. a
+ * third-party sign-in) until the server reports the flow complete. Tool
+ * calls blocked on the flow resume then; Cancel stops waiting.
+ */
+
+import { useChat } from '../context/ChatContext';
+import type { ElicitationRequestPayload } from '../../../shared/elicitation-types';
+
+export function ElicitationWaitBlock({ wait }: { wait: ElicitationRequestPayload }) {
+  const { cancelElicitationWait } = useChat();
+
+  return (
+    <div className="sampling-stream elicitation-wait" aria-label={`Waiting for ${wait.serverName}`}>
+      <div className="sampling-stream-title">
+        <span className="sampling-approval-icon">🔗</span>
+        <span>
+          Waiting for <strong>{wait.serverName}</strong> — finish in your browser
+        </span>
+        <span className="chat-typing-dot" />
+        <button
+          className="acp-permission-button elicitation-wait-cancel"
+          onClick={() => cancelElicitationWait(wait.requestId)}
+        >
+          Cancel
+        </button>
+      </div>
+      <code className="elicitation-url">{wait.url}</code>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * History Sidebar Component
+ *
+ * Saved conversations beside the chat, newest first. Search matches titles
+ * and message text; picking a conversation resumes it, and each entry can
+ * be renamed or deleted. Electron only: the main process keeps the files.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useChat } from '../context/ChatContext';
+import { useCommunication } from '../../hooks/useCommunication';
+import type { ConversationSummary } from '../../../shared/conversation-types';
+
+/** Pause after a keystroke before searching */
+const SEARCH_DELAY_MS = 200;
+
+function describeBackend(conversation: ConversationSummary): string {
+  const { backend, modelConfig } = conversation;
+  if (backend.kind === 'acp') return backend.agentName;
+  const role = backend.role === 'doer' ? 'Doer' : 'Dreamer';
+  return modelConfig ? `${role} · ${modelConfig.modelId}` : role;
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function HistorySidebar() {
+  const { state, newSession, resumeConversation, historyRevision } = useChat();
+  const adapter = useCommunication();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(
+    async (search: string) => {
+      if (!adapter.history) return;
+      try {
+        setConversations(await adapter.history.list(search || undefined));
+      } catch (err) {
+        console.error('[HistorySidebar] Failed to list conversations:', err);
+      }
+    },
+    [adapter]
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => refresh(query), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, refresh, historyRevision]);
+
+  if (!adapter.history) {
+    return null;
+  }
+  const history = adapter.history;
+
+  const handleResume = async (id: string) => {
+    if (id === state.sessionId) return;
+    setError(null);
+    try {
+      await resumeConversation(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const { id, title } = editing;
+    setEditing(null);
+    try {
+      await history.rename(id, title);
+      await refresh(query);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = async (conversation: ConversationSummary) => {
+    if (!window.confirm(`Delete "${conversation.title}"?`)) return;
+    try {
+      await history.remove(conversation.id);
+      if (conversation.id === state.sessionId) {
+        newSession();
+      }
+      await refresh(query);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <aside className="chat-history" aria-label="Conversation history">
+      <div className="chat-history-toolbar">
+        <input
+          className="chat-history-search"
+          type="search"
+          value={query}
+          placeholder="Search conversations"
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <button
+          className="chat-history-new"
+          onClick={newSession}
+          disabled={state.isProcessing}
+          title="Start a new conversation"
+        >
+          New
+        </button>
+      </div>
+
+      {error && <div className="chat-history-error">{error}</div>}
+
+      <ul className="chat-history-list">
+        {conversations.length === 0 && (
+          <li className="chat-history-empty">{query ? 'No matching conversations' : 'No saved conversations'}</li>
+        )}
+        {conversations.map((conversation) => (
+          <li
+            key={conversation.id}
+            className="chat-history-item"
+            data-active={conversation.id === state.sessionId}
+          >
+            {editing?.id === conversation.id ? (
+              <input
+                className="chat-history-rename"
+                value={editing.title}
+                autoFocus
+                placeholder="Leave empty to use the first message"
+                onChange={(e) => setEditing({ id: conversation.id, title: e.target.value })}
+                onBlur={handleRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+              />
+            ) : (
+              <button
+                className="chat-history-open"
+                onClick={() => handleResume(conversation.id)}
+                disabled={state.isProcessing}
+                title={conversation.title}
+              >
+                <span className="chat-history-title">{conversation.title}</span>
+                <span className="chat-history-meta">
+                  {describeBackend(conversation)} · {conversation.messageCount} msgs ·{' '}
+                  {formatDate(conversation.updatedAt)}
+                </span>
+              </button>
+            )}
+            <div className="chat-history-item-actions">
+              <button
+                className="chat-history-action"
+                onClick={() => setEditing({ id: conversation.id, title: conversation.title })}
+                aria-label={`Rename ${conversation.title}`}
+                title="Rename"
+              >
+                ✎
+              </button>
+              <button
+                className="chat-history-action"
+                onClick={() => handleDelete(conversation)}
+                aria-label={`Delete ${conversation.title}`}
+                title="Delete"
+              >
+                ×
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
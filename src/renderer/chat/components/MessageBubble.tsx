@@ -1,12 +1,13 @@
 /**
  * Message Bubble Component
  *
- * Renders a single chat message with optional tool calls.
+ * Renders a single chat message with optional tool calls and ACP plan.
  */
 
 import type { ChatMessage } from '../types';
 import { ToolCallBlock } from './ToolCallBlock';
 import { ThoughtBlock } from './ThoughtBlock';
+import { PlanBlock } from './PlanBlock';
 
 interface MessageBubbleProps {
   message: ChatMessage;
@@ -26,6 +27,18 @@ export function MessageBubble({ message }: MessageBubbleProps) {
       )}
       <div className="chat-message-bubble">
         {message.content}
+        {message.images && message.images.length > 0 && (
+          <div className="chat-message-images">
+            {message.images.map((image, index) => (
+              <img
+                key={index}
+                className="chat-message-image"
+                src={`data:${image.mimeType};base64,${image.data}`}
+                alt={`Attached image ${index + 1}`}
+              />
+            ))}
+          </div>
+        )}
         {message.error && (
           <div className="chat-message-error">
             Error: {message.error}
@@ -41,6 +54,8 @@ export function MessageBubble({ message }: MessageBubbleProps) {
           ))}
         </div>
       )}
+
+      {message.plan && message.plan.length > 0 && <PlanBlock entries={message.plan} />}
     </div>
   );
 }
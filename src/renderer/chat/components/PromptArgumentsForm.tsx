@@ -0,0 +1,125 @@
+/**
+ * Prompt Arguments Form
+ *
+ * Asks for a server prompt's arguments before it runs, above the chat
+ * input. Each field offers the server's completions for what has been
+ * typed so far, given the arguments already filled in.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCommunication } from '../../hooks/useCommunication';
+import type { PromptInfo } from '../../../shared/types';
+import { promptCommand } from '../../../shared/prompt-commands.js';
+
+/** Pause after a keystroke before asking the server for completions */
+const COMPLETION_DELAY_MS = 200;
+
+interface PromptArgumentsFormProps {
+  prompt: PromptInfo;
+  onRun: (args: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export function PromptArgumentsForm({ prompt, onRun, onCancel }: PromptArgumentsFormProps) {
+  const adapter = useCommunication();
+  const args = prompt.arguments ?? [];
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [suggestions, setSuggestions] = useState<Record<string, string[]>>({});
+  const timers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  /** Latest request per argument, so a slow answer can't replace a newer one */
+  const requests = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => Object.values(pending).forEach(clearTimeout);
+  }, []);
+
+  const complete = useCallback(
+    (name: string, value: string, current: Record<string, string>) => {
+      clearTimeout(timers.current[name]);
+      timers.current[name] = setTimeout(async () => {
+        const request = (requests.current[name] ?? 0) + 1;
+        requests.current[name] = request;
+        const context = Object.fromEntries(
+          Object.entries(current).filter(([other, v]) => other !== name && v !== '')
+        );
+        try {
+          const result = await adapter.completePromptArgument(
+            prompt.serverName,
+            prompt.originalName,
+            name,
+            value,
+            context
+          );
+          if (requests.current[name] === request) {
+            setSuggestions((prev) => ({ ...prev, [name]: result.values }));
+          }
+        } catch (err) {
+          console.error('[PromptArgumentsForm] Completion failed:', err);
+        }
+      }, COMPLETION_DELAY_MS);
+    },
+    [adapter, prompt]
+  );
+
+  const update = (name: string, value: string) => {
+    const next = { ...values, [name]: value };
+    setValues(next);
+    complete(name, value, next);
+  };
+
+  const missing = args.some((arg) => arg.required && !values[arg.name]?.trim());
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (missing) return;
+    onRun(Object.fromEntries(Object.entries(values).filter(([, value]) => value !== '')));
+  };
+
+  return (
+    <form
+      className="chat-prompt-form"
+      onSubmit={submit}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <div className="chat-prompt-form-header">
+        <span className="chat-command-name">{promptCommand(prompt)}</span>
+        {prompt.description && <span className="chat-command-description">{prompt.description}</span>}
+      </div>
+      {args.map((arg, index) => (
+        <label key={arg.name} className="chat-prompt-field">
+          <span className="chat-prompt-field-name">
+            {arg.name}
+            {arg.required && <span aria-hidden="true">*</span>}
+          </span>
+          <input
+            className="chat-prompt-input"
+            list={`prompt-arg-${arg.name}-suggestions`}
+            value={values[arg.name] ?? ''}
+            placeholder={arg.description}
+            required={arg.required}
+            autoFocus={index === 0}
+            autoComplete="off"
+            onChange={(e) => update(arg.name, e.target.value)}
+            onFocus={() => complete(arg.name, values[arg.name] ?? '', values)}
+          />
+          <datalist id={`prompt-arg-${arg.name}-suggestions`}>
+            {(suggestions[arg.name] ?? []).map((value) => (
+              <option key={value} value={value} />
+            ))}
+          </datalist>
+        </label>
+      ))}
+      <div className="chat-prompt-actions">
+        <button type="button" className="chat-prompt-button" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="chat-prompt-button chat-prompt-run" disabled={missing}>
+          Run
+        </button>
+      </div>
+    </form>
+  );
+}
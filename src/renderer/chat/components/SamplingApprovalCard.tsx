@@ -0,0 +1,312 @@
+/**
+ * Sampling Approval Card
+ *
+ * Blocking inline card shown when an MCP server asks the client to run
+ * an LLM completion (sampling/createMessage). Shows what the server
+ * wants to send — messages, system prompt, tools, token limit and the
+ * model picked from its preferences — and waits for approve / edit /
+ * reject. After the LLM answers, the same card returns so the response
+ * can be sent, edited or discarded before the server sees it.
+ * Queued requests are answered oldest first.
+ */
+
+import { useState } from 'react';
+import { useChat } from '../context/ChatContext';
+import type {
+  SamplingApprovalRequestPayload,
+  SamplingRequestEdits,
+} from '../../../shared/sampling-types';
+
+export function SamplingApprovalCard() {
+  const { state } = useChat();
+  const request = state.samplingRequests[0];
+  if (!request) return null;
+
+  const queued = state.samplingRequests.length - 1;
+
+  // Keyed so draft edits reset when the next request comes up
+  return request.stage === 'response' ? (
+    <SamplingResponseReview key={request.requestId} request={request} queued={queued} />
+  ) : (
+    <SamplingRequestReview key={request.requestId} request={request} queued={queued} />
+  );
+}
+
+interface CardProps {
+  request: SamplingApprovalRequestPayload;
+  queued: number;
+}
+
+function CardTitle({ request, queued, action }: CardProps & { action: string }) {
+  return (
+    <div className="sampling-approval-title">
+      <span className="sampling-approval-icon">🧠</span>
+      <span>
+        <strong>{request.serverName}</strong> {action}
+      </span>
+      {queued > 0 && <span className="sampling-approval-queued">+{queued} queued</span>}
+    </div>
+  );
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// ============================================
+// Request stage
+// ============================================
+
+function SamplingRequestReview({ request, queued }: CardProps) {
+  const { respondSampling } = useChat();
+  const [editing, setEditing] = useState(false);
+  const [systemPrompt, setSystemPrompt] = useState(request.systemPrompt ?? '');
+  const [messages, setMessages] = useState(() => request.messages.map((message) => message.text));
+  const [maxTokens, setMaxTokens] = useState(request.maxTokens?.toString() ?? '');
+  const [temperature, setTemperature] = useState(request.temperature?.toString() ?? '');
+  const [tools, setTools] = useState(() => new Set(request.tools.map((tool) => tool.name)));
+
+  const toggleTool = (name: string) => {
+    setTools((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  /** Only fields the user actually changed are sent back */
+  const collectEdits = (): SamplingRequestEdits | undefined => {
+    const edits: SamplingRequestEdits = {};
+    if (systemPrompt !== (request.systemPrompt ?? '')) edits.systemPrompt = systemPrompt;
+
+    const changedMessages: Record<number, string> = {};
+    request.messages.forEach((message, index) => {
+      if (message.editable && messages[index] !== message.text) changedMessages[index] = messages[index];
+    });
+    if (Object.keys(changedMessages).length > 0) edits.messages = changedMessages;
+
+    const parsedMaxTokens = parseOptionalNumber(maxTokens);
+    if (parsedMaxTokens !== undefined && parsedMaxTokens !== request.maxTokens) edits.maxTokens = parsedMaxTokens;
+    const parsedTemperature = parseOptionalNumber(temperature);
+    if (parsedTemperature !== undefined && parsedTemperature !== request.temperature) {
+      edits.temperature = parsedTemperature;
+    }
+    if (tools.size !== request.tools.length) edits.tools = [...tools];
+
+    return Object.keys(edits).length > 0 ? edits : undefined;
+  };
+
+  const approve = () => {
+    const edits = editing ? collectEdits() : undefined;
+    respondSampling(request.requestId, edits ? { approved: true, edits } : { approved: true });
+  };
+
+  return (
+    <div className="sampling-approval-card" role="alertdialog" aria-label="Sampling request">
+      <CardTitle request={request} queued={queued} action="wants to sample the LLM" />
+
+      {(request.systemPrompt || editing) && (
+        <div className="sampling-approval-section">
+          <div className="sampling-approval-label">System prompt</div>
+          {editing ? (
+            <textarea
+              className="sampling-approval-edit"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              rows={3}
+            />
+          ) : (
+            <pre className="sampling-approval-text">{request.systemPrompt}</pre>
+          )}
+        </div>
+      )}
+
+      <div className="sampling-approval-section">
+        <div className="sampling-approval-label">Messages ({request.messages.length})</div>
+        <div className="sampling-approval-messages">
+          {request.messages.map((message, index) => (
+            <div key={index} className={`sampling-approval-message role-${message.role}`}>
+              <span className="sampling-approval-role">{message.role}</span>
+              {editing && message.editable ? (
+                <textarea
+                  className="sampling-approval-edit"
+                  value={messages[index]}
+                  onChange={(e) =>
+                    setMessages((prev) => prev.map((text, i) => (i === index ? e.target.value : text)))
+                  }
+                  rows={3}
+                />
+              ) : (
+                <pre className="sampling-approval-text">{message.text}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {request.tools.length > 0 && (
+        <div className="sampling-approval-section">
+          <div className="sampling-approval-label">
+            Tools ({editing ? `${tools.size}/${request.tools.length}` : request.tools.length})
+            {request.toolChoice && ` · choice: ${request.toolChoice}`}
+          </div>
+          <ul className="sampling-approval-tools">
+            {request.tools.map((tool) => (
+              <li key={tool.name}>
+                {editing && (
+                  <input
+                    type="checkbox"
+                    checked={tools.has(tool.name)}
+                    onChange={() => toggleTool(tool.name)}
+                    aria-label={`Offer ${tool.name}`}
+                  />
+                )}
+                <code>{tool.name}</code>
+                {tool.description && <span> — {tool.description}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="sampling-approval-params">
+        {request.model && (
+          <span title={request.modelReason}>
+            Model: <code>{request.model}</code>
+            {request.modelReason && <span className="sampling-approval-reason"> ({request.modelReason})</span>}
+          </span>
+        )}
+        {editing ? (
+          <>
+            <label>
+              Max tokens{' '}
+              <input
+                className="sampling-approval-number"
+                type="number"
+                min={1}
+                value={maxTokens}
+                onChange={(e) => setMaxTokens(e.target.value)}
+              />
+            </label>
+            <label>
+              Temperature{' '}
+              <input
+                className="sampling-approval-number"
+                type="number"
+                min={0}
+                max={1}
+                step={0.1}
+                value={temperature}
+                onChange={(e) => setTemperature(e.target.value)}
+              />
+            </label>
+          </>
+        ) : (
+          <>
+            <span>Max tokens: {request.maxTokens ?? 'default'}</span>
+            {request.temperature !== undefined && <span>Temperature: {request.temperature}</span>}
+          </>
+        )}
+      </div>
+
+      <div className="sampling-approval-options">
+        <button className="acp-permission-button permission-allow" onClick={approve}>
+          {editing ? 'Approve edited' : 'Approve'}
+        </button>
+        {!editing && (
+          <button className="acp-permission-button" onClick={() => setEditing(true)}>
+            Edit
+          </button>
+        )}
+        <button
+          className="acp-permission-button permission-reject"
+          onClick={() => respondSampling(request.requestId, { approved: false })}
+        >
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Response stage
+// ============================================
+
+function SamplingResponseReview({ request, queued }: CardProps) {
+  const { respondSampling } = useChat();
+  const response = request.response;
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState(response?.text ?? '');
+
+  // Tool calls go back to the server verbatim; only text answers can be rewritten
+  const canEdit = response !== undefined && response.toolCalls.length === 0;
+
+  const send = () => {
+    const edited = editing && text !== (response?.text ?? '');
+    respondSampling(request.requestId, edited ? { approved: true, responseText: text } : { approved: true });
+  };
+
+  return (
+    <div className="sampling-approval-card" role="alertdialog" aria-label="Sampling response">
+      <CardTitle request={request} queued={queued} action="— review the LLM response before it is sent" />
+
+      {(response?.text !== undefined || editing) && (
+        <div className="sampling-approval-section">
+          <div className="sampling-approval-label">Response</div>
+          {editing ? (
+            <textarea
+              className="sampling-approval-edit"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={6}
+            />
+          ) : (
+            <pre className="sampling-approval-text">{response?.text}</pre>
+          )}
+        </div>
+      )}
+
+      {response && response.toolCalls.length > 0 && (
+        <div className="sampling-approval-section">
+          <div className="sampling-approval-label">Tool calls ({response.toolCalls.length})</div>
+          {response.toolCalls.map((call, index) => (
+            <div key={index} className="sampling-approval-message">
+              <code className="sampling-approval-role">{call.name}</code>
+              <pre className="sampling-approval-text">{call.input}</pre>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {response && (
+        <div className="sampling-approval-params">
+          <span>
+            Model: <code>{response.model}</code>
+          </span>
+          {response.stopReason && <span>Stop reason: {response.stopReason}</span>}
+        </div>
+      )}
+
+      <div className="sampling-approval-options">
+        <button className="acp-permission-button permission-allow" onClick={send}>
+          {editing ? 'Send edited' : 'Send to server'}
+        </button>
+        {canEdit && !editing && (
+          <button className="acp-permission-button" onClick={() => setEditing(true)}>
+            Edit
+          </button>
+        )}
+        <button
+          className="acp-permission-button permission-reject"
+          onClick={() => respondSampling(request.requestId, { approved: false })}
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+/**
+ * Sampling Stream Block
+ *
+ * Live output of an approved sampling request while the LLM generates,
+ * so long server-side agent loops don't look frozen. Removed when the
+ * generation finishes; the response review card takes over from there.
+ */
+
+import type { SamplingStream } from '../types';
+
+export function SamplingStreamBlock({ stream }: { stream: SamplingStream }) {
+  return (
+    <div className="sampling-stream" aria-label={`Sampling output from ${stream.serverName}`}>
+      <div className="sampling-stream-title">
+        <span className="sampling-approval-icon">🧠</span>
+        <span>
+          <strong>{stream.serverName}</strong> sampling in progress
+        </span>
+        <span className="chat-typing-dot" />
+      </div>
+      {stream.text && <pre className="sampling-approval-text">{stream.text}</pre>}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  *
  * Displays connected MCP servers with lifecycle status indicators.
  * Supports full lifecycle states: connected, connecting, disconnected,
- * unhealthy, restarting, failed, stopped.
+ * unhealthy, restarting, failed, stopped, sleeping.
  */
 
 import * as Tooltip from '@radix-ui/react-tooltip';
@@ -25,10 +25,19 @@ function getStatusLabel(status: ServerStatusType): string {
     restarting: 'Restarting...',
     failed: 'Failed',
     stopped: 'Stopped',
+    sleeping: 'Sleeping',
   };
   return labels[status] || status;
 }
 
+const TRANSPORT_LABELS: Record<NonNullable<ServerInfo['transport']>, string> = {
+  stdio: 'stdio',
+  'streamable-http': 'Streamable HTTP',
+  sse: 'HTTP+SSE (legacy)',
+  websocket: 'WebSocket',
+  'in-process': 'In-process',
+};
+
 /**
  * Build tooltip details based on server state
  */
@@ -51,6 +60,15 @@ function getTooltipDetails(server: ServerInfo): React.ReactNode[] {
     </div>
   );
 
+  // Negotiated transport
+  if (server.transport) {
+    details.push(
+      <div key="transport" className="tooltip-detail">
+        Transport: {TRANSPORT_LABELS[server.transport]}
+      </div>
+    );
+  }
+
   // Status with label
   details.push(
     <div key="status" className="tooltip-detail">
@@ -58,6 +76,15 @@ function getTooltipDetails(server: ServerInfo): React.ReactNode[] {
     </div>
   );
 
+  // Sleeping servers start again on demand
+  if (server.status === 'sleeping') {
+    details.push(
+      <div key="sleeping" className="tooltip-detail">
+        Starts on the next tool call
+      </div>
+    );
+  }
+
   // Restart attempts (when restarting)
   if (server.status === 'restarting' && server.restartAttempts !== undefined) {
     const maxAttempts = server.maxRestartAttempts ?? 5;
@@ -3,13 +3,15 @@
  *
  * Displays a tool call with collapsible arguments and result.
  * Shows annotation badges based on declared MCP tool annotations.
- * Provides a Run button for pending tools that require confirmation.
+ * Calls waiting for approval show why, with Run / Always allow / Deny.
  */
 
 import { useState } from 'react';
 import * as Collapsible from '@radix-ui/react-collapsible';
 import type { ChatToolCall } from '../types';
 import { useToolExecution } from '../hooks';
+import { useChat } from '../context/ChatContext';
+import { useToolApproval } from '../context/ToolApprovalContext';
 import { isForUser } from '../../../shared/content-annotations.js';
 import type { AnnotatedContentItem } from '../../../shared/types.js';
 import { AcpDiffBlock } from './AcpDiffBlock';
@@ -90,6 +92,7 @@ const statusLabels: Record<ChatToolCall['status'], string> = {
   executing: 'Running',
   completed: 'Done',
   failed: 'Failed',
+  cancelled: 'Cancelled',
 };
 
 /**
@@ -140,7 +143,9 @@ function formatContentForDisplay(content: unknown): string {
 
 export function ToolCallBlock({ toolCall, messageId }: ToolCallBlockProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const { executeTool } = useToolExecution();
+  const { executeTool, canCancel, cancelTool } = useToolExecution();
+  const { updateToolCall } = useChat();
+  const { supported: canRemember, approvalReason, allowTool, allowServer } = useToolApproval();
 
   const acp = toolCall.acp;
   const hasContent = acp
@@ -150,12 +155,33 @@ export function ToolCallBlock({ toolCall, messageId }: ToolCallBlockProps) {
   const annotationBadges = getAnnotationBadges(toolCall.annotations);
   // ACP tool calls never expose a Run button — the agent executes them itself
   const isPending = !acp && toolCall.status === 'pending';
+  const awaitingApproval = isPending ? approvalReason(toolCall) : null;
+  const isCancellable = !acp && toolCall.status === 'executing' && canCancel(toolCall);
+  const progress = toolCall.status === 'executing' ? toolCall.progress : undefined;
+  const percent = progress?.total ? Math.min(100, Math.round((progress.progress / progress.total) * 100)) : null;
 
   const handleRun = (e: React.MouseEvent) => {
     e.stopPropagation(); // Don't toggle collapsible
     executeTool(messageId, toolCall);
   };
 
+  const handleCancel = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Don't toggle collapsible
+    cancelTool(messageId, toolCall);
+  };
+
+  const handleDeny = () => {
+    updateToolCall(messageId, toolCall.id, {
+      status: 'cancelled',
+      result: { content: 'The user declined to run this tool', isError: true },
+    });
+  };
+
+  // ToolExecutor runs the call once the new setting lets it through
+  const remember = (save: () => Promise<void>) => {
+    save().catch((err) => console.error('[ToolCallBlock] Failed to save tool approval:', err));
+  };
+
   return (
     <Collapsible.Root
       className="tool-call"
@@ -182,7 +208,7 @@ export function ToolCallBlock({ toolCall, messageId }: ToolCallBlockProps) {
           <span className="tool-call-status" data-status={toolCall.status}>
             {statusLabels[toolCall.status]}
           </span>
-          {isPending && (
+          {isPending && !awaitingApproval && (
             <button
               className="tool-call-run-btn"
               onClick={handleRun}
@@ -191,9 +217,64 @@ export function ToolCallBlock({ toolCall, messageId }: ToolCallBlockProps) {
               Run
             </button>
           )}
+          {isCancellable && (
+            <button
+              className="tool-call-approval-btn tool-call-cancel-btn"
+              onClick={handleCancel}
+              title="Cancel this tool call"
+            >
+              Cancel
+            </button>
+          )}
         </button>
       </Collapsible.Trigger>
 
+      {progress && (
+        <div className="tool-call-progress">
+          <div
+            className="tool-call-progress-track"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent ?? undefined}
+          >
+            <div
+              className="tool-call-progress-fill"
+              data-indeterminate={percent === null || undefined}
+              style={percent !== null ? { width: `${percent}%` } : undefined}
+            />
+          </div>
+          <span className="tool-call-progress-label">
+            {progress.message && <span className="tool-call-progress-message">{progress.message}</span>}
+            {percent !== null ? `${percent}%` : progress.progress}
+          </span>
+        </div>
+      )}
+
+      {awaitingApproval && (
+        <div className="tool-call-approval" role="group" aria-label={`Approve ${toolCall.displayName}`}>
+          <span className="tool-call-approval-reason">Needs approval: {awaitingApproval}</span>
+          <div className="tool-call-approval-actions">
+            <button className="tool-call-run-btn" onClick={handleRun}>
+              Run
+            </button>
+            {canRemember && (
+              <>
+                <button className="tool-call-approval-btn" onClick={() => remember(() => allowTool(toolCall.qualifiedName))}>
+                  Always allow this tool
+                </button>
+                <button className="tool-call-approval-btn" onClick={() => remember(() => allowServer(toolCall.serverName))}>
+                  Always allow {toolCall.serverName}
+                </button>
+              </>
+            )}
+            <button className="tool-call-approval-btn tool-call-deny-btn" onClick={handleDeny}>
+              Deny
+            </button>
+          </div>
+        </div>
+      )}
+
       <Collapsible.Content className="tool-call-content">
         {acp ? (
           <>
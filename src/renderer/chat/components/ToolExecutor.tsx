@@ -2,6 +2,8 @@
  * Tool Executor Component
  *
  * Watches for pending tool calls and executes them.
+ * Calls that need approval (see ToolApprovalContext) stay pending until the
+ * user runs or denies them from their ToolCallBlock, or always-allows them.
  * After tools complete, ChatContext's useEffect handles continuation for multi-turn workflows.
  * This is a "behavior" component - it doesn't render anything visible.
  */
@@ -9,13 +11,18 @@
 import { useEffect, useRef } from 'react';
 import { useChat } from '../context/ChatContext';
 import { useToolExecution } from '../hooks';
+import { useToolApproval } from '../context/ToolApprovalContext';
 
 export function ToolExecutor() {
   const { state } = useChat();
   const { executeAllTools } = useToolExecution();
+  const { ready, approvalReason } = useToolApproval();
   const executingRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
+    // Saved approvals aren't known yet; don't run anything that might need one
+    if (!ready) return;
+
     // Find messages that have finished streaming and have pending tool calls
     for (const message of state.messages) {
       // Skip ACP agent messages — the agent executes its own tools
@@ -27,8 +34,10 @@ export function ToolExecutor() {
       // Skip if no tool calls
       if (!message.toolCalls || message.toolCalls.length === 0) continue;
 
-      // Check if any tool calls are pending
-      const pendingTools = message.toolCalls.filter((tc) => tc.status === 'pending');
+      // Check if any tool calls can run without approval
+      const pendingTools = message.toolCalls.filter(
+        (tc) => tc.status === 'pending' && approvalReason(tc) === null
+      );
       if (pendingTools.length === 0) continue;
 
       // Skip if already executing this message's tools
@@ -49,7 +58,7 @@ export function ToolExecutor() {
           executingRef.current.delete(message.id);
         });
     }
-  }, [state.messages, executeAllTools]);
+  }, [state.messages, executeAllTools, ready, approvalReason]);
 
   // This component doesn't render anything
   return null;
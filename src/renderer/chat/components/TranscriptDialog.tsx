@@ -0,0 +1,157 @@
+/**
+ * Transcript Dialog Component
+ *
+ * Export the current conversation as Markdown, JSON or HTML (see
+ * transcript.ts), or import a JSON export to pick the conversation up
+ * where it left off. Files are saved through a regular download, so this
+ * works the same in the desktop app and in web mode.
+ */
+
+import { useRef, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { useChat } from '../context/ChatContext';
+import { useTheme } from '../context/ThemeContext';
+import {
+  exportTranscript,
+  transcriptFileName,
+  transcriptTitle,
+  TRANSCRIPT_MIME_TYPE,
+  type TranscriptConversation,
+  type TranscriptFormat,
+} from '../transcript';
+
+const FORMATS: Array<{ format: TranscriptFormat; label: string; description: string }> = [
+  { format: 'markdown', label: 'Markdown', description: 'For tickets and docs; tool calls fold into <details> blocks' },
+  { format: 'html', label: 'HTML', description: 'A single page styled with the current theme' },
+  { format: 'json', label: 'JSON', description: 'Everything, including tool calls, diffs and plans; can be imported again' },
+];
+
+const TranscriptIcon = () => (
+  <svg className="icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M14 3H6a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V9z" />
+    <polyline points="14 3 14 9 20 9" />
+    <line x1="8" y1="13" x2="16" y2="13" />
+    <line x1="8" y1="17" x2="13" y2="17" />
+  </svg>
+);
+
+const CloseIcon = () => (
+  <svg className="icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <line x1="18" y1="6" x2="6" y2="18" />
+    <line x1="6" y1="6" x2="18" y2="18" />
+  </svg>
+);
+
+function download(text: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function TranscriptDialog() {
+  const { state, importConversation } = useChat();
+  const { currentTheme } = useTheme();
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const conversation: TranscriptConversation = {
+    id: state.sessionId,
+    title: transcriptTitle(state.messages),
+    backend: state.backend,
+    messages: state.messages,
+  };
+
+  const handleExport = (format: TranscriptFormat) => {
+    const text = exportTranscript(conversation, format, { ...currentTheme.variables });
+    download(text, transcriptFileName(conversation, format), TRANSCRIPT_MIME_TYPE[format]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      importConversation(await file.text());
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        setError(null);
+      }}
+    >
+      <Dialog.Trigger asChild>
+        <button className="chat-header-button" aria-label="Export or import" title="Export or import conversation">
+          <TranscriptIcon />
+        </button>
+      </Dialog.Trigger>
+
+      <Dialog.Portal>
+        <Dialog.Overlay className="settings-dialog-overlay" />
+        <Dialog.Content className="settings-dialog-content transcript-dialog-content">
+          <Dialog.Title className="settings-dialog-title">Export or import</Dialog.Title>
+          <Dialog.Description className="settings-dialog-description">
+            Save this conversation to a file, or open a JSON export to continue it.
+          </Dialog.Description>
+
+          <div className="settings-sections">
+            <div className="settings-section">
+              <div className="settings-section-title">Export</div>
+              {FORMATS.map(({ format, label, description }) => (
+                <div key={format} className="transcript-option">
+                  <button
+                    className="settings-agent-button"
+                    onClick={() => handleExport(format)}
+                    disabled={state.messages.length === 0}
+                  >
+                    {label}
+                  </button>
+                  <span className="settings-section-description">{description}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="settings-section">
+              <div className="settings-section-title">Import</div>
+              <div className="transcript-option">
+                <button
+                  className="settings-agent-button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={state.isProcessing}
+                >
+                  Open JSON…
+                </button>
+                <span className="settings-section-description">Replaces the current conversation</span>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={handleImport}
+              />
+              {error && <div className="settings-agents-error">{error}</div>}
+            </div>
+          </div>
+
+          <Dialog.Close asChild>
+            <button className="settings-dialog-close" aria-label="Close">
+              <CloseIcon />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
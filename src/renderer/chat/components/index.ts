@@ -7,8 +7,14 @@
 export { ChatDrawer } from './ChatDrawer';
 export { ChatOutput } from './ChatOutput';
 export { ChatInput } from './ChatInput';
+export { HistorySidebar } from './HistorySidebar';
+export { TranscriptDialog } from './TranscriptDialog';
 export { MessageBubble } from './MessageBubble';
 export { ToolCallBlock } from './ToolCallBlock';
 export { ServerStatus } from './ServerStatus';
 export { ThemeToggle } from './ThemeToggle';
 export { ToolExecutor } from './ToolExecutor';
+export { SamplingApprovalCard } from './SamplingApprovalCard';
+export { SamplingStreamBlock } from './SamplingStreamBlock';
+export { ElicitationCard } from './ElicitationCard';
+export { ElicitationWaitBlock } from './ElicitationWaitBlock';
@@ -15,6 +15,7 @@ import {
   useCallback,
   useEffect,
   useRef,
+  useState,
   type ReactNode,
   type Dispatch,
 } from 'react';
@@ -30,13 +31,30 @@ import type {
 } from '../types';
 import { useSettings } from '../../settings';
 import { useCommunication } from '../../hooks/useCommunication';
-import type { StreamEvent, AnnotatedContentItem } from '../../../shared/types';
+import { useResourceWatch } from '../../resources';
+import type {
+  StreamEvent,
+  AnnotatedContentItem,
+  ChatApiUserContentPart,
+  MessageImage,
+  PromptInfo,
+} from '../../../shared/types';
 import type {
   AcpPermissionOutcome,
-  AcpToolCallView,
   AcpUiEvent,
 } from '../../../shared/acp-types';
+import type { SamplingDecision } from '../../../shared/sampling-types';
+import type { ElicitationDecision } from '../../../shared/elicitation-types';
+import type { SavedAcpSession } from '../../../shared/conversation-types';
 import { isForAssistant } from '../../../shared/content-annotations.js';
+import {
+  flattenPromptTurns,
+  promptCommand,
+  toPromptTurns,
+  type PromptTurn,
+} from '../../../shared/prompt-commands.js';
+import { acpToolCallToChat, importTranscriptAsNew, restoreMessages } from '../transcript';
+import { getToolTurnOutcome } from '../tool-turn';
 
 // ============================================
 // Initial State
@@ -73,6 +91,23 @@ function filterContentForAssistant(content: unknown): unknown {
   return filtered;
 }
 
+/**
+ * API content for a user message: plain text, or text and image parts
+ * when a prompt attached images.
+ */
+function userApiContent(message: ChatMessage): string | ChatApiUserContentPart[] {
+  if (!message.images?.length) {
+    return message.content;
+  }
+  return [
+    ...(message.content.trim() ? [{ type: 'text' as const, text: message.content }] : []),
+    ...message.images.map((image) => ({ type: 'image' as const, image: image.data, mediaType: image.mimeType })),
+  ];
+}
+
+/** Quiet period after the last change before the conversation is saved */
+const SAVE_DELAY_MS = 1000;
+
 const initialState: ChatState = {
   isOpen: false,
   sessionId: generateSessionId(),
@@ -89,39 +124,17 @@ const initialState: ChatState = {
   currentTurn: 0,
   backend: { kind: 'ai-sdk', role: 'doer' },
   acpSession: null,
+  savedAcpSession: null,
+  samplingRequests: [],
+  samplingStreams: [],
+  elicitationRequests: [],
+  elicitationWaits: [],
 };
 
 // ============================================
 // ACP Helpers
 // ============================================
 
-/** ACP statuses map so they never hit 'pending' — ToolExecutor must not auto-run them */
-function mapAcpToolStatus(status: AcpToolCallView['status']): ChatToolCall['status'] {
-  switch (status) {
-    case 'completed':
-      return 'completed';
-    case 'failed':
-      return 'failed';
-    default:
-      return 'executing';
-  }
-}
-
-function acpToolCallToChat(view: AcpToolCallView, agentName: string): ChatToolCall {
-  return {
-    id: view.toolCallId,
-    qualifiedName: view.title || view.kind,
-    displayName: view.title || view.kind,
-    serverName: agentName,
-    arguments:
-      view.rawInput && typeof view.rawInput === 'object'
-        ? (view.rawInput as Record<string, unknown>)
-        : {},
-    status: mapAcpToolStatus(view.status),
-    acp: view,
-  };
-}
-
 /** Finalize the streaming ACP message and reset processing flags */
 function finalizeAcpTurn(
   state: ChatState,
@@ -199,7 +212,14 @@ function applyAcpEvent(state: ChatState, event: AcpUiEvent): ChatState {
     }
 
     case 'plan':
-      return { ...state, acpSession: { ...session, plan: event.entries } };
+      // Kept on the turn's message too, so saved and exported conversations keep it
+      return {
+        ...state,
+        messages: msgId
+          ? state.messages.map((msg) => (msg.id === msgId ? { ...msg, plan: event.entries ?? undefined } : msg))
+          : state.messages,
+        acpSession: { ...session, plan: event.entries },
+      };
 
     case 'available_commands':
       return { ...state, acpSession: { ...session, availableCommands: event.commands } };
@@ -344,13 +364,32 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
           if (msg.id !== action.messageId || !msg.toolCalls) return msg;
           return {
             ...msg,
+            // A cancelled call keeps its result even if the server answers late
             toolCalls: msg.toolCalls.map((tc) =>
-              tc.id === action.toolCallId ? { ...tc, ...action.updates } : tc
+              tc.id === action.toolCallId && tc.status !== 'cancelled' ? { ...tc, ...action.updates } : tc
             ),
           };
         }),
       };
 
+    // Progress events only name the call, so find its message
+    case 'TOOL_PROGRESS': {
+      const { callId, progress, total, message } = action.payload;
+      return {
+        ...state,
+        messages: state.messages.map((msg) =>
+          msg.toolCalls?.some((tc) => tc.id === callId && tc.status === 'executing')
+            ? {
+                ...msg,
+                toolCalls: msg.toolCalls.map((tc) =>
+                  tc.id === callId ? { ...tc, progress: { progress, total, message } } : tc
+                ),
+              }
+            : msg
+        ),
+      };
+    }
+
     case 'SET_PROCESSING':
       return { ...state, isProcessing: action.isProcessing };
 
@@ -390,6 +429,21 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         error: null,
         currentTurn: 0,
         acpSession: null,
+        savedAcpSession: null,
+        isProcessing: false,
+        streamingMessageId: null,
+      };
+
+    case 'LOAD_SESSION':
+      return {
+        ...state,
+        sessionId: action.sessionId,
+        backend: action.backend,
+        messages: action.messages,
+        error: null,
+        currentTurn: 0,
+        acpSession: null,
+        savedAcpSession: action.savedAcpSession ?? null,
         isProcessing: false,
         streamingMessageId: null,
       };
@@ -398,7 +452,7 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
       return { ...state, backend: action.backend };
 
     case 'ACP_SESSION_STARTED':
-      return { ...state, acpSession: action.session };
+      return { ...state, acpSession: action.session, savedAcpSession: null };
 
     case 'ACP_SESSION_ENDED':
       return { ...state, acpSession: null };
@@ -423,6 +477,68 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         acpSession: { ...state.acpSession, activePermission: null },
       };
 
+    // Sampling requests belong to servers, not the conversation, so they
+    // survive NEW_SESSION / SET_BACKEND
+    case 'SAMPLING_REQUEST':
+      return {
+        ...state,
+        // Open the drawer so the blocking card is visible
+        isOpen: true,
+        samplingRequests: [...state.samplingRequests, action.payload],
+      };
+
+    case 'SAMPLING_RESOLVED':
+      return {
+        ...state,
+        samplingRequests: state.samplingRequests.filter(
+          (request) => request.requestId !== action.requestId
+        ),
+      };
+
+    case 'SAMPLING_PROGRESS': {
+      const { streamId, serverName, text, done } = action.payload;
+      const others = state.samplingStreams.filter((stream) => stream.streamId !== streamId);
+      if (done) {
+        return { ...state, samplingStreams: others };
+      }
+      const existing = state.samplingStreams.find((stream) => stream.streamId === streamId);
+      return {
+        ...state,
+        samplingStreams: existing
+          ? state.samplingStreams.map((stream) =>
+              stream.streamId === streamId ? { ...stream, text: stream.text + text } : stream
+            )
+          : [...others, { streamId, serverName, text }],
+      };
+    }
+
+    // Like sampling, elicitation forms outlive the conversation
+    case 'ELICITATION_REQUEST':
+      return {
+        ...state,
+        isOpen: true,
+        elicitationRequests: [...state.elicitationRequests, action.payload],
+      };
+
+    case 'ELICITATION_RESOLVED': {
+      const resolved = state.elicitationRequests.find((request) => request.requestId === action.requestId);
+      return {
+        ...state,
+        elicitationRequests: state.elicitationRequests.filter(
+          (request) => request.requestId !== action.requestId
+        ),
+        // Accepted URL requests stay visible until the server reports completion
+        elicitationWaits:
+          action.waiting && resolved ? [...state.elicitationWaits, resolved] : state.elicitationWaits,
+      };
+    }
+
+    case 'ELICITATION_WAIT_ENDED':
+      return {
+        ...state,
+        elicitationWaits: state.elicitationWaits.filter((wait) => wait.requestId !== action.requestId),
+      };
+
     case 'INCREMENT_TURN':
       return { ...state, currentTurn: state.currentTurn + 1 };
 
@@ -460,6 +576,8 @@ interface ChatContextValue {
   closeDrawer: () => void;
   setInput: (value: string) => void;
   sendMessage: (content: string) => void;
+  /** Run a server prompt and insert its messages into the conversation */
+  runPrompt: (prompt: PromptInfo, args: Record<string, string>) => Promise<void>;
   addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => ChatMessage;
   updateMessage: (id: string, updates: Partial<ChatMessage>) => void;
   appendStream: (id: string, content: string) => void;
@@ -469,6 +587,12 @@ interface ChatContextValue {
   newSession: () => void;
   /** Continue the conversation after tools have been executed */
   continueAfterTools: (messageId: string) => Promise<void>;
+  /** Replace the conversation with a saved one (the next message continues it) */
+  resumeConversation: (id: string) => Promise<void>;
+  /** Bumps after each save, so history lists know to refresh */
+  historyRevision: number;
+  /** Replace the conversation with a JSON export (see transcript.ts); throws if it can't be read */
+  importConversation: (json: string) => void;
   // ACP
   /** Switch the chat backend; starts a fresh conversation */
   setBackend: (backend: ChatBackend) => void;
@@ -478,6 +602,14 @@ interface ChatContextValue {
   respondAcpPermission: (requestId: string, outcome: AcpPermissionOutcome) => void;
   setAcpMode: (modeId: string) => void;
   setAcpConfigOption: (configId: string, value: string | boolean) => void;
+  // Sampling
+  /** Answer the pending sampling card (request approval or response review) */
+  respondSampling: (requestId: string, decision: SamplingDecision) => void;
+  // Elicitation
+  /** Answer the pending elicitation request (accept with values / open the URL, decline or cancel) */
+  respondElicitation: (requestId: string, decision: ElicitationDecision) => void;
+  /** Stop waiting for an accepted URL-mode elicitation to complete */
+  cancelElicitationWait: (requestId: string) => void;
 }
 
 const ChatContext = createContext<ChatContextValue | null>(null);
@@ -494,9 +626,13 @@ export function ChatProvider({ children }: ChatProviderProps) {
   const [state, dispatch] = useReducer(chatReducer, initialState);
   const { doer, dreamer } = useSettings();
   const adapter = useCommunication();
+  const { pinnedResources } = useResourceWatch();
 
   // Track which messages have triggered auto-continuation to prevent duplicates
   const continuationTriggeredRef = useRef<Set<string>>(new Set());
+  // Messages of a resumed conversation, which don't need saving again
+  const loadedMessagesRef = useRef<ChatMessage[] | null>(null);
+  const [historyRevision, setHistoryRevision] = useState(0);
 
   // Convenience action creators
   const toggleDrawer = useCallback(() => dispatch({ type: 'TOGGLE_DRAWER' }), []);
@@ -552,39 +688,72 @@ export function ChatProvider({ children }: ChatProviderProps) {
   // ============================================
 
   const sendAcpMessage = useCallback(
-    async (content: string) => {
+    async (content: string, images?: MessageImage[]) => {
       if (state.backend.kind !== 'acp' || !adapter.acp) return;
       const acp = adapter.acp;
       const { agentId, agentName } = state.backend;
 
-      dispatch({ type: 'ADD_TO_HISTORY', value: content });
-      dispatch({ type: 'SET_INPUT', value: '' });
-      addMessage({ role: 'user', content });
+      addMessage({ role: 'user', content, images: images?.length ? images : undefined });
 
       try {
         let session = state.acpSession;
         if (!session || session.status === 'dead' || session.agentId !== agentId) {
-          // Resolve the session cwd: the agent's remembered default or a picker
-          const agents = await acp.getAgents();
-          const agent = agents.find((a) => a.id === agentId);
-          let cwd = agent?.defaultSessionCwd ?? null;
-          if (!cwd) {
-            cwd = await acp.pickDirectory();
-            if (!cwd) {
+          // A resumed conversation (or a crashed agent) picks up its earlier agent session
+          const earlier =
+            state.savedAcpSession ??
+            (session?.status === 'dead' && session.agentId === agentId
+              ? { sessionId: session.sessionId, cwd: session.cwd }
+              : null);
+
+          let result = null;
+          if (earlier) {
+            addMessage({ role: 'system', content: `Reopening the earlier ${agentName} session…` });
+            dispatch({ type: 'SET_PROCESSING', isProcessing: true });
+            try {
+              result = await acp.loadSession(agentId, earlier.sessionId, earlier.cwd);
+            } catch (err) {
+              console.warn('[Chat] Failed to load ACP session:', err);
+            }
+            if (!result) {
               addMessage({
                 role: 'system',
-                content: 'Agent sessions need a working directory — pick a folder to continue.',
+                content: `${agentName} couldn't reopen the earlier session, so it starts a new one without the messages above.`,
               });
-              return;
             }
           }
 
-          addMessage({
-            role: 'system',
-            content: `Starting ${agentName} in ${cwd}… (the first run may take a minute)`,
-          });
-          dispatch({ type: 'SET_PROCESSING', isProcessing: true });
-          const result = await acp.newSession(agentId, cwd);
+          if (!result && !earlier && state.messages.some((m) => m.role === 'assistant')) {
+            addMessage({
+              role: 'system',
+              content: `${agentName} starts a new session and won't see the messages above.`,
+            });
+          }
+
+          if (!result) {
+            // Resolve the session cwd: the agent's remembered default or a picker
+            const agents = await acp.getAgents();
+            const agent = agents.find((a) => a.id === agentId);
+            let cwd = earlier?.cwd ?? agent?.defaultSessionCwd ?? null;
+            if (!cwd) {
+              cwd = await acp.pickDirectory();
+              if (!cwd) {
+                addMessage({
+                  role: 'system',
+                  content: 'Agent sessions need a working directory — pick a folder to continue.',
+                });
+                dispatch({ type: 'SET_PROCESSING', isProcessing: false });
+                return;
+              }
+            }
+
+            addMessage({
+              role: 'system',
+              content: `Starting ${agentName} in ${cwd}… (the first run may take a minute)`,
+            });
+            dispatch({ type: 'SET_PROCESSING', isProcessing: true });
+            result = await acp.newSession(agentId, cwd);
+          }
+
           session = {
             sessionId: result.sessionId,
             agentId,
@@ -610,7 +779,7 @@ export function ChatProvider({ children }: ChatProviderProps) {
         dispatch({ type: 'SET_STREAMING_MESSAGE', id: assistantMsg.id });
 
         // Returns immediately; turn_ended / turn_error events finalize the message
-        await acp.prompt(session.sessionId, content);
+        await acp.prompt(session.sessionId, content, images);
       } catch (err) {
         console.error('[Chat] ACP error:', err);
         addMessage({
@@ -621,57 +790,24 @@ export function ChatProvider({ children }: ChatProviderProps) {
         dispatch({ type: 'SET_STREAMING_MESSAGE', id: null });
       }
     },
-    [state.backend, state.acpSession, adapter, addMessage]
+    [state.backend, state.acpSession, state.savedAcpSession, state.messages, adapter, addMessage]
   );
 
-  const sendMessage = useCallback(
-    async (content: string) => {
-      if (!content.trim() || state.isProcessing) return;
-
-      // ACP agents own their loop — bypass the AI SDK path entirely
-      if (state.backend.kind === 'acp') {
-        await sendAcpMessage(content.trim());
-        return;
-      }
-
-      // Parse slash commands for model selection (Doer vs Dreamer)
-      let modelRole: 'doer' | 'dreamer' = 'doer';
-      let processedContent = content.trim();
-
-      if (processedContent.startsWith('/dream ')) {
-        modelRole = 'dreamer';
-        processedContent = processedContent.slice(7).trim();
-      } else if (processedContent === '/dream') {
-        // Just "/dream" with no content - show help
-        addMessage({
-          role: 'system',
-          content: 'Usage: `/dream <your question>` - Use the Dreamer model for complex reasoning.',
-        });
-        return;
-      }
-
-      // Select model config based on role
-      const modelConfig = modelRole === 'dreamer' ? dreamer : doer;
-
-      // Add user message (show original content including /dream prefix)
-      dispatch({ type: 'ADD_TO_HISTORY', value: content });
-      dispatch({ type: 'SET_INPUT', value: '' });
+  /**
+   * Stream the model's reply to a conversation that ends with a new user
+   * turn. `history` is every message the model should see.
+   */
+  const streamReply = useCallback(
+    async (history: ChatMessage[], modelConfig: MessageModelConfig) => {
       dispatch({ type: 'RESET_TURN' }); // Reset turn counter for new user message
       continuationTriggeredRef.current.clear(); // Clear continuation tracking for new conversation turn
-      addMessage({ role: 'user', content });
 
       // Create assistant message placeholder with model config for continuation
-      const msgModelConfig: MessageModelConfig = {
-        provider: modelConfig.provider,
-        modelId: modelConfig.modelId,
-        temperature: modelConfig.temperature,
-        maxTurns: modelConfig.maxTurns,
-      };
       const assistantMsg = addMessage({
         role: 'assistant',
         content: '',
         isStreaming: true,
-        modelConfig: msgModelConfig,
+        modelConfig,
       });
       dispatch({ type: 'SET_PROCESSING', isProcessing: true });
       dispatch({ type: 'SET_STREAMING_MESSAGE', id: assistantMsg.id });
@@ -684,13 +820,13 @@ export function ChatProvider({ children }: ChatProviderProps) {
           content: string | Array<{ type: string; [key: string]: unknown }>;
         }> = [];
 
-        for (const m of state.messages) {
+        for (const m of history) {
           if (m.role === 'system') continue;
 
           if (m.role === 'user') {
-            // User messages are simple text
-            if (m.content.trim()) {
-              chatMessages.push({ role: 'user', content: m.content });
+            // User messages are text, plus any images a prompt brought in
+            if (m.content.trim() || m.images?.length) {
+              chatMessages.push({ role: 'user', content: userApiContent(m) });
             }
           } else if (m.role === 'assistant') {
             // Assistant messages may have text and/or tool calls
@@ -743,13 +879,11 @@ export function ChatProvider({ children }: ChatProviderProps) {
           }
         }
 
-        // Add current user message
-        chatMessages.push({ role: 'user', content: processedContent });
-
         // Build MCP context
         const mcpContext = {
           servers: state.servers.map((s) => ({ name: s.name, version: s.version })),
           availableTools: state.tools,
+          pinnedResources,
         };
 
         // Use communication adapter for streaming chat
@@ -766,7 +900,7 @@ export function ChatProvider({ children }: ChatProviderProps) {
             maxTurns: modelConfig.maxTurns,
           },
         })) {
-          handleStreamEvent(event, assistantMsg.id, toolCalls, dispatch);
+          handleStreamEvent(event, assistantMsg.id, toolCalls, state.tools, dispatch);
         }
 
         // Finalize message
@@ -794,7 +928,173 @@ export function ChatProvider({ children }: ChatProviderProps) {
         dispatch({ type: 'SET_STREAMING_MESSAGE', id: null });
       }
     },
-    [state.isProcessing, state.messages, state.servers, state.tools, state.sessionId, state.backend, addMessage, doer, dreamer, adapter, sendAcpMessage]
+    [state.servers, state.tools, state.sessionId, addMessage, adapter, pinnedResources]
+  );
+
+  const sendMessage = useCallback(
+    async (content: string) => {
+      if (!content.trim() || state.isProcessing) return;
+
+      // ACP agents own their loop — bypass the AI SDK path entirely
+      if (state.backend.kind === 'acp') {
+        dispatch({ type: 'ADD_TO_HISTORY', value: content });
+        dispatch({ type: 'SET_INPUT', value: '' });
+        await sendAcpMessage(content.trim());
+        return;
+      }
+
+      // Parse slash commands for model selection (Doer vs Dreamer)
+      let modelRole: 'doer' | 'dreamer' = 'doer';
+      let processedContent = content.trim();
+
+      if (processedContent.startsWith('/dream ')) {
+        modelRole = 'dreamer';
+        processedContent = processedContent.slice(7).trim();
+      } else if (processedContent === '/dream') {
+        // Just "/dream" with no content - show help
+        addMessage({
+          role: 'system',
+          content: 'Usage: `/dream <your question>` - Use the Dreamer model for complex reasoning.',
+        });
+        return;
+      }
+
+      // Select model config based on role
+      const modelConfig = modelRole === 'dreamer' ? dreamer : doer;
+
+      // Add user message (show original content including /dream prefix)
+      dispatch({ type: 'ADD_TO_HISTORY', value: content });
+      dispatch({ type: 'SET_INPUT', value: '' });
+      const userMsg = addMessage({ role: 'user', content });
+
+      await streamReply([...state.messages, { ...userMsg, content: processedContent }], {
+        provider: modelConfig.provider,
+        modelId: modelConfig.modelId,
+        temperature: modelConfig.temperature,
+        maxTurns: modelConfig.maxTurns,
+      });
+    },
+    [state.isProcessing, state.messages, state.backend, addMessage, doer, dreamer, sendAcpMessage, streamReply]
+  );
+
+  const runPrompt = useCallback(
+    async (prompt: PromptInfo, args: Record<string, string>) => {
+      if (state.isProcessing) return;
+      const command = promptCommand(prompt);
+      dispatch({ type: 'ADD_TO_HISTORY', value: command });
+      dispatch({ type: 'SET_INPUT', value: '' });
+
+      let turns: PromptTurn[];
+      try {
+        turns = toPromptTurns(await adapter.getPrompt(prompt.serverName, prompt.originalName, args));
+      } catch (err) {
+        addMessage({
+          role: 'system',
+          content: `${command} failed: ${err instanceof Error ? err.message : String(err)}`,
+        });
+        return;
+      }
+      if (turns.length === 0) {
+        addMessage({ role: 'system', content: `${command} returned no messages.` });
+        return;
+      }
+
+      // An agent takes the whole prompt as one turn of its own conversation
+      if (state.backend.kind === 'acp') {
+        await sendAcpMessage(flattenPromptTurns(turns), turns.flatMap((turn) => turn.images));
+        return;
+      }
+
+      const inserted = turns.map((turn) =>
+        addMessage({ role: turn.role, content: turn.text, images: turn.images.length ? turn.images : undefined })
+      );
+      // A prompt that ends on an assistant turn leaves the next move to the user
+      if (inserted.at(-1)!.role === 'user') {
+        await streamReply([...state.messages, ...inserted], {
+          provider: doer.provider,
+          modelId: doer.modelId,
+          temperature: doer.temperature,
+          maxTurns: doer.maxTurns,
+        });
+      }
+    },
+    [state.isProcessing, state.messages, state.backend, adapter, addMessage, doer, sendAcpMessage, streamReply]
+  );
+
+  // ============================================
+  // Conversation history
+  // ============================================
+
+  // Save once a turn settles; the main process keeps one file per session
+  useEffect(() => {
+    const history = adapter.history;
+    if (!history || state.isProcessing || state.messages.length === 0) return;
+    if (state.messages === loadedMessagesRef.current || state.messages.some((m) => m.isStreaming)) return;
+
+    const latestModel = [...state.messages].reverse().find((m) => m.modelConfig)?.modelConfig;
+    const timer = setTimeout(() => {
+      history
+        .save({
+          id: state.sessionId,
+          backend: state.backend,
+          modelConfig: state.backend.kind === 'acp' ? undefined : latestModel,
+          acpSession: state.acpSession
+            ? { sessionId: state.acpSession.sessionId, cwd: state.acpSession.cwd }
+            : state.savedAcpSession ?? undefined,
+          messages: state.messages,
+        })
+        .then(() => setHistoryRevision((n) => n + 1))
+        .catch((err) => console.error('[Chat] Failed to save conversation:', err));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [adapter, state.sessionId, state.backend, state.acpSession, state.savedAcpSession, state.messages, state.isProcessing]);
+
+  /** Show a saved conversation; `saved` says whether history already has this copy */
+  const loadConversation = useCallback(
+    (
+      sessionId: string,
+      backend: ChatBackend,
+      messages: ChatMessage[],
+      saved: boolean,
+      savedAcpSession?: SavedAcpSession
+    ) => {
+      loadedMessagesRef.current = saved ? messages : null;
+      // Finished tool rounds stay finished; don't let auto-continue pick them up again
+      continuationTriggeredRef.current = new Set(
+        messages.filter((m) => m.toolCalls?.length).map((m) => `${m.id}-${m.toolCalls!.length}-0`)
+      );
+      dispatch({ type: 'LOAD_SESSION', sessionId, backend, messages, savedAcpSession });
+    },
+    []
+  );
+
+  const resumeConversation = useCallback(
+    async (id: string) => {
+      if (!adapter.history || state.isProcessing) return;
+      const conversation = await adapter.history.get(id);
+      if (!conversation) {
+        throw new Error('Conversation not found');
+      }
+      loadConversation(
+        conversation.id,
+        conversation.backend,
+        restoreMessages(conversation.messages as ChatMessage[]),
+        true,
+        conversation.acpSession
+      );
+    },
+    [adapter, state.isProcessing, loadConversation]
+  );
+
+  const importConversation = useCallback(
+    (json: string) => {
+      if (state.isProcessing) {
+        throw new Error('Wait for the current response to finish');
+      }
+      const conversation = importTranscriptAsNew(json, generateSessionId());
+      loadConversation(conversation.id, conversation.backend, conversation.messages, false);
+    },
+    [state.isProcessing, loadConversation]
   );
 
   // ============================================
@@ -847,6 +1147,70 @@ export function ChatProvider({ children }: ChatProviderProps) {
     [state.acpSession, adapter]
   );
 
+  const respondSampling = useCallback(
+    (requestId: string, decision: SamplingDecision) => {
+      adapter.sampling?.respond(requestId, decision).catch((err) => {
+        console.error('[Chat] Sampling response failed:', err);
+      });
+      dispatch({ type: 'SAMPLING_RESOLVED', requestId });
+    },
+    [adapter]
+  );
+
+  // Subscribe to server sampling requests (Electron only)
+  useEffect(() => {
+    if (!adapter.sampling) return;
+    const unsubscribeRequest = adapter.sampling.onRequest((payload) => {
+      dispatch({ type: 'SAMPLING_REQUEST', payload });
+    });
+    const unsubscribeProgress = adapter.sampling.onProgress((payload) => {
+      dispatch({ type: 'SAMPLING_PROGRESS', payload });
+    });
+    return () => {
+      unsubscribeRequest();
+      unsubscribeProgress();
+    };
+  }, [adapter]);
+
+  const respondElicitation = useCallback(
+    (requestId: string, decision: ElicitationDecision) => {
+      const request = state.elicitationRequests.find((r) => r.requestId === requestId);
+      const url = request?.mode === 'url' && decision.action === 'accept' ? request.url : undefined;
+      // Must run inside the click handler, before any await, or the browser blocks the tab
+      if (url) adapter.elicitation?.openUrl?.(url);
+      adapter.elicitation?.respond(requestId, decision).catch((err) => {
+        console.error('[Chat] Elicitation response failed:', err);
+      });
+      dispatch({ type: 'ELICITATION_RESOLVED', requestId, waiting: url !== undefined });
+    },
+    [state.elicitationRequests, adapter]
+  );
+
+  const cancelElicitationWait = useCallback(
+    (requestId: string) => {
+      adapter.elicitation?.respond(requestId, { action: 'cancel' }).catch((err) => {
+        console.error('[Chat] Elicitation cancel failed:', err);
+      });
+      dispatch({ type: 'ELICITATION_WAIT_ENDED', requestId });
+    },
+    [adapter]
+  );
+
+  // Subscribe to server elicitation requests and URL-mode completions (Electron and web)
+  useEffect(() => {
+    if (!adapter.elicitation) return;
+    const unsubscribeRequest = adapter.elicitation.onRequest((payload) => {
+      dispatch({ type: 'ELICITATION_REQUEST', payload });
+    });
+    const unsubscribeComplete = adapter.elicitation.onComplete(({ requestId }) => {
+      dispatch({ type: 'ELICITATION_WAIT_ENDED', requestId });
+    });
+    return () => {
+      unsubscribeRequest();
+      unsubscribeComplete();
+    };
+  }, [adapter]);
+
   // Subscribe to ACP session updates and permission requests (Electron only)
   useEffect(() => {
     if (!adapter.acp) return;
@@ -896,9 +1260,8 @@ export function ChatProvider({ children }: ChatProviderProps) {
         return;
       }
 
-      // Check if any tools had errors - don't continue if so
-      const hasErrors = message.toolCalls?.some((tc) => tc.result?.isError);
-      if (hasErrors) {
+      // Check if any tools failed - don't continue if so (cancelled and declined calls go back to the model)
+      if (getToolTurnOutcome(message.toolCalls ?? []) === 'stop') {
         console.log('[Chat] continueAfterTools: Tool errors detected, stopping');
         return;
       }
@@ -922,8 +1285,8 @@ export function ChatProvider({ children }: ChatProviderProps) {
           if (m.role === 'system') continue;
 
           if (m.role === 'user') {
-            if (m.content.trim()) {
-              chatMessages.push({ role: 'user', content: m.content });
+            if (m.content.trim() || m.images?.length) {
+              chatMessages.push({ role: 'user', content: userApiContent(m) });
             }
           } else if (m.role === 'assistant') {
             const hasToolCalls = m.toolCalls && m.toolCalls.length > 0;
@@ -977,6 +1340,7 @@ export function ChatProvider({ children }: ChatProviderProps) {
         const mcpContext = {
           servers: state.servers.map((s) => ({ name: s.name, version: s.version })),
           availableTools: state.tools,
+          pinnedResources,
         };
 
         // Stream continuation - append to existing message
@@ -993,7 +1357,7 @@ export function ChatProvider({ children }: ChatProviderProps) {
             maxTurns: 1, // Single turn per continuation call
           },
         })) {
-          handleStreamEvent(event, messageId, newToolCalls, dispatch);
+          handleStreamEvent(event, messageId, newToolCalls, state.tools, dispatch);
         }
 
         // Finalize - append new tool calls to existing ones
@@ -1026,7 +1390,7 @@ export function ChatProvider({ children }: ChatProviderProps) {
         dispatch({ type: 'SET_STREAMING_MESSAGE', id: null });
       }
     },
-    [state.isProcessing, state.messages, state.servers, state.tools, state.sessionId, state.currentTurn, adapter]
+    [state.isProcessing, state.messages, state.servers, state.tools, state.sessionId, state.currentTurn, adapter, pinnedResources]
   );
 
   // Keyboard shortcut: Cmd/Ctrl+K to toggle
@@ -1073,13 +1437,12 @@ export function ChatProvider({ children }: ChatProviderProps) {
       return;
     }
 
-    // Check if all tool calls are completed (have results)
-    const allCompleted = lastAssistantMsg.toolCalls.every((tc) => tc.status === 'completed' && tc.result);
-    if (!allCompleted) return;
+    // Wait until every call has a result; cancelled and declined calls count as answered
+    const outcome = getToolTurnOutcome(lastAssistantMsg.toolCalls);
+    if (outcome === 'running') return;
 
     // Check for errors - don't continue if any tool failed
-    const hasErrors = lastAssistantMsg.toolCalls.some((tc) => tc.result?.isError);
-    if (hasErrors) {
+    if (outcome === 'stop') {
       console.log('[Chat] Auto-continue: Stopping due to tool errors');
       return;
     }
@@ -1109,8 +1472,9 @@ export function ChatProvider({ children }: ChatProviderProps) {
         const servers: ServerInfo[] = serverData.map((s) => ({
           name: s.name,
           version: s.version,
-          status: 'connected' as const,
+          status: s.status === 'sleeping' ? 'sleeping' : 'connected',
           toolCount: s.toolCount,
+          transport: s.transport,
         }));
         dispatch({ type: 'SET_SERVERS', servers });
 
@@ -1141,6 +1505,10 @@ export function ChatProvider({ children }: ChatProviderProps) {
         fetchMcpContext();
       }
 
+      if (event.type === 'tool_progress') {
+        dispatch({ type: 'TOOL_PROGRESS', payload: event.data });
+      }
+
       // Handle lifecycle events for individual server status updates
       if (event.type === 'server_status_changed') {
         const { serverName, newStatus } = event.payload;
@@ -1212,6 +1580,7 @@ export function ChatProvider({ children }: ChatProviderProps) {
     closeDrawer,
     setInput,
     sendMessage,
+    runPrompt,
     addMessage,
     updateMessage,
     appendStream,
@@ -1220,11 +1589,17 @@ export function ChatProvider({ children }: ChatProviderProps) {
     clearMessages,
     newSession,
     continueAfterTools,
+    resumeConversation,
+    historyRevision,
+    importConversation,
     setBackend,
     cancelAcpTurn,
     respondAcpPermission,
     setAcpMode,
     setAcpConfigOption,
+    respondSampling,
+    respondElicitation,
+    cancelElicitationWait,
   };
 
   return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>;
@@ -1238,6 +1613,7 @@ function handleStreamEvent(
   event: StreamEvent,
   messageId: string,
   toolCalls: ChatToolCall[],
+  tools: McpTool[],
   dispatch: Dispatch<ChatAction>
 ): void {
   switch (event.type) {
@@ -1255,6 +1631,8 @@ function handleStreamEvent(
           serverName: event.toolCall.serverName || 'default',
           arguments: event.toolCall.arguments || {},
           status: 'pending',
+          // Tool approval and the badges go by these
+          annotations: tools.find((t) => t.name === event.toolCall!.name)?.annotations,
         });
       }
       break;
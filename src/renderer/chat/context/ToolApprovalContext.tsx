@@ -0,0 +1,119 @@
+/**
+ * Tool Approval Context
+ *
+ * Which tool calls wait for the user before running. In the desktop app
+ * the decision follows the saved approval settings (trusted servers and
+ * "always allow" tools and servers, see shared/tool-approval). Without
+ * that backend (web mode) annotations are taken at face value, as the web
+ * chat does: only tools classed as dangerous wait.
+ */
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { useCommunication } from '../../hooks/useCommunication';
+import {
+  DEFAULT_TOOL_APPROVAL_SETTINGS,
+  getApprovalReason,
+  toggleEntry,
+  type ToolApprovalSettings,
+  type ToolApprovalSubject,
+} from '../../../shared/tool-approval';
+import { getWarningReason, requiresConfirmation } from '../../../shared/tool-annotations';
+import { isThemeTool } from '../../shared/themes';
+
+interface ToolApprovalContextValue {
+  /** False until the saved settings have loaded; nothing runs before then */
+  ready: boolean;
+  /** False when settings can't be saved (web mode) */
+  supported: boolean;
+  settings: ToolApprovalSettings;
+  /** Why the call must be approved first, or null if it can run now */
+  approvalReason: (tool: ToolApprovalSubject) => string | null;
+  update: (settings: Partial<ToolApprovalSettings>) => Promise<void>;
+  allowTool: (qualifiedName: string) => Promise<void>;
+  allowServer: (serverName: string) => Promise<void>;
+}
+
+const ToolApprovalContext = createContext<ToolApprovalContextValue | null>(null);
+
+export function ToolApprovalProvider({ children }: { children: ReactNode }) {
+  const adapter = useCommunication();
+  const supported = !!adapter.toolApproval;
+  const [settings, setSettings] = useState<ToolApprovalSettings>(DEFAULT_TOOL_APPROVAL_SETTINGS);
+  const [ready, setReady] = useState(!supported);
+  // Saves run one at a time, each building on the settings the previous one
+  // returned, so quick "always allow" clicks don't drop each other
+  const latest = useRef(settings);
+  const saving = useRef<Promise<unknown>>(Promise.resolve());
+
+  const applySettings = useCallback((next: ToolApprovalSettings) => {
+    latest.current = next;
+    setSettings(next);
+  }, []);
+
+  useEffect(() => {
+    if (!adapter.toolApproval) return;
+    adapter.toolApproval
+      .get()
+      .then(applySettings)
+      .catch((err) => console.error('[ToolApproval] Failed to load settings:', err))
+      .finally(() => setReady(true));
+  }, [adapter, applySettings]);
+
+  const approvalReason = useCallback(
+    (tool: ToolApprovalSubject): string | null => {
+      // Theme tools only restyle the app
+      if (isThemeTool(tool.qualifiedName)) return null;
+      if (!supported) {
+        return requiresConfirmation(tool) ? getWarningReason(tool) : null;
+      }
+      return getApprovalReason(tool, settings);
+    },
+    [supported, settings]
+  );
+
+  const save = useCallback(
+    (changes: (current: ToolApprovalSettings) => Partial<ToolApprovalSettings>): Promise<void> => {
+      const run = saving.current.then(async () => {
+        if (!adapter.toolApproval) return;
+        applySettings(await adapter.toolApproval.set(changes(latest.current)));
+      });
+      saving.current = run.catch(() => {});
+      return run;
+    },
+    [adapter, applySettings]
+  );
+
+  const update = useCallback((changes: Partial<ToolApprovalSettings>) => save(() => changes), [save]);
+
+  const allowTool = useCallback(
+    (qualifiedName: string) =>
+      save((current) => ({ allowedTools: toggleEntry(current.allowedTools, qualifiedName, true) })),
+    [save]
+  );
+
+  const allowServer = useCallback(
+    (serverName: string) =>
+      save((current) => ({ allowedServers: toggleEntry(current.allowedServers, serverName, true) })),
+    [save]
+  );
+
+  const value: ToolApprovalContextValue = {
+    ready,
+    supported,
+    settings,
+    approvalReason,
+    update,
+    allowTool,
+    allowServer,
+  };
+
+  return <ToolApprovalContext.Provider value={value}>{children}</ToolApprovalContext.Provider>;
+}
+
+export function useToolApproval(): ToolApprovalContextValue {
+  const context = useContext(ToolApprovalContext);
+  if (!context) {
+    throw new Error('useToolApproval must be used within a ToolApprovalProvider');
+  }
+  return context;
+}
@@ -5,6 +5,8 @@
  * Routes theme tools to client-side execution via useThemeTools.
  * Routes MCP tools via communication adapter (IPC in Electron, HTTP in web).
  * Loads MCP Apps for tools with UI resources.
+ * A turn's tool calls run in parallel, at most MAX_PARALLEL_TOOL_CALLS at
+ * a time. In Electron an MCP call can be cancelled while it runs.
  */
 
 import { useCallback } from 'react';
@@ -25,6 +27,12 @@ declare global {
   }
 }
 
+/** How many of one turn's tool calls may run at the same time */
+export const MAX_PARALLEL_TOOL_CALLS = 4;
+
+/** Sent to the model as the result of a call the user cancelled */
+const CANCELLED_RESULT = 'The user cancelled this tool call before it finished';
+
 export interface ToolExecutionResult {
   success: boolean;
   content: unknown;
@@ -65,7 +73,9 @@ export function useToolExecution() {
           };
         } else {
           // Execute MCP tools via communication adapter (IPC in Electron, HTTP in web)
-          const data = await adapter.callTool(toolCall.qualifiedName, toolCall.arguments);
+          const data = await adapter.callTool(toolCall.qualifiedName, toolCall.arguments, {
+            callId: toolCall.id,
+          });
           result = {
             success: true,
             content: data.content ?? data,
@@ -119,19 +129,49 @@ export function useToolExecution() {
     [updateToolCall, executeThemeTool, getToolInfo]
   );
 
+  /** Whether an MCP tool call can be cancelled while it runs */
+  const canCancel = useCallback(
+    (toolCall: ChatToolCall) => !!adapter.cancelToolCall && !isThemeTool(toolCall.qualifiedName),
+    [adapter]
+  );
+
+  /**
+   * Cancel a running tool call. The call is settled right away (later
+   * updates are ignored, see UPDATE_TOOL_CALL) so the model gets a result
+   * for it; the server is told to stop through notifications/cancelled.
+   */
+  const cancelTool = useCallback(
+    async (messageId: string, toolCall: ChatToolCall): Promise<void> => {
+      updateToolCall(messageId, toolCall.id, {
+        status: 'cancelled',
+        result: { content: CANCELLED_RESULT, isError: true },
+      });
+      try {
+        await adapter.cancelToolCall?.(toolCall.id);
+      } catch (err) {
+        console.error('[Chat] Failed to cancel tool call:', err);
+      }
+    },
+    [updateToolCall, adapter]
+  );
+
   /**
-   * Execute all pending tool calls in a message
+   * Execute all pending tool calls in a message, up to
+   * MAX_PARALLEL_TOOL_CALLS at once. Results keep the calls' order.
    */
   const executeAllTools = useCallback(
     async (messageId: string, toolCalls: ChatToolCall[]): Promise<ToolExecutionResult[]> => {
-      const results: ToolExecutionResult[] = [];
-
-      for (const toolCall of toolCalls) {
-        if (toolCall.status === 'pending') {
-          const result = await executeTool(messageId, toolCall);
-          results.push(result);
+      const pending = toolCalls.filter((toolCall) => toolCall.status === 'pending');
+      const results: ToolExecutionResult[] = new Array(pending.length);
+      let next = 0;
+
+      const worker = async () => {
+        while (next < pending.length) {
+          const index = next++;
+          results[index] = await executeTool(messageId, pending[index]);
         }
-      }
+      };
+      await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_TOOL_CALLS, pending.length) }, worker));
 
       return results;
     },
@@ -141,5 +181,7 @@ export function useToolExecution() {
   return {
     executeTool,
     executeAllTools,
+    canCancel,
+    cancelTool,
   };
 }
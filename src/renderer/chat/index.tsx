@@ -9,7 +9,9 @@ import { StrictMode, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
 import { ChatProvider, useChat } from './context/ChatContext';
 import { ThemeProvider } from './context/ThemeContext';
+import { ToolApprovalProvider } from './context/ToolApprovalContext';
 import { SettingsProvider } from '../settings';
+import { ResourceWatchProvider } from '../resources';
 import { ChatDrawer } from './components/ChatDrawer';
 import './main.css';
 
@@ -34,9 +36,13 @@ function App() {
     <StrictMode>
       <ThemeProvider>
         <SettingsProvider>
-          <ChatProvider>
-            <ChatBridge />
-          </ChatProvider>
+          <ResourceWatchProvider>
+            <ToolApprovalProvider>
+              <ChatProvider>
+                <ChatBridge />
+              </ChatProvider>
+            </ToolApprovalProvider>
+          </ResourceWatchProvider>
         </SettingsProvider>
       </ThemeProvider>
     </StrictMode>
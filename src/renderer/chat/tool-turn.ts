@@ -0,0 +1,21 @@
+/**
+ * Tool Turn Outcome
+ *
+ * Decides what happens once the model's tool calls for a turn have run.
+ * Every call with a result goes back to the model, including ones the user
+ * cancelled or declined: that is an answer the model should hear, so the
+ * turn continues. A tool that failed on its own ends the turn instead.
+ */
+
+import type { ChatToolCall } from './types';
+
+/** `running` until every call has settled with a result */
+export type ToolTurnOutcome = 'running' | 'continue' | 'stop';
+
+export function getToolTurnOutcome(toolCalls: ChatToolCall[]): ToolTurnOutcome {
+  const settled = toolCalls.every(
+    (tc) => tc.result && (tc.status === 'completed' || tc.status === 'failed' || tc.status === 'cancelled')
+  );
+  if (!settled) return 'running';
+  return toolCalls.some((tc) => tc.status !== 'cancelled' && tc.result?.isError) ? 'stop' : 'continue';
+}
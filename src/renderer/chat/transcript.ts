@@ -0,0 +1,511 @@
+/**
+ * Conversation Transcripts
+ *
+ * Export a chat session as Markdown (tool calls and results in collapsible
+ * <details> blocks, for pasting into tickets), as a self-contained HTML page
+ * styled with the active theme's variables, or as lossless JSON that can be
+ * imported again and resumed. Importing rebuilds each ChatToolCall, ACP
+ * ones from their full tool-call view so diffs still render, and keeps the
+ * plan recorded on each ACP turn.
+ */
+
+import type { ChatBackend, ChatMessage, ChatToolCall } from './types';
+import type { AcpPlanEntryView, AcpToolCallContentView, AcpToolCallView } from '../../shared/acp-types';
+import { computeLineDiff, DIFF_PREFIX } from '../../shared/line-diff';
+
+export const TRANSCRIPT_FORMAT = 'skilljack-conversation';
+export const TRANSCRIPT_VERSION = 1;
+
+export interface TranscriptConversation {
+  id: string;
+  title: string;
+  backend: ChatBackend;
+  messages: ChatMessage[];
+}
+
+/** The JSON export; `messages` are ChatMessage objects exactly as the chat holds them */
+export interface TranscriptDocument {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: TranscriptConversation;
+}
+
+export type TranscriptFormat = 'markdown' | 'json' | 'html';
+
+const FILE_EXTENSION: Record<TranscriptFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+export const TRANSCRIPT_MIME_TYPE: Record<TranscriptFormat, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+/** Same rule as the conversation store: ids double as file names */
+const ID_PATTERN = /^[\w-]+$/;
+const TITLE_LENGTH = 60;
+
+const ROLE_LABEL: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+const PLAN_ICON: Record<AcpPlanEntryView['status'], string> = {
+  pending: '○',
+  in_progress: '◐',
+  completed: '●',
+};
+
+// ============================================
+// Tool call state
+// ============================================
+
+/** ACP statuses map so they never hit 'pending' — ToolExecutor must not auto-run them */
+export function mapAcpToolStatus(status: AcpToolCallView['status']): ChatToolCall['status'] {
+  switch (status) {
+    case 'completed':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'executing';
+  }
+}
+
+export function acpToolCallToChat(view: AcpToolCallView, agentName: string): ChatToolCall {
+  return {
+    id: view.toolCallId,
+    qualifiedName: view.title || view.kind,
+    displayName: view.title || view.kind,
+    serverName: agentName,
+    arguments:
+      view.rawInput && typeof view.rawInput === 'object'
+        ? (view.rawInput as Record<string, unknown>)
+        : {},
+    status: mapAcpToolStatus(view.status),
+    acp: view,
+  };
+}
+
+/**
+ * Saved messages as they should come back: nothing still streaming, and
+ * tool calls that never finished marked failed so they don't run again.
+ */
+export function restoreMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    ...(message.isStreaming ? { isStreaming: false } : {}),
+    toolCalls: message.toolCalls?.map((tc) =>
+      tc.status === 'pending' || tc.status === 'executing'
+        ? {
+            ...tc,
+            status: 'failed' as const,
+            result: { content: [{ type: 'text', text: 'Interrupted before it finished' }], isError: true },
+          }
+        : tc
+    ),
+  }));
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Title for a session that has none: its first user message, shortened.
+ */
+export function transcriptTitle(messages: ChatMessage[]): string {
+  const first = messages.find((m) => m.role === 'user' && m.content.trim());
+  const text = first ? first.content.trim().replace(/\s+/g, ' ') : '';
+  if (!text) return 'New conversation';
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+}
+
+export function transcriptFileName(conversation: TranscriptConversation, format: TranscriptFormat): string {
+  const slug = conversation.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return `${slug || 'conversation'}.${FILE_EXTENSION[format]}`;
+}
+
+export function exportTranscript(
+  conversation: TranscriptConversation,
+  format: TranscriptFormat,
+  themeVariables: Record<string, string> = {}
+): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(conversation);
+    case 'json':
+      return toJson(conversation);
+    case 'html':
+      return toHtml(conversation, themeVariables);
+  }
+}
+
+export function toJson(conversation: TranscriptConversation): string {
+  const document: TranscriptDocument = {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation,
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+export function toMarkdown(conversation: TranscriptConversation): string {
+  const parts = [
+    `# ${conversation.title}`,
+    `_Exported from Skilljack on ${formatTime(new Date().toISOString())} · ${describeBackend(conversation.backend)}_`,
+  ];
+
+  for (const message of conversation.messages) {
+    parts.push('---', `**${ROLE_LABEL[message.role]}** · ${formatTime(message.timestamp)}`);
+    if (message.thoughtContent) {
+      parts.push(details('Thinking', [message.thoughtContent]));
+    }
+    if (message.content) {
+      parts.push(message.content);
+    }
+    message.images?.forEach((image) => parts.push(`_[image: ${image.mimeType}]_`));
+    if (message.error) {
+      parts.push(`> **Error:** ${message.error}`);
+    }
+    message.toolCalls?.forEach((tc) => parts.push(toolCallMarkdown(tc)));
+    if (message.plan?.length) {
+      parts.push(
+        '**Plan**',
+        message.plan
+          .map((entry) => `- [${entry.status === 'completed' ? 'x' : ' '}] ${entry.content}${entry.status === 'in_progress' ? ' _(in progress)_' : ''}`)
+          .join('\n')
+      );
+    }
+  }
+
+  return parts.join('\n\n') + '\n';
+}
+
+function toolCallMarkdown(tc: ChatToolCall): string {
+  const body: string[] = [];
+  if (Object.keys(tc.arguments).length > 0) {
+    body.push('**Arguments**', fence(JSON.stringify(tc.arguments, null, 2), 'json'));
+  }
+  for (const block of tc.acp?.contentBlocks ?? []) {
+    body.push(acpContentMarkdown(block));
+  }
+  const result = toolResultText(tc);
+  if (result) {
+    body.push(tc.result?.isError ? '**Error**' : '**Result**', fence(result));
+  }
+  return details(`${tc.serverName} · ${tc.displayName} (${tc.status})`, body);
+}
+
+function acpContentMarkdown(block: AcpToolCallContentView): string {
+  switch (block.type) {
+    case 'diff':
+      return `\`${block.path}\`\n\n${fence(diffText(block.oldText ?? null, block.newText), 'diff')}`;
+    case 'terminal':
+      return '_Terminal output is not included in exports._';
+    default:
+      return fence(contentBlockText(block.block));
+  }
+}
+
+function details(summary: string, body: string[]): string {
+  return `<details>\n<summary>${escapeHtml(summary)}</summary>\n\n${body.join('\n\n')}\n\n</details>`;
+}
+
+/** A code fence longer than any run of backticks in the text */
+function fence(text: string, lang = ''): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marks = '`'.repeat(Math.max(3, longest + 1));
+  return `${marks}${lang}\n${text}\n${marks}`;
+}
+
+export function toHtml(conversation: TranscriptConversation, themeVariables: Record<string, string>): string {
+  const variables = Object.entries(themeVariables)
+    .filter(([name, value]) => /^--[\w-]+$/.test(name) && !/[<>{}]/.test(value))
+    .map(([name, value]) => `  ${name}: ${value};`)
+    .join('\n');
+
+  const messages = conversation.messages.map((message) => {
+    const parts = [
+      `<div class="role">${ROLE_LABEL[message.role]} <time>${escapeHtml(formatTime(message.timestamp))}</time></div>`,
+    ];
+    if (message.thoughtContent) {
+      parts.push(`<details class="thought"><summary>Thinking</summary><pre>${escapeHtml(message.thoughtContent)}</pre></details>`);
+    }
+    if (message.content) {
+      parts.push(`<div class="content">${escapeHtml(message.content)}</div>`);
+    }
+    message.images?.forEach((image, index) => {
+      parts.push(`<img src="data:${escapeHtml(image.mimeType)};base64,${escapeHtml(image.data)}" alt="Attached image ${index + 1}">`);
+    });
+    if (message.error) {
+      parts.push(`<div class="error">Error: ${escapeHtml(message.error)}</div>`);
+    }
+    message.toolCalls?.forEach((tc) => parts.push(toolCallHtml(tc)));
+    if (message.plan?.length) {
+      const entries = message.plan
+        .map((entry) => `<li data-status="${entry.status}">${PLAN_ICON[entry.status]} ${escapeHtml(entry.content)}</li>`)
+        .join('');
+      parts.push(`<div class="plan"><div class="label">Plan</div><ul>${entries}</ul></div>`);
+    }
+    return `<section class="message" data-role="${message.role}">\n${parts.join('\n')}\n</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conversation.title)}</title>
+<style>
+:root {
+${variables}
+}
+${HTML_STYLES}
+</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">Exported from Skilljack on ${escapeHtml(formatTime(new Date().toISOString()))} · ${escapeHtml(describeBackend(conversation.backend))}</p>
+</header>
+${messages.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+function toolCallHtml(tc: ChatToolCall): string {
+  const body: string[] = [];
+  if (Object.keys(tc.arguments).length > 0) {
+    body.push(`<div class="label">Arguments</div><pre>${escapeHtml(JSON.stringify(tc.arguments, null, 2))}</pre>`);
+  }
+  for (const block of tc.acp?.contentBlocks ?? []) {
+    if (block.type === 'diff') {
+      const lines = computeLineDiff(block.oldText ?? null, block.newText)
+        .map((line) => `<span class="${line.kind}">${escapeHtml(DIFF_PREFIX[line.kind] + line.text)}</span>`)
+        .join('\n');
+      body.push(`<div class="label">${escapeHtml(block.path)}</div><pre class="diff">${lines}</pre>`);
+    } else if (block.type === 'content') {
+      body.push(`<pre>${escapeHtml(contentBlockText(block.block))}</pre>`);
+    }
+  }
+  const result = toolResultText(tc);
+  if (result) {
+    body.push(`<div class="label">${tc.result?.isError ? 'Error' : 'Result'}</div><pre>${escapeHtml(result)}</pre>`);
+  }
+  return `<details class="tool" data-status="${tc.status}"><summary>${escapeHtml(`${tc.serverName} · ${tc.displayName}`)} <span class="status">${tc.status}</span></summary>\n${body.join('\n')}\n</details>`;
+}
+
+const HTML_STYLES = `body {
+  margin: 0;
+  background: var(--bg-primary, #1e1e1e);
+  color: var(--text-primary, #d4d4d4);
+  font-family: var(--font-family, monospace);
+  font-size: var(--font-size-base, 0.9375rem);
+}
+main { max-width: 60rem; margin: 0 auto; padding: 1.5rem; }
+h1 { color: var(--accent, #569cd6); font-size: 1.25rem; margin: 0; }
+.meta, time, .status { color: var(--text-muted, #808080); font-size: 0.8em; }
+.message { border-top: 1px solid var(--border, #3c3c3c); padding: 0.75rem 0; }
+.role { font-weight: 600; margin-bottom: 0.25rem; }
+.message[data-role='user'] .role { color: var(--accent, #569cd6); }
+.content { white-space: pre-wrap; overflow-wrap: anywhere; }
+.error { color: var(--error, #f14c4c); }
+img { max-width: 100%; max-height: 20rem; margin-top: 0.5rem; }
+details {
+  background: var(--bg-secondary, #252526);
+  border: 1px solid var(--border, #3c3c3c);
+  border-radius: var(--radius-md, 4px);
+  margin-top: 0.5rem;
+  padding: 0.25rem 0.5rem;
+}
+summary { cursor: pointer; }
+.tool[data-status='failed'] summary, .tool[data-status='cancelled'] summary { color: var(--error, #f14c4c); }
+.label { color: var(--text-secondary, #cccccc); font-size: 0.8em; margin-top: 0.5rem; }
+pre { white-space: pre-wrap; overflow-wrap: anywhere; font-family: var(--font-mono, monospace); margin: 0.25rem 0; }
+.diff .added { color: var(--success, #6a9955); }
+.diff .removed { color: var(--error, #f14c4c); }
+.plan ul { list-style: none; margin: 0.25rem 0; padding: 0; }
+.plan li[data-status='completed'] { color: var(--text-muted, #808080); }`;
+
+// ============================================
+// Import
+// ============================================
+
+/**
+ * Reads a JSON export back into a conversation that can be resumed.
+ *
+ * @throws Error describing why the file can't be imported
+ */
+export function importTranscript(text: string): TranscriptConversation {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (!isRecord(document) || document.format !== TRANSCRIPT_FORMAT) {
+    throw new Error('Not a Skilljack conversation export');
+  }
+  if (typeof document.version !== 'number' || document.version > TRANSCRIPT_VERSION) {
+    throw new Error(`Unsupported export version: ${String(document.version)}`);
+  }
+
+  const conversation = document.conversation;
+  if (
+    !isRecord(conversation) ||
+    typeof conversation.id !== 'string' ||
+    !ID_PATTERN.test(conversation.id) ||
+    !isBackend(conversation.backend) ||
+    !Array.isArray(conversation.messages)
+  ) {
+    throw new Error('The export is missing its conversation id, backend or messages');
+  }
+
+  const messages = restoreMessages(conversation.messages.map(rebuildMessage));
+  return {
+    id: conversation.id,
+    title: typeof conversation.title === 'string' && conversation.title ? conversation.title : transcriptTitle(messages),
+    backend: conversation.backend,
+    messages,
+  };
+}
+
+/**
+ * Reads a JSON export in as a new session under `id`. The export's own id
+ * is dropped: the session it came from may still be in history, and saving
+ * the import under that id would overwrite it.
+ *
+ * @throws Error describing why the file can't be imported
+ */
+export function importTranscriptAsNew(text: string, id: string): TranscriptConversation {
+  return { ...importTranscript(text), id };
+}
+
+function rebuildMessage(value: unknown, index: number): ChatMessage {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    !(value.role === 'user' || value.role === 'assistant' || value.role === 'system') ||
+    typeof value.content !== 'string' ||
+    typeof value.timestamp !== 'string'
+  ) {
+    throw new Error(`Message ${index + 1} is malformed`);
+  }
+  const message = value as unknown as ChatMessage;
+  const toolCalls = Array.isArray(value.toolCalls)
+    ? value.toolCalls.map((tc, i) => rebuildToolCall(tc, index, i))
+    : undefined;
+  return { ...message, toolCalls };
+}
+
+function rebuildToolCall(value: unknown, messageIndex: number, index: number): ChatToolCall {
+  const where = `Tool call ${index + 1} of message ${messageIndex + 1}`;
+  if (!isRecord(value) || typeof value.id !== 'string') {
+    throw new Error(`${where} is malformed`);
+  }
+  const saved = value as Partial<ChatToolCall>;
+
+  if (isRecord(value.acp)) {
+    const view = value.acp as unknown as AcpToolCallView;
+    if (typeof view.toolCallId !== 'string' || !Array.isArray(view.contentBlocks)) {
+      throw new Error(`${where} has a malformed agent tool call`);
+    }
+    const rebuilt = acpToolCallToChat(
+      { ...view, locations: Array.isArray(view.locations) ? view.locations : [] },
+      typeof saved.serverName === 'string' ? saved.serverName : 'agent'
+    );
+    return saved.result ? { ...rebuilt, result: saved.result } : rebuilt;
+  }
+
+  if (typeof saved.qualifiedName !== 'string') {
+    throw new Error(`${where} has no tool name`);
+  }
+  const [server, ...rest] = saved.qualifiedName.split('__');
+  return {
+    ...saved,
+    id: value.id,
+    qualifiedName: saved.qualifiedName,
+    displayName: typeof saved.displayName === 'string' ? saved.displayName : rest.join('__') || server,
+    serverName: typeof saved.serverName === 'string' ? saved.serverName : server,
+    arguments: isRecord(saved.arguments) ? saved.arguments : {},
+    status: saved.status && ['pending', 'executing', 'completed', 'failed', 'cancelled'].includes(saved.status) ? saved.status : 'failed',
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isBackend(value: unknown): value is ChatBackend {
+  if (!isRecord(value)) return false;
+  if (value.kind === 'ai-sdk') return value.role === 'doer' || value.role === 'dreamer';
+  return value.kind === 'acp' && typeof value.agentId === 'string' && typeof value.agentName === 'string';
+}
+
+function describeBackend(backend: ChatBackend): string {
+  if (backend.kind === 'acp') return backend.agentName;
+  return backend.role === 'doer' ? 'Doer' : 'Dreamer';
+}
+
+function formatTime(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+function diffText(oldText: string | null, newText: string): string {
+  return computeLineDiff(oldText, newText)
+    .map((line) => DIFF_PREFIX[line.kind] + line.text)
+    .join('\n');
+}
+
+function contentBlockText(block: { type: string; text?: string; uri?: string; name?: string }): string {
+  if (block.text != null) return block.text;
+  if (block.uri) return `[${block.type} ${block.uri}]`;
+  return `[${block.type}]`;
+}
+
+/** A tool result as plain text: text blocks as they are, other content noted */
+function toolResultText(tc: ChatToolCall): string {
+  const content = tc.result?.content ?? tc.acp?.rawOutput;
+  if (content == null) return '';
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return JSON.stringify(content, null, 2);
+  return content
+    .map((block) => {
+      if (!isRecord(block)) return JSON.stringify(block);
+      if (block.type === 'text' && typeof block.text === 'string') return block.text;
+      if (block.type === 'resource' && isRecord(block.resource)) {
+        const resource = block.resource;
+        return typeof resource.text === 'string' ? resource.text : `[resource ${String(resource.uri)}]`;
+      }
+      if (block.type === 'resource_link') return `[resource link ${String(block.uri)}]`;
+      if (typeof block.mimeType === 'string') return `[${String(block.type)} (${block.mimeType})]`;
+      return JSON.stringify(block, null, 2);
+    })
+    .join('\n\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
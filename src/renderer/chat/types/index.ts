@@ -13,6 +13,10 @@ import type {
   AcpToolCallView,
   AcpUiEvent,
 } from '../../../shared/acp-types';
+import type { SamplingApprovalRequestPayload, SamplingProgressPayload } from '../../../shared/sampling-types';
+import type { ElicitationRequestPayload } from '../../../shared/elicitation-types';
+import type { SavedAcpSession } from '../../../shared/conversation-types';
+import type { MessageImage, PinnedResource, ToolProgressPayload } from '../../../shared/types';
 
 // ============================================
 // Chat Backend
@@ -64,6 +68,10 @@ export interface ChatMessage {
   backend?: 'acp';
   /** Accumulated agent thinking (ACP agent_thought_chunk) */
   thoughtContent?: string;
+  /** Images a server prompt attached; only user messages send them to the model */
+  images?: MessageImage[];
+  /** The ACP agent's plan as it stood at the end of this turn */
+  plan?: AcpPlanEntryView[];
 }
 
 export interface ChatToolCall {
@@ -72,8 +80,10 @@ export interface ChatToolCall {
   displayName: string;       // "tool" - for UI display
   serverName: string;        // "server" - for badges
   arguments: Record<string, unknown>;
-  status: 'pending' | 'executing' | 'completed' | 'failed';
+  status: 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled';
   result?: ToolCallResult;
+  /** Latest progress the server reported while the call ran */
+  progress?: ToolCallProgress;
   annotations?: {            // Tool behavior annotations
     readOnlyHint?: boolean;
     destructiveHint?: boolean;
@@ -84,6 +94,13 @@ export interface ChatToolCall {
   acp?: AcpToolCallView;
 }
 
+export interface ToolCallProgress {
+  progress: number;
+  /** Unknown when the server can't tell how much work there is */
+  total?: number;
+  message?: string;
+}
+
 export interface ToolCallResult {
   content: unknown;
   isError?: boolean;
@@ -104,7 +121,8 @@ export type ServerStatus =
   | 'unhealthy'
   | 'restarting'
   | 'failed'
-  | 'stopped';
+  | 'stopped'
+  | 'sleeping';
 
 export interface ServerInfo {
   name: string;
@@ -122,6 +140,8 @@ export interface ServerInfo {
   maxRestartAttempts?: number;
   /** Last error message (when failed/unhealthy) */
   lastError?: string;
+  /** Transport in use (maps to ConnectionTransport) */
+  transport?: 'stdio' | 'streamable-http' | 'sse' | 'websocket' | 'in-process';
 }
 
 export interface McpTool {
@@ -143,6 +163,8 @@ export interface McpTool {
 export interface McpContext {
   servers: ServerInfo[];
   availableTools: McpTool[];
+  /** Latest content of resources pinned in the Resources panel */
+  pinnedResources?: PinnedResource[];
 }
 
 // ============================================
@@ -168,6 +190,22 @@ export interface ChatState {
   backend: ChatBackend;
   /** Live ACP session (null until first prompt on an ACP backend) */
   acpSession: AcpSessionState | null;
+  /** Agent session of a resumed conversation, loaded again on the next prompt */
+  savedAcpSession: SavedAcpSession | null;
+  /** Server sampling requests awaiting approval, oldest first */
+  samplingRequests: SamplingApprovalRequestPayload[];
+  /** Live output of approved sampling requests still generating */
+  samplingStreams: SamplingStream[];
+  /** Server elicitation forms awaiting an answer, oldest first */
+  elicitationRequests: ElicitationRequestPayload[];
+  /** Accepted URL-mode elicitations waiting for the server to report completion */
+  elicitationWaits: ElicitationRequestPayload[];
+}
+
+export interface SamplingStream {
+  streamId: string;
+  serverName: string;
+  text: string;
 }
 
 export type ChatAction =
@@ -182,6 +220,7 @@ export type ChatAction =
   | { type: 'APPEND_STREAM'; id: string; content: string }
   | { type: 'APPEND_TOOL_CALLS'; messageId: string; toolCalls: ChatToolCall[] }
   | { type: 'UPDATE_TOOL_CALL'; messageId: string; toolCallId: string; updates: Partial<ChatToolCall> }
+  | { type: 'TOOL_PROGRESS'; payload: ToolProgressPayload }
   | { type: 'SET_PROCESSING'; isProcessing: boolean }
   | { type: 'SET_STREAMING_MESSAGE'; id: string | null }
   | { type: 'SET_SERVERS'; servers: ServerInfo[] }
@@ -191,6 +230,14 @@ export type ChatAction =
   | { type: 'SET_ERROR'; error: string | null }
   | { type: 'CLEAR_MESSAGES' }
   | { type: 'NEW_SESSION' }
+  /** Replace the conversation with a saved one */
+  | {
+      type: 'LOAD_SESSION';
+      sessionId: string;
+      backend: ChatBackend;
+      messages: ChatMessage[];
+      savedAcpSession?: SavedAcpSession;
+    }
   | { type: 'INCREMENT_TURN' }
   | { type: 'RESET_TURN' }
   // ACP actions
@@ -199,7 +246,15 @@ export type ChatAction =
   | { type: 'ACP_SESSION_ENDED' }
   | { type: 'ACP_EVENT'; sessionId: string; event: AcpUiEvent }
   | { type: 'ACP_PERMISSION_REQUEST'; payload: AcpPermissionRequestPayload }
-  | { type: 'ACP_PERMISSION_CLEARED'; requestId: string };
+  | { type: 'ACP_PERMISSION_CLEARED'; requestId: string }
+  // Sampling actions
+  | { type: 'SAMPLING_REQUEST'; payload: SamplingApprovalRequestPayload }
+  | { type: 'SAMPLING_RESOLVED'; requestId: string }
+  | { type: 'SAMPLING_PROGRESS'; payload: SamplingProgressPayload }
+  // Elicitation actions
+  | { type: 'ELICITATION_REQUEST'; payload: ElicitationRequestPayload }
+  | { type: 'ELICITATION_RESOLVED'; requestId: string; waiting?: boolean }
+  | { type: 'ELICITATION_WAIT_ENDED'; requestId: string };
 
 // ============================================
 // Theme Types
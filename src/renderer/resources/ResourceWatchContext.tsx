@@ -0,0 +1,164 @@
+/**
+ * Resource Watch Context
+ *
+ * Resources the user watches from the Resources panel. A watch subscribes
+ * through the server and reads the resource again on every
+ * notifications/resources/updated, keeping recent versions so the panel
+ * can diff them. Pinned watches go out with each chat request so the model
+ * sees their latest content.
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import { useCommunication } from '../hooks/useCommunication';
+import type { PinnedResource } from '../../shared/types';
+import { previewsToText, toResourcePreviews, type ResourcePreview } from '../../shared/resource-browser';
+
+/** Versions kept per watched resource */
+const MAX_VERSIONS = 20;
+
+export interface ResourceVersion {
+  previews: ResourcePreview[];
+  /** previewsToText(previews), for diffs and pinning */
+  text: string;
+  receivedAt: number;
+}
+
+export interface WatchedResource {
+  serverName: string;
+  uri: string;
+  name: string;
+  /** Oldest first */
+  versions: ResourceVersion[];
+  pinned: boolean;
+  /** Last read failed */
+  error?: string;
+}
+
+interface ResourceWatchContextValue {
+  watches: WatchedResource[];
+  /** False when the backend can't subscribe (no subscriptions adapter) */
+  supported: boolean;
+  /** Subscribe and read the first version; rejects if the server refuses */
+  watch: (serverName: string, uri: string, name: string) => Promise<void>;
+  unwatch: (serverName: string, uri: string) => Promise<void>;
+  setPinned: (serverName: string, uri: string, pinned: boolean) => void;
+  /** Latest content of every pinned watch */
+  pinnedResources: PinnedResource[];
+}
+
+const ResourceWatchContext = createContext<ResourceWatchContextValue | null>(null);
+
+function isSame(watch: WatchedResource, serverName: string, uri: string): boolean {
+  return watch.serverName === serverName && watch.uri === uri;
+}
+
+export function ResourceWatchProvider({ children }: { children: ReactNode }) {
+  const adapter = useCommunication();
+  const [watches, setWatches] = useState<WatchedResource[]>([]);
+  const watchesRef = useRef(watches);
+  watchesRef.current = watches;
+
+  const update = useCallback(
+    (serverName: string, uri: string, change: (watch: WatchedResource) => WatchedResource) => {
+      setWatches((prev) => prev.map((w) => (isSame(w, serverName, uri) ? change(w) : w)));
+    },
+    []
+  );
+
+  const read = useCallback(
+    async (serverName: string, uri: string) => {
+      try {
+        const previews = toResourcePreviews(await adapter.readResource(serverName, uri));
+        const text = previewsToText(previews);
+        update(serverName, uri, (w) => {
+          // A re-read after a reconnect often finds nothing new
+          if (w.versions.at(-1)?.text === text) return { ...w, error: undefined };
+          const versions = [...w.versions, { previews, text, receivedAt: Date.now() }].slice(-MAX_VERSIONS);
+          return { ...w, versions, error: undefined };
+        });
+      } catch (err) {
+        update(serverName, uri, (w) => ({ ...w, error: err instanceof Error ? err.message : String(err) }));
+      }
+    },
+    [adapter, update]
+  );
+
+  useEffect(() => {
+    if (!adapter.subscriptions) return;
+    return adapter.subscriptions.onUpdated(({ serverName, uri }) => {
+      if (watchesRef.current.some((w) => isSame(w, serverName, uri))) {
+        read(serverName, uri);
+      }
+    });
+  }, [adapter, read]);
+
+  const watch = useCallback(
+    async (serverName: string, uri: string, name: string) => {
+      if (!adapter.subscriptions) {
+        throw new Error('Resource subscriptions are not available');
+      }
+      if (watchesRef.current.some((w) => isSame(w, serverName, uri))) return;
+
+      await adapter.subscriptions.subscribe(serverName, uri);
+      setWatches((prev) => [...prev, { serverName, uri, name, versions: [], pinned: false }]);
+      await read(serverName, uri);
+    },
+    [adapter, read]
+  );
+
+  const unwatch = useCallback(
+    async (serverName: string, uri: string) => {
+      setWatches((prev) => prev.filter((w) => !isSame(w, serverName, uri)));
+      try {
+        await adapter.subscriptions?.unsubscribe(serverName, uri);
+      } catch (err) {
+        console.error('[ResourceWatch] Failed to unsubscribe:', err);
+      }
+    },
+    [adapter]
+  );
+
+  const setPinned = useCallback(
+    (serverName: string, uri: string, pinned: boolean) => {
+      update(serverName, uri, (w) => ({ ...w, pinned }));
+    },
+    [update]
+  );
+
+  const pinnedResources = useMemo(
+    () =>
+      watches.flatMap((w) => {
+        const latest = w.versions.at(-1);
+        return w.pinned && latest ? [{ serverName: w.serverName, uri: w.uri, name: w.name, text: latest.text }] : [];
+      }),
+    [watches]
+  );
+
+  const value: ResourceWatchContextValue = {
+    watches,
+    supported: !!adapter.subscriptions,
+    watch,
+    unwatch,
+    setPinned,
+    pinnedResources,
+  };
+
+  return <ResourceWatchContext.Provider value={value}>{children}</ResourceWatchContext.Provider>;
+}
+
+export function useResourceWatch(): ResourceWatchContextValue {
+  const context = useContext(ResourceWatchContext);
+  if (!context) {
+    throw new Error('useResourceWatch must be used within a ResourceWatchProvider');
+  }
+  return context;
+}
@@ -0,0 +1,428 @@
+/**
+ * Resources Dialog Component
+ *
+ * Browse each server's resources and resource templates. Picking a
+ * template shows a field per variable with the server's completion
+ * suggestions (completion/complete), and reading shows the result as
+ * text, formatted JSON, an image, or a file to download. Anything read can
+ * be watched (see ResourceWatchContext): watched resources show what
+ * changed in the last update and can be pinned into the chat.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { useCommunication } from '../hooks/useCommunication';
+import { useResourceWatch, type WatchedResource } from './ResourceWatchContext';
+import { DiffLines } from '../chat/components/AcpDiffBlock';
+import type { ResourceInfo, ResourceTemplateInfo } from '../../shared/types';
+import {
+  expandTemplate,
+  templateVariables,
+  toResourcePreviews,
+  type ResourcePreview,
+} from '../../shared/resource-browser';
+
+/** Wait this long after the last keystroke before asking for suggestions */
+const COMPLETION_DELAY_MS = 200;
+
+const StackIcon = () => (
+  <svg className="icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <ellipse cx="12" cy="5" rx="9" ry="3" />
+    <path d="M3 5v14c0 1.66 4 3 9 3s9-1.34 9-3V5" />
+    <path d="M3 12c0 1.66 4 3 9 3s9-1.34 9-3" />
+  </svg>
+);
+
+const CloseIcon = () => (
+  <svg className="icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <line x1="18" y1="6" x2="6" y2="18" />
+    <line x1="6" y1="6" x2="18" y2="18" />
+  </svg>
+);
+
+type Selection =
+  | { type: 'resource'; resource: ResourceInfo }
+  | { type: 'template'; template: ResourceTemplateInfo }
+  | { type: 'watched'; serverName: string; uri: string };
+
+/** What the previews on screen were read from */
+interface ReadTarget {
+  serverName: string;
+  uri: string;
+  name: string;
+}
+
+interface ServerGroup {
+  serverName: string;
+  resources: ResourceInfo[];
+  templates: ResourceTemplateInfo[];
+}
+
+function groupByServer(resources: ResourceInfo[], templates: ResourceTemplateInfo[]): ServerGroup[] {
+  const groups = new Map<string, ServerGroup>();
+  const group = (serverName: string) => {
+    let entry = groups.get(serverName);
+    if (!entry) {
+      entry = { serverName, resources: [], templates: [] };
+      groups.set(serverName, entry);
+    }
+    return entry;
+  };
+  resources.forEach((r) => group(r.serverName).resources.push(r));
+  templates.forEach((t) => group(t.serverName).templates.push(t));
+  return Array.from(groups.values()).sort((a, b) => a.serverName.localeCompare(b.serverName));
+}
+
+/** The URI a qualified resource was listed under (server__uri → uri) */
+function unqualified(resource: ResourceInfo): string {
+  const prefix = `${resource.serverName}__`;
+  return resource.uri.startsWith(prefix) ? resource.uri.slice(prefix.length) : resource.uri;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface TemplateFormProps {
+  template: ResourceTemplateInfo;
+  onRead: (uri: string) => void;
+}
+
+function TemplateForm({ template, onRead }: TemplateFormProps) {
+  const adapter = useCommunication();
+  const variables = templateVariables(template.originalUriTemplate);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [suggestions, setSuggestions] = useState<Record<string, string[]>>({});
+  const timers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  /** Latest request per variable, so a slow answer can't replace a newer one */
+  const requests = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => Object.values(pending).forEach(clearTimeout);
+  }, []);
+
+  const complete = useCallback(
+    (name: string, value: string, current: Record<string, string>) => {
+      clearTimeout(timers.current[name]);
+      timers.current[name] = setTimeout(async () => {
+        const request = (requests.current[name] ?? 0) + 1;
+        requests.current[name] = request;
+        const context = Object.fromEntries(
+          Object.entries(current).filter(([other, v]) => other !== name && v !== '')
+        );
+        try {
+          const result = await adapter.completeResourceArgument(
+            template.serverName,
+            template.originalUriTemplate,
+            name,
+            value,
+            context
+          );
+          if (requests.current[name] === request) {
+            setSuggestions((prev) => ({ ...prev, [name]: result.values }));
+          }
+        } catch (err) {
+          console.error('[ResourcesDialog] Completion failed:', err);
+        }
+      }, COMPLETION_DELAY_MS);
+    },
+    [adapter, template]
+  );
+
+  const update = (name: string, value: string) => {
+    const next = { ...values, [name]: value };
+    setValues(next);
+    complete(name, value, next);
+  };
+
+  const uri = expandTemplate(template.originalUriTemplate, values);
+
+  return (
+    <div className="resources-template-form">
+      {variables.map((name) => (
+        <div key={name} className="settings-field">
+          <label className="settings-label" htmlFor={`resource-var-${name}`}>
+            {name}
+          </label>
+          <input
+            id={`resource-var-${name}`}
+            className="settings-input resources-template-input"
+            list={`resource-var-${name}-suggestions`}
+            value={values[name] ?? ''}
+            onChange={(e) => update(name, e.target.value)}
+            onFocus={() => complete(name, values[name] ?? '', values)}
+            autoComplete="off"
+          />
+          <datalist id={`resource-var-${name}-suggestions`}>
+            {(suggestions[name] ?? []).map((value) => (
+              <option key={value} value={value} />
+            ))}
+          </datalist>
+        </div>
+      ))}
+      <div className="resources-template-uri" title={uri}>
+        {uri}
+      </div>
+      <button className="settings-agent-button" onClick={() => onRead(uri)}>
+        Read
+      </button>
+    </div>
+  );
+}
+
+function WatchedDetail({ watched }: { watched: WatchedResource }) {
+  const { unwatch, setPinned } = useResourceWatch();
+  const latest = watched.versions.at(-1);
+  const previous = watched.versions.at(-2);
+
+  return (
+    <>
+      <div className="settings-section-description" title={watched.uri}>
+        {watched.serverName}: {watched.uri}
+      </div>
+      <div className="resources-watch-actions">
+        <label className="settings-agent-toggle">
+          <input
+            type="checkbox"
+            checked={watched.pinned}
+            onChange={(e) => setPinned(watched.serverName, watched.uri, e.target.checked)}
+          />
+          <span>Pin to chat</span>
+        </label>
+        <button className="settings-agent-button" onClick={() => unwatch(watched.serverName, watched.uri)}>
+          Unwatch
+        </button>
+      </div>
+      {watched.error && <div className="settings-agents-error">{watched.error}</div>}
+      {latest && (
+        <div className="settings-agent-command">
+          Version {watched.versions.length}, {new Date(latest.receivedAt).toLocaleTimeString()}
+        </div>
+      )}
+      {latest && previous && (
+        <div className="acp-diff">
+          <div className="acp-diff-path">Changes since the previous version</div>
+          <DiffLines oldText={previous.text} newText={latest.text} />
+        </div>
+      )}
+      {latest?.previews.map((preview, i) => (
+        <PreviewItem key={`${preview.uri}-${i}`} preview={preview} />
+      ))}
+    </>
+  );
+}
+
+function PreviewItem({ preview }: { preview: ResourcePreview }) {
+  switch (preview.kind) {
+    case 'image':
+      return <img className="resources-preview-image" src={preview.src} alt={preview.uri} />;
+    case 'blob':
+      return (
+        <a className="settings-agent-button resources-preview-download" href={preview.src} download={preview.fileName}>
+          Download {preview.fileName} ({formatSize(preview.size)})
+        </a>
+      );
+    default:
+      return <pre className="resources-preview-text">{preview.text}</pre>;
+  }
+}
+
+export function ResourcesDialog() {
+  const adapter = useCommunication();
+  const { watches, supported: canWatch, watch } = useResourceWatch();
+  const [open, setOpen] = useState(false);
+  const [groups, setGroups] = useState<ServerGroup[]>([]);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [previews, setPreviews] = useState<ResourcePreview[] | null>(null);
+  const [readTarget, setReadTarget] = useState<ReadTarget | null>(null);
+  const [reading, setReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [resources, templates] = await Promise.all([adapter.getResources(), adapter.getResourceTemplates()]);
+      setGroups(groupByServer(resources, templates));
+    } catch (err) {
+      console.error('[ResourcesDialog] Failed to load resources:', err);
+    }
+  }, [adapter]);
+
+  useEffect(() => {
+    if (!open) return;
+    refresh();
+    return adapter.onEvent((event) => {
+      if (event.type === 'servers_changed') refresh();
+    });
+  }, [adapter, open, refresh]);
+
+  const read = async (target: ReadTarget) => {
+    setReading(true);
+    setError(null);
+    setPreviews(null);
+    setReadTarget(null);
+    try {
+      setPreviews(toResourcePreviews(await adapter.readResource(target.serverName, target.uri)));
+      setReadTarget(target);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const select = (next: Selection) => {
+    setSelection(next);
+    setPreviews(null);
+    setReadTarget(null);
+    setError(null);
+    if (next.type === 'resource') {
+      read({ serverName: next.resource.serverName, uri: unqualified(next.resource), name: next.resource.name });
+    }
+  };
+
+  const startWatching = async (target: ReadTarget) => {
+    setError(null);
+    try {
+      await watch(target.serverName, target.uri, target.name);
+      select({ type: 'watched', serverName: target.serverName, uri: target.uri });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const isSelected = (key: string) => {
+    switch (selection?.type) {
+      case 'resource':
+        return selection.resource.uri === key;
+      case 'template':
+        return selection.template.uriTemplate === key;
+      case 'watched':
+        return `${selection.serverName}\0${selection.uri}` === key;
+      default:
+        return false;
+    }
+  };
+
+  const watched =
+    selection?.type === 'watched'
+      ? watches.find((w) => w.serverName === selection.serverName && w.uri === selection.uri)
+      : undefined;
+  const alreadyWatched =
+    !!readTarget && watches.some((w) => w.serverName === readTarget.serverName && w.uri === readTarget.uri);
+
+  return (
+    <Dialog.Root open={open} onOpenChange={setOpen}>
+      <Dialog.Trigger asChild>
+        <button className="chat-header-button" aria-label="Resources" title="Browse resources">
+          <StackIcon />
+        </button>
+      </Dialog.Trigger>
+
+      <Dialog.Portal>
+        <Dialog.Overlay className="settings-dialog-overlay" />
+        <Dialog.Content className="settings-dialog-content resources-dialog-content">
+          <Dialog.Title className="settings-dialog-title">Resources</Dialog.Title>
+          <Dialog.Description className="settings-dialog-description">
+            Read what connected servers expose. Templates take variables; suggestions come from the server.
+          </Dialog.Description>
+
+          <div className="resources-layout">
+            <div className="resources-list">
+              {watches.length > 0 && (
+                <div className="resources-server">
+                  <div className="settings-section-title">Watching</div>
+                  {watches.map((w) => (
+                    <button
+                      key={`${w.serverName}\0${w.uri}`}
+                      className="resources-item"
+                      data-selected={isSelected(`${w.serverName}\0${w.uri}`)}
+                      data-pinned={w.pinned}
+                      title={`${w.serverName}: ${w.uri}`}
+                      onClick={() => select({ type: 'watched', serverName: w.serverName, uri: w.uri })}
+                    >
+                      {w.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {groups.length === 0 && <div className="settings-agent-command">No resources</div>}
+              {groups.map((group) => (
+                <div key={group.serverName} className="resources-server">
+                  <div className="settings-section-title">{group.serverName}</div>
+                  {group.resources.map((resource) => (
+                    <button
+                      key={resource.uri}
+                      className="resources-item"
+                      data-selected={isSelected(resource.uri)}
+                      title={unqualified(resource)}
+                      onClick={() => select({ type: 'resource', resource })}
+                    >
+                      {resource.name}
+                    </button>
+                  ))}
+                  {group.templates.map((template) => (
+                    <button
+                      key={template.uriTemplate}
+                      className="resources-item resources-item-template"
+                      data-selected={isSelected(template.uriTemplate)}
+                      title={template.originalUriTemplate}
+                      onClick={() => select({ type: 'template', template })}
+                    >
+                      {template.name}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="resources-detail">
+              {!selection && <div className="settings-agent-command">Pick a resource or template</div>}
+              {selection?.type === 'resource' && (
+                <div className="settings-section-description">
+                  {selection.resource.description ?? unqualified(selection.resource)}
+                </div>
+              )}
+              {selection?.type === 'template' && (
+                <>
+                  {selection.template.description && (
+                    <div className="settings-section-description">{selection.template.description}</div>
+                  )}
+                  <TemplateForm
+                    key={selection.template.uriTemplate}
+                    template={selection.template}
+                    onRead={(uri) => read({ serverName: selection.template.serverName, uri, name: uri })}
+                  />
+                </>
+              )}
+              {selection?.type === 'watched' && watched && <WatchedDetail watched={watched} />}
+              {selection?.type === 'watched' && !watched && (
+                <div className="settings-agent-command">No longer watched</div>
+              )}
+              {canWatch && readTarget && !alreadyWatched && (
+                <button className="settings-agent-button resources-watch-button" onClick={() => startWatching(readTarget)}>
+                  Watch for changes
+                </button>
+              )}
+
+              {reading && <div className="settings-agent-command">Reading…</div>}
+              {error && <div className="settings-agents-error">{error}</div>}
+              {previews?.length === 0 && <div className="settings-agent-command">Empty resource</div>}
+              {previews?.map((preview, i) => (
+                <PreviewItem key={`${preview.uri}-${i}`} preview={preview} />
+              ))}
+            </div>
+          </div>
+
+          <Dialog.Close asChild>
+            <button className="settings-dialog-close" aria-label="Close">
+              <CloseIcon />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,9 @@
+/**
+ * Resources Module
+ *
+ * Resource and resource template browser, and resource watches.
+ */
+
+export { ResourcesDialog } from './ResourcesDialog.js';
+export { ResourceWatchProvider, useResourceWatch } from './ResourceWatchContext.js';
+export type { WatchedResource, ResourceVersion } from './ResourceWatchContext.js';
@@ -0,0 +1,135 @@
+/**
+ * Roots Settings Section
+ *
+ * Edit the filesystem roots exposed to MCP servers and whether the current
+ * agent session's working directory is added. Servers are told about every
+ * change (notifications/roots/list_changed). Servers scoped in servers.json
+ * are listed with the roots they actually see. Electron-only (hidden when
+ * the adapter has no roots support).
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useCommunication } from '../hooks/useCommunication';
+import type { RootsSettings, RootsState } from '../../shared/roots-types';
+
+export function RootsSection() {
+  const adapter = useCommunication();
+  const [state, setState] = useState<RootsState | null>(null);
+  const [newPath, setNewPath] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!adapter.roots) return;
+    try {
+      setState(await adapter.roots.get());
+    } catch (err) {
+      console.error('[RootsSection] Failed to load roots:', err);
+    }
+  }, [adapter]);
+
+  useEffect(() => {
+    if (!adapter.roots) return;
+    refresh();
+    return adapter.roots.onChanged(setState);
+  }, [adapter, refresh]);
+
+  if (!adapter.roots || !state) return null;
+  const roots = adapter.roots;
+
+  const save = async (settings: Partial<RootsSettings>) => {
+    setError(null);
+    try {
+      setState(await roots.set(settings));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const addPath = async (path: string) => {
+    const trimmed = path.trim();
+    if (!trimmed || state.paths.includes(trimmed)) return;
+    await save({ paths: [...state.paths, trimmed] });
+    setNewPath('');
+  };
+
+  const browse = async () => {
+    const picked = await roots.pickDirectory();
+    if (picked) await addPath(picked);
+  };
+
+  const scoped = state.servers.filter((server) => server.scoped);
+
+  return (
+    <div className="settings-section">
+      <div className="settings-section-header">
+        <h3 className="settings-section-title">Roots</h3>
+        <p className="settings-section-description">
+          Directories MCP servers may work in. Servers are notified when this list changes.
+        </p>
+      </div>
+
+      {error && <div className="settings-agents-error">{error}</div>}
+
+      <label className="settings-agent-toggle settings-roots-follow">
+        <input
+          type="checkbox"
+          checked={state.followWorkspace}
+          onChange={(e) => save({ followWorkspace: e.target.checked })}
+        />
+        <span>Follow the agent session's working directory</span>
+      </label>
+      {state.followWorkspace && state.workspace && (
+        <div className="settings-agent-command" title={state.workspace}>
+          Current: {state.workspace}
+        </div>
+      )}
+
+      <div className="settings-agents-list settings-roots-list">
+        {state.paths.length === 0 && <div className="settings-agent-command">No directories added</div>}
+        {state.paths.map((path) => (
+          <div key={path} className="settings-agent-main settings-roots-row">
+            <span className="settings-roots-path" title={path}>
+              {path}
+            </span>
+            <button
+              className="settings-agent-button settings-agent-remove"
+              onClick={() => save({ paths: state.paths.filter((p) => p !== path) })}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="settings-agent-add">
+        <input
+          className="settings-input"
+          value={newPath}
+          onChange={(e) => setNewPath(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addPath(newPath);
+          }}
+          placeholder="/path/to/directory"
+        />
+        <button className="settings-agent-button" onClick={() => addPath(newPath)} disabled={!newPath.trim()}>
+          Add
+        </button>
+        <button className="settings-agent-button" onClick={browse}>
+          Browse…
+        </button>
+      </div>
+
+      {scoped.length > 0 && (
+        <div className="settings-roots-scoped">
+          <div className="settings-label">Scoped in servers.json</div>
+          {scoped.map((server) => (
+            <div key={server.serverName} className="settings-agent-command">
+              <strong>{server.serverName}</strong>:{' '}
+              {server.roots.length > 0 ? server.roots.map((root) => root.uri).join(', ') : 'no roots'}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
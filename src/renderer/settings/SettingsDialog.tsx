@@ -9,6 +9,8 @@ import * as Dialog from '@radix-ui/react-dialog';
 import { useSettings } from './SettingsContext.js';
 import { getModelsForProvider, type Provider, type ModelConfig, type ModelOption } from './types.js';
 import { AgentsSection } from './AgentsSection.js';
+import { RootsSection } from './RootsSection.js';
+import { ToolApprovalSection } from './ToolApprovalSection.js';
 
 const GearIcon = () => (
   <svg className="icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -172,6 +174,10 @@ export function SettingsDialog() {
             />
 
             <AgentsSection />
+
+            <RootsSection />
+
+            <ToolApprovalSection />
           </div>
 
           <div className="settings-footer">
@@ -0,0 +1,102 @@
+/**
+ * Tool Approval Settings Section
+ *
+ * Choose which servers' tool annotations are trusted and which servers and
+ * tools run without asking (see shared/tool-approval). "Always allow" can
+ * also be picked from the approval prompt in the chat; this is where those
+ * choices are reviewed and taken back. Electron-only (hidden when the
+ * adapter can't save approval settings).
+ */
+
+import { useEffect, useState } from 'react';
+import { useCommunication } from '../hooks/useCommunication';
+import { useToolApproval } from '../chat/context/ToolApprovalContext';
+import { toggleEntry, type ToolApprovalSettings } from '../../shared/tool-approval';
+
+export function ToolApprovalSection() {
+  const adapter = useCommunication();
+  const { supported, settings, update } = useToolApproval();
+  const [serverNames, setServerNames] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!supported) return;
+    adapter
+      .getServers()
+      .then((servers) => setServerNames(servers.map((server) => server.name)))
+      .catch((err) => console.error('[ToolApprovalSection] Failed to load servers:', err));
+  }, [adapter, supported]);
+
+  if (!supported) return null;
+
+  const save = async (changes: Partial<ToolApprovalSettings>) => {
+    setError(null);
+    try {
+      await update(changes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Servers no longer configured stay listed while they have settings
+  const servers = [...new Set([...serverNames, ...settings.trustedServers, ...settings.allowedServers])].sort();
+
+  return (
+    <div className="settings-section">
+      <div className="settings-section-header">
+        <h3 className="settings-section-title">Tool approval</h3>
+        <p className="settings-section-description">
+          Tool calls ask before running unless allowed here. For trusted servers only tools marked destructive ask.
+        </p>
+      </div>
+
+      {error && <div className="settings-agents-error">{error}</div>}
+
+      <div className="settings-agents-list">
+        {servers.length === 0 && <div className="settings-agent-command">No servers configured</div>}
+        {servers.map((server) => (
+          <div key={server} className="settings-agent-main settings-approval-row">
+            <span className="settings-agent-name settings-approval-server">{server}</span>
+            <label className="settings-agent-toggle settings-approval-toggle">
+              <input
+                type="checkbox"
+                checked={settings.trustedServers.includes(server)}
+                onChange={(e) => save({ trustedServers: toggleEntry(settings.trustedServers, server, e.target.checked) })}
+              />
+              <span>Trust annotations</span>
+            </label>
+            <label className="settings-agent-toggle settings-approval-toggle">
+              <input
+                type="checkbox"
+                checked={settings.allowedServers.includes(server)}
+                onChange={(e) => save({ allowedServers: toggleEntry(settings.allowedServers, server, e.target.checked) })}
+              />
+              <span>Always allow</span>
+            </label>
+          </div>
+        ))}
+      </div>
+
+      {settings.allowedTools.length > 0 && (
+        <div className="settings-roots-scoped">
+          <div className="settings-label">Always allowed tools</div>
+          <div className="settings-agents-list">
+            {settings.allowedTools.map((tool) => (
+              <div key={tool} className="settings-agent-main settings-roots-row">
+                <span className="settings-roots-path" title={tool}>
+                  {tool}
+                </span>
+                <button
+                  className="settings-agent-button settings-agent-remove"
+                  onClick={() => save({ allowedTools: settings.allowedTools.filter((t) => t !== tool) })}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
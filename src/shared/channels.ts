@@ -28,6 +28,9 @@ export const GET_TOOLS = 'mcp:get-tools';
 /** Call a tool by qualified name */
 export const CALL_TOOL = 'mcp:call-tool';
 
+/** Cancel an in-flight tool call (sends notifications/cancelled) */
+export const CANCEL_TOOL_CALL = 'mcp:cancel-tool-call';
+
 /** Get all tools with enabled state (for tool manager) */
 export const GET_TOOL_MANAGER_TOOLS = 'mcp:get-tool-manager-tools';
 
@@ -53,6 +56,18 @@ export const READ_RESOURCE = 'mcp:read-resource';
 /** Fetch UI resource HTML */
 export const GET_UI_RESOURCE = 'mcp:get-ui-resource';
 
+/** Subscribe to updates of a resource */
+export const SUBSCRIBE_RESOURCE = 'mcp:subscribe-resource';
+
+/** Unsubscribe from updates of a resource */
+export const UNSUBSCRIBE_RESOURCE = 'mcp:unsubscribe-resource';
+
+/** Get list of available resource templates */
+export const GET_RESOURCE_TEMPLATES = 'mcp:get-resource-templates';
+
+/** Get completion suggestions for a resource template variable */
+export const COMPLETE_RESOURCE_ARGUMENT = 'mcp:complete-resource-argument';
+
 // ============================================
 // Prompt Channels
 // ============================================
@@ -60,6 +75,12 @@ export const GET_UI_RESOURCE = 'mcp:get-ui-resource';
 /** Get list of available prompts */
 export const GET_PROMPTS = 'mcp:get-prompts';
 
+/** Get a prompt's messages for the given arguments */
+export const GET_PROMPT = 'mcp:get-prompt';
+
+/** Get completion suggestions for a prompt argument */
+export const COMPLETE_PROMPT_ARGUMENT = 'mcp:complete-prompt-argument';
+
 // ============================================
 // Chat Channels
 // ============================================
@@ -105,6 +126,9 @@ export const ON_RESOURCE_UPDATED = 'mcp:on-resource-updated';
 /** Notifies renderer of connection errors */
 export const ON_CONNECTION_ERROR = 'mcp:on-connection-error';
 
+/** Notifies renderer of progress reported by a running tool call */
+export const ON_TOOL_PROGRESS = 'mcp:on-tool-progress';
+
 // ============================================
 // Lifecycle Event Channels (main → renderer)
 // ============================================
@@ -178,6 +202,9 @@ export const ACP_STOP_AGENT = 'acp:stop-agent';
 /** Create a new ACP session (spawns agent if needed) */
 export const ACP_NEW_SESSION = 'acp:new-session';
 
+/** Reopen a saved ACP session with session/load (null if the agent can't) */
+export const ACP_LOAD_SESSION = 'acp:load-session';
+
 /** Send a prompt to an ACP session (returns turnId immediately) */
 export const ACP_PROMPT = 'acp:prompt';
 
@@ -208,6 +235,74 @@ export const ACP_AGENT_STATUS_CHANGED = 'acp:agent-status-changed';
 /** Open an MCP App panel on behalf of an agent (main → renderer) */
 export const ACP_OPEN_APP = 'acp:open-app';
 
+// ============================================
+// Sampling Channels
+// ============================================
+
+/** Answer a pending sampling approval request */
+export const SAMPLING_RESPOND = 'sampling:respond';
+
+/** Sampling approval request pushed from main (answered via SAMPLING_RESPOND) */
+export const ON_SAMPLING_REQUEST = 'sampling:on-request';
+
+/** Streamed LLM output for an approved sampling request */
+export const ON_SAMPLING_PROGRESS = 'sampling:on-progress';
+
+// ============================================
+// Elicitation Channels
+// ============================================
+
+/** Answer a pending elicitation form (accept / decline / cancel) */
+export const ELICITATION_RESPOND = 'elicitation:respond';
+
+/** Elicitation request pushed from main (answered via ELICITATION_RESPOND) */
+export const ON_ELICITATION_REQUEST = 'elicitation:on-request';
+
+/** An accepted URL-mode elicitation finished (server sent notifications/elicitation/complete) */
+export const ON_ELICITATION_COMPLETE = 'elicitation:on-complete';
+
+// ============================================
+// Roots Channels
+// ============================================
+
+/** Get the roots settings and what each server sees */
+export const ROOTS_GET = 'roots:get';
+
+/** Update the roots settings (notifies affected servers) */
+export const ROOTS_SET = 'roots:set';
+
+/** Roots changed (settings edited or the agent workspace moved) */
+export const ON_ROOTS_CHANGED = 'roots:on-changed';
+
+// ============================================
+// Tool Approval Channels
+// ============================================
+
+/** Get which servers are trusted and which tools or servers are always allowed */
+export const TOOL_APPROVAL_GET = 'tool-approval:get';
+
+/** Update the tool approval settings */
+export const TOOL_APPROVAL_SET = 'tool-approval:set';
+
+// ============================================
+// Conversation History Channels
+// ============================================
+
+/** List saved conversations, optionally filtered by a search query */
+export const HISTORY_LIST = 'history:list';
+
+/** Get one saved conversation with its messages */
+export const HISTORY_GET = 'history:get';
+
+/** Save (create or replace) a conversation */
+export const HISTORY_SAVE = 'history:save';
+
+/** Rename a saved conversation */
+export const HISTORY_RENAME = 'history:rename';
+
+/** Delete a saved conversation */
+export const HISTORY_DELETE = 'history:delete';
+
 // ============================================
 // Settings Channels
 // ============================================
@@ -241,6 +336,7 @@ export const INVOKE_CHANNELS = [
   GET_CONFIG,
   GET_TOOLS,
   CALL_TOOL,
+  CANCEL_TOOL_CALL,
   GET_TOOL_MANAGER_TOOLS,
   SET_TOOL_ENABLED,
   GET_TOOL_MANAGER_SERVERS,
@@ -248,7 +344,13 @@ export const INVOKE_CHANNELS = [
   GET_RESOURCES,
   READ_RESOURCE,
   GET_UI_RESOURCE,
+  SUBSCRIBE_RESOURCE,
+  UNSUBSCRIBE_RESOURCE,
+  GET_RESOURCE_TEMPLATES,
+  COMPLETE_RESOURCE_ARGUMENT,
   GET_PROMPTS,
+  GET_PROMPT,
+  COMPLETE_PROMPT_ARGUMENT,
   CHAT_STREAM_START,
   CHAT_STREAM_CANCEL,
   GET_SETTINGS,
@@ -277,12 +379,29 @@ export const INVOKE_CHANNELS = [
   ACP_REMOVE_AGENT,
   ACP_STOP_AGENT,
   ACP_NEW_SESSION,
+  ACP_LOAD_SESSION,
   ACP_PROMPT,
   ACP_CANCEL,
   ACP_SET_MODE,
   ACP_SET_CONFIG_OPTION,
   ACP_RESPOND_PERMISSION,
   ACP_GET_TERMINAL_OUTPUT,
+  // Sampling
+  SAMPLING_RESPOND,
+  // Elicitation
+  ELICITATION_RESPOND,
+  // Roots
+  ROOTS_GET,
+  ROOTS_SET,
+  // Tool approval
+  TOOL_APPROVAL_GET,
+  TOOL_APPROVAL_SET,
+  // Conversation history
+  HISTORY_LIST,
+  HISTORY_GET,
+  HISTORY_SAVE,
+  HISTORY_RENAME,
+  HISTORY_DELETE,
 ] as const;
 
 /** Channels that renderer can listen to (main → renderer events) */
@@ -292,6 +411,7 @@ export const ON_CHANNELS = [
   ON_SERVERS_CHANGED,
   ON_RESOURCE_UPDATED,
   ON_CONNECTION_ERROR,
+  ON_TOOL_PROGRESS,
   // Lifecycle events
   ON_SERVER_STATUS_CHANGED,
   ON_SERVER_HEALTHY,
@@ -304,6 +424,14 @@ export const ON_CHANNELS = [
   ACP_PERMISSION_REQUEST,
   ACP_AGENT_STATUS_CHANGED,
   ACP_OPEN_APP,
+  // Sampling events
+  ON_SAMPLING_REQUEST,
+  ON_SAMPLING_PROGRESS,
+  // Elicitation events
+  ON_ELICITATION_REQUEST,
+  ON_ELICITATION_COMPLETE,
+  // Roots events
+  ON_ROOTS_CHANGED,
 ] as const;
 
 export type InvokeChannel = (typeof INVOKE_CHANNELS)[number];
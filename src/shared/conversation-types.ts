@@ -0,0 +1,57 @@
+/**
+ * Conversation History Shared Types
+ *
+ * Saved chat sessions, shared by the Electron main process (which keeps
+ * one file per session in userData) and the history sidebar.
+ */
+
+/** Engine that drove the conversation (mirrors the renderer's ChatBackend) */
+export type ConversationBackend =
+  | { kind: 'ai-sdk'; role: 'doer' | 'dreamer' }
+  | { kind: 'acp'; agentId: string; agentName: string };
+
+/** Model settings in use when the conversation was last saved */
+export interface ConversationModelConfig {
+  provider: string;
+  modelId: string;
+  temperature: number;
+  maxTurns: number;
+}
+
+/** The agent session behind an ACP conversation, reopened on resume */
+export interface SavedAcpSession {
+  sessionId: string;
+  cwd: string;
+}
+
+/**
+ * What the renderer saves. Messages are the chat's own message objects
+ * (text, tool calls and results), stored as they are.
+ */
+export interface ConversationInput<M = unknown> {
+  id: string;
+  backend: ConversationBackend;
+  modelConfig?: ConversationModelConfig;
+  acpSession?: SavedAcpSession;
+  messages: M[];
+}
+
+export interface Conversation<M = unknown> extends ConversationInput<M> {
+  /** The first user message, until the user renames it */
+  title: string;
+  /** True once renamed; saving no longer changes the title */
+  titleEdited?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Sidebar entry */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  backend: ConversationBackend;
+  modelConfig?: ConversationModelConfig;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
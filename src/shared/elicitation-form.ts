@@ -0,0 +1,241 @@
+/**
+ * Elicitation Form Utilities
+ *
+ * Turns an elicitation `requestedSchema` (a flat object of primitive
+ * properties, per the MCP spec) into form fields, and validates what the
+ * user typed back into the typed `content` the server expects. Shared by
+ * the backend, which flattens the schema, and the renderer, which
+ * validates as the user types.
+ */
+
+import type {
+  ElicitationField,
+  ElicitationFieldKind,
+  ElicitationOption,
+  ElicitationValue,
+} from './elicitation-types.js';
+
+interface PropertySchema {
+  type?: string;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  format?: string;
+  enum?: unknown[];
+  /** Legacy display names, parallel to `enum` */
+  enumNames?: string[];
+  oneOf?: Array<{ const?: unknown; title?: string }>;
+  anyOf?: Array<{ const?: unknown; title?: string }>;
+  items?: PropertySchema;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Form state while the user edits: text-like fields hold the raw string,
+ * checkboxes a boolean, multi-selects the chosen values.
+ */
+export type ElicitationFormValues = Record<string, string | boolean | string[]>;
+
+export interface ElicitationValidation {
+  /** Typed values ready to send, present only when there are no errors */
+  content?: Record<string, ElicitationValue>;
+  /** Error message per field name */
+  errors: Record<string, string>;
+}
+
+// ============================================
+// Schema → Fields
+// ============================================
+
+function toOptions(schema: PropertySchema): ElicitationOption[] | undefined {
+  const titled = schema.oneOf ?? schema.anyOf;
+  if (titled) {
+    return titled
+      .filter((option) => option.const !== undefined)
+      .map((option) => ({ value: String(option.const), label: option.title ?? String(option.const) }));
+  }
+  if (schema.enum) {
+    return schema.enum.map((value, index) => ({
+      value: String(value),
+      label: schema.enumNames?.[index] ?? String(value),
+    }));
+  }
+  return undefined;
+}
+
+function fieldKind(schema: PropertySchema): ElicitationFieldKind {
+  switch (schema.type) {
+    case 'boolean':
+      return 'boolean';
+    case 'number':
+      return 'number';
+    case 'integer':
+      return 'integer';
+    case 'array':
+      return 'multiselect';
+    default:
+      return toOptions(schema) ? 'select' : 'text';
+  }
+}
+
+function toDefault(value: unknown): ElicitationValue | undefined {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return value.map(String);
+  return undefined;
+}
+
+/**
+ * Flatten a requested schema into form fields, in property order.
+ * Returns an empty list when the schema has no properties (a plain
+ * accept / decline confirmation).
+ */
+export function toElicitationFields(schema: unknown): ElicitationField[] {
+  const objectSchema = schema as { properties?: Record<string, PropertySchema>; required?: string[] } | undefined;
+  if (!objectSchema?.properties) return [];
+
+  const required = new Set(objectSchema.required ?? []);
+  return Object.entries(objectSchema.properties).map(([name, property]) => {
+    const kind = fieldKind(property);
+    const options = kind === 'multiselect' ? toOptions(property.items ?? {}) : toOptions(property);
+    return {
+      name,
+      label: property.title ?? name,
+      description: property.description,
+      kind,
+      required: required.has(name),
+      default: toDefault(property.default),
+      options,
+      format: property.format,
+      minLength: property.minLength,
+      maxLength: property.maxLength,
+      minimum: property.minimum,
+      maximum: property.maximum,
+      minItems: property.minItems,
+      maxItems: property.maxItems,
+    };
+  });
+}
+
+// ============================================
+// Form State
+// ============================================
+
+/**
+ * Starting form state, pre-filled with schema defaults.
+ */
+export function initialElicitationValues(fields: ElicitationField[]): ElicitationFormValues {
+  const values: ElicitationFormValues = {};
+  for (const field of fields) {
+    switch (field.kind) {
+      case 'boolean':
+        values[field.name] = field.default === true;
+        break;
+      case 'multiselect':
+        values[field.name] = Array.isArray(field.default) ? field.default : [];
+        break;
+      default:
+        values[field.name] = field.default === undefined ? '' : String(field.default);
+    }
+  }
+  return values;
+}
+
+const FORMAT_CHECKS: Record<string, { test: (value: string) => boolean; message: string }> = {
+  email: { test: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value), message: 'Enter a valid email address' },
+  uri: {
+    test: (value) => {
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    message: 'Enter a valid URL',
+  },
+  date: { test: (value) => /^\d{4}-\d{2}-\d{2}$/.test(value), message: 'Enter a date (YYYY-MM-DD)' },
+  'date-time': { test: (value) => !Number.isNaN(Date.parse(value)), message: 'Enter a date and time' },
+};
+
+/**
+ * Check one field and convert it to its typed value.
+ * Returns an error string, or the value (undefined when an optional field is left empty).
+ */
+function validateField(
+  field: ElicitationField,
+  raw: string | boolean | string[] | undefined
+): { error: string } | { value: ElicitationValue | undefined } {
+  if (field.kind === 'boolean') {
+    return { value: raw === true };
+  }
+
+  if (field.kind === 'multiselect') {
+    const selected = Array.isArray(raw) ? raw : [];
+    if (field.minItems !== undefined && selected.length < field.minItems) {
+      return { error: `Choose at least ${field.minItems}` };
+    }
+    if (field.maxItems !== undefined && selected.length > field.maxItems) {
+      return { error: `Choose at most ${field.maxItems}` };
+    }
+    return { value: selected.length > 0 || field.required ? selected : undefined };
+  }
+
+  const text = typeof raw === 'string' ? raw.trim() : '';
+  if (text === '') {
+    return field.required ? { error: 'Required' } : { value: undefined };
+  }
+
+  if (field.kind === 'number' || field.kind === 'integer') {
+    const number = Number(text);
+    if (Number.isNaN(number)) return { error: 'Enter a number' };
+    if (field.kind === 'integer' && !Number.isInteger(number)) return { error: 'Enter a whole number' };
+    if (field.minimum !== undefined && number < field.minimum) return { error: `Must be at least ${field.minimum}` };
+    if (field.maximum !== undefined && number > field.maximum) return { error: `Must be at most ${field.maximum}` };
+    return { value: number };
+  }
+
+  if (field.kind === 'select') {
+    const known = field.options?.some((option) => option.value === text) ?? true;
+    return known ? { value: text } : { error: 'Choose one of the options' };
+  }
+
+  if (field.minLength !== undefined && text.length < field.minLength) {
+    return { error: `Use at least ${field.minLength} characters` };
+  }
+  if (field.maxLength !== undefined && text.length > field.maxLength) {
+    return { error: `Use at most ${field.maxLength} characters` };
+  }
+  const formatCheck = field.format ? FORMAT_CHECKS[field.format] : undefined;
+  if (formatCheck && !formatCheck.test(text)) {
+    return { error: formatCheck.message };
+  }
+  return { value: text };
+}
+
+/**
+ * Validate form state against the fields. When every field passes, the
+ * typed content is returned; optional fields left empty are omitted.
+ */
+export function validateElicitationForm(
+  fields: ElicitationField[],
+  values: ElicitationFormValues
+): ElicitationValidation {
+  const errors: Record<string, string> = {};
+  const content: Record<string, ElicitationValue> = {};
+
+  for (const field of fields) {
+    const result = validateField(field, values[field.name]);
+    if ('error' in result) {
+      errors[field.name] = result.error;
+    } else if (result.value !== undefined) {
+      content[field.name] = result.value;
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { content, errors };
+}
@@ -0,0 +1,99 @@
+/**
+ * Elicitation Shared Types
+ *
+ * Plain serializable views of server-initiated elicitation/create
+ * requests (form and URL mode) that cross the IPC (Electron) or
+ * WebSocket (web) boundary.
+ * The backend flattens the requested JSON schema into a field list
+ * (see elicitation-form.ts); the renderer never imports
+ * @modelcontextprotocol/sdk.
+ */
+
+// ============================================
+// Form Fields
+// ============================================
+
+export type ElicitationFieldKind = 'text' | 'number' | 'integer' | 'boolean' | 'select' | 'multiselect';
+
+export interface ElicitationOption {
+  value: string;
+  label: string;
+}
+
+/** One top-level property of the requested schema */
+export interface ElicitationField {
+  /** Property name; key of the value in the result content */
+  name: string;
+  /** Schema title, falling back to the property name */
+  label: string;
+  description?: string;
+  kind: ElicitationFieldKind;
+  required: boolean;
+  default?: ElicitationValue;
+  /** Choices for select / multiselect */
+  options?: ElicitationOption[];
+  /** String format hint: email, uri, date, date-time */
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  /** Selection bounds for multiselect */
+  minItems?: number;
+  maxItems?: number;
+}
+
+export type ElicitationValue = string | number | boolean | string[];
+
+// ============================================
+// Requests (backend → renderer)
+// ============================================
+
+export interface ElicitationRequestPayload {
+  /** Correlation id, echoed back via ELICITATION_RESPOND */
+  requestId: string;
+  /** MCP server that issued the request */
+  serverName: string;
+  /**
+   * 'form': fill in fields and send them back.
+   * 'url': consent to opening a URL (e.g. a third-party sign-in); the
+   * server reports completion separately.
+   */
+  mode: 'form' | 'url';
+  /** What the server is asking for */
+  message: string;
+  /** Form fields in schema order; empty for a plain confirmation or URL mode */
+  fields: ElicitationField[];
+  /** Page to open (URL mode only) */
+  url?: string;
+  /** Server's id for the out-of-band flow (URL mode only) */
+  elicitationId?: string;
+  /** ISO timestamp when the request arrived */
+  receivedAt: string;
+}
+
+/**
+ * A URL-mode elicitation the user accepted has finished (the server sent
+ * notifications/elicitation/complete); drop its waiting state.
+ */
+export interface ElicitationCompletePayload {
+  /** Correlation id of the original request */
+  requestId: string;
+  serverName: string;
+  elicitationId: string;
+}
+
+// ============================================
+// Decisions (renderer → backend)
+// ============================================
+
+export interface ElicitationDecision {
+  /**
+   * accept: submit the form / open the URL; decline: refuse explicitly;
+   * cancel: dismiss without choosing. Cancelling an accepted URL request
+   * that is still waiting stops waiting for its completion.
+   */
+  action: 'accept' | 'decline' | 'cancel';
+  /** Submitted values (accept only) */
+  content?: Record<string, ElicitationValue>;
+}
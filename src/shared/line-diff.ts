@@ -0,0 +1,75 @@
+/**
+ * Line Diff
+ *
+ * A small line diff for showing edits: common prefix/suffix trimming with a
+ * few lines of context, no heavy diff dependency. Shared by the diff blocks
+ * in the chat and conversation exports.
+ */
+
+export interface DiffLine {
+  kind: 'context' | 'removed' | 'added';
+  text: string;
+}
+
+const MAX_CONTEXT_LINES = 3;
+
+/**
+ * Lines to show for a change; `oldText` is null for a new file.
+ */
+export function computeLineDiff(oldText: string | null, newText: string): DiffLine[] {
+  if (oldText == null) {
+    // New file — everything is an addition
+    return newText.split('\n').map((text) => ({ kind: 'added' as const, text }));
+  }
+
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const lines: DiffLine[] = [];
+  const prefixContext = oldLines.slice(Math.max(0, prefix - MAX_CONTEXT_LINES), prefix);
+  if (prefix > MAX_CONTEXT_LINES) {
+    lines.push({ kind: 'context', text: '…' });
+  }
+  for (const text of prefixContext) {
+    lines.push({ kind: 'context', text });
+  }
+  for (const text of oldLines.slice(prefix, oldLines.length - suffix)) {
+    lines.push({ kind: 'removed', text });
+  }
+  for (const text of newLines.slice(prefix, newLines.length - suffix)) {
+    lines.push({ kind: 'added', text });
+  }
+  const suffixContext = oldLines.slice(oldLines.length - suffix, oldLines.length - suffix + MAX_CONTEXT_LINES);
+  for (const text of suffixContext) {
+    lines.push({ kind: 'context', text });
+  }
+  if (suffix > MAX_CONTEXT_LINES) {
+    lines.push({ kind: 'context', text: '…' });
+  }
+  return lines;
+}
+
+/** Gutter shown before each kind of line */
+export const DIFF_PREFIX: Record<DiffLine['kind'], string> = {
+  context: '  ',
+  removed: '- ',
+  added: '+ ',
+};
@@ -0,0 +1,43 @@
+/**
+ * Model Catalogs
+ *
+ * The models offered per provider, shared by the Settings dialogs and by
+ * sampling model selection in the main process and web server. Each list
+ * is ordered fast & cheap → most capable, so a model's position is its
+ * tier.
+ */
+
+export type Provider = 'anthropic' | 'openai';
+
+export interface ModelOption {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+// ============================================
+// Available Models
+// ============================================
+
+export const anthropicModels: ModelOption[] = [
+  { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', description: 'Fast & efficient' },
+  { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', description: 'Balanced' },
+  { id: 'claude-opus-4-5-20251101', name: 'Claude Opus 4.5', description: 'Most capable' },
+];
+
+export const openaiModels: ModelOption[] = [
+  { id: 'gpt-5-mini', name: 'GPT-5 Mini', description: 'Fast & efficient' },
+  { id: 'gpt-5.2', name: 'GPT-5.2', description: 'Balanced' },
+  { id: 'gpt-5.2-pro', name: 'GPT-5.2 Pro', description: 'Most capable' },
+];
+
+export function getModelsForProvider(provider: Provider): ModelOption[] {
+  switch (provider) {
+    case 'anthropic':
+      return anthropicModels;
+    case 'openai':
+      return openaiModels;
+    default:
+      return [];
+  }
+}
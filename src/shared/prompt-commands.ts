@@ -0,0 +1,124 @@
+/**
+ * Prompt Commands
+ *
+ * Server prompts as chat slash commands: `/server:prompt` names a prompt,
+ * and running it turns the prompts/get messages into chat turns. Embedded
+ * text resources are inlined into the text; images travel next to it.
+ */
+
+import type { MessageImage, PromptInfo, PromptResult } from './types.js';
+
+export interface PromptTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  images: MessageImage[];
+}
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  uri?: string;
+  name?: string;
+  resource?: { uri: string; mimeType?: string; text?: string; blob?: string };
+}
+
+/**
+ * The slash command that runs a prompt, e.g. `/github:review-pr`.
+ */
+export function promptCommand(prompt: PromptInfo): string {
+  return `/${prompt.serverName}:${prompt.originalName}`;
+}
+
+/**
+ * Prompts whose command starts with what has been typed so far.
+ * Nothing once the input holds a space, since the command is complete.
+ */
+export function matchPromptCommands(input: string, prompts: PromptInfo[]): PromptInfo[] {
+  if (!input.startsWith('/') || /\s/.test(input)) return [];
+  return prompts.filter((prompt) => promptCommand(prompt).startsWith(input));
+}
+
+/**
+ * The prompt an input names exactly, ignoring surrounding whitespace.
+ */
+export function findPromptCommand(input: string, prompts: PromptInfo[]): PromptInfo | undefined {
+  const command = input.trim();
+  return prompts.find((prompt) => promptCommand(prompt) === command);
+}
+
+/**
+ * Chat turns for a prompts/get result. Consecutive messages from the same
+ * role are merged, so a text message followed by a resource reads as one turn.
+ */
+export function toPromptTurns(result: PromptResult): PromptTurn[] {
+  const turns: PromptTurn[] = [];
+
+  for (const message of result.messages) {
+    const blocks = (Array.isArray(message.content) ? message.content : [message.content]) as ContentBlock[];
+    const texts: string[] = [];
+    const images: MessageImage[] = [];
+
+    for (const block of blocks) {
+      const image = toImage(block);
+      if (image) {
+        images.push(image);
+      } else {
+        texts.push(blockText(block));
+      }
+    }
+
+    const last = turns.at(-1);
+    if (last?.role === message.role) {
+      last.text = [last.text, ...texts].filter(Boolean).join('\n\n');
+      last.images.push(...images);
+    } else {
+      turns.push({ role: message.role, text: texts.filter(Boolean).join('\n\n'), images });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Turns as one message, for backends that take a single prompt (ACP agents).
+ * Roles are spelled out only when the prompt includes assistant turns.
+ */
+export function flattenPromptTurns(turns: PromptTurn[]): string {
+  if (turns.every((turn) => turn.role === 'user')) {
+    return turns.map((turn) => turn.text).join('\n\n');
+  }
+  return turns.map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`).join('\n\n');
+}
+
+/** Image blocks, and embedded resources that are images */
+function toImage(block: ContentBlock): MessageImage | undefined {
+  if (block.type === 'image' && block.data && block.mimeType) {
+    return { mimeType: block.mimeType, data: block.data };
+  }
+  const resource = block.type === 'resource' ? block.resource : undefined;
+  if (resource?.blob && resource.mimeType?.startsWith('image/')) {
+    return { mimeType: resource.mimeType, data: resource.blob };
+  }
+  return undefined;
+}
+
+function blockText(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text ?? '';
+    case 'resource': {
+      const resource = block.resource;
+      if (!resource) return '';
+      if (resource.text !== undefined) {
+        return `[Resource ${resource.uri}]\n${resource.text}`;
+      }
+      return `[Resource ${resource.uri} (${resource.mimeType ?? 'binary'}) omitted]`;
+    }
+    case 'resource_link':
+      return `[Resource link: ${block.name ?? block.uri} <${block.uri}>]`;
+    default:
+      return `[${block.type}${block.mimeType ? ` (${block.mimeType})` : ''} omitted]`;
+  }
+}
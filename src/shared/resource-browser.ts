@@ -0,0 +1,104 @@
+/**
+ * Resource Browser Utilities
+ *
+ * Fills in RFC 6570 resource templates and turns a resources/read result
+ * into something the Resources panel can show: formatted text or JSON, an
+ * image, or a file to download. Watched resources are also flattened to
+ * text, to diff versions and to pin the latest one into the chat.
+ */
+
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+
+export type ResourcePreview =
+  | { kind: 'text'; uri: string; mimeType?: string; text: string }
+  /** `text` is pretty-printed */
+  | { kind: 'json'; uri: string; mimeType?: string; text: string }
+  | { kind: 'image'; uri: string; mimeType: string; src: string; size: number }
+  | { kind: 'blob'; uri: string; mimeType?: string; src: string; fileName: string; size: number };
+
+interface ResourceContents {
+  uri?: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Names of the variables in a template, in order of first appearance.
+ */
+export function templateVariables(uriTemplate: string): string[] {
+  return [...new Set(new UriTemplate(uriTemplate).variableNames)];
+}
+
+/**
+ * Expand a template. Empty values are left out, so optional query
+ * variables ({?q}) disappear instead of becoming `?q=`.
+ */
+export function expandTemplate(uriTemplate: string, values: Record<string, string>): string {
+  const filled = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ''));
+  return new UriTemplate(uriTemplate).expand(filled);
+}
+
+/**
+ * One preview per content item of a resources/read result.
+ */
+export function toResourcePreviews(result: unknown): ResourcePreview[] {
+  const contents = (result as { contents?: ResourceContents[] } | null)?.contents ?? [];
+  return contents.map((item) => {
+    const uri = item.uri ?? '';
+    const mimeType = item.mimeType;
+
+    if (item.blob !== undefined) {
+      const src = `data:${mimeType ?? 'application/octet-stream'};base64,${item.blob}`;
+      if (mimeType?.startsWith('image/')) {
+        return { kind: 'image', uri, mimeType, src, size: base64Size(item.blob) };
+      }
+      return { kind: 'blob', uri, mimeType, src, fileName: fileNameOf(uri), size: base64Size(item.blob) };
+    }
+
+    const text = item.text ?? '';
+    if (isJsonMimeType(mimeType)) {
+      try {
+        return { kind: 'json', uri, mimeType, text: JSON.stringify(JSON.parse(text), null, 2) };
+      } catch {
+        // Not valid JSON after all; show it as sent
+      }
+    }
+    return { kind: 'text', uri, mimeType, text };
+  });
+}
+
+/**
+ * Previews as one string. Binary items become a one-line summary, so a
+ * changed image still shows up in a diff (by size) without its bytes.
+ */
+export function previewsToText(previews: ResourcePreview[]): string {
+  return previews
+    .map((preview) =>
+      preview.kind === 'image' || preview.kind === 'blob'
+        ? `[${preview.mimeType ?? 'binary'}, ${preview.size} bytes: ${preview.uri}]`
+        : preview.text
+    )
+    .join('\n');
+}
+
+function isJsonMimeType(mimeType: string | undefined): boolean {
+  return mimeType === 'application/json' || !!mimeType?.endsWith('+json');
+}
+
+/** Last path segment of the URI, for the download's file name */
+function fileNameOf(uri: string): string {
+  const path = uri.split(/[?#]/)[0];
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  try {
+    return decodeURIComponent(name) || 'resource';
+  } catch {
+    return name;
+  }
+}
+
+/** Decoded byte length of a base64 string */
+function base64Size(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
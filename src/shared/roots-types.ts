@@ -0,0 +1,28 @@
+/**
+ * Roots Shared Types
+ *
+ * Serializable view of the filesystem roots the app exposes to MCP
+ * servers, shared by the Electron main process and the Settings UI.
+ */
+
+/** User-editable roots settings (persisted in the app store) */
+export interface RootsSettings {
+  /** Directories every server sees unless its servers.json entry scopes them */
+  paths: string[];
+  /** Also expose the working directory of the current agent session */
+  followWorkspace: boolean;
+}
+
+/** Roots one connected server currently sees */
+export interface ServerRootsInfo {
+  serverName: string;
+  roots: Array<{ uri: string; name?: string }>;
+  /** True when servers.json overrides the shared roots for this server */
+  scoped: boolean;
+}
+
+export interface RootsState extends RootsSettings {
+  /** Working directory of the latest agent session, if any */
+  workspace?: string;
+  servers: ServerRootsInfo[];
+}
@@ -0,0 +1,99 @@
+/**
+ * Sampling Shared Types
+ *
+ * Plain serializable views of server-initiated sampling/createMessage
+ * requests that cross the IPC boundary. The main process flattens SDK
+ * content blocks into display text before sending; the renderer never
+ * imports @modelcontextprotocol/sdk.
+ */
+
+// ============================================
+// Approval Requests (main → renderer)
+// ============================================
+
+export interface SamplingMessageView {
+  role: 'user' | 'assistant';
+  /** Content blocks flattened for display (tool_use / tool_result inlined) */
+  text: string;
+  /** True when the message is plain text and can be edited before approval */
+  editable: boolean;
+}
+
+export interface SamplingToolView {
+  name: string;
+  description?: string;
+}
+
+export interface SamplingResponseView {
+  /** Text content, when the model answered in text */
+  text?: string;
+  /** Tool calls the model made, input pretty-printed */
+  toolCalls: Array<{ name: string; input: string }>;
+  model: string;
+  stopReason?: string;
+}
+
+export interface SamplingApprovalRequestPayload {
+  /** Correlation id, echoed back via SAMPLING_RESPOND */
+  requestId: string;
+  /**
+   * 'request': approve / edit the request before it reaches the LLM.
+   * 'response': review the LLM's answer before it returns to the server.
+   */
+  stage: 'request' | 'response';
+  /** MCP server that issued the request */
+  serverName: string;
+  messages: SamplingMessageView[];
+  /** Server instructions combined with the request's system prompt */
+  systemPrompt?: string;
+  tools: SamplingToolView[];
+  /** Tool choice mode requested by the server (auto / required / none) */
+  toolChoice?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Model chosen from the request's modelPreferences */
+  model?: string;
+  /** Why that model was chosen (matched hint, priorities, fallback) */
+  modelReason?: string;
+  /** The LLM's answer (response stage only) */
+  response?: SamplingResponseView;
+  /** ISO timestamp when the request arrived */
+  receivedAt: string;
+}
+
+// ============================================
+// Streaming Output (main → renderer)
+// ============================================
+
+export interface SamplingProgressPayload {
+  /** `${serverName}:${JSON-RPC request id}`, stable for one generation */
+  streamId: string;
+  serverName: string;
+  /** Text generated since the previous event */
+  text: string;
+  /** Generation finished or failed; drop the live view */
+  done: boolean;
+}
+
+// ============================================
+// Decisions (renderer → main)
+// ============================================
+
+/** Changes the user made to a request before approving it */
+export interface SamplingRequestEdits {
+  systemPrompt?: string;
+  /** Replacement text keyed by message index (editable messages only) */
+  messages?: Record<number, string>;
+  maxTokens?: number;
+  temperature?: number;
+  /** Names of the offered tools to keep */
+  tools?: string[];
+}
+
+export interface SamplingDecision {
+  approved: boolean;
+  /** Request stage: approve with these changes */
+  edits?: SamplingRequestEdits;
+  /** Response stage: send this text instead of the model's answer */
+  responseText?: string;
+}
@@ -0,0 +1,57 @@
+/**
+ * Tool Approval
+ *
+ * Decides which model-requested tool calls wait for the user before they
+ * run in the desktop chat. Annotations only count for servers the user
+ * trusts (see the warning in tool-annotations.ts): an untrusted server's
+ * tools always ask, whatever they claim. Tools and servers the user chose
+ * to "always allow" never ask.
+ */
+
+import { getWarningLevel, getWarningReason } from './tool-annotations.js';
+import type { ToolAnnotations } from './types.js';
+
+/** Saved in the desktop app's electron-store */
+export interface ToolApprovalSettings {
+  /** Servers whose tool annotations are believed */
+  trustedServers: string[];
+  /** Servers whose tools run without asking */
+  allowedServers: string[];
+  /** Qualified tool names (server__tool) that run without asking */
+  allowedTools: string[];
+}
+
+export const DEFAULT_TOOL_APPROVAL_SETTINGS: ToolApprovalSettings = {
+  trustedServers: [],
+  allowedServers: [],
+  allowedTools: [],
+};
+
+/** What the check needs to know about a tool call */
+export interface ToolApprovalSubject {
+  qualifiedName: string;
+  serverName: string;
+  annotations?: ToolAnnotations;
+}
+
+/**
+ * Why a tool call has to be approved first, or null if it can run now.
+ */
+export function getApprovalReason(tool: ToolApprovalSubject, settings: ToolApprovalSettings): string | null {
+  if (settings.allowedTools.includes(tool.qualifiedName) || settings.allowedServers.includes(tool.serverName)) {
+    return null;
+  }
+  if (!settings.trustedServers.includes(tool.serverName)) {
+    return `${tool.serverName} is not trusted, so its tool annotations are only hints`;
+  }
+  return getWarningLevel(tool) === 'danger' ? getWarningReason(tool) : null;
+}
+
+/**
+ * `list` with `value` added (once) or removed, for updating one of the
+ * settings lists.
+ */
+export function toggleEntry(list: string[], value: string, on: boolean): string[] {
+  const rest = list.filter((item) => item !== value);
+  return on ? [...rest, value] : rest;
+}
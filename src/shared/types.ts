@@ -15,6 +15,8 @@ export type {
   HealthCheckResult,
 } from '@skilljack/mcp-server-manager';
 
+import type { ElicitationCompletePayload, ElicitationRequestPayload } from './elicitation-types.js';
+
 // ============================================
 // Lifecycle Event Payloads (for IPC)
 // ============================================
@@ -73,6 +75,8 @@ export interface ServerSummary {
   toolCount: number;
   healthy?: boolean;
   restartAttempts?: number;
+  /** Transport negotiated with the server (Electron only) */
+  transport?: import('@skilljack/mcp-server-manager').ConnectionTransport;
   error?: string;
 }
 
@@ -173,6 +177,39 @@ export interface ResourceInfo {
   serverName: string;
 }
 
+export interface ResourceTemplateInfo {
+  /** Qualified template (server__uriTemplate) */
+  uriTemplate: string;
+  /** Template as the server declared it */
+  originalUriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  serverName: string;
+}
+
+/** A subscribed resource changed (notifications/resources/updated) */
+export interface ResourceUpdatedPayload {
+  serverName: string;
+  uri: string;
+}
+
+/** A running tool call reported progress (notifications/progress) */
+export interface ToolProgressPayload {
+  /** The id the call was started with (see callTool's callId) */
+  callId: string;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/** Suggestions for a template variable or prompt argument */
+export interface CompletionValues {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+}
+
 export interface UIResource {
   uri: string;
   mimeType: string;
@@ -185,7 +222,10 @@ export interface UIResource {
 // ============================================
 
 export interface PromptInfo {
+  /** Qualified name (server__prompt) */
   name: string;
+  /** Name as the server declared it */
+  originalName: string;
   description?: string;
   arguments?: PromptArgument[];
   serverName: string;
@@ -197,6 +237,18 @@ export interface PromptArgument {
   required?: boolean;
 }
 
+/** prompts/get result; message content is MCP content blocks */
+export interface PromptResult {
+  description?: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: unknown }>;
+}
+
+/** Base64 image attached to a chat message, as MCP carries it */
+export interface MessageImage {
+  mimeType: string;
+  data: string;
+}
+
 // ============================================
 // Chat API Types
 // ============================================
@@ -220,9 +272,13 @@ export type ChatApiMessage =
 
 export interface ChatApiUserMessage {
   role: 'user';
-  content: string;
+  content: string | ChatApiUserContentPart[];
 }
 
+export type ChatApiUserContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: string; mediaType: string };
+
 export interface ChatApiSystemMessage {
   role: 'system';
   content: string;
@@ -266,6 +322,15 @@ export interface ToolResultInfo {
 export interface McpContext {
   servers: Pick<ServerInfo, 'name' | 'version'>[];
   availableTools: McpTool[];
+  /** Resources the user pinned; their latest content goes into the system prompt */
+  pinnedResources?: PinnedResource[];
+}
+
+export interface PinnedResource {
+  serverName: string;
+  uri: string;
+  name: string;
+  text: string;
 }
 
 export interface ChatSettings {
@@ -308,15 +373,19 @@ export interface TokenUsage {
 export type WebSocketEvent =
   | { type: 'tools_changed' }
   | { type: 'servers_changed' }
-  | { type: 'resource_updated'; uri: string; serverName: string }
+  | { type: 'resource_updated'; data: ResourceUpdatedPayload }
   | { type: 'connection_error'; serverName: string; error: string }
+  | { type: 'tool_progress'; data: ToolProgressPayload }
   // Lifecycle events
   | { type: 'server_status_changed'; payload: ServerStatusChangedPayload }
   | { type: 'server_healthy'; payload: ServerHealthPayload }
   | { type: 'server_unhealthy'; payload: ServerHealthPayload }
   | { type: 'server_crashed'; payload: ServerCrashedPayload }
   | { type: 'server_restarting'; payload: ServerRestartingPayload }
-  | { type: 'manager_ready'; payload: ManagerReadyPayload };
+  | { type: 'manager_ready'; payload: ManagerReadyPayload }
+  // Elicitation form pushed by the web server (answered via POST /api/elicitation/:id)
+  | { type: 'elicitation_request'; data: ElicitationRequestPayload }
+  | { type: 'elicitation_complete'; data: ElicitationCompletePayload };
 
 // ============================================
 // Config Types
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { existsSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { createCatalogCache, loadCatalogsFromDisk } from './catalog-cache.js';
+
+/** Client whose tools/list serves the given pages, one cursor per page */
+function mockClient(pages: string[][]) {
+  const listTools = vi.fn(async (params?: { cursor?: string }) => {
+    const index = params?.cursor ? Number(params.cursor) : 0;
+    return {
+      tools: pages[index].map((name) => ({ name, inputSchema: { type: 'object' as const } })),
+      nextCursor: index + 1 < pages.length ? String(index + 1) : undefined,
+    };
+  });
+  const client = {
+    getServerCapabilities: () => ({ tools: {} }),
+    listTools,
+  };
+  return { client: client as unknown as Client, listTools };
+}
+
+const names = (tools: Array<{ name: string }>) => tools.map((t) => t.name);
+
+describe('CatalogCache', () => {
+  const dataDir = join(tmpdir(), 'skilljack-catalog-test-' + Date.now());
+
+  afterEach(() => {
+    if (existsSync(dataDir)) {
+      rmSync(dataDir, { recursive: true });
+    }
+  });
+
+  it('lists once until invalidated', async () => {
+    const { client, listTools } = mockClient([['a']]);
+    const catalog = createCatalogCache();
+
+    await catalog.list('s', client, 'tools');
+    await catalog.list('s', client, 'tools');
+    expect(listTools).toHaveBeenCalledTimes(1);
+
+    catalog.invalidate('s', 'tools');
+    await catalog.list('s', client, 'tools');
+    expect(listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one fetch between concurrent reads', async () => {
+    const { client, listTools } = mockClient([['a'], ['b']]);
+    const catalog = createCatalogCache();
+
+    const [first, second] = await Promise.all([
+      catalog.list('s', client, 'tools'),
+      catalog.list('s', client, 'tools'),
+    ]);
+
+    expect(first).toBe(second);
+    expect(listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not keep a list fetched before an invalidation', async () => {
+    const { client, listTools } = mockClient([['a']]);
+    const catalog = createCatalogCache();
+
+    const pending = catalog.list('s', client, 'tools');
+    catalog.invalidate('s');
+    await pending;
+    await catalog.list('s', client, 'tools');
+
+    expect(listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves the previous session from disk while refreshing it', async () => {
+    const first = createCatalogCache({ dataDir });
+    await first.list('s', mockClient([['old']]).client, 'tools');
+    expect(names(loadCatalogsFromDisk(dataDir).s.tools!)).toEqual(['old']);
+
+    const onRevalidated = vi.fn();
+    const second = createCatalogCache({ dataDir, onRevalidated });
+    const { client } = mockClient([['new']]);
+    expect(names(second.cached('s', 'tools')!)).toEqual(['old']);
+
+    expect(names(await second.list('s', client, 'tools'))).toEqual(['old']);
+    await vi.waitFor(() => expect(onRevalidated).toHaveBeenCalledWith('s', 'tools'));
+    expect(names(await second.list('s', client, 'tools'))).toEqual(['new']);
+  });
+
+  it('forgets removed servers', async () => {
+    const catalog = createCatalogCache({ dataDir });
+    await catalog.list('s', mockClient([['a']]).client, 'tools');
+
+    catalog.remove('s');
+
+    expect(catalog.cached('s', 'tools')).toBeUndefined();
+    expect(loadCatalogsFromDisk(dataDir)).toEqual({});
+  });
+});
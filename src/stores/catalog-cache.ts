@@ -0,0 +1,208 @@
+/**
+ * Catalog Cache
+ *
+ * Each server's tools, prompts, resources and resource templates, listed
+ * once (every page, up to a page cap) and reused until the server says the
+ * list changed or reconnects. Catalogs are saved to disk so the next session can show them
+ * before any server has answered: a list loaded from disk is served
+ * immediately while a fresh copy is fetched in the background.
+ *
+ * Usage:
+ *   import { createCatalogCache } from './stores/catalog-cache.js';
+ *
+ *   const catalog = createCatalogCache({
+ *     dataDir: path.join(os.homedir(), '.skilljack', 'data'),
+ *     onRevalidated: (serverName, kind) => console.log(`${serverName} ${kind} updated`),
+ *   });
+ *
+ *   const tools = await catalog.list('weather', client, 'tools');
+ *   // On notifications/tools/list_changed:
+ *   catalog.invalidate('weather', 'tools');
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { listAll, type ListItems } from '../capabilities/pagination.js';
+
+/**
+ * Item type of each catalog list.
+ */
+export type CatalogItems = ListItems;
+
+export type CatalogKind = keyof CatalogItems;
+
+/**
+ * One server's lists, all pages, as the server returned them.
+ */
+export type ServerCatalog = { [K in CatalogKind]?: CatalogItems[K][] };
+
+/**
+ * Configuration for the catalog cache.
+ */
+export interface CatalogCacheConfig {
+  /** Directory for catalog.json. Without it nothing is persisted. */
+  dataDir?: string;
+  /** Pages read per list before it is cut short (default: 100) */
+  maxPages?: number;
+  /** A list served from disk was refetched and turned out different */
+  onRevalidated?: (serverName: string, kind: CatalogKind) => void;
+  /** Callback for logging. */
+  onLog?: (msg: string) => void;
+}
+
+export interface CatalogCache {
+  /**
+   * A connected server's list. Fetched from the server unless a fresh copy
+   * is cached; a copy from the previous session is returned right away and
+   * refreshed in the background.
+   */
+  list<K extends CatalogKind>(serverName: string, client: Client, kind: K): Promise<CatalogItems[K][]>;
+  /** Last known list without contacting the server (e.g. a sleeping server) */
+  cached<K extends CatalogKind>(serverName: string, kind: K): CatalogItems[K][] | undefined;
+  /** Next list() fetches again: one kind on list_changed, everything on reconnect */
+  invalidate(serverName: string, kind?: CatalogKind): void;
+  /** Forget a server removed from the config */
+  remove(serverName: string): void;
+}
+
+const CATALOG_FILE = 'catalog.json';
+const KINDS: CatalogKind[] = ['tools', 'prompts', 'resources', 'resourceTemplates'];
+
+/**
+ * Creates a catalog cache, loading catalogs saved by a previous session.
+ *
+ * @param config - Configuration options
+ */
+export function createCatalogCache(config?: CatalogCacheConfig): CatalogCache {
+  const dataDir = config?.dataDir;
+  const log = config?.onLog ?? (() => {});
+
+  const catalogs: Record<string, ServerCatalog> = dataDir ? loadCatalogsFromDisk(dataDir) : {};
+  /** Lists fetched from the live server since it last changed or reconnected */
+  const fresh = new Set<string>();
+  /** Lists loaded from disk and not yet fetched this session */
+  const fromDisk = new Set<string>();
+  const inflight = new Map<string, Promise<unknown[]>>();
+  /** Bumped on invalidation so a fetch that started earlier isn't taken as fresh */
+  const versions = new Map<string, number>();
+
+  for (const [serverName, catalog] of Object.entries(catalogs)) {
+    for (const kind of KINDS) {
+      if (catalog[kind]) fromDisk.add(keyOf(serverName, kind));
+    }
+  }
+
+  function saveToDisk(): void {
+    if (!dataDir) return;
+    try {
+      if (!existsSync(dataDir)) {
+        mkdirSync(dataDir, { recursive: true });
+      }
+      writeFileSync(join(dataDir, CATALOG_FILE), JSON.stringify(catalogs));
+    } catch (err) {
+      log(`[Catalog] Failed to save catalogs: ${err}`);
+    }
+  }
+
+  function fetch<K extends CatalogKind>(serverName: string, client: Client, kind: K): Promise<CatalogItems[K][]> {
+    const key = keyOf(serverName, kind);
+    const pending = inflight.get(key);
+    if (pending) return pending as Promise<CatalogItems[K][]>;
+
+    const version = versions.get(key) ?? 0;
+    const request = listAll(client, kind, {
+      maxPages: config?.maxPages,
+      onTruncated: () => log(`[Catalog] ${kind} of ${serverName} cut short after the page cap`),
+    })
+      .then((items) => {
+        if ((versions.get(key) ?? 0) !== version) {
+          // Invalidated meanwhile; the caller still gets this answer, later reads refetch
+          return items;
+        }
+        const wasFromDisk = fromDisk.delete(key);
+        const changed = JSON.stringify(catalogs[serverName]?.[kind]) !== JSON.stringify(items);
+        catalogs[serverName] = { ...catalogs[serverName], [kind]: items };
+        fresh.add(key);
+        if (changed) {
+          saveToDisk();
+          if (wasFromDisk) config?.onRevalidated?.(serverName, kind);
+        }
+        return items;
+      })
+      .finally(() => {
+        if (inflight.get(key) === request) inflight.delete(key);
+      });
+    inflight.set(key, request);
+    return request;
+  }
+
+  function invalidate(serverName: string, kind?: CatalogKind): void {
+    for (const k of kind ? [kind] : KINDS) {
+      const key = keyOf(serverName, k);
+      fresh.delete(key);
+      inflight.delete(key);
+      versions.set(key, (versions.get(key) ?? 0) + 1);
+    }
+  }
+
+  return {
+    async list<K extends CatalogKind>(serverName: string, client: Client, kind: K): Promise<CatalogItems[K][]> {
+      const key = keyOf(serverName, kind);
+      const cachedItems = catalogs[serverName]?.[kind];
+      if (cachedItems && fresh.has(key)) {
+        return cachedItems;
+      }
+
+      if (cachedItems && fromDisk.has(key)) {
+        fetch(serverName, client, kind).catch((err) => {
+          log(`[Catalog] Failed to refresh ${kind} of ${serverName}: ${err}`);
+        });
+        return cachedItems;
+      }
+
+      return fetch(serverName, client, kind);
+    },
+
+    cached<K extends CatalogKind>(serverName: string, kind: K): CatalogItems[K][] | undefined {
+      return catalogs[serverName]?.[kind];
+    },
+
+    invalidate,
+
+    remove(serverName: string): void {
+      invalidate(serverName);
+      for (const kind of KINDS) {
+        fromDisk.delete(keyOf(serverName, kind));
+      }
+      if (catalogs[serverName]) {
+        delete catalogs[serverName];
+        saveToDisk();
+      }
+    },
+  };
+}
+
+function keyOf(serverName: string, kind: CatalogKind): string {
+  return `${serverName}\0${kind}`;
+}
+
+/**
+ * Loads saved catalogs from disk.
+ *
+ * @param dataDir - Directory containing catalog.json
+ * @returns Catalogs keyed by server name (empty if missing or unreadable)
+ */
+export function loadCatalogsFromDisk(dataDir: string): Record<string, ServerCatalog> {
+  const filePath = join(dataDir, CATALOG_FILE);
+
+  if (!existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8')) as Record<string, ServerCatalog>;
+  } catch {
+    return {};
+  }
+}
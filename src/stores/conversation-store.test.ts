@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, readdirSync, rmSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createConversationStore } from './conversation-store.js';
+import type { ConversationBackend } from '../shared/conversation-types.js';
+
+const backend: ConversationBackend = { kind: 'ai-sdk', role: 'doer' };
+
+function message(role: 'user' | 'assistant', content: string) {
+  return { id: `${role}-${content}`, role, content, timestamp: new Date().toISOString() };
+}
+
+describe('ConversationStore', () => {
+  const dataDir = join(tmpdir(), 'skilljack-conversations-test-' + Date.now());
+
+  afterEach(() => {
+    if (existsSync(dataDir)) {
+      rmSync(dataDir, { recursive: true });
+    }
+  });
+
+  it('keeps one file per session and reloads them in a new store', () => {
+    const first = createConversationStore({ dataDir });
+    first.save({ id: 'session-a', backend, messages: [message('user', 'What is the weather?')] });
+    first.save({ id: 'session-b', backend, messages: [message('user', 'Hello')] });
+
+    expect(readdirSync(dataDir).sort()).toEqual(['session-a.json', 'session-b.json']);
+
+    const second = createConversationStore({ dataDir });
+    expect(second.get('session-a')?.messages).toEqual(first.get('session-a')?.messages);
+    expect(second.list().map((c) => c.id).sort()).toEqual(['session-a', 'session-b']);
+  });
+
+  it('keeps the agent session of ACP conversations for resuming', () => {
+    const acp: ConversationBackend = { kind: 'acp', agentId: 'claude-code', agentName: 'Claude Code' };
+    const acpSession = { sessionId: 'agent-session-1', cwd: '/work/project' };
+    createConversationStore({ dataDir }).save({ id: 'session-a', backend: acp, acpSession, messages: [] });
+
+    expect(createConversationStore({ dataDir }).get('session-a')?.acpSession).toEqual(acpSession);
+  });
+
+  it('titles sessions from the first user message until renamed', () => {
+    const store = createConversationStore({ dataDir });
+    store.save({ id: 's', backend, messages: [] });
+    expect(store.get('s')?.title).toBe('New conversation');
+
+    store.save({ id: 's', backend, messages: [message('user', '  Plan   my trip  '), message('assistant', 'Sure')] });
+    expect(store.get('s')?.title).toBe('Plan my trip');
+
+    store.rename('s', 'Trip planning');
+    store.save({ id: 's', backend, messages: [message('user', 'Something else')] });
+    expect(store.get('s')?.title).toBe('Trip planning');
+
+    store.rename('s', '');
+    expect(store.get('s')?.title).toBe('Something else');
+  });
+
+  it('searches titles and message text, newest first', async () => {
+    const store = createConversationStore({ dataDir });
+    store.save({ id: 'old', backend, messages: [message('user', 'Forecast'), message('assistant', 'Rain in Oslo')] });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    store.save({ id: 'new', backend, messages: [message('user', 'oslo museums')] });
+    store.save({ id: 'other', backend, messages: [message('user', 'Unrelated')] });
+
+    expect(store.list('OSLO').map((c) => c.id)).toEqual(['new', 'old']);
+  });
+
+  it('searches content parts, tool names and tool results', () => {
+    const store = createConversationStore({ dataDir });
+    store.save({
+      id: 'parts',
+      backend,
+      messages: [{ id: 'u', role: 'user', content: [{ type: 'text', text: 'Compare these' }, { type: 'image', data: 'AAAA' }] }],
+    });
+    store.save({
+      id: 'tools',
+      backend,
+      messages: [
+        message('user', 'What is in the repo?'),
+        {
+          id: 'a',
+          role: 'assistant',
+          content: '',
+          toolCalls: [
+            {
+              id: 'call-1',
+              qualifiedName: 'files__list_directory',
+              displayName: 'list_directory',
+              status: 'completed',
+              result: { content: [{ type: 'text', text: 'README.md\npackage.json' }] },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(store.list('compare these').map((c) => c.id)).toEqual(['parts']);
+    expect(store.get('parts')?.title).toBe('Compare these');
+    expect(store.list('list_directory').map((c) => c.id)).toEqual(['tools']);
+    expect(store.list('package.json').map((c) => c.id)).toEqual(['tools']);
+    expect(store.list('AAAA')).toEqual([]);
+  });
+
+  it('deletes sessions and their files', () => {
+    const store = createConversationStore({ dataDir });
+    store.save({ id: 's', backend, messages: [message('user', 'Hi')] });
+
+    expect(store.remove('s')).toBe(true);
+    expect(store.remove('s')).toBe(false);
+    expect(existsSync(join(dataDir, 's.json'))).toBe(false);
+  });
+
+  it('rejects ids that are not plain file names and skips unreadable files', () => {
+    mkdirSync(dataDir, { recursive: true });
+    writeFileSync(join(dataDir, 'broken.json'), '{not json');
+    const store = createConversationStore({ dataDir });
+
+    expect(store.list()).toEqual([]);
+    expect(() => store.save({ id: '../escape', backend, messages: [] })).toThrow('Invalid conversation id');
+  });
+
+  it('skips files whose id is not a plain id matching the file name', () => {
+    mkdirSync(dataDir, { recursive: true });
+    const saved = (id: string) => JSON.stringify({ id, backend, title: 'x', createdAt: '', updatedAt: '', messages: [] });
+    writeFileSync(join(dataDir, 'a.json'), saved('b'));
+    writeFileSync(join(dataDir, 'escape.json'), saved('../escape'));
+    writeFileSync(join(dataDir, 'good.json'), saved('good'));
+    const store = createConversationStore({ dataDir });
+
+    expect(store.list().map((c) => c.id)).toEqual(['good']);
+    expect(() => store.rename('../escape', 'Renamed')).toThrow('Invalid conversation id');
+    expect(readdirSync(dataDir).sort()).toEqual(['a.json', 'escape.json', 'good.json']);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Conversation Store
+ *
+ * Chat sessions saved to disk, one JSON file per session, so they survive
+ * a new session or an app restart. Sessions are read once when the store is
+ * created; every save, rename or delete writes through to its file.
+ *
+ * Usage:
+ *   import { createConversationStore } from './stores/conversation-store.js';
+ *
+ *   const conversations = createConversationStore({
+ *     dataDir: path.join(app.getPath('userData'), 'conversations'),
+ *   });
+ *
+ *   conversations.save({ id: sessionId, backend, messages });
+ *   const matches = conversations.list('weather');
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+  Conversation,
+  ConversationInput,
+  ConversationSummary,
+} from '../shared/conversation-types.js';
+
+/**
+ * Configuration for the conversation store.
+ */
+export interface ConversationStoreConfig {
+  /** Directory holding one <id>.json per session */
+  dataDir: string;
+  /** Callback for logging. */
+  onLog?: (msg: string) => void;
+}
+
+export interface ConversationStore {
+  /** Newest first; `query` matches the title or any message text, ignoring case */
+  list(query?: string): ConversationSummary[];
+  get(id: string): Conversation | undefined;
+  /** Create or replace a session; the title follows the first user message until renamed */
+  save(input: ConversationInput): ConversationSummary;
+  rename(id: string, title: string): ConversationSummary | undefined;
+  /** False if there was no such session */
+  remove(id: string): boolean;
+}
+
+const UNTITLED = 'New conversation';
+const TITLE_LENGTH = 60;
+
+/** Session ids become file names, so only plain ids are accepted */
+const ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Creates a conversation store, loading sessions saved earlier.
+ *
+ * @param config - Configuration options
+ */
+export function createConversationStore(config: ConversationStoreConfig): ConversationStore {
+  const { dataDir } = config;
+  const log = config.onLog ?? (() => {});
+  const conversations = loadConversationsFromDisk(dataDir);
+
+  function write(conversation: Conversation): void {
+    try {
+      if (!existsSync(dataDir)) {
+        mkdirSync(dataDir, { recursive: true });
+      }
+      writeFileSync(fileOf(dataDir, conversation.id), JSON.stringify(conversation));
+    } catch (err) {
+      log(`[Conversations] Failed to save ${conversation.id}: ${err}`);
+    }
+  }
+
+  return {
+    list(query?: string): ConversationSummary[] {
+      const needle = query?.trim().toLowerCase();
+      return [...conversations.values()]
+        .filter((c) => !needle || c.title.toLowerCase().includes(needle) || searchText(c).includes(needle))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(toSummary);
+    },
+
+    get(id: string): Conversation | undefined {
+      return conversations.get(id);
+    },
+
+    save(input: ConversationInput): ConversationSummary {
+      checkId(input.id);
+      const existing = conversations.get(input.id);
+      const now = new Date().toISOString();
+      const conversation: Conversation = {
+        ...input,
+        title: existing?.titleEdited ? existing.title : titleFrom(input.messages),
+        titleEdited: existing?.titleEdited,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      conversations.set(input.id, conversation);
+      write(conversation);
+      return toSummary(conversation);
+    },
+
+    rename(id: string, title: string): ConversationSummary | undefined {
+      checkId(id);
+      const existing = conversations.get(id);
+      if (!existing) return undefined;
+      const trimmed = title.trim();
+      const conversation: Conversation = trimmed
+        ? { ...existing, title: trimmed, titleEdited: true }
+        : { ...existing, title: titleFrom(existing.messages), titleEdited: undefined };
+      conversations.set(id, conversation);
+      write(conversation);
+      return toSummary(conversation);
+    },
+
+    remove(id: string): boolean {
+      checkId(id);
+      if (!conversations.delete(id)) return false;
+      try {
+        rmSync(fileOf(dataDir, id), { force: true });
+      } catch (err) {
+        log(`[Conversations] Failed to delete ${id}: ${err}`);
+      }
+      return true;
+    },
+  };
+}
+
+/**
+ * Loads saved sessions from disk, skipping files that can't be read and
+ * files whose id isn't a plain id matching the file name (saves, renames
+ * and deletes find the file by id).
+ *
+ * @param dataDir - Directory holding the session files
+ * @returns Sessions keyed by id
+ */
+export function loadConversationsFromDisk(dataDir: string): Map<string, Conversation> {
+  const conversations = new Map<string, Conversation>();
+  if (!existsSync(dataDir)) {
+    return conversations;
+  }
+
+  for (const file of readdirSync(dataDir)) {
+    if (!file.endsWith('.json')) continue;
+    const id = file.slice(0, -'.json'.length);
+    if (!ID_PATTERN.test(id)) continue;
+    try {
+      const conversation = JSON.parse(readFileSync(join(dataDir, file), 'utf-8')) as Conversation;
+      if (conversation.id === id && Array.isArray(conversation.messages)) {
+        conversations.set(conversation.id, conversation);
+      }
+    } catch {
+      // Unreadable file; leave it for the user to inspect
+    }
+  }
+  return conversations;
+}
+
+function checkId(id: string): void {
+  if (!ID_PATTERN.test(id)) {
+    throw new Error(`Invalid conversation id: ${id}`);
+  }
+}
+
+function fileOf(dataDir: string, id: string): string {
+  return join(dataDir, `${id}.json`);
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    backend: conversation.backend,
+    modelConfig: conversation.modelConfig,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length,
+  };
+}
+
+/**
+ * Text in a message's content: a string, text parts of a content array, or
+ * text nested in tool results. Images and other binary parts are skipped.
+ */
+function textOf(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(textOf).filter(Boolean).join('\n');
+  if (value && typeof value === 'object') {
+    const { text, content } = value as { text?: unknown; content?: unknown };
+    if (typeof text === 'string') return text;
+    return textOf(content);
+  }
+  return '';
+}
+
+/** Messages are otherwise opaque here */
+function messageText(message: unknown): string {
+  return textOf((message as { content?: unknown } | null)?.content);
+}
+
+function messageRole(message: unknown): unknown {
+  return (message as { role?: unknown } | null)?.role;
+}
+
+interface SavedToolCall {
+  qualifiedName?: unknown;
+  displayName?: unknown;
+  result?: { content?: unknown };
+  acp?: { title?: unknown; content?: unknown };
+}
+
+/** Tool names and results saved with a message */
+function toolCallText(message: unknown): string {
+  const toolCalls = (message as { toolCalls?: unknown } | null)?.toolCalls;
+  if (!Array.isArray(toolCalls)) return '';
+  return (toolCalls as SavedToolCall[])
+    .flatMap((tc) => [tc.qualifiedName, tc.displayName, tc.acp?.title, textOf(tc.result?.content), textOf(tc.acp?.content)])
+    .filter((part): part is string => typeof part === 'string' && part !== '')
+    .join('\n');
+}
+
+function searchText(conversation: Conversation): string {
+  return conversation.messages
+    .flatMap((message) => [messageText(message), toolCallText(message)])
+    .join('\n')
+    .toLowerCase();
+}
+
+function titleFrom(messages: unknown[]): string {
+  const first = messages.find((m) => messageRole(m) === 'user' && messageText(m).trim());
+  const text = first ? messageText(first).trim().replace(/\s+/g, ' ') : '';
+  if (!text) return UNTITLED;
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+}
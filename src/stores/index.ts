@@ -12,3 +12,20 @@ export {
   type PersistentTaskStoreConfig,
   type TaskRecord,
 } from './persistent-task-store.js';
+
+export {
+  createCatalogCache,
+  loadCatalogsFromDisk,
+  type CatalogCache,
+  type CatalogCacheConfig,
+  type CatalogItems,
+  type CatalogKind,
+  type ServerCatalog,
+} from './catalog-cache.js';
+
+export {
+  createConversationStore,
+  loadConversationsFromDisk,
+  type ConversationStore,
+  type ConversationStoreConfig,
+} from './conversation-store.js';
@@ -9,6 +9,8 @@
  */
 
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { WebSocketClientTransport } from '@modelcontextprotocol/sdk/client/websocket.js';
 
 /**
  * Create an HTTP transport for a remote server.
@@ -26,6 +28,27 @@ export function createHttpTransport(
   return new StreamableHTTPClientTransport(new URL(url), options);
 }
 
+/**
+ * Create a transport for a server on the legacy HTTP+SSE transport.
+ */
+export function createSseTransport(
+  url: string,
+  headers?: Record<string, string>
+): SSEClientTransport {
+  return new SSEClientTransport(new URL(url), headers ? { requestInit: { headers } } : undefined);
+}
+
+/**
+ * Create a WebSocket transport (ws:// or wss://). Needs a global
+ * WebSocket, i.e. Node 22+.
+ */
+export function createWebSocketTransport(url: string): WebSocketClientTransport {
+  if (typeof WebSocket === 'undefined') {
+    throw new Error('WebSocket transport needs Node 22 or later');
+  }
+  return new WebSocketClientTransport(new URL(url));
+}
+
 /**
  * Create an HTTP transport with Bearer token authentication.
  */
@@ -3,4 +3,9 @@
  */
 
 export { createStdioTransport, createPythonTransport } from './stdio.js';
-export { createHttpTransport, createAuthenticatedTransport } from './http.js';
+export {
+  createHttpTransport,
+  createSseTransport,
+  createWebSocketTransport,
+  createAuthenticatedTransport,
+} from './http.js';
@@ -1,7 +1,8 @@
 /**
  * OAuth Provider for CLI Applications
  *
- * Handles the OAuth 2.0 authorization code flow for terminal apps:
+ * Handles the OAuth 2.0 authorization code flow for terminal apps (and the
+ * Electron app, which passes its own openBrowser and log):
  * 1. Opens browser for user authorization
  * 2. Starts local callback server to receive auth code
  * 3. Exchanges code for tokens
@@ -26,6 +27,10 @@ export interface OAuthConfig {
   callbackPort?: number;
   /** Client name */
   clientName?: string;
+  /** Open the authorization URL (default: the platform's open command) */
+  openBrowser?: (url: string) => void | Promise<void>;
+  /** Progress messages for the user (default: console.log) */
+  log?: (message: string) => void;
 }
 
 interface StoredAuth {
@@ -46,7 +51,7 @@ interface StoredAuth {
  * 6. We retry the connection
  */
 export class CliOAuthProvider implements OAuthClientProvider {
-  private config: Required<OAuthConfig>;
+  private config: Required<Omit<OAuthConfig, 'openBrowser'>> & Pick<OAuthConfig, 'openBrowser'>;
   private storedAuth: StoredAuth = {};
   private callbackServer: Server | null = null;
   private pendingAuthCode: Promise<string> | null = null;
@@ -58,6 +63,8 @@ export class CliOAuthProvider implements OAuthClientProvider {
       tokenFile: config.tokenFile,
       callbackPort: config.callbackPort ?? 8787,
       clientName: config.clientName ?? 'mcp-skilljack-client',
+      openBrowser: config.openBrowser,
+      log: config.log ?? ((message) => console.log(message)),
     };
   }
 
@@ -114,8 +121,8 @@ export class CliOAuthProvider implements OAuthClientProvider {
    * The callback server is started and will resolve pendingAuthCode when received.
    */
   async redirectToAuthorization(authUrl: URL): Promise<void> {
-    console.log('\n[OAuth] Authorization required. Opening browser...\n');
-    console.log(`If the browser doesn't open, visit:\n${authUrl.toString()}\n`);
+    this.config.log('\n[OAuth] Authorization required. Opening browser...\n');
+    this.config.log(`If the browser doesn't open, visit:\n${authUrl.toString()}\n`);
 
     // Start callback server before opening browser
     this.startCallbackServer();
@@ -170,11 +177,11 @@ export class CliOAuthProvider implements OAuthClientProvider {
             <html>
               <body style="font-family: sans-serif; padding: 40px; text-align: center;">
                 <h1>Authorization Successful!</h1>
-                <p>You can close this window and return to the terminal.</p>
+                <p>You can close this window and return to ${this.config.clientName}.</p>
               </body>
             </html>
           `);
-          console.log('[OAuth] Authorization code received!\n');
+          this.config.log('[OAuth] Authorization code received!\n');
           this.stopCallbackServer();
           this.pendingAuthResolve?.(code);
           return;
@@ -210,6 +217,13 @@ export class CliOAuthProvider implements OAuthClientProvider {
   }
 
   private openBrowser(url: string): void {
+    if (this.config.openBrowser) {
+      Promise.resolve(this.config.openBrowser(url)).catch((error) => {
+        this.config.log(`[OAuth] Could not open browser automatically: ${error instanceof Error ? error.message : String(error)}`);
+      });
+      return;
+    }
+
     const platform = process.platform;
     let cmd: string;
 
@@ -223,7 +237,7 @@ export class CliOAuthProvider implements OAuthClientProvider {
 
     exec(cmd, (error) => {
       if (error) {
-        console.log(`[OAuth] Could not open browser automatically: ${error.message}`);
+        this.config.log(`[OAuth] Could not open browser automatically: ${error.message}`);
       }
     });
   }
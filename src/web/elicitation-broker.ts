@@ -0,0 +1,257 @@
+/**
+ * Elicitation Broker
+ *
+ * Bridges server-initiated elicitation/create requests to a UI that lives
+ * elsewhere: the Electron renderer (over IPC) or the web chat (over the
+ * WebSocket). Requests are pushed with a correlation id and resolved when
+ * the UI answers. Pending requests are cancelled when the UI goes away,
+ * so a server never waits on a form nobody can see.
+ *
+ * URL-mode requests live on after the user accepts: the broker opens the
+ * URL (when the host can) and keeps a waiting entry until the server sends
+ * notifications/elicitation/complete or the user cancels, so tool calls
+ * blocked on the flow know when to retry.
+ */
+
+import type { ElicitationResult, UrlElicitation } from '../capabilities/elicitation.js';
+import { toElicitationFields } from '../shared/elicitation-form.js';
+import type {
+  ElicitationCompletePayload,
+  ElicitationDecision,
+  ElicitationRequestPayload,
+} from '../shared/elicitation-types.js';
+
+export interface ElicitationBrokerOptions {
+  /** Push a request to the UI */
+  send: (payload: ElicitationRequestPayload) => void;
+  /** Tell the UI an accepted URL request finished */
+  sendComplete?: (payload: ElicitationCompletePayload) => void;
+  /** Open an accepted URL; omit when the UI opens it itself (web tab) */
+  openUrl?: (url: string) => Promise<void> | void;
+  log?: (message: string) => void;
+}
+
+/** An accepted URL request waiting for the server's completion notification */
+interface UrlWait {
+  serverName: string;
+  elicitationId: string;
+  finish: (completed: boolean) => void;
+}
+
+interface PendingElicitation {
+  serverName: string;
+  fieldNames: Set<string>;
+  /** URL mode: becomes a UrlWait once accepted */
+  wait?: Omit<UrlWait, 'serverName'> & { url: string };
+  resolve: (result: ElicitationResult) => void;
+}
+
+/**
+ * Only web pages are opened; anything else (file:, javascript:, custom
+ * schemes) is declined before the user sees it.
+ */
+export function isOpenableUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Flatten a form elicitation into the serializable view sent to the UI.
+ */
+export function toElicitationRequestPayload(
+  requestId: string,
+  serverName: string,
+  message: string,
+  schema?: Record<string, unknown>
+): ElicitationRequestPayload {
+  return {
+    requestId,
+    serverName,
+    mode: 'form',
+    message,
+    fields: toElicitationFields(schema),
+    receivedAt: new Date().toISOString(),
+  };
+}
+
+export class ElicitationBroker {
+  private pending = new Map<string, PendingElicitation>();
+  /** Accepted URL requests keyed by correlation id */
+  private waits = new Map<string, UrlWait>();
+  private counter = 0;
+  private log: (message: string) => void;
+
+  constructor(private options: ElicitationBrokerOptions) {
+    this.log = options.log ?? (() => {});
+  }
+
+  /**
+   * Push a form to the UI and wait for the answer.
+   * No timeout by design: the server's tool call legitimately blocks on the user.
+   */
+  request(serverName: string, message: string, schema?: Record<string, unknown>): Promise<ElicitationResult> {
+    const requestId = this.nextId();
+    const payload = toElicitationRequestPayload(requestId, serverName, message, schema);
+    return new Promise<ElicitationResult>((resolve) => {
+      this.track(requestId, payload, { serverName, fieldNames: new Set(payload.fields.map((f) => f.name)), resolve });
+    });
+  }
+
+  /**
+   * Ask the user to open a URL for a server-initiated URL elicitation.
+   * Resolves as soon as the user answers; completion is reported separately.
+   */
+  async requestUrl(
+    serverName: string,
+    message: string,
+    url: string,
+    elicitationId: string
+  ): Promise<ElicitationResult> {
+    const { result } = await this.askUrl(serverName, { message, url, elicitationId });
+    return result;
+  }
+
+  /**
+   * Run a URL elicitation a tool call requires (error -32042) end to end:
+   * ask, open, and wait for the server to report completion. Resolves
+   * false if the user declines or stops waiting.
+   */
+  async elicitUrl(serverName: string, elicitation: UrlElicitation): Promise<boolean> {
+    const { result, completion } = await this.askUrl(serverName, elicitation);
+    return result.action === 'accept' ? completion : false;
+  }
+
+  /**
+   * The server sent notifications/elicitation/complete.
+   */
+  complete(serverName: string, elicitationId: string): void {
+    for (const [requestId, wait] of this.waits) {
+      if (wait.serverName === serverName && wait.elicitationId === elicitationId) {
+        this.log(`[Elicitation] ${serverName}: URL elicitation ${elicitationId} complete`);
+        wait.finish(true);
+        this.options.sendComplete?.({ requestId, serverName, elicitationId });
+        return;
+      }
+    }
+    this.log(`[Elicitation] ${serverName}: completion for unknown elicitation ${elicitationId}`);
+  }
+
+  /**
+   * Answer a pending request, or cancel a URL request that is still
+   * waiting. Returns false when the id is unknown (already answered,
+   * completed or cancelled).
+   */
+  respond(requestId: string, decision: ElicitationDecision): boolean {
+    const wait = this.waits.get(requestId);
+    if (wait) {
+      if (decision.action === 'cancel') {
+        this.log(`[Elicitation] ${wait.serverName}: stopped waiting for ${wait.elicitationId}`);
+        wait.finish(false);
+      }
+      return true;
+    }
+
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      this.log(`[Elicitation] Response for unknown request: ${requestId}`);
+      return false;
+    }
+
+    this.log(`[Elicitation] ${entry.serverName}: ${decision.action}`);
+    if (decision.action !== 'accept') {
+      entry.resolve({ action: decision.action });
+      return true;
+    }
+
+    if (entry.wait) {
+      const { url, ...wait } = entry.wait;
+      this.waits.set(requestId, { serverName: entry.serverName, ...wait });
+      entry.resolve({ action: 'accept' });
+      this.open(url);
+      return true;
+    }
+
+    // Only send back fields the server asked for
+    const content = Object.fromEntries(
+      Object.entries(decision.content ?? {}).filter(([name]) => entry.fieldNames.has(name))
+    );
+    entry.resolve({ action: 'accept', content });
+    return true;
+  }
+
+  /** Cancel everything still pending or waiting (UI closed, config reload, shutdown). */
+  cancelAll(): void {
+    for (const entry of [...this.pending.values()]) {
+      entry.resolve({ action: 'cancel' });
+    }
+    for (const wait of [...this.waits.values()]) {
+      wait.finish(false);
+    }
+  }
+
+  private async askUrl(
+    serverName: string,
+    elicitation: Pick<UrlElicitation, 'message' | 'url' | 'elicitationId'>
+  ): Promise<{ result: ElicitationResult; completion: Promise<boolean> }> {
+    const { message, url, elicitationId } = elicitation;
+    if (!isOpenableUrl(url)) {
+      this.log(`[Elicitation] ${serverName}: declined non-web URL ${url}`);
+      return { result: { action: 'decline' }, completion: Promise.resolve(false) };
+    }
+
+    const requestId = this.nextId();
+    let finish!: (completed: boolean) => void;
+    const completion = new Promise<boolean>((resolve) => {
+      finish = (completed) => {
+        this.waits.delete(requestId);
+        resolve(completed);
+      };
+    });
+
+    const payload: ElicitationRequestPayload = {
+      requestId,
+      serverName,
+      mode: 'url',
+      message,
+      fields: [],
+      url,
+      elicitationId,
+      receivedAt: new Date().toISOString(),
+    };
+    const result = await new Promise<ElicitationResult>((resolve) => {
+      this.track(requestId, payload, {
+        serverName,
+        fieldNames: new Set(),
+        wait: { elicitationId, url, finish },
+        resolve,
+      });
+    });
+    return { result, completion };
+  }
+
+  private track(requestId: string, payload: ElicitationRequestPayload, entry: PendingElicitation): void {
+    this.pending.set(requestId, {
+      ...entry,
+      resolve: (result) => {
+        this.pending.delete(requestId);
+        entry.resolve(result);
+      },
+    });
+    this.options.send(payload);
+  }
+
+  private open(url: string): void {
+    if (!this.options.openUrl) return;
+    Promise.resolve(this.options.openUrl(url)).catch((error) => {
+      this.log(`[Elicitation] Failed to open ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
+  private nextId(): string {
+    return `elicitation-${++this.counter}-${Date.now()}`;
+  }
+}
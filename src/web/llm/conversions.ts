@@ -0,0 +1,393 @@
+/**
+ * MCP <-> AI SDK Conversions
+ *
+ * Shared by the chat stream (provider.ts) and server-initiated sampling
+ * (capabilities/sampling.ts), so both paths hand providers the same
+ * schemas, messages and tool definitions regardless of which provider
+ * is behind the registry.
+ */
+
+import {
+  jsonSchema,
+  tool,
+  type AssistantContent,
+  type FinishReason,
+  type ModelMessage,
+  type ToolChoice as AiToolChoice,
+  type ToolResultPart,
+  type ToolSet,
+  type UserContent,
+} from 'ai';
+import type { JSONSchema7, JSONSchema7Definition } from 'json-schema';
+import {
+  ErrorCode,
+  McpError,
+  type AudioContent,
+  type CreateMessageResult,
+  type CreateMessageResultWithTools,
+  type EmbeddedResource,
+  type ImageContent,
+  type ResourceLink,
+  type SamplingMessage,
+  type TextContent,
+  type Tool,
+  type ToolChoice,
+  type ToolResultContent,
+  type ToolUseContent,
+} from '@modelcontextprotocol/sdk/types.js';
+
+type SamplingContentBlock = Exclude<SamplingMessage['content'], unknown[]>;
+type ToolResultBlock = ToolResultContent['content'][number];
+
+// ============================================
+// Schema Normalization
+// ============================================
+
+/**
+ * Ensures a schema is a valid JSON Schema object.
+ * Many MCP tools omit top-level type; Anthropic requires object.
+ */
+export function ensureJsonSchemaObject(schema: unknown): JSONSchema7 {
+  if (schema && typeof schema === 'object') {
+    const record = schema as Record<string, unknown>;
+    const base: JSONSchema7 = record.jsonSchema
+      ? ensureJsonSchemaObject(record.jsonSchema)
+      : (record as JSONSchema7);
+
+    // Many MCP tools omit top-level type; Anthropic requires object
+    if (!('type' in base) || base.type === undefined) {
+      base.type = 'object';
+    }
+    if (base.type === 'object') {
+      base.properties = (base.properties ?? {}) as Record<string, JSONSchema7Definition>;
+      if (base.additionalProperties === undefined) {
+        base.additionalProperties = false;
+      }
+    }
+    return base;
+  }
+  return { type: 'object', properties: {}, additionalProperties: false };
+}
+
+/**
+ * Convert an MCP tool inputSchema into an AI SDK input schema
+ */
+export function toAiSdkInputSchema(inputSchema: unknown) {
+  const normalizedSchema = ensureJsonSchemaObject(inputSchema);
+  return jsonSchema({
+    type: 'object',
+    properties: normalizedSchema.properties ?? {},
+    additionalProperties: normalizedSchema.additionalProperties ?? false,
+    ...(normalizedSchema.required ? { required: normalizedSchema.required as string[] } : {}),
+  });
+}
+
+// ============================================
+// Sampling Tools
+// ============================================
+
+/**
+ * Convert tools from a sampling request to AI SDK tools.
+ * No execute function: tool calls are handed back to the requesting server.
+ */
+export function samplingToolsToAiSdk(tools: Tool[]): ToolSet {
+  const toolSet: ToolSet = {};
+  for (const mcpTool of tools) {
+    toolSet[mcpTool.name] = tool({
+      description: mcpTool.description,
+      inputSchema: toAiSdkInputSchema(mcpTool.inputSchema),
+    });
+  }
+  return toolSet;
+}
+
+export function samplingToolChoiceToAiSdk(choice: ToolChoice): AiToolChoice<ToolSet> {
+  switch (choice.mode) {
+    case 'required':
+      return 'required';
+    case 'none':
+      return 'none';
+    default:
+      return 'auto';
+  }
+}
+
+// ============================================
+// Sampling Content
+// ============================================
+
+/**
+ * What happens to media the provider can't accept natively:
+ * - 'describe': replace it with a short text note (default)
+ * - 'omit': drop it silently
+ * - 'reject': fail the request with InvalidParams
+ */
+export type ContentDowngrade = 'describe' | 'omit' | 'reject';
+
+export interface SamplingContentOptions {
+  /** Media types the model accepts natively (default: all) */
+  supportsMediaType?: (mediaType: string) => boolean;
+  downgrade?: ContentDowngrade;
+  /** Called with a description of each downgraded block */
+  onDowngrade?: (description: string) => void;
+}
+
+/**
+ * Provider-neutral form of one MCP content block: text, or binary media
+ * the provider may or may not accept.
+ */
+type NeutralPart =
+  | { kind: 'text'; text: string }
+  | { kind: 'media'; label: string; data: string; mediaType: string; filename?: string };
+
+function toNeutralPart(block: SamplingContentBlock | ToolResultBlock): NeutralPart {
+  switch (block.type) {
+    case 'text':
+      return { kind: 'text', text: (block as TextContent).text };
+    case 'image': {
+      const image = block as ImageContent;
+      return { kind: 'media', label: 'image', data: image.data, mediaType: image.mimeType };
+    }
+    case 'audio': {
+      const audio = block as AudioContent;
+      return { kind: 'media', label: 'audio', data: audio.data, mediaType: audio.mimeType };
+    }
+    case 'resource': {
+      const { resource } = block as EmbeddedResource;
+      if ('text' in resource) {
+        return { kind: 'text', text: `[Resource ${resource.uri}]\n${resource.text}` };
+      }
+      return {
+        kind: 'media',
+        label: `resource ${resource.uri}`,
+        data: resource.blob,
+        mediaType: resource.mimeType ?? 'application/octet-stream',
+        filename: resource.uri.split('/').pop() || undefined,
+      };
+    }
+    case 'resource_link': {
+      // The provider can't dereference MCP URIs, so links stay textual
+      const link = block as ResourceLink;
+      const details = [link.mimeType, link.description].filter(Boolean).join(' — ');
+      return { kind: 'text', text: `[Resource link: ${link.name} <${link.uri}>${details ? ` ${details}` : ''}]` };
+    }
+    default:
+      return { kind: 'text', text: JSON.stringify(block) };
+  }
+}
+
+/**
+ * Resolve a neutral part against the provider's capabilities. Returns the
+ * part unchanged, a text stand-in, or undefined when it should be dropped.
+ */
+function applyDowngrade(part: NeutralPart, options: SamplingContentOptions): NeutralPart | undefined {
+  if (part.kind === 'text' || (options.supportsMediaType?.(part.mediaType) ?? true)) {
+    return part;
+  }
+
+  const description = `${part.label} (${part.mediaType})`;
+  switch (options.downgrade ?? 'describe') {
+    case 'reject':
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Sampling content not supported by the model: ${description}`,
+        { mediaType: part.mediaType }
+      );
+    case 'omit':
+      options.onDowngrade?.(`omitted ${description}`);
+      return undefined;
+    default:
+      options.onDowngrade?.(`described ${description} as text`);
+      return { kind: 'text', text: `[${description} omitted: not supported by this model]` };
+  }
+}
+
+function resolveParts(
+  blocks: Array<SamplingContentBlock | ToolResultBlock>,
+  options: SamplingContentOptions
+): NeutralPart[] {
+  return blocks
+    .map((block) => applyDowngrade(toNeutralPart(block), options))
+    .filter((part): part is NeutralPart => part !== undefined);
+}
+
+// ============================================
+// Sampling Messages
+// ============================================
+
+function toBlocks(content: SamplingMessage['content']): SamplingContentBlock[] {
+  return (Array.isArray(content) ? content : [content]) as SamplingContentBlock[];
+}
+
+/**
+ * Tool results that are all text stay plain text; anything with media
+ * becomes multi-part content so images and files reach the model intact.
+ */
+function samplingToolResultOutput(
+  result: ToolResultContent,
+  options: SamplingContentOptions
+): ToolResultPart['output'] {
+  const parts = resolveParts(result.content ?? [], options);
+
+  if (result.isError || parts.every((part) => part.kind === 'text')) {
+    const text = parts
+      .map((part) => (part.kind === 'text' ? part.text : `[${part.label} (${part.mediaType})]`))
+      .join('\n');
+    return result.isError ? { type: 'error-text', value: text } : { type: 'text', value: text };
+  }
+
+  return {
+    type: 'content',
+    value: parts.map((part) =>
+      part.kind === 'text'
+        ? { type: 'text' as const, text: part.text }
+        : {
+            type: 'file' as const,
+            data: { type: 'data' as const, data: part.data },
+            mediaType: part.mediaType,
+            ...(part.filename ? { filename: part.filename } : {}),
+          }
+    ),
+  };
+}
+
+function toUserContent(
+  blocks: SamplingContentBlock[],
+  options: SamplingContentOptions
+): Exclude<UserContent, string> {
+  return resolveParts(blocks, options).map((part) => {
+    if (part.kind === 'text') {
+      return { type: 'text' as const, text: part.text };
+    }
+    if (part.mediaType.startsWith('image/')) {
+      return { type: 'image' as const, image: part.data, mediaType: part.mediaType };
+    }
+    return {
+      type: 'file' as const,
+      data: part.data,
+      mediaType: part.mediaType,
+      ...(part.filename ? { filename: part.filename } : {}),
+    };
+  });
+}
+
+function toAssistantContent(
+  blocks: SamplingContentBlock[],
+  options: SamplingContentOptions
+): Exclude<AssistantContent, string> {
+  return blocks.flatMap((block): Exclude<AssistantContent, string> => {
+    if (block.type === 'tool_use') {
+      const toolUse = block as ToolUseContent;
+      return [{
+        type: 'tool-call' as const,
+        toolCallId: toolUse.id,
+        toolName: toolUse.name,
+        input: toolUse.input,
+      }];
+    }
+    // Prior assistant turns are replayed as text; providers don't take media back as model output
+    const part = applyDowngrade(toNeutralPart(block), { ...options, supportsMediaType: () => false });
+    return part?.kind === 'text' ? [{ type: 'text' as const, text: part.text }] : [];
+  });
+}
+
+/**
+ * Convert MCP sampling messages to AI SDK model messages.
+ *
+ * MCP carries tool results as tool_result blocks inside user messages;
+ * the AI SDK wants them in separate 'tool' messages that name the tool,
+ * so tool names are looked up from earlier tool_use blocks. Images, audio
+ * and embedded blobs become native parts when the model accepts their
+ * media type, and follow `options.downgrade` otherwise.
+ */
+export function samplingMessagesToModelMessages(
+  messages: SamplingMessage[],
+  options: SamplingContentOptions = {}
+): ModelMessage[] {
+  const toolNames = new Map<string, string>();
+  const result: ModelMessage[] = [];
+
+  for (const message of messages) {
+    const blocks = toBlocks(message.content);
+
+    if (message.role === 'assistant') {
+      for (const block of blocks) {
+        if (block.type === 'tool_use') {
+          const toolUse = block as ToolUseContent;
+          toolNames.set(toolUse.id, toolUse.name);
+        }
+      }
+      result.push({ role: 'assistant', content: toAssistantContent(blocks, options) });
+      continue;
+    }
+
+    const toolResults = blocks.filter((block) => block.type === 'tool_result') as ToolResultContent[];
+    if (toolResults.length > 0) {
+      result.push({
+        role: 'tool',
+        content: toolResults.map((toolResult) => ({
+          type: 'tool-result' as const,
+          toolCallId: toolResult.toolUseId,
+          toolName: toolNames.get(toolResult.toolUseId) ?? 'unknown',
+          output: samplingToolResultOutput(toolResult, options),
+        })),
+      });
+    }
+
+    const rest = blocks.filter((block) => block.type !== 'tool_result');
+    if (rest.length > 0) {
+      result.push({ role: 'user', content: toUserContent(rest, options) });
+    }
+  }
+
+  return result;
+}
+
+// ============================================
+// Sampling Results
+// ============================================
+
+export function finishReasonToStopReason(reason: FinishReason): string {
+  switch (reason) {
+    case 'stop':
+      return 'endTurn';
+    case 'length':
+      return 'maxTokens';
+    case 'tool-calls':
+      return 'toolUse';
+    default:
+      return reason;
+  }
+}
+
+/**
+ * Convert an AI SDK generation result into an MCP sampling result.
+ * Tool calls become tool_use blocks for the server to execute.
+ */
+export function aiSdkResultToSamplingResult(result: {
+  text: string;
+  toolCalls: Array<{ toolCallId: string; toolName: string; input: unknown }>;
+  finishReason: FinishReason;
+  modelId: string;
+}): CreateMessageResult | CreateMessageResultWithTools {
+  if (result.toolCalls.length > 0) {
+    return {
+      role: 'assistant',
+      content: result.toolCalls.map((call) => ({
+        type: 'tool_use' as const,
+        id: call.toolCallId,
+        name: call.toolName,
+        input: (call.input ?? {}) as Record<string, unknown>,
+      })),
+      model: result.modelId,
+      stopReason: 'toolUse',
+    };
+  }
+
+  return {
+    role: 'assistant',
+    content: { type: 'text', text: result.text },
+    model: result.modelId,
+    stopReason: finishReasonToStopReason(result.finishReason),
+  };
+}
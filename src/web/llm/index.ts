@@ -8,6 +8,10 @@ export { createChatHandler, createToolExecuteHandler } from './routes.js';
 export {
   getModel,
   getAvailableProviders,
+  getProviderApiKey,
+  getDefaultModel,
+  getConfiguredProviders,
+  supportsMediaType,
   convertMcpToolsToAiSdk,
   addThemeTools,
   streamChat,
@@ -15,4 +19,15 @@ export {
   mergeSettings
 } from './provider.js';
 export { buildSystemPrompt } from './system-prompt.js';
+export {
+  ensureJsonSchemaObject,
+  toAiSdkInputSchema,
+  samplingToolsToAiSdk,
+  samplingToolChoiceToAiSdk,
+  samplingMessagesToModelMessages,
+  finishReasonToStopReason,
+  aiSdkResultToSamplingResult,
+} from './conversions.js';
+export { selectSamplingModel } from './model-selection.js';
+export type { ModelSelection, ModelSelectionOptions } from './model-selection.js';
 export type * from './types.js';
@@ -0,0 +1,160 @@
+/**
+ * Model Selection
+ *
+ * Maps MCP sampling modelPreferences (hints + cost/speed/intelligence
+ * priorities) onto the models offered in Settings. Follows the spec's
+ * precedence: hints are advisory and tried in order, priorities decide
+ * when no hint matches, and the configured model is the fallback.
+ *
+ * The model lists in shared/models.ts are ordered fast & cheap → most
+ * capable, so a model's position is its tier.
+ */
+
+import type { ModelPreferences } from '@modelcontextprotocol/sdk/types.js';
+import {
+  anthropicModels,
+  openaiModels,
+  type ModelOption,
+  type Provider,
+} from '../../shared/models.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ModelSelection {
+  modelId: string;
+  /** Human-readable explanation, shown in logs and approval UIs */
+  reason: string;
+}
+
+export interface ModelSelectionOptions {
+  provider: string;
+  /** Model used when preferences are absent or can't be matched */
+  defaultModel: string;
+}
+
+const catalogs: Record<Provider, ModelOption[]> = {
+  anthropic: anthropicModels,
+  openai: openaiModels,
+};
+
+// ============================================
+// Scoring
+// ============================================
+
+/** Position in the catalog normalized to 0 (fastest/cheapest) .. 1 (most capable) */
+function tierOf(index: number, count: number): number {
+  return count > 1 ? index / (count - 1) : 0.5;
+}
+
+function matchesHint(model: ModelOption, hint: string): boolean {
+  const needle = hint.toLowerCase();
+  return model.id.toLowerCase().includes(needle) || model.name.toLowerCase().includes(needle);
+}
+
+/**
+ * Resolve a hint against the provider's models, falling back to an
+ * equivalent-tier model when the hint names another provider's model.
+ */
+function resolveHint(hint: string, provider: string, candidates: ModelOption[]): ModelSelection | undefined {
+  const direct = candidates.find((model) => matchesHint(model, hint));
+  if (direct) {
+    return { modelId: direct.id, reason: `matched hint "${hint}"` };
+  }
+
+  for (const [otherProvider, models] of Object.entries(catalogs)) {
+    if (otherProvider === provider) continue;
+    const index = models.findIndex((model) => matchesHint(model, hint));
+    if (index === -1) continue;
+
+    const tier = tierOf(index, models.length);
+    const mapped = candidates[Math.round(tier * (candidates.length - 1))];
+    return {
+      modelId: mapped.id,
+      reason: `hint "${hint}" names ${models[index].name}; using ${provider} equivalent ${mapped.name}`,
+    };
+  }
+
+  return undefined;
+}
+
+function formatPriorities(prefs: ModelPreferences): string {
+  return (['cost', 'speed', 'intelligence'] as const)
+    .map((key) => [key, prefs[`${key}Priority`]] as const)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
+
+/**
+ * Turn the priorities into a target tier, the share of the total weight
+ * that goes to intelligence, and pick the model closest to it. Balanced
+ * priorities land on the middle of the catalog. Ties go to the default
+ * model, then to the cheaper tier.
+ */
+function selectByPriorities(
+  prefs: ModelPreferences,
+  candidates: ModelOption[],
+  defaultModel: string
+): ModelSelection {
+  const cost = prefs.costPriority ?? 0;
+  const speed = prefs.speedPriority ?? 0;
+  const intelligence = prefs.intelligencePriority ?? 0;
+  const total = cost + speed + intelligence;
+
+  if (total <= 0) {
+    return { modelId: defaultModel, reason: 'all priorities are zero; using configured model' };
+  }
+
+  const target = intelligence / total;
+  let best: { model: ModelOption; distance: number } | undefined;
+  candidates.forEach((model, index) => {
+    const distance = Math.abs(tierOf(index, candidates.length) - target);
+    const better = !best
+      || distance < best.distance - 1e-9
+      || (Math.abs(distance - best.distance) <= 1e-9 && model.id === defaultModel);
+    if (better) best = { model, distance };
+  });
+
+  return {
+    modelId: best!.model.id,
+    reason: `best fit for priorities (${formatPriorities(prefs)})`,
+  };
+}
+
+// ============================================
+// Selection Policy
+// ============================================
+
+/**
+ * Choose the model for a sampling request.
+ */
+export function selectSamplingModel(
+  prefs: ModelPreferences | undefined,
+  options: ModelSelectionOptions
+): ModelSelection {
+  const { provider, defaultModel } = options;
+  const candidates = catalogs[provider as Provider] ?? [];
+
+  if (candidates.length === 0) {
+    return { modelId: defaultModel, reason: `no model catalog for ${provider}; using configured model` };
+  }
+
+  for (const hint of prefs?.hints ?? []) {
+    if (!hint.name) continue;
+    const selection = resolveHint(hint.name, provider, candidates);
+    if (selection) return selection;
+  }
+
+  const hasPriorities = prefs !== undefined
+    && [prefs.costPriority, prefs.speedPriority, prefs.intelligencePriority].some((value) => value !== undefined);
+  if (hasPriorities) {
+    return selectByPriorities(prefs, candidates, defaultModel);
+  }
+
+  return {
+    modelId: defaultModel,
+    reason: prefs?.hints?.length ? 'no hint matched; using configured model' : 'no model preferences; using configured model',
+  };
+}
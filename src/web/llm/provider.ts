@@ -14,8 +14,8 @@
 import { streamText, dynamicTool, jsonSchema, stepCountIs, type ModelMessage, type ToolSet } from 'ai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
-import type { JSONSchema7, JSONSchema7Definition } from 'json-schema';
 import type { McpTool, ChatSettings, StreamEvent } from './types.js';
+import { toAiSdkInputSchema } from './conversions.js';
 import { THEME_LIST, getThemeMeta, formatThemeList } from '../shared/themes.js';
 
 // ============================================
@@ -40,36 +40,6 @@ export interface StreamChatOptions {
   config?: LlmProviderConfig;
 }
 
-// ============================================
-// Schema Normalization
-// ============================================
-
-/**
- * Ensures a schema is a valid JSON Schema object.
- * Many MCP tools omit top-level type; Anthropic requires object.
- */
-function ensureJsonSchemaObject(schema: unknown): JSONSchema7 {
-  if (schema && typeof schema === 'object') {
-    const record = schema as Record<string, unknown>;
-    const base: JSONSchema7 = record.jsonSchema
-      ? ensureJsonSchemaObject(record.jsonSchema)
-      : (record as JSONSchema7);
-
-    // Many MCP tools omit top-level type; Anthropic requires object
-    if (!('type' in base) || base.type === undefined) {
-      base.type = 'object';
-    }
-    if (base.type === 'object') {
-      base.properties = (base.properties ?? {}) as Record<string, JSONSchema7Definition>;
-      if (base.additionalProperties === undefined) {
-        base.additionalProperties = false;
-      }
-    }
-    return base;
-  }
-  return { type: 'object', properties: {}, additionalProperties: false };
-}
-
 // ============================================
 // Provider Registry
 // ============================================
@@ -78,26 +48,58 @@ type ProviderFactory = (apiKey?: string) => {
   getModel: (modelId: string) => ReturnType<ReturnType<typeof createAnthropic>>;
 };
 
-const providers: Record<string, ProviderFactory> = {
-  anthropic: (apiKey?: string) => {
-    const anthropic = createAnthropic({
-      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
-    });
-    return {
-      getModel: (modelId: string) => anthropic(modelId),
-    };
+interface ProviderRegistration {
+  /** Environment variable the API key falls back to */
+  apiKeyEnv: string;
+  /** Model used when the caller doesn't choose one (e.g. sampling) */
+  defaultModel: string;
+  /**
+   * Media types accepted natively in prompts, as full types or `type/` prefixes.
+   * Anything else in a sampling request is downgraded (see conversions.ts).
+   */
+  mediaTypes: string[];
+  create: ProviderFactory;
+}
+
+const providers: Record<string, ProviderRegistration> = {
+  anthropic: {
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    defaultModel: 'claude-sonnet-4-5-20250929',
+    mediaTypes: ['image/', 'application/pdf', 'text/plain'],
+    create: (apiKey?: string) => {
+      const anthropic = createAnthropic({
+        apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
+      });
+      return {
+        getModel: (modelId: string) => anthropic(modelId),
+      };
+    },
   },
-  openai: (apiKey?: string) => {
-    const openai = createOpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY,
-    });
-    return {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      getModel: (modelId: string) => openai(modelId) as any,
-    };
+  openai: {
+    apiKeyEnv: 'OPENAI_API_KEY',
+    defaultModel: 'gpt-5.2',
+    // The Responses API takes images and PDFs; audio input is chat-completions only
+    mediaTypes: ['image/', 'application/pdf'],
+    create: (apiKey?: string) => {
+      const openai = createOpenAI({
+        apiKey: apiKey || process.env.OPENAI_API_KEY,
+      });
+      return {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        getModel: (modelId: string) => openai(modelId) as any,
+      };
+    },
   },
 };
 
+function getRegistration(provider: string): ProviderRegistration {
+  const registration = providers[provider];
+  if (!registration) {
+    throw new Error(`Unknown provider: ${provider}. Available: ${Object.keys(providers).join(', ')}`);
+  }
+  return registration;
+}
+
 /**
  * Get a language model instance by provider and model ID
  */
@@ -106,11 +108,38 @@ export function getModel(
   modelId: string,
   apiKey?: string
 ) {
-  const factory = providers[provider];
-  if (!factory) {
-    throw new Error(`Unknown provider: ${provider}. Available: ${Object.keys(providers).join(', ')}`);
-  }
-  return factory(apiKey).getModel(modelId);
+  return getRegistration(provider).create(apiKey).getModel(modelId);
+}
+
+/**
+ * Resolve the API key for a provider: explicit key first, then its env var
+ */
+export function getProviderApiKey(provider: string, apiKey?: string): string | undefined {
+  return apiKey || process.env[getRegistration(provider).apiKeyEnv] || undefined;
+}
+
+/**
+ * Get the model a provider falls back to when none is specified
+ */
+export function getDefaultModel(provider: string): string {
+  return getRegistration(provider).defaultModel;
+}
+
+/**
+ * Check whether a provider accepts a media type natively in prompts
+ */
+export function supportsMediaType(provider: string, mediaType: string): boolean {
+  const type = mediaType.toLowerCase();
+  return getRegistration(provider).mediaTypes.some((supported) =>
+    supported.endsWith('/') ? type.startsWith(supported) : type === supported
+  );
+}
+
+/**
+ * Get registered providers that have an API key in the environment
+ */
+export function getConfiguredProviders(): string[] {
+  return Object.keys(providers).filter((provider) => !!getProviderApiKey(provider));
 }
 
 /**
@@ -131,16 +160,9 @@ export function convertMcpToolsToAiSdk(mcpTools: McpTool[]): ToolSet {
   const tools: ToolSet = {};
 
   for (const mcpTool of mcpTools) {
-    const normalizedSchema = ensureJsonSchemaObject(mcpTool.inputSchema);
-
     tools[mcpTool.name] = dynamicTool({
       description: mcpTool.description || `Tool: ${mcpTool.originalName} (from ${mcpTool.serverName})`,
-      inputSchema: jsonSchema({
-        type: 'object',
-        properties: normalizedSchema.properties ?? {},
-        additionalProperties: normalizedSchema.additionalProperties ?? false,
-        ...(normalizedSchema.required ? { required: normalizedSchema.required as string[] } : {}),
-      }),
+      inputSchema: toAiSdkInputSchema(mcpTool.inputSchema),
       // Tool execution happens client-side, just return the args
       execute: async (args) => ({ pending: true, args }),
     });
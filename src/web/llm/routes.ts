@@ -11,7 +11,7 @@ import type { ModelMessage } from 'ai';
 import { streamChat, mergeSettings } from './provider.js';
 import { buildSystemPrompt } from './system-prompt.js';
 import type { ChatRequest, StreamEvent } from './types.js';
-import { callTool as mcpCallTool } from '../../multi-server.js';
+import { callTool as mcpCallTool, type CallToolOptions } from '../../multi-server.js';
 
 /**
  * Create the chat route handler
@@ -64,12 +64,12 @@ export function createChatHandler(clients: Map<string, Client>) {
       );
 
       // Convert messages to AI SDK format (v6 uses ModelMessage)
-      const messages: ModelMessage[] = request.messages
-        .filter((m) => m.content.trim() !== '')
+      const messages = request.messages
+        .filter((m) => (typeof m.content === 'string' ? m.content.trim() !== '' : m.content.length > 0))
         .map((m) => ({
           role: m.role as 'user' | 'assistant' | 'system',
           content: m.content,
-        }));
+        })) as ModelMessage[];
 
       // Stream response using the provider
       const chatStream = streamChat({
@@ -104,7 +104,7 @@ export function createChatHandler(clients: Map<string, Client>) {
  * POST /api/chat/tool
  * Executes a single tool call and returns the result
  */
-export function createToolExecuteHandler(clients: Map<string, Client>) {
+export function createToolExecuteHandler(clients: Map<string, Client>, callOptions?: CallToolOptions) {
   return async (req: IncomingMessage, res: ServerResponse) => {
     let body = '';
     for await (const chunk of req) {
@@ -127,7 +127,7 @@ export function createToolExecuteHandler(clients: Map<string, Client>) {
     }
 
     try {
-      const result = await mcpCallTool(clients, request.qualifiedName, request.arguments || {});
+      const result = await mcpCallTool(clients, request.qualifiedName, request.arguments || {}, callOptions);
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ result }));
     } catch (error) {
@@ -48,6 +48,18 @@ call it by its qualified name (server__tool format).`);
     }
   }
 
+  // Pinned resources (watched in the Resources panel, latest version)
+  if (context.pinnedResources && context.pinnedResources.length > 0) {
+    parts.push('\n## Pinned Resources');
+    parts.push('The user pinned these resources. This is their latest content; it is refreshed whenever they change.\n');
+    for (const resource of context.pinnedResources) {
+      parts.push(`### ${resource.name} (${resource.serverName}: ${resource.uri})`);
+      parts.push('```');
+      parts.push(resource.text);
+      parts.push('```\n');
+    }
+  }
+
   // Theme tools (always available as internal tools)
   parts.push(`## Theme Tools (Internal)
 
@@ -13,11 +13,16 @@ export interface ChatRequest {
 
 export interface ChatApiMessage {
   role: 'user' | 'assistant' | 'system';
-  content: string;
+  /** Parts only for user messages that carry images */
+  content: string | ChatApiContentPart[];
   toolCalls?: ToolCallInfo[];
   toolResults?: ToolResultInfo[];
 }
 
+export type ChatApiContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: string; mediaType: string };
+
 export interface ToolCallInfo {
   id: string;
   name: string;
@@ -33,6 +38,14 @@ export interface ToolResultInfo {
 export interface McpContext {
   servers: ServerInfo[];
   availableTools: McpTool[];
+  pinnedResources?: PinnedResource[];
+}
+
+export interface PinnedResource {
+  serverName: string;
+  uri: string;
+  name: string;
+  text: string;        // Latest content as text
 }
 
 export interface ServerInfo {
@@ -11,13 +11,23 @@ import { join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { getToolUiResourceUri, fetchUIResource, isToolVisibleToModel, RESOURCE_MIME_TYPE } from '../capabilities/apps.js';
+import { serverSupportsCompletions } from '../capabilities/completions.js';
+import { serverSupportsSubscriptions } from '../capabilities/subscriptions.js';
 import {
   aggregateTools,
   aggregatePrompts,
   aggregateResources,
+  aggregateResourceTemplates,
   callToolAcrossServers,
+  completeResourceArgument,
+  completePromptArgument,
+  getPrompt,
+  subscribeResource,
+  unsubscribeResource,
   getServersSummary,
+  qualifyName,
   type AggregatedTool,
+  type CallToolOptions,
 } from '../multi-server.js';
 import {
   isToolEnabled,
@@ -29,6 +39,8 @@ import {
   getServersWithState,
 } from './tool-manager-state.js';
 import type { ToolAnnotations } from '../shared/types.js';
+import type { ElicitationDecision } from '../shared/elicitation-types.js';
+import type { ElicitationBroker } from './elicitation-broker.js';
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 
@@ -100,6 +112,29 @@ function toolsToUIInfo(tools: AggregatedTool[]): ToolWithUIInfo[] {
   });
 }
 
+/**
+ * Create route handler for elicitation answers from the web chat.
+ * POST /api/elicitation/:requestId with an ElicitationDecision body.
+ */
+export function createElicitationRouteHandler(broker: ElicitationBroker): RouteHandler {
+  return async (req, res, url) => {
+    try {
+      const requestId = decodeURIComponent(url.pathname.slice('/api/elicitation/'.length));
+      const body = await readBody(req);
+      const decision = JSON.parse(body) as ElicitationDecision;
+
+      if (!broker.respond(requestId, decision)) {
+        sendError(res, `No pending elicitation: ${requestId}`, 404);
+        return;
+      }
+      sendJSON(res, { success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      sendError(res, message, 400);
+    }
+  };
+}
+
 /**
  * Create route handler for single-client mode (backward compatible)
  */
@@ -114,7 +149,8 @@ export function createRouteHandler(client: Client, sandboxPort: number): RouteHa
  */
 export function createMultiServerRouteHandler(
   clients: Map<string, Client>,
-  sandboxPort: number
+  sandboxPort: number,
+  callOptions?: Pick<CallToolOptions, 'onUrlElicitation'>
 ): RouteHandler {
   return async (req, res, url) => {
     const method = req.method || 'GET';
@@ -241,6 +277,7 @@ export function createMultiServerRouteHandler(
 
         // Use longer timeout (120s) for potentially slow system operations
         const { serverName, result } = await callToolAcrossServers(clients, toolName, args, {
+          ...callOptions,
           timeout: 120000,
         });
         sendJSON(res, { ...result, serverName });
@@ -254,6 +291,34 @@ export function createMultiServerRouteHandler(
         return;
       }
 
+      // POST /api/resources/subscribe | unsubscribe - Watch a resource for updates
+      // Body: { serverName, uri }. Updates arrive over the WebSocket as resource_updated.
+      if (
+        method === 'POST' &&
+        (path === '/api/resources/subscribe' || path === '/api/resources/unsubscribe')
+      ) {
+        const body = await readBody(req);
+        const { serverName, uri } = JSON.parse(body) as { serverName: string; uri: string };
+
+        const client = clients.get(serverName);
+        if (!client) {
+          sendError(res, `Server not found: ${serverName}`, 404);
+          return;
+        }
+
+        if (path === '/api/resources/subscribe') {
+          if (!serverSupportsSubscriptions(client)) {
+            sendError(res, `Server "${serverName}" does not support resource subscriptions`, 400);
+            return;
+          }
+          await subscribeResource(clients, qualifyName(serverName, uri));
+        } else {
+          await unsubscribeResource(clients, qualifyName(serverName, uri));
+        }
+        sendJSON(res, { success: true });
+        return;
+      }
+
       // GET /api/resources/:uri - Read a resource
       // Format: /api/resources/<serverName>/<uri>
       if (method === 'GET' && path.startsWith('/api/resources/')) {
@@ -284,6 +349,46 @@ export function createMultiServerRouteHandler(
         return;
       }
 
+      // GET /api/resource-templates - List resource templates from all servers
+      if (method === 'GET' && path === '/api/resource-templates') {
+        const resourceTemplates = await aggregateResourceTemplates(clients);
+        sendJSON(res, { resourceTemplates });
+        return;
+      }
+
+      // POST /api/resource-templates/complete - Suggest values for a template variable
+      // Body: { serverName, uriTemplate, argName, value, context? }
+      if (method === 'POST' && path === '/api/resource-templates/complete') {
+        const body = await readBody(req);
+        const { serverName, uriTemplate, argName, value, context } = JSON.parse(body) as {
+          serverName: string;
+          uriTemplate: string;
+          argName: string;
+          value: string;
+          context?: Record<string, string>;
+        };
+
+        const client = clients.get(serverName);
+        if (!client) {
+          sendError(res, `Server not found: ${serverName}`, 404);
+          return;
+        }
+        if (!serverSupportsCompletions(client)) {
+          sendJSON(res, { values: [] });
+          return;
+        }
+
+        const { result } = await completeResourceArgument(
+          clients,
+          qualifyName(serverName, uriTemplate),
+          argName,
+          value,
+          context && { arguments: context }
+        );
+        sendJSON(res, result);
+        return;
+      }
+
       // GET /api/ui-resource/:serverName/:uri - Fetch UI resource HTML
       if (method === 'GET' && path.startsWith('/api/ui-resource/')) {
         const rest = path.slice('/api/ui-resource/'.length);
@@ -343,6 +448,59 @@ export function createMultiServerRouteHandler(
         return;
       }
 
+      // POST /api/prompts/get - Get a prompt's messages
+      // Body: { serverName, name, arguments? }
+      if (method === 'POST' && path === '/api/prompts/get') {
+        const body = await readBody(req);
+        const { serverName, name, arguments: args } = JSON.parse(body) as {
+          serverName: string;
+          name: string;
+          arguments?: Record<string, string>;
+        };
+
+        if (!clients.has(serverName)) {
+          sendError(res, `Server not found: ${serverName}`, 404);
+          return;
+        }
+
+        const { result } = await getPrompt(clients, qualifyName(serverName, name), args);
+        sendJSON(res, result);
+        return;
+      }
+
+      // POST /api/prompts/complete - Suggest values for a prompt argument
+      // Body: { serverName, name, argName, value, context? }
+      if (method === 'POST' && path === '/api/prompts/complete') {
+        const body = await readBody(req);
+        const { serverName, name, argName, value, context } = JSON.parse(body) as {
+          serverName: string;
+          name: string;
+          argName: string;
+          value: string;
+          context?: Record<string, string>;
+        };
+
+        const client = clients.get(serverName);
+        if (!client) {
+          sendError(res, `Server not found: ${serverName}`, 404);
+          return;
+        }
+        if (!serverSupportsCompletions(client)) {
+          sendJSON(res, { values: [] });
+          return;
+        }
+
+        const { result } = await completePromptArgument(
+          clients,
+          qualifyName(serverName, name),
+          argName,
+          value,
+          context && { arguments: context }
+        );
+        sendJSON(res, result);
+        return;
+      }
+
       sendError(res, 'Not Found', 404);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
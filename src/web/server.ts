@@ -14,9 +14,12 @@ import { join, extname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { WebSocketServer } from 'ws';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { createRouteHandler, createMultiServerRouteHandler } from './routes.js';
+import { createRouteHandler, createMultiServerRouteHandler, createElicitationRouteHandler } from './routes.js';
 import { createWebSocketHandler, createMultiServerWebSocketHandler, type WebSocketManager } from './websocket.js';
 import { createChatHandler, createToolExecuteHandler } from './llm/index.js';
+import { ElicitationBroker } from './elicitation-broker.js';
+import { setupElicitationForAll } from '../multi-server.js';
+import type { UrlElicitation } from '../capabilities/elicitation.js';
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 
@@ -99,11 +102,24 @@ export async function startMultiServerWebServer(config: MultiServerWebConfig): P
   const log = onLog || console.log;
 
   const staticDir = getStaticDir();
-  const routeHandler = createMultiServerRouteHandler(clients, sandboxPort);
+
+  // Elicitation requests are shown in the web chat; answers come back over REST.
+  // URL-mode pages are opened by the browser tab itself, since the server can't.
+  const elicitationBroker = new ElicitationBroker({
+    send: (payload) => wsManager.broadcast({ type: 'elicitation_request', data: payload }),
+    sendComplete: (payload) => wsManager.broadcast({ type: 'elicitation_complete', data: payload }),
+    log,
+  });
+  const elicitationHandler = createElicitationRouteHandler(elicitationBroker);
+  // Tool calls blocked on a URL elicitation (-32042) retry once it completes
+  const onUrlElicitation = (serverName: string, elicitation: UrlElicitation) =>
+    elicitationBroker.elicitUrl(serverName, elicitation);
+
+  const routeHandler = createMultiServerRouteHandler(clients, sandboxPort, { onUrlElicitation });
 
   // LLM chat handlers
   const chatHandler = createChatHandler(clients);
-  const toolExecuteHandler = createToolExecuteHandler(clients);
+  const toolExecuteHandler = createToolExecuteHandler(clients, { onUrlElicitation });
 
   const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
     const url = new URL(req.url || '/', `http://localhost:${port}`);
@@ -130,6 +146,11 @@ export async function startMultiServerWebServer(config: MultiServerWebConfig): P
       return;
     }
 
+    if (url.pathname.startsWith('/api/elicitation/') && req.method === 'POST') {
+      await elicitationHandler(req, res, url);
+      return;
+    }
+
     // API routes
     if (url.pathname.startsWith('/api/')) {
       await routeHandler(req, res, url);
@@ -155,6 +176,25 @@ export async function startMultiServerWebServer(config: MultiServerWebConfig): P
   const wss = new WebSocketServer({ server });
   const wsManager = createMultiServerWebSocketHandler(wss, clients);
 
+  setupElicitationForAll(clients, {
+    onForm: async (serverName, message, schema) => {
+      // Nobody to show the form to; cancel rather than block the server
+      if (wsManager.getConnectionCount() === 0) {
+        log(`[Elicitation] ${serverName}: no browser connected, cancelling`);
+        return { action: 'cancel' };
+      }
+      return elicitationBroker.request(serverName, message, schema);
+    },
+    onUrl: async (serverName, url, message, elicitationId) => {
+      if (wsManager.getConnectionCount() === 0) {
+        log(`[Elicitation] ${serverName}: no browser connected, cancelling`);
+        return { action: 'cancel' };
+      }
+      return elicitationBroker.requestUrl(serverName, message, url, elicitationId);
+    },
+    onComplete: (serverName, elicitationId) => elicitationBroker.complete(serverName, elicitationId),
+  });
+
   return new Promise((resolve) => {
     server.listen(port, () => {
       log(`[Web] Server running at http://localhost:${port}`);
@@ -162,6 +202,7 @@ export async function startMultiServerWebServer(config: MultiServerWebConfig): P
       log(`[Web] Connected to ${clients.size} server(s): ${Array.from(clients.keys()).join(', ')}`);
       resolve({
         close: () => {
+          elicitationBroker.cancelAll();
           wss.close();
           server.close();
         },
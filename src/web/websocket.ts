@@ -8,7 +8,7 @@
 import type { WebSocketServer, WebSocket } from 'ws';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { setupListChanged } from '../capabilities/list-changed.js';
-import { setupListChangedForAll } from '../multi-server.js';
+import { setupListChangedForAll, setupSubscriptionsForAll } from '../multi-server.js';
 
 export interface WebSocketEvent {
   type: string;
@@ -93,6 +93,14 @@ export function createMultiServerWebSocketHandler(
     },
   });
 
+  // Updates of resources subscribed via POST /api/resources/subscribe
+  setupSubscriptionsForAll(mcpClients, (serverName, uri) => {
+    broadcast({
+      type: 'resource_updated',
+      data: { serverName, uri },
+    });
+  });
+
   return {
     broadcast,
     getConnectionCount: () => wsClients.size,
@@ -0,0 +1,69 @@
+/**
+ * Built-in Server Tests
+ *
+ * The desktop app mounts the tool-manager and server-config servers
+ * in-process instead of special-casing their tool names. Key issues this
+ * prevents:
+ * 1. Built-in tools changing their names when served over MCP
+ * 2. The mounted server-config server managing its own in-memory list
+ *    instead of the app's servers
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { ServerManager, createInProcessConfig } from '@skilljack/mcp-server-manager';
+import { createServer as createToolManagerServer } from '@skilljack/internal-tool-manager';
+import { createServer as createServerConfigServer, type ServerConfigDeps } from '@skilljack/internal-server-config';
+
+const hostDeps: ServerConfigDeps = {
+  getServerConfigs: async () => [
+    { name: 'files', command: 'npx', status: 'connected', enabled: true, toolCount: 3 },
+  ],
+  addServerConfig: async () => {},
+  removeServerConfig: async () => {},
+  restartServer: async () => {},
+  stopServer: async () => {},
+  startServer: async () => {},
+  setServerEnabled: () => {},
+};
+
+describe('built-in in-process servers', () => {
+  let manager: ServerManager | null = null;
+
+  afterEach(async () => {
+    await manager?.shutdown();
+    manager = null;
+  });
+
+  async function start(): Promise<ServerManager> {
+    manager = new ServerManager({
+      servers: [
+        { name: 'tool-manager', connection: createInProcessConfig(() => createToolManagerServer()) },
+        { name: 'server-config', connection: createInProcessConfig(() => createServerConfigServer(hostDeps)) },
+      ],
+      defaults: { healthCheckEnabled: false },
+    });
+    await manager.start();
+    return manager;
+  }
+
+  it('serves the built-in tools under their usual names', async () => {
+    const clients = (await start()).getConnectedClients();
+
+    const toolManagerTools = (await clients.get('tool-manager')!.listTools()).tools.map((t) => t.name);
+    const serverConfigTools = (await clients.get('server-config')!.listTools()).tools.map((t) => t.name);
+
+    expect(toolManagerTools).toEqual(['manage-tools']);
+    expect(serverConfigTools).toContain('list-servers');
+    expect(serverConfigTools).toContain('install-mcpb');
+  });
+
+  it("answers server-config tools from the host's servers", async () => {
+    const result = await (await start()).useClient('server-config', (client) =>
+      client.callTool({ name: 'list-servers', arguments: {} })
+    );
+
+    expect(result.structuredContent).toEqual({
+      servers: [{ name: 'files', status: 'connected', enabled: true, toolCount: 3 }],
+    });
+  });
+});
@@ -21,13 +21,35 @@ const mockElectronAPI = {
   getResources: vi.fn(),
   readResource: vi.fn(),
   getUIResource: vi.fn(),
+  getResourceTemplates: vi.fn(),
+  completeResourceArgument: vi.fn(),
+  subscribeResource: vi.fn(),
+  unsubscribeResource: vi.fn(),
   getPrompts: vi.fn(),
+  getPrompt: vi.fn(),
+  completePromptArgument: vi.fn(),
   startChatStream: vi.fn(),
   onChatStreamEvent: vi.fn(() => () => {}),
   onToolsChanged: vi.fn(() => () => {}),
   onServersChanged: vi.fn(() => () => {}),
   onResourceUpdated: vi.fn(() => () => {}),
   onConnectionError: vi.fn(() => () => {}),
+  samplingRespond: vi.fn(),
+  onSamplingRequest: vi.fn(() => () => {}),
+  onSamplingProgress: vi.fn(() => () => {}),
+  elicitationRespond: vi.fn(),
+  onElicitationRequest: vi.fn(() => () => {}),
+  onElicitationComplete: vi.fn(() => () => {}),
+  rootsGet: vi.fn(),
+  rootsSet: vi.fn(),
+  onRootsChanged: vi.fn(() => () => {}),
+  historyList: vi.fn(),
+  historyGet: vi.fn(),
+  historySave: vi.fn(),
+  historyRename: vi.fn(),
+  historyDelete: vi.fn(),
+  toolApprovalGet: vi.fn(),
+  toolApprovalSet: vi.fn(),
 };
 
 describe('Communication Adapter Singleton', () => {
@@ -129,6 +151,136 @@ describe('IPC Adapter', () => {
 
     expect(tools).toEqual([{ name: 'server__tool', displayName: 'tool', serverName: 'server' }]);
   });
+
+  it('completeResourceArgument forwards the variable and filled-in context to electronAPI', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    mockElectronAPI.completeResourceArgument.mockResolvedValue({ values: ['readme.md'] });
+
+    const adapter = getCommunicationAdapter();
+    const result = await adapter.completeResourceArgument('files', 'file:///{dir}/{name}', 'name', 're', {
+      dir: 'docs',
+    });
+
+    expect(mockElectronAPI.completeResourceArgument).toHaveBeenCalledWith(
+      'files',
+      'file:///{dir}/{name}',
+      'name',
+      're',
+      { dir: 'docs' }
+    );
+    expect(result).toEqual({ values: ['readme.md'] });
+  });
+
+  it('getPrompt forwards the server, prompt name and arguments to electronAPI', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    const prompt = { messages: [{ role: 'user', content: { type: 'text', text: 'Review PR 12' } }] };
+    mockElectronAPI.getPrompt.mockResolvedValue(prompt);
+
+    const adapter = getCommunicationAdapter();
+    const result = await adapter.getPrompt('github', 'review-pr', { number: '12' });
+
+    expect(mockElectronAPI.getPrompt).toHaveBeenCalledWith('github', 'review-pr', { number: '12' });
+    expect(result).toEqual(prompt);
+  });
+
+  it('subscriptions forward to electronAPI and deliver resource updates', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    mockElectronAPI.subscribeResource.mockResolvedValue({ success: true });
+    let emit: ((data: { serverName: string; uri: string }) => void) | undefined;
+    mockElectronAPI.onResourceUpdated.mockImplementation((callback) => {
+      emit = callback;
+      return () => {};
+    });
+
+    const adapter = getCommunicationAdapter();
+    await adapter.subscriptions!.subscribe('files', 'file:///notes.md');
+    const onUpdated = vi.fn();
+    adapter.subscriptions!.onUpdated(onUpdated);
+    emit!({ serverName: 'files', uri: 'file:///notes.md' });
+
+    expect(mockElectronAPI.subscribeResource).toHaveBeenCalledWith('files', 'file:///notes.md');
+    expect(onUpdated).toHaveBeenCalledWith({ serverName: 'files', uri: 'file:///notes.md' });
+  });
+
+  it('sampling.respond forwards the approval decision to electronAPI', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    mockElectronAPI.samplingRespond.mockResolvedValue({ success: true });
+
+    const adapter = getCommunicationAdapter();
+    await adapter.sampling!.respond('sampling-1', { approved: false });
+
+    expect(mockElectronAPI.samplingRespond).toHaveBeenCalledWith('sampling-1', { approved: false });
+  });
+
+  it('elicitation.respond forwards the form answer to electronAPI', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    mockElectronAPI.elicitationRespond.mockResolvedValue({ success: true });
+
+    const adapter = getCommunicationAdapter();
+    await adapter.elicitation!.respond('elicitation-1', { action: 'accept', content: { name: 'Ada' } });
+
+    expect(mockElectronAPI.elicitationRespond).toHaveBeenCalledWith('elicitation-1', {
+      action: 'accept',
+      content: { name: 'Ada' },
+    });
+  });
+
+  it('roots.set forwards the settings to electronAPI', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    const state = { paths: ['/work'], followWorkspace: false, servers: [] };
+    mockElectronAPI.rootsSet.mockResolvedValue(state);
+
+    const adapter = getCommunicationAdapter();
+    await expect(adapter.roots!.set({ paths: ['/work'] })).resolves.toEqual(state);
+
+    expect(mockElectronAPI.rootsSet).toHaveBeenCalledWith({ paths: ['/work'] });
+  });
+
+  it('history forwards searches and saves to electronAPI', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    const summary = {
+      id: 'session-1',
+      title: 'Hi',
+      backend: { kind: 'ai-sdk', role: 'doer' },
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      messageCount: 1,
+    };
+    mockElectronAPI.historyList.mockResolvedValue({ conversations: [summary] });
+    mockElectronAPI.historySave.mockResolvedValue(summary);
+
+    const adapter = getCommunicationAdapter();
+    await expect(adapter.history!.list('hi')).resolves.toEqual([summary]);
+
+    const input = {
+      id: 'session-1',
+      backend: { kind: 'ai-sdk' as const, role: 'doer' as const },
+      messages: [{ role: 'user', content: 'Hi' }],
+    };
+    await adapter.history!.save(input);
+
+    expect(mockElectronAPI.historyList).toHaveBeenCalledWith('hi');
+    expect(mockElectronAPI.historySave).toHaveBeenCalledWith(input);
+  });
+
+  it('toolApproval.set forwards the changes to electronAPI', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    const settings = { trustedServers: ['weather'], allowedServers: [], allowedTools: [] };
+    mockElectronAPI.toolApprovalSet.mockResolvedValue(settings);
+
+    const adapter = getCommunicationAdapter();
+    await expect(adapter.toolApproval!.set({ trustedServers: ['weather'] })).resolves.toEqual(settings);
+
+    expect(mockElectronAPI.toolApprovalSet).toHaveBeenCalledWith({ trustedServers: ['weather'] });
+  });
 });
 
 describe('HTTP Adapter Fallback', () => {
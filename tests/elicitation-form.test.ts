@@ -0,0 +1,119 @@
+/**
+ * Elicitation Form Tests
+ *
+ * Servers describe the input they need as a JSON schema; the chat turns it
+ * into a form and must hand back typed values. Key issues this prevents:
+ * 1. Enum choices (plain, titled, multi-select) rendering as free text
+ * 2. Numbers and booleans reaching the server as strings
+ * 3. Invalid or incomplete forms being accepted
+ * 4. Accepted answers carrying fields the server never asked for
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  toElicitationFields,
+  initialElicitationValues,
+  validateElicitationForm,
+} from '../src/shared/elicitation-form';
+import { ElicitationBroker } from '../src/web/elicitation-broker';
+import type { ElicitationRequestPayload } from '../src/shared/elicitation-types';
+
+const schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', title: 'Full name', minLength: 2 },
+    email: { type: 'string', format: 'email' },
+    age: { type: 'integer', minimum: 0 },
+    subscribe: { type: 'boolean', default: true },
+    plan: { type: 'string', oneOf: [{ const: 'free', title: 'Free' }, { const: 'pro', title: 'Pro' }] },
+    size: { type: 'string', enum: ['s', 'm'], enumNames: ['Small', 'Medium'], default: 'm' },
+    topics: { type: 'array', items: { type: 'string', enum: ['mcp', 'ai'] }, maxItems: 1 },
+  },
+  required: ['name', 'plan'],
+};
+
+describe('toElicitationFields', () => {
+  it('maps properties to typed fields with labels, defaults and options', () => {
+    const fields = toElicitationFields(schema);
+
+    expect(fields.map(({ name, kind, required }) => ({ name, kind, required }))).toEqual([
+      { name: 'name', kind: 'text', required: true },
+      { name: 'email', kind: 'text', required: false },
+      { name: 'age', kind: 'integer', required: false },
+      { name: 'subscribe', kind: 'boolean', required: false },
+      { name: 'plan', kind: 'select', required: true },
+      { name: 'size', kind: 'select', required: false },
+      { name: 'topics', kind: 'multiselect', required: false },
+    ]);
+    expect(fields[0].label).toBe('Full name');
+    expect(fields[4].options).toEqual([
+      { value: 'free', label: 'Free' },
+      { value: 'pro', label: 'Pro' },
+    ]);
+    expect(fields[5]).toMatchObject({ default: 'm', options: [{ value: 's', label: 'Small' }, { value: 'm', label: 'Medium' }] });
+    expect(fields[6].options?.map((o) => o.value)).toEqual(['mcp', 'ai']);
+  });
+
+  it('returns no fields for a schema without properties', () => {
+    expect(toElicitationFields({ type: 'object' })).toEqual([]);
+    expect(toElicitationFields(undefined)).toEqual([]);
+  });
+});
+
+describe('validateElicitationForm', () => {
+  const fields = toElicitationFields(schema);
+
+  it('pre-fills defaults', () => {
+    expect(initialElicitationValues(fields)).toMatchObject({ subscribe: true, size: 'm', topics: [], name: '' });
+  });
+
+  it('returns typed content and omits empty optional fields', () => {
+    const result = validateElicitationForm(fields, {
+      ...initialElicitationValues(fields),
+      name: 'Ada',
+      age: '36',
+      plan: 'pro',
+    });
+
+    expect(result.errors).toEqual({});
+    expect(result.content).toEqual({ name: 'Ada', age: 36, subscribe: true, plan: 'pro', size: 'm' });
+  });
+
+  it('reports required, format, range and selection errors', () => {
+    const result = validateElicitationForm(fields, {
+      ...initialElicitationValues(fields),
+      name: 'A',
+      email: 'not-an-email',
+      age: '1.5',
+      topics: ['mcp', 'ai'],
+    });
+
+    expect(result.content).toBeUndefined();
+    expect(Object.keys(result.errors).sort()).toEqual(['age', 'email', 'name', 'plan', 'topics']);
+  });
+});
+
+describe('ElicitationBroker', () => {
+  it('resolves with accepted content limited to the requested fields', async () => {
+    const sent: ElicitationRequestPayload[] = [];
+    const broker = new ElicitationBroker({ send: (payload) => sent.push(payload) });
+
+    const pending = broker.request('weather', 'Where are you?', {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+    });
+    expect(sent[0]).toMatchObject({ serverName: 'weather', message: 'Where are you?' });
+
+    broker.respond(sent[0].requestId, { action: 'accept', content: { city: 'Paris', extra: 'x' } });
+    await expect(pending).resolves.toEqual({ action: 'accept', content: { city: 'Paris' } });
+    expect(broker.respond(sent[0].requestId, { action: 'decline' })).toBe(false);
+  });
+
+  it('cancels pending requests when the UI goes away', async () => {
+    const broker = new ElicitationBroker({ send: () => {} });
+    const pending = broker.request('weather', 'Confirm?');
+
+    broker.cancelAll();
+    await expect(pending).resolves.toEqual({ action: 'cancel' });
+  });
+});
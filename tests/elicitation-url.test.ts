@@ -0,0 +1,92 @@
+/**
+ * URL-Mode Elicitation Tests
+ *
+ * Some flows (third-party sign-in, payments) happen in the browser rather
+ * than in a form. Key issues this prevents:
+ * 1. Opening links the user never agreed to, or non-web URLs at all
+ * 2. Tool calls blocked on a URL flow never resuming after it completes
+ * 3. Waiting forever once the user gives up on the flow
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { withUrlElicitation } from '../src/capabilities/elicitation';
+import { ElicitationBroker } from '../src/web/elicitation-broker';
+import type { ElicitationCompletePayload, ElicitationRequestPayload } from '../src/shared/elicitation-types';
+
+const signIn = { mode: 'url' as const, message: 'Sign in', url: 'https://auth.example.com/start', elicitationId: 'e-1' };
+
+function createBroker() {
+  const sent: ElicitationRequestPayload[] = [];
+  const completed: ElicitationCompletePayload[] = [];
+  const openUrl = vi.fn();
+  const broker = new ElicitationBroker({
+    send: (payload) => sent.push(payload),
+    sendComplete: (payload) => completed.push(payload),
+    openUrl,
+  });
+  return { broker, sent, completed, openUrl };
+}
+
+describe('ElicitationBroker URL mode', () => {
+  it('opens the URL only after consent and resolves once the server completes', async () => {
+    const { broker, sent, completed, openUrl } = createBroker();
+
+    const done = broker.elicitUrl('billing', signIn);
+    await Promise.resolve();
+    expect(sent[0]).toMatchObject({ mode: 'url', url: signIn.url, elicitationId: 'e-1', serverName: 'billing' });
+    expect(openUrl).not.toHaveBeenCalled();
+
+    broker.respond(sent[0].requestId, { action: 'accept' });
+    expect(openUrl).toHaveBeenCalledWith(signIn.url);
+
+    broker.complete('billing', 'e-1');
+    await expect(done).resolves.toBe(true);
+    expect(completed).toEqual([{ requestId: sent[0].requestId, serverName: 'billing', elicitationId: 'e-1' }]);
+  });
+
+  it('stops waiting when the user cancels or the UI goes away', async () => {
+    const { broker, sent } = createBroker();
+
+    const cancelled = broker.elicitUrl('billing', signIn);
+    await Promise.resolve();
+    broker.respond(sent[0].requestId, { action: 'accept' });
+    broker.respond(sent[0].requestId, { action: 'cancel' });
+    await expect(cancelled).resolves.toBe(false);
+
+    const abandoned = broker.elicitUrl('billing', { ...signIn, elicitationId: 'e-2' });
+    await Promise.resolve();
+    broker.respond(sent[1].requestId, { action: 'accept' });
+    broker.cancelAll();
+    await expect(abandoned).resolves.toBe(false);
+  });
+
+  it('declines non-web URLs without asking', async () => {
+    const { broker, sent } = createBroker();
+
+    await expect(broker.requestUrl('evil', 'Run this', 'file:///etc/passwd', 'e-3')).resolves.toEqual({
+      action: 'decline',
+    });
+    expect(sent).toEqual([]);
+  });
+});
+
+describe('withUrlElicitation', () => {
+  const required = new McpError(ErrorCode.UrlElicitationRequired, 'Sign in first', { elicitations: [signIn] });
+
+  it('retries the request once the required elicitation completes', async () => {
+    const request = vi.fn().mockRejectedValueOnce(required).mockResolvedValueOnce('ok');
+    const elicit = vi.fn(async () => true);
+
+    await expect(withUrlElicitation(request, elicit)).resolves.toBe('ok');
+    expect(elicit).toHaveBeenCalledWith(signIn);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('rethrows when the user does not finish the flow', async () => {
+    const request = vi.fn().mockRejectedValue(required);
+
+    await expect(withUrlElicitation(request, async () => false)).rejects.toBe(required);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
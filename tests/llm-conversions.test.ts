@@ -0,0 +1,204 @@
+/**
+ * LLM Conversion Tests
+ *
+ * MCP sampling payloads must survive the trip through the AI SDK intact,
+ * whichever provider serves them. Key issues this prevents:
+ * 1. tool_result blocks left in user messages (providers reject them)
+ * 2. Tool results losing their tool name (required by the AI SDK)
+ * 3. toolChoice 'none' silently becoming 'auto'
+ * 4. Audio, resources and images in tool results being stringified
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  samplingMessagesToModelMessages,
+  samplingToolChoiceToAiSdk,
+  aiSdkResultToSamplingResult,
+} from '../src/web/llm/conversions';
+import { supportsMediaType } from '../src/web/llm/provider';
+
+describe('samplingMessagesToModelMessages', () => {
+  it('moves tool results into tool messages named after the earlier tool_use', () => {
+    const messages = samplingMessagesToModelMessages([
+      { role: 'user', content: { type: 'text', text: 'What is the weather?' } },
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'call-1', name: 'get_weather', input: { city: 'Paris' } }],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', toolUseId: 'call-1', content: [{ type: 'text', text: 'Sunny' }] }],
+      },
+    ]);
+
+    expect(messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'What is the weather?' }] },
+      {
+        role: 'assistant',
+        content: [{ type: 'tool-call', toolCallId: 'call-1', toolName: 'get_weather', input: { city: 'Paris' } }],
+      },
+      {
+        role: 'tool',
+        content: [{
+          type: 'tool-result',
+          toolCallId: 'call-1',
+          toolName: 'get_weather',
+          output: { type: 'text', value: 'Sunny' },
+        }],
+      },
+    ]);
+  });
+
+  it('marks errored tool results', () => {
+    const [message] = samplingMessagesToModelMessages([
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', toolUseId: 'x', content: [{ type: 'text', text: 'boom' }], isError: true }],
+      },
+    ]);
+
+    expect(message).toMatchObject({
+      role: 'tool',
+      content: [{ output: { type: 'error-text', value: 'boom' } }],
+    });
+  });
+});
+
+describe('sampling content fidelity', () => {
+  const audio = { type: 'audio' as const, data: 'UklGRg==', mimeType: 'audio/wav' };
+
+  it('passes audio through as a file part when the model accepts it', () => {
+    const [message] = samplingMessagesToModelMessages([{ role: 'user', content: audio }]);
+
+    expect(message).toEqual({
+      role: 'user',
+      content: [{ type: 'file', data: 'UklGRg==', mediaType: 'audio/wav' }],
+    });
+  });
+
+  it('describes unsupported media by default and reports the downgrade', () => {
+    const downgrades: string[] = [];
+    const [message] = samplingMessagesToModelMessages([{ role: 'user', content: audio }], {
+      supportsMediaType: (mediaType) => supportsMediaType('anthropic', mediaType),
+      onDowngrade: (description) => downgrades.push(description),
+    });
+
+    expect(message.content).toEqual([
+      { type: 'text', text: '[audio (audio/wav) omitted: not supported by this model]' },
+    ]);
+    expect(downgrades).toHaveLength(1);
+  });
+
+  it('omits or rejects unsupported media when configured to', () => {
+    const options = { supportsMediaType: () => false };
+
+    const [omitted] = samplingMessagesToModelMessages(
+      [{ role: 'user', content: [{ type: 'text', text: 'Listen' }, audio] }],
+      { ...options, downgrade: 'omit' }
+    );
+    expect(omitted.content).toEqual([{ type: 'text', text: 'Listen' }]);
+
+    try {
+      samplingMessagesToModelMessages([{ role: 'user', content: audio }], { ...options, downgrade: 'reject' });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    }
+  });
+
+  it('turns resource links and embedded resources into model-readable content', () => {
+    const [message] = samplingMessagesToModelMessages([
+      {
+        role: 'user',
+        content: [
+          { type: 'resource_link', uri: 'file:///notes.md', name: 'notes', mimeType: 'text/markdown' },
+          { type: 'resource', resource: { uri: 'file:///a.txt', text: 'hello' } },
+          { type: 'resource', resource: { uri: 'file:///docs/spec.pdf', blob: 'JVBERg==', mimeType: 'application/pdf' } },
+        ],
+      },
+    ]);
+
+    expect(message.content).toEqual([
+      { type: 'text', text: '[Resource link: notes <file:///notes.md> text/markdown]' },
+      { type: 'text', text: '[Resource file:///a.txt]\nhello' },
+      { type: 'file', data: 'JVBERg==', mediaType: 'application/pdf', filename: 'spec.pdf' },
+    ]);
+  });
+
+  it('keeps images in tool results as multi-part content', () => {
+    const [message] = samplingMessagesToModelMessages([
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'shot', name: 'screenshot', input: {} }],
+      },
+      {
+        role: 'user',
+        content: [{
+          type: 'tool_result',
+          toolUseId: 'shot',
+          content: [
+            { type: 'text', text: 'Captured' },
+            { type: 'image', data: 'iVBORw==', mimeType: 'image/png' },
+          ],
+        }],
+      },
+    ]).slice(1);
+
+    expect(message).toMatchObject({
+      role: 'tool',
+      content: [{
+        output: {
+          type: 'content',
+          value: [
+            { type: 'text', text: 'Captured' },
+            { type: 'file', data: { type: 'data', data: 'iVBORw==' }, mediaType: 'image/png' },
+          ],
+        },
+      }],
+    });
+  });
+});
+
+describe('samplingToolChoiceToAiSdk', () => {
+  it('maps every MCP tool choice mode', () => {
+    expect(samplingToolChoiceToAiSdk({ mode: 'auto' })).toBe('auto');
+    expect(samplingToolChoiceToAiSdk({ mode: 'required' })).toBe('required');
+    expect(samplingToolChoiceToAiSdk({ mode: 'none' })).toBe('none');
+  });
+});
+
+describe('aiSdkResultToSamplingResult', () => {
+  it('returns tool_use blocks when the model calls tools', () => {
+    const result = aiSdkResultToSamplingResult({
+      text: '',
+      toolCalls: [{ toolCallId: 'c1', toolName: 'search', input: { q: 'mcp' } }],
+      finishReason: 'tool-calls',
+      modelId: 'gpt-5.2',
+    });
+
+    expect(result).toEqual({
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'c1', name: 'search', input: { q: 'mcp' } }],
+      model: 'gpt-5.2',
+      stopReason: 'toolUse',
+    });
+  });
+
+  it('maps finish reasons to MCP stop reasons', () => {
+    const result = aiSdkResultToSamplingResult({
+      text: 'Hello',
+      toolCalls: [],
+      finishReason: 'length',
+      modelId: 'claude-haiku-4-5-20251001',
+    });
+
+    expect(result).toEqual({
+      role: 'assistant',
+      content: { type: 'text', text: 'Hello' },
+      model: 'claude-haiku-4-5-20251001',
+      stopReason: 'maxTokens',
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Model Selection Tests
+ *
+ * Sampling requests carry modelPreferences; the client must honor them
+ * instead of always using its configured model. Key issues this prevents:
+ * 1. Servers asking for a cheap model still getting the expensive default
+ * 2. Hints naming another provider's model being ignored
+ * 3. Hints losing precedence to priorities
+ * 4. Priorities only ever picking the cheapest or the most capable model
+ */
+
+import { describe, it, expect } from 'vitest';
+import { selectSamplingModel } from '../src/web/llm/model-selection';
+
+const anthropic = { provider: 'anthropic', defaultModel: 'claude-sonnet-4-5-20250929' };
+const openai = { provider: 'openai', defaultModel: 'gpt-5.2' };
+
+describe('selectSamplingModel', () => {
+  it('uses the configured model without preferences', () => {
+    expect(selectSamplingModel(undefined, anthropic).modelId).toBe('claude-sonnet-4-5-20250929');
+  });
+
+  it('takes the first hint that matches', () => {
+    const selection = selectSamplingModel({ hints: [{ name: 'gemini' }, { name: 'haiku' }, { name: 'opus' }] }, anthropic);
+    expect(selection).toEqual({ modelId: 'claude-haiku-4-5-20251001', reason: 'matched hint "haiku"' });
+  });
+
+  it("maps another provider's model to the same tier", () => {
+    expect(selectSamplingModel({ hints: [{ name: 'claude-opus' }] }, openai).modelId).toBe('gpt-5.2-pro');
+    expect(selectSamplingModel({ hints: [{ name: 'gpt-5-mini' }] }, anthropic).modelId).toBe('claude-haiku-4-5-20251001');
+  });
+
+  it('prefers hints over priorities', () => {
+    const selection = selectSamplingModel({ hints: [{ name: 'opus' }], costPriority: 1 }, anthropic);
+    expect(selection.modelId).toBe('claude-opus-4-5-20251101');
+  });
+
+  it('scores models against priorities', () => {
+    expect(selectSamplingModel({ costPriority: 0.9, intelligencePriority: 0.2 }, anthropic).modelId)
+      .toBe('claude-haiku-4-5-20251001');
+    expect(selectSamplingModel({ speedPriority: 0.1, intelligencePriority: 1 }, openai).modelId)
+      .toBe('gpt-5.2-pro');
+  });
+
+  it('picks the middle model for balanced priorities', () => {
+    expect(selectSamplingModel({ costPriority: 0.5, speedPriority: 0.5, intelligencePriority: 0.5 }, anthropic).modelId)
+      .toBe('claude-sonnet-4-5-20250929');
+    expect(selectSamplingModel({ costPriority: 0.4, intelligencePriority: 0.6 }, openai).modelId).toBe('gpt-5.2');
+  });
+
+  it('uses the configured model when every priority is zero', () => {
+    expect(selectSamplingModel({ costPriority: 0, intelligencePriority: 0 }, openai).modelId).toBe('gpt-5.2');
+  });
+
+  it('breaks ties in favour of the configured model', () => {
+    const selection = selectSamplingModel({ costPriority: 0.5, intelligencePriority: 0.5 }, anthropic);
+    expect(selection.modelId).toBe('claude-sonnet-4-5-20250929');
+  });
+
+  it('breaks ties between neighbouring tiers in favour of the configured model', () => {
+    const selection = selectSamplingModel({ costPriority: 0.75, intelligencePriority: 0.25 }, anthropic);
+    expect(selection.modelId).toBe('claude-sonnet-4-5-20250929');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Pagination Tests
+ *
+ * Servers may split any list across pages. Key issues this prevents:
+ * 1. Items past the first page silently missing from aggregated lists
+ * 2. A server that keeps returning cursors hanging the client
+ * 3. Resource templates never being listed at all
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { listAll } from '../src/capabilities/pagination';
+import { aggregateResourceTemplates, aggregateTools } from '../src/multi-server';
+
+/** Client whose lists serve the given pages; page n's cursor is "n" */
+function mockClient(pages: string[][], capabilities: Record<string, unknown> = { tools: {}, resources: {} }) {
+  const page = (params?: { cursor?: string }) => {
+    const index = params?.cursor ? Number(params.cursor) : 0;
+    return {
+      names: pages[index],
+      nextCursor: index + 1 < pages.length ? String(index + 1) : undefined,
+    };
+  };
+  const client = {
+    getServerCapabilities: () => capabilities,
+    listTools: vi.fn(async (params?: { cursor?: string }) => {
+      const { names, nextCursor } = page(params);
+      return { tools: names.map((name) => ({ name, inputSchema: { type: 'object' } })), nextCursor };
+    }),
+    listResourceTemplates: vi.fn(async (params?: { cursor?: string }) => {
+      const { names, nextCursor } = page(params);
+      return { resourceTemplates: names.map((name) => ({ name, uriTemplate: `file:///${name}/{path}` })), nextCursor };
+    }),
+    listPrompts: vi.fn(),
+  };
+  return client;
+}
+
+const asClient = (mock: ReturnType<typeof mockClient>) => mock as unknown as Client;
+
+describe('listAll', () => {
+  it('follows every cursor', async () => {
+    const mock = mockClient([['a', 'b'], ['c'], ['d']]);
+
+    const tools = await listAll(asClient(mock), 'tools');
+
+    expect(tools.map((t) => t.name)).toEqual(['a', 'b', 'c', 'd']);
+    expect(mock.listTools).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops at the page cap and reports the truncation', async () => {
+    const mock = mockClient([['a'], ['b'], ['c']]);
+    const onTruncated = vi.fn();
+
+    const tools = await listAll(asClient(mock), 'tools', { maxPages: 2, onTruncated });
+
+    expect(tools.map((t) => t.name)).toEqual(['a', 'b']);
+    expect(onTruncated).toHaveBeenCalledWith('tools');
+  });
+
+  it('stops when a server repeats a cursor', async () => {
+    const mock = mockClient([['a']]);
+    mock.listTools.mockImplementation(async () => ({ tools: [], nextCursor: 'again' }));
+
+    await listAll(asClient(mock), 'tools');
+
+    expect(mock.listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips lists the server has no capability for', async () => {
+    const mock = mockClient([['a']], { tools: {} });
+
+    expect(await listAll(asClient(mock), 'prompts')).toEqual([]);
+    expect(await listAll(asClient(mock), 'resourceTemplates')).toEqual([]);
+    expect(mock.listPrompts).not.toHaveBeenCalled();
+    expect(mock.listResourceTemplates).not.toHaveBeenCalled();
+  });
+});
+
+describe('aggregators', () => {
+  it('aggregate every page of every server', async () => {
+    const clients = new Map([
+      ['one', asClient(mockClient([['a'], ['b']]))],
+      ['two', asClient(mockClient([['c']]))],
+    ]);
+
+    const tools = await aggregateTools(clients);
+
+    expect(tools.map((t) => t.name)).toEqual(['one__a', 'one__b', 'two__c']);
+  });
+
+  it('qualify resource templates with their server', async () => {
+    const clients = new Map([['files', asClient(mockClient([['docs'], ['src']]))]]);
+
+    const templates = await aggregateResourceTemplates(clients);
+
+    expect(templates).toEqual([
+      expect.objectContaining({
+        uriTemplate: 'files__file:///docs/{path}',
+        originalUriTemplate: 'file:///docs/{path}',
+        serverName: 'files',
+      }),
+      expect.objectContaining({ uriTemplate: 'files__file:///src/{path}' }),
+    ]);
+  });
+});
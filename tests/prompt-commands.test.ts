@@ -0,0 +1,110 @@
+/**
+ * Prompt Command Tests
+ *
+ * Server prompts run as `/server:prompt` from the chat input. Key issues
+ * this prevents:
+ * 1. Suggestions still showing once the command has been typed out
+ * 2. Embedded resources and images dropped from the inserted messages
+ * 3. A prompt split into several same-role bubbles
+ * 4. Role changes lost when an ACP agent gets the prompt as one message
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findPromptCommand,
+  flattenPromptTurns,
+  matchPromptCommands,
+  promptCommand,
+  toPromptTurns,
+} from '../src/shared/prompt-commands';
+import type { PromptInfo } from '../src/shared/types';
+
+const review: PromptInfo = {
+  name: 'github__review-pr',
+  originalName: 'review-pr',
+  serverName: 'github',
+  arguments: [{ name: 'number', required: true }],
+};
+const summarize: PromptInfo = { name: 'docs__summarize', originalName: 'summarize', serverName: 'docs' };
+
+describe('commands', () => {
+  it('names prompts as /server:prompt', () => {
+    expect(promptCommand(review)).toBe('/github:review-pr');
+  });
+
+  it('suggests prompts by prefix until the command is complete', () => {
+    expect(matchPromptCommands('/git', [review, summarize])).toEqual([review]);
+    expect(matchPromptCommands('/', [review, summarize])).toEqual([review, summarize]);
+    expect(matchPromptCommands('/github:review-pr 12', [review])).toEqual([]);
+    expect(matchPromptCommands('hello', [review])).toEqual([]);
+  });
+
+  it('finds the prompt an input names exactly', () => {
+    expect(findPromptCommand(' /docs:summarize ', [review, summarize])).toBe(summarize);
+    expect(findPromptCommand('/docs:summ', [review, summarize])).toBeUndefined();
+  });
+});
+
+describe('toPromptTurns', () => {
+  it('inlines text resources and keeps images next to the text', () => {
+    const turns = toPromptTurns({
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Review this file' } },
+        {
+          role: 'user',
+          content: { type: 'resource', resource: { uri: 'file:///a.ts', mimeType: 'text/plain', text: 'let a;' } },
+        },
+        { role: 'user', content: { type: 'image', data: 'aGk=', mimeType: 'image/png' } },
+        { role: 'assistant', content: { type: 'text', text: 'Looking at it now.' } },
+      ],
+    });
+
+    expect(turns).toEqual([
+      {
+        role: 'user',
+        text: 'Review this file\n\n[Resource file:///a.ts]\nlet a;',
+        images: [{ mimeType: 'image/png', data: 'aGk=' }],
+      },
+      { role: 'assistant', text: 'Looking at it now.', images: [] },
+    ]);
+  });
+
+  it('treats embedded image blobs as images and notes other binary content', () => {
+    const [turn] = toPromptTurns({
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'resource', resource: { uri: 'file:///logo.png', mimeType: 'image/png', blob: 'aGk=' } },
+        },
+        {
+          role: 'user',
+          content: { type: 'resource', resource: { uri: 'file:///a.zip', mimeType: 'application/zip', blob: 'aGk=' } },
+        },
+        { role: 'user', content: { type: 'audio', data: 'aGk=', mimeType: 'audio/wav' } },
+      ],
+    });
+
+    expect(turn.images).toEqual([{ mimeType: 'image/png', data: 'aGk=' }]);
+    expect(turn.text).toBe('[Resource file:///a.zip (application/zip) omitted]\n\n[audio (audio/wav) omitted]');
+  });
+});
+
+describe('flattenPromptTurns', () => {
+  it('joins user-only prompts as plain text', () => {
+    expect(
+      flattenPromptTurns([
+        { role: 'user', text: 'one', images: [] },
+        { role: 'user', text: 'two', images: [] },
+      ])
+    ).toBe('one\n\ntwo');
+  });
+
+  it('labels roles when the prompt includes assistant turns', () => {
+    expect(
+      flattenPromptTurns([
+        { role: 'user', text: 'Hi', images: [] },
+        { role: 'assistant', text: 'Hello', images: [] },
+      ])
+    ).toBe('User: Hi\n\nAssistant: Hello');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Resource Browser Tests
+ *
+ * The Resources panel fills in templates and previews read results. Key
+ * issues this prevents:
+ * 1. Unfilled optional query variables producing URIs like `?q=`
+ * 2. JSON shown as one unreadable line
+ * 3. Binary contents rendered as text instead of an image or a download
+ * 4. Watched binary resources diffed (or pinned) as raw base64
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  expandTemplate,
+  previewsToText,
+  templateVariables,
+  toResourcePreviews,
+} from '../src/shared/resource-browser';
+
+describe('templates', () => {
+  it('lists each variable once, in order', () => {
+    expect(templateVariables('file:///{dir}/{name}{?q,dir}')).toEqual(['dir', 'name', 'q']);
+  });
+
+  it('expands filled variables and drops empty ones', () => {
+    expect(expandTemplate('file:///{dir}/{name}{?q}', { dir: 'my docs', name: 'a.md', q: '' })).toBe(
+      'file:///my%20docs/a.md'
+    );
+  });
+});
+
+describe('toResourcePreviews', () => {
+  it('pretty-prints JSON and leaves other text alone', () => {
+    const previews = toResourcePreviews({
+      contents: [
+        { uri: 'data://a', mimeType: 'application/json', text: '{"a":1}' },
+        { uri: 'data://b', mimeType: 'application/json', text: 'not json' },
+        { uri: 'data://c', text: 'plain' },
+      ],
+    });
+
+    expect(previews).toEqual([
+      { kind: 'json', uri: 'data://a', mimeType: 'application/json', text: '{\n  "a": 1\n}' },
+      { kind: 'text', uri: 'data://b', mimeType: 'application/json', text: 'not json' },
+      { kind: 'text', uri: 'data://c', mimeType: undefined, text: 'plain' },
+    ]);
+  });
+
+  it('shows images inline and offers other blobs as downloads', () => {
+    const [image, blob] = toResourcePreviews({
+      contents: [
+        { uri: 'file:///logo.png', mimeType: 'image/png', blob: 'iVBORw0KGgo=' },
+        { uri: 'file:///docs/report%202024.pdf?v=2', mimeType: 'application/pdf', blob: 'JVBERi0=' },
+      ],
+    });
+
+    expect(image).toEqual({
+      kind: 'image',
+      uri: 'file:///logo.png',
+      mimeType: 'image/png',
+      src: 'data:image/png;base64,iVBORw0KGgo=',
+      size: 8,
+    });
+    expect(blob).toMatchObject({ kind: 'blob', fileName: 'report 2024.pdf', size: 5 });
+  });
+
+  it('returns nothing for a result without contents', () => {
+    expect(toResourcePreviews(undefined)).toEqual([]);
+  });
+});
+
+describe('previewsToText', () => {
+  it('keeps text and summarizes binary items', () => {
+    const previews = toResourcePreviews({
+      contents: [
+        { uri: 'data://a', text: 'hello' },
+        { uri: 'file:///logo.png', mimeType: 'image/png', blob: 'iVBORw0KGgo=' },
+      ],
+    });
+
+    expect(previewsToText(previews)).toBe('hello\n[image/png, 8 bytes: file:///logo.png]');
+  });
+});
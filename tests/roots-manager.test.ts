@@ -0,0 +1,87 @@
+/**
+ * Roots Manager Tests
+ *
+ * Servers cache the roots they were given, so every change must reach them.
+ * Key issues this prevents:
+ * 1. Servers never hearing that roots changed (no list_changed)
+ * 2. Notifying servers whose roots didn't change (e.g. scoped servers)
+ * 3. Scoped servers seeing directories outside their servers.json scope
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { RootsManager } from '../src/capabilities/roots';
+
+type Handler = () => Promise<{ roots: Array<{ uri: string }> }>;
+
+function mockClient() {
+  let handler: Handler | undefined;
+  const client = {
+    setRequestHandler: (_schema: unknown, h: Handler) => {
+      handler = h;
+    },
+    sendRootsListChanged: vi.fn(async () => {}),
+  };
+  return {
+    client: client as unknown as Client,
+    notified: client.sendRootsListChanged,
+    listRoots: async () => (await handler!()).roots.map((root) => root.uri),
+  };
+}
+
+describe('RootsManager', () => {
+  it('serves the shared paths and the followed workspace first', async () => {
+    const a = mockClient();
+    const roots = new RootsManager({ paths: ['/data'], followWorkspace: true });
+    roots.setClients(new Map([['a', a.client]]));
+
+    await roots.setWorkspace('/repo');
+
+    expect(await a.listRoots()).toEqual(['file:///repo', 'file:///data']);
+    expect(a.notified).toHaveBeenCalledTimes(1);
+  });
+
+  it('only notifies servers whose roots changed', async () => {
+    const shared = mockClient();
+    const scoped = mockClient();
+    const roots = new RootsManager({
+      paths: ['/data'],
+      scopes: { scoped: { paths: ['/only/this'], workspace: false } },
+    });
+    roots.setClients(
+      new Map([
+        ['shared', shared.client],
+        ['scoped', scoped.client],
+      ])
+    );
+
+    await roots.setPaths(['/data', '/more']);
+    await roots.setPaths(['/data', '/more']);
+
+    expect(shared.notified).toHaveBeenCalledTimes(1);
+    expect(scoped.notified).not.toHaveBeenCalled();
+    expect(await scoped.listRoots()).toEqual(['file:///only/this']);
+  });
+
+  it('keeps scoped servers out of the workspace when asked', async () => {
+    const scoped = mockClient();
+    const roots = new RootsManager({ followWorkspace: true, scopes: { scoped: { workspace: false } } });
+    roots.setClients(new Map([['scoped', scoped.client]]));
+
+    await roots.setWorkspace('/repo');
+
+    expect(await scoped.listRoots()).toEqual([]);
+    expect(scoped.notified).not.toHaveBeenCalled();
+  });
+
+  it('logs servers that fail to take the notification', async () => {
+    const broken = mockClient();
+    broken.notified.mockRejectedValue(new Error('Not connected'));
+    const onLog = vi.fn();
+    const roots = new RootsManager({ onLog });
+    roots.setClients(new Map([['broken', broken.client]]));
+
+    await expect(roots.setPaths(['/data'])).resolves.toBeUndefined();
+    expect(onLog).toHaveBeenCalledWith('[Roots] Failed to notify broken: Not connected');
+  });
+});
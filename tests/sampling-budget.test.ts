@@ -0,0 +1,122 @@
+/**
+ * Sampling Budget Tests
+ *
+ * A looping server must not be able to drain the daily token budget by
+ * sending requests in parallel. Key issues this prevents:
+ * 1. Concurrent requests all passing against the same usage total
+ * 2. Rejected requests keeping their reservation
+ * 3. User edits raising maxTokens past the remaining budget
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MockLanguageModelV4, convertArrayToReadableStream } from 'ai/test';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { setupSampling, type SamplingRequest } from '../src/capabilities/sampling';
+import { SamplingUsage } from '../src/capabilities/sampling-policy';
+
+vi.mock('../src/web/llm/provider', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../src/web/llm/provider')>();
+  return {
+    ...original,
+    getProviderApiKey: () => 'test-key',
+    getModel: () =>
+      new MockLanguageModelV4({
+        doStream: async () => ({
+          stream: convertArrayToReadableStream([
+            { type: 'stream-start', warnings: [] },
+            { type: 'response-metadata', id: 'r1', modelId: 'mock-model', timestamp: new Date(0) },
+            { type: 'text-start', id: 't1' },
+            { type: 'text-delta', id: 't1', delta: 'Done' },
+            { type: 'text-end', id: 't1' },
+            {
+              type: 'finish',
+              finishReason: { unified: 'stop', raw: 'stop' },
+              usage: {
+                inputTokens: { total: 5, noCache: 5, cacheRead: 0, cacheWrite: 0 },
+                outputTokens: { total: 3, text: 3, reasoning: 0 },
+              },
+            },
+          ]),
+        }),
+      }),
+  };
+});
+
+type Handler = (request: unknown, extra: unknown) => Promise<unknown>;
+
+function captureHandler(): { client: Client; handler: () => Handler } {
+  let handler: Handler | undefined;
+  const client = {
+    setRequestHandler: (_schema: unknown, h: Handler) => {
+      handler = h;
+    },
+  } as unknown as Client;
+  return { client, handler: () => handler! };
+}
+
+function request(maxTokens: number) {
+  return {
+    method: 'sampling/createMessage',
+    params: { messages: [{ role: 'user', content: { type: 'text', text: 'Hi' } }], maxTokens },
+  };
+}
+
+const extra = { requestId: 1, sendNotification: async () => {} };
+
+describe('daily token budget', () => {
+  it('counts requests still waiting for approval against the budget', async () => {
+    const { client, handler } = captureHandler();
+    const usage = new SamplingUsage();
+    const approvals: Array<(approved: boolean) => void> = [];
+    setupSampling(client, {
+      policy: { dailyTokenBudget: 150 },
+      usage,
+      onApprovalRequest: () => new Promise<boolean>((resolve) => approvals.push(resolve)),
+    });
+
+    const first = handler()(request(100), extra);
+    const refused = await Promise.allSettled([handler()(request(100), extra), handler()(request(100), extra)]);
+
+    // Only the first fits; the others are refused before anyone is asked
+    expect(approvals).toHaveLength(1);
+    const errors = refused.map((r) => (r as PromiseRejectedResult).reason);
+    expect(errors.every((e) => e instanceof McpError && e.code === ErrorCode.InvalidRequest)).toBe(true);
+    expect(errors[0].data).toMatchObject({ policy: 'dailyTokenBudget', used: 100 });
+
+    approvals[0](true);
+    await expect(first).resolves.toMatchObject({ content: { type: 'text', text: 'Done' } });
+  });
+
+  it('settles reservations with the real usage, and releases rejected ones', async () => {
+    const { client, handler } = captureHandler();
+    const usage = new SamplingUsage();
+    const answers = [true, false];
+    setupSampling(client, {
+      policy: { dailyTokenBudget: 150 },
+      usage,
+      onApprovalRequest: async () => answers.shift()!,
+    });
+
+    await Promise.all([handler()(request(100), extra), handler()(request(40), extra)]);
+
+    // 8 tokens for the generation that ran, nothing for the rejected one
+    expect(usage.tokensInLastDay()).toBe(8);
+  });
+
+  it('checks the budget again after the user edits maxTokens', async () => {
+    const { client, handler } = captureHandler();
+    const usage = new SamplingUsage();
+    usage.recordTokens(100);
+    setupSampling(client, {
+      policy: { dailyTokenBudget: 150 },
+      usage,
+      onApprovalRequest: async (req: SamplingRequest) => ({ ...req, maxTokens: 500 }),
+    });
+
+    await expect(handler()(request(40), extra)).rejects.toMatchObject({
+      data: { policy: 'dailyTokenBudget', requested: 500 },
+    });
+    expect(usage.tokensInLastDay()).toBe(100);
+  });
+});
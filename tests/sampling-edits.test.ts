@@ -0,0 +1,64 @@
+/**
+ * Sampling Edit Tests
+ *
+ * Users may edit a sampling request before approving it. Key issues this
+ * prevents:
+ * 1. Edited requests smuggling in tools the server never offered
+ * 2. Edits raising maxTokens past the server's policy limit
+ * 3. toolChoice surviving after every tool was removed
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applySamplingEdits, type SamplingRequest } from '../src/capabilities/sampling';
+
+const search = { name: 'search', inputSchema: { type: 'object' as const } };
+const fetchTool = { name: 'fetch', inputSchema: { type: 'object' as const } };
+
+const params = {
+  messages: [{ role: 'user' as const, content: { type: 'text' as const, text: 'Find MCP docs' } }],
+  systemPrompt: 'Be brief.',
+  maxTokens: 500,
+  tools: [search, fetchTool],
+  toolChoice: { mode: 'required' as const },
+};
+
+const request: SamplingRequest = { ...params };
+
+describe('applySamplingEdits', () => {
+  it('applies edited messages, system prompt and sampling parameters', () => {
+    const edited = applySamplingEdits(params, {
+      ...request,
+      messages: [{ role: 'user', content: { type: 'text', text: 'Find the sampling spec' } }],
+      systemPrompt: 'Answer in one line.',
+      temperature: 0.2,
+      maxTokens: 200,
+    });
+
+    expect(edited).toMatchObject({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Find the sampling spec' } }],
+      systemPrompt: 'Answer in one line.',
+      temperature: 0.2,
+      maxTokens: 200,
+    });
+  });
+
+  it('only keeps tools the server offered', () => {
+    const injected = { name: 'delete_files', inputSchema: { type: 'object' as const } };
+    const edited = applySamplingEdits(params, { ...request, tools: [search, injected] });
+
+    expect(edited.tools).toEqual([search]);
+  });
+
+  it('drops toolChoice when every tool is removed', () => {
+    const edited = applySamplingEdits(params, { ...request, tools: [] });
+
+    expect(edited.tools).toBeUndefined();
+    expect(edited.toolChoice).toBeUndefined();
+  });
+
+  it('clamps maxTokens to the policy limit', () => {
+    const edited = applySamplingEdits(params, { ...request, maxTokens: 10_000 }, { maxTokensPerRequest: 1024 });
+
+    expect(edited.maxTokens).toBe(1024);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Sampling Policy Tests
+ *
+ * A looping server must not be able to drain the API budget. Key issues
+ * this prevents:
+ * 1. Rate limits that never recover (or never trigger)
+ * 2. Token budgets counting usage older than 24 hours
+ * 3. Tool-enabled requests smuggling in tools outside the allowlist
+ * 4. The no-API-key mock handler answering servers the policy rejects
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  SamplingUsage,
+  checkSamplingPolicy,
+  createPolicyError,
+} from '../src/capabilities/sampling-policy';
+import { setupSampling } from '../src/capabilities/sampling';
+
+vi.mock('../src/web/llm/provider', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../src/web/llm/provider')>();
+  return { ...original, getProviderApiKey: () => undefined };
+});
+
+const params = {
+  messages: [{ role: 'user' as const, content: { type: 'text' as const, text: 'Summarise' } }],
+  maxTokens: 500,
+};
+
+describe('checkSamplingPolicy', () => {
+  it('limits requests per rolling minute', () => {
+    const usage = new SamplingUsage();
+    usage.recordRequest(0);
+    usage.recordRequest(10_000);
+
+    expect(checkSamplingPolicy({ maxRequestsPerMinute: 2 }, params, 500, usage, 30_000)).toEqual({
+      policy: 'maxRequestsPerMinute',
+      limit: 2,
+      retryAfterMs: 30_000,
+    });
+    expect(checkSamplingPolicy({ maxRequestsPerMinute: 2 }, params, 500, usage, 60_000)).toBeUndefined();
+  });
+
+  it('caps tokens per request', () => {
+    const violation = checkSamplingPolicy({ maxTokensPerRequest: 256 }, params, 500, new SamplingUsage());
+    expect(violation).toEqual({ policy: 'maxTokensPerRequest', limit: 256, requested: 500 });
+  });
+
+  it('enforces a rolling daily token budget', () => {
+    const usage = new SamplingUsage();
+    const day = 24 * 60 * 60 * 1000;
+    usage.recordTokens(900, 0);
+
+    expect(checkSamplingPolicy({ dailyTokenBudget: 1000 }, params, 500, usage, 1000)).toMatchObject({
+      policy: 'dailyTokenBudget',
+      used: 900,
+    });
+    expect(checkSamplingPolicy({ dailyTokenBudget: 1000 }, params, 500, usage, day)).toBeUndefined();
+  });
+
+  it('rejects tools outside the allowlist', () => {
+    const toolParams = {
+      ...params,
+      tools: [
+        { name: 'search', inputSchema: { type: 'object' as const } },
+        { name: 'delete_everything', inputSchema: { type: 'object' as const } },
+      ],
+    };
+
+    expect(checkSamplingPolicy({ allowedTools: ['search'] }, toolParams, 500, new SamplingUsage())).toEqual({
+      policy: 'allowedTools',
+      allowed: ['search'],
+      rejected: ['delete_everything'],
+    });
+  });
+});
+
+describe('createPolicyError', () => {
+  it('returns a structured InvalidRequest error', () => {
+    const error = createPolicyError({ policy: 'maxTokensPerRequest', limit: 256, requested: 500 });
+
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.data).toEqual({ policy: 'maxTokensPerRequest', limit: 256, requested: 500 });
+  });
+});
+
+describe('setupSampling without an API key', () => {
+  type Handler = (request: unknown, extra: unknown) => Promise<unknown>;
+
+  function mockModeHandler(usage: SamplingUsage, maxRequestsPerMinute: number): Handler {
+    let handler: Handler | undefined;
+    const client = {
+      setRequestHandler: (_schema: unknown, h: Handler) => {
+        handler = h;
+      },
+    } as unknown as Client;
+    setupSampling(client, { policy: { maxRequestsPerMinute }, usage });
+    return handler!;
+  }
+
+  const request = { method: 'sampling/createMessage', params };
+
+  it('rejects servers whose policy disables sampling', async () => {
+    const handler = mockModeHandler(new SamplingUsage(), 0);
+
+    const error = await handler(request, {}).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).data).toMatchObject({ policy: 'maxRequestsPerMinute', limit: 0 });
+  });
+
+  it('counts mock responses against the rate limit', async () => {
+    const usage = new SamplingUsage();
+    const handler = mockModeHandler(usage, 1);
+
+    await expect(handler(request, {})).resolves.toMatchObject({ model: 'mock-model' });
+    await expect(handler(request, {})).rejects.toBeInstanceOf(McpError);
+    expect(usage.requestsInLastMinute()).toHaveLength(1);
+  });
+});
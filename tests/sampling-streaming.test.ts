@@ -0,0 +1,136 @@
+/**
+ * Sampling Streaming Tests
+ *
+ * Long server-side agent loops must show signs of life. Key issues this
+ * prevents:
+ * 1. Output only arriving once the whole generation finishes
+ * 2. Missing or non-increasing progress notifications for progressToken requests
+ * 3. UIs never learning that a stream ended
+ * 4. A failed progress notification failing the whole request
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MockLanguageModelV4, convertArrayToReadableStream } from 'ai/test';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { setupSampling, type SamplingDelta } from '../src/capabilities/sampling';
+
+vi.mock('../src/web/llm/provider', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../src/web/llm/provider')>();
+  return {
+    ...original,
+    getProviderApiKey: () => 'test-key',
+    getModel: () =>
+      new MockLanguageModelV4({
+        doStream: async () => ({
+          stream: convertArrayToReadableStream([
+            { type: 'stream-start', warnings: [] },
+            { type: 'response-metadata', id: 'r1', modelId: 'mock-model', timestamp: new Date(0) },
+            { type: 'text-start', id: 't1' },
+            { type: 'text-delta', id: 't1', delta: 'Hello' },
+            { type: 'text-delta', id: 't1', delta: ', world' },
+            { type: 'text-end', id: 't1' },
+            {
+              type: 'finish',
+              finishReason: { unified: 'stop', raw: 'stop' },
+              usage: {
+                inputTokens: { total: 5, noCache: 5, cacheRead: 0, cacheWrite: 0 },
+                outputTokens: { total: 3, text: 3, reasoning: 0 },
+              },
+            },
+          ]),
+        }),
+      }),
+  };
+});
+
+type Handler = (request: unknown, extra: unknown) => Promise<unknown>;
+
+function captureHandler(): { client: Client; handler: () => Handler } {
+  let handler: Handler | undefined;
+  const client = {
+    setRequestHandler: (_schema: unknown, h: Handler) => {
+      handler = h;
+    },
+  } as unknown as Client;
+  return { client, handler: () => handler! };
+}
+
+describe('streaming sampling', () => {
+  it('streams deltas and reports progress for progressToken requests', async () => {
+    const { client, handler } = captureHandler();
+    const deltas: SamplingDelta[] = [];
+    setupSampling(client, { approvalMode: 'auto', onResponseDelta: (delta) => deltas.push(delta) });
+
+    const sendNotification = vi.fn(async () => {});
+    const result = await handler()(
+      {
+        method: 'sampling/createMessage',
+        params: {
+          messages: [{ role: 'user', content: { type: 'text', text: 'Hi' } }],
+          maxTokens: 100,
+          _meta: { progressToken: 'tok-1' },
+        },
+      },
+      { requestId: 7, sendNotification }
+    );
+
+    expect(result).toMatchObject({ content: { type: 'text', text: 'Hello, world' }, stopReason: 'endTurn' });
+
+    expect(deltas.map(({ text, accumulated, done }) => ({ text, accumulated, done }))).toEqual([
+      { text: 'Hello', accumulated: 'Hello', done: false },
+      { text: ', world', accumulated: 'Hello, world', done: false },
+      { text: '', accumulated: 'Hello, world', done: true },
+    ]);
+    expect(deltas[0].request.requestId).toBe(7);
+
+    const progress = sendNotification.mock.calls.map(
+      (call) => (call as unknown as [{ params: { progressToken: string; progress: number } }])[0].params
+    );
+    expect(progress.every((p) => p.progressToken === 'tok-1')).toBe(true);
+    const values = progress.map((p) => p.progress);
+    expect(values.length).toBeGreaterThanOrEqual(2);
+    expect(values).toEqual([...values].sort((a, b) => a - b));
+    expect(new Set(values).size).toBe(values.length);
+  });
+
+  it('sends no progress notifications without a progressToken', async () => {
+    const { client, handler } = captureHandler();
+    setupSampling(client, { approvalMode: 'auto' });
+
+    const sendNotification = vi.fn(async () => {});
+    await handler()(
+      {
+        method: 'sampling/createMessage',
+        params: { messages: [{ role: 'user', content: { type: 'text', text: 'Hi' } }], maxTokens: 100 },
+      },
+      { requestId: 8, sendNotification }
+    );
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('still returns the result when progress notifications fail', async () => {
+    const { client, handler } = captureHandler();
+    const logs: string[] = [];
+    setupSampling(client, { approvalMode: 'auto', onLog: (msg) => logs.push(msg) });
+
+    const sendNotification = vi.fn(async () => {
+      throw new Error('Not connected');
+    });
+    const result = await handler()(
+      {
+        method: 'sampling/createMessage',
+        params: {
+          messages: [{ role: 'user', content: { type: 'text', text: 'Hi' } }],
+          maxTokens: 100,
+          _meta: { progressToken: 'tok-2' },
+        },
+      },
+      { requestId: 9, sendNotification }
+    );
+
+    expect(result).toMatchObject({ content: { type: 'text', text: 'Hello, world' } });
+    expect(sendNotification).toHaveBeenCalled();
+    expect(logs.some((msg) => msg.includes('Failed to report progress'))).toBe(true);
+  });
+});
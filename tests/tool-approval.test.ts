@@ -0,0 +1,58 @@
+/**
+ * Tool Approval Tests
+ *
+ * Which tool calls wait for the user in the desktop chat. Key issues this
+ * prevents:
+ * 1. An untrusted server skipping the prompt by claiming read-only tools
+ * 2. Trusted servers' destructive tools running without asking
+ * 3. "Always allow" choices being ignored
+ * 4. The same tool being saved twice in an "always allow" list
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_TOOL_APPROVAL_SETTINGS, getApprovalReason, toggleEntry } from '../src/shared/tool-approval';
+
+const readTool = {
+  qualifiedName: 'files__read',
+  serverName: 'files',
+  annotations: { readOnlyHint: true },
+};
+
+const deleteTool = {
+  qualifiedName: 'files__delete',
+  serverName: 'files',
+  annotations: { destructiveHint: true },
+};
+
+const trusted = { ...DEFAULT_TOOL_APPROVAL_SETTINGS, trustedServers: ['files'] };
+
+describe('getApprovalReason', () => {
+  it('asks for every tool of an untrusted server', () => {
+    expect(getApprovalReason(readTool, DEFAULT_TOOL_APPROVAL_SETTINGS)).toContain('files is not trusted');
+  });
+
+  it('believes the annotations of trusted servers', () => {
+    expect(getApprovalReason(readTool, trusted)).toBeNull();
+    expect(getApprovalReason(deleteTool, trusted)).toBe('Destructive and non-idempotent - may cause permanent changes');
+  });
+
+  it('treats unannotated tools of trusted servers as destructive', () => {
+    expect(getApprovalReason({ qualifiedName: 'files__write', serverName: 'files' }, trusted)).not.toBeNull();
+  });
+
+  it('skips the prompt for always-allowed tools and servers', () => {
+    expect(getApprovalReason(deleteTool, { ...trusted, allowedTools: ['files__delete'] })).toBeNull();
+    expect(getApprovalReason(readTool, { ...DEFAULT_TOOL_APPROVAL_SETTINGS, allowedServers: ['files'] })).toBeNull();
+  });
+});
+
+describe('toggleEntry', () => {
+  it('adds a value only once', () => {
+    expect(toggleEntry(['files__read'], 'files__read', true)).toEqual(['files__read']);
+    expect(toggleEntry(['files__read'], 'files__write', true)).toEqual(['files__read', 'files__write']);
+  });
+
+  it('removes every copy of a value', () => {
+    expect(toggleEntry(['files', 'git', 'files'], 'files', false)).toEqual(['git']);
+  });
+});
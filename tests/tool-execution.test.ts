@@ -6,16 +6,20 @@
  * 1. Using wrong property (toolCall.name vs toolCall.qualifiedName)
  * 2. Using wrong adapter (HTTP vs IPC)
  * 3. Multiple adapter instances breaking stream management
+ * 4. Cancels not reaching the call they name, or timeouts ignoring config
+ * 5. Progress notifications not reaching the chat
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { ChatToolCall } from '../src/renderer/chat/types';
+import { DEFAULT_TOOL_TIMEOUT_MS, resolveToolTimeout } from '../src/multi-server';
 
 // Mock electronAPI
 const mockElectronAPI = {
   getServers: vi.fn(),
   getTools: vi.fn(),
   callTool: vi.fn(),
+  cancelToolCall: vi.fn(),
   getConfig: vi.fn(),
   getToolManagerTools: vi.fn(),
   setToolEnabled: vi.fn(),
@@ -31,6 +35,13 @@ const mockElectronAPI = {
   onServersChanged: vi.fn(() => () => {}),
   onResourceUpdated: vi.fn(() => () => {}),
   onConnectionError: vi.fn(() => () => {}),
+  onToolProgress: vi.fn((_callback: (data: unknown) => void) => () => {}),
+  onServerStatusChanged: vi.fn(() => () => {}),
+  onServerHealthy: vi.fn(() => () => {}),
+  onServerUnhealthy: vi.fn(() => () => {}),
+  onServerCrashed: vi.fn(() => () => {}),
+  onServerRestarting: vi.fn(() => () => {}),
+  onManagerReady: vi.fn(() => () => {}),
 };
 
 describe('Tool Execution Integration', () => {
@@ -107,6 +118,46 @@ describe('Tool Execution Integration', () => {
     expect(mockElectronAPI.callTool).toHaveBeenNthCalledWith(1, 'tool1', {});
     expect(mockElectronAPI.callTool).toHaveBeenNthCalledWith(2, 'tool2', {});
   });
+
+  it('should cancel a call by the id it was started with', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    mockElectronAPI.callTool.mockResolvedValue({ content: 'result', isError: false });
+    mockElectronAPI.cancelToolCall.mockResolvedValue({ cancelled: true });
+
+    const adapter = getCommunicationAdapter();
+    await adapter.callTool('files__sync', {}, { callId: 'call-1' });
+    await adapter.cancelToolCall!('call-1');
+
+    expect(mockElectronAPI.callTool).toHaveBeenCalledWith('files__sync', {}, 'call-1');
+    expect(mockElectronAPI.cancelToolCall).toHaveBeenCalledWith('call-1');
+  });
+
+  it('should forward tool progress as tool_progress events', async () => {
+    const { getCommunicationAdapter } = await import('../src/renderer/hooks/useCommunication');
+
+    const handler = vi.fn();
+    getCommunicationAdapter().onEvent(handler);
+
+    const progress = { callId: 'call-1', progress: 3, total: 10, message: 'Indexing' };
+    mockElectronAPI.onToolProgress.mock.calls[0][0](progress);
+
+    expect(handler).toHaveBeenCalledWith({ type: 'tool_progress', data: progress });
+  });
+});
+
+describe('resolveToolTimeout', () => {
+  const timeouts = { files: { defaultMs: 30000, tools: { sync: 600000 } } };
+
+  it('prefers the tool override, then the server default', () => {
+    expect(resolveToolTimeout(timeouts, 'files__sync')).toBe(600000);
+    expect(resolveToolTimeout(timeouts, 'files__read')).toBe(30000);
+  });
+
+  it('falls back to the default for unconfigured servers and inherited names', () => {
+    expect(resolveToolTimeout(timeouts, 'weather__forecast')).toBe(DEFAULT_TOOL_TIMEOUT_MS);
+    expect(resolveToolTimeout({ files: { tools: {} } }, 'files__toString')).toBe(DEFAULT_TOOL_TIMEOUT_MS);
+  });
 });
 
 describe('Adapter Selection', () => {
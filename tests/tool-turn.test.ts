@@ -0,0 +1,58 @@
+/**
+ * Tool Turn Outcome Tests
+ *
+ * Whether the chat gives the model another turn once its tool calls have
+ * run. Key issues this prevents:
+ * 1. Continuing before parallel calls have all finished
+ * 2. A cancelled or declined call stopping the turn for good
+ * 3. Continuing after a tool failed
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getToolTurnOutcome } from '../src/renderer/chat/tool-turn';
+import type { ChatToolCall } from '../src/renderer/chat/types';
+
+function call(id: string, updates: Partial<ChatToolCall>): ChatToolCall {
+  return {
+    id,
+    qualifiedName: `files__${id}`,
+    displayName: id,
+    serverName: 'files',
+    arguments: {},
+    status: 'pending',
+    ...updates,
+  };
+}
+
+const done = call('read', { status: 'completed', result: { content: 'contents' } });
+const cancelled = call('sync', {
+  status: 'cancelled',
+  result: { content: 'The user cancelled this tool call before it finished', isError: true },
+});
+
+describe('getToolTurnOutcome', () => {
+  it('waits while any parallel call is still running', () => {
+    expect(getToolTurnOutcome([done, call('sync', { status: 'executing' })])).toBe('running');
+    expect(getToolTurnOutcome([done, call('write', {})])).toBe('running');
+  });
+
+  it('continues when one of the parallel calls was cancelled', () => {
+    expect(getToolTurnOutcome([done, cancelled])).toBe('continue');
+  });
+
+  it('continues when a call was declined', () => {
+    const declined = call('delete', {
+      status: 'cancelled',
+      result: { content: 'The user declined to run this tool', isError: true },
+    });
+    expect(getToolTurnOutcome([declined])).toBe('continue');
+  });
+
+  it('stops when a tool failed', () => {
+    const failed = call('write', { status: 'failed', result: { content: 'disk full', isError: true } });
+    expect(getToolTurnOutcome([done, cancelled, failed])).toBe('stop');
+    expect(getToolTurnOutcome([call('list', { status: 'completed', result: { content: 'no', isError: true } })])).toBe(
+      'stop'
+    );
+  });
+});
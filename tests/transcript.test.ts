@@ -0,0 +1,185 @@
+/**
+ * Transcript Tests
+ *
+ * Conversations export to Markdown, HTML and JSON, and JSON imports back.
+ * Key issues this prevents:
+ * 1. Imported tool calls losing ACP diffs or plans, or running again
+ * 2. Code in tool results breaking out of the Markdown fences
+ * 3. Message text or theme values injecting markup into the HTML page
+ * 4. Arbitrary JSON files loading as a conversation
+ * 5. Importing an old export overwriting the saved session it came from
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  importTranscript,
+  importTranscriptAsNew,
+  toHtml,
+  toJson,
+  toMarkdown,
+  transcriptFileName,
+  type TranscriptConversation,
+} from '../src/renderer/chat/transcript';
+import type { ChatMessage } from '../src/renderer/chat/types';
+import { createConversationStore } from '../src/stores/conversation-store';
+
+const acpTurn: ChatMessage = {
+  id: 'm2',
+  role: 'assistant',
+  content: 'Renamed it.',
+  timestamp: '2026-01-01T10:00:05.000Z',
+  backend: 'acp',
+  toolCalls: [
+    {
+      id: 'edit-1',
+      qualifiedName: 'Edit a.ts',
+      displayName: 'Edit a.ts',
+      serverName: 'Codex',
+      arguments: {},
+      status: 'completed',
+      acp: {
+        toolCallId: 'edit-1',
+        title: 'Edit a.ts',
+        kind: 'edit',
+        status: 'completed',
+        contentBlocks: [{ type: 'diff', path: 'a.ts', oldText: 'let a;', newText: 'let b;' }],
+        locations: [],
+      },
+    },
+  ],
+  plan: [
+    { content: 'Rename the variable', priority: 'high', status: 'completed' },
+    { content: 'Run the tests', priority: 'medium', status: 'pending' },
+  ],
+};
+
+const conversation: TranscriptConversation = {
+  id: 'session-1',
+  title: 'Rename a variable',
+  backend: { kind: 'acp', agentId: 'codex', agentName: 'Codex' },
+  messages: [
+    { id: 'm1', role: 'user', content: 'Rename a to b <please>', timestamp: '2026-01-01T10:00:00.000Z' },
+    acpTurn,
+  ],
+};
+
+describe('JSON round trip', () => {
+  it('imports an export as the same conversation', () => {
+    expect(importTranscript(toJson(conversation))).toEqual(conversation);
+  });
+
+  it('rebuilds tool calls and stops unfinished ones from running again', () => {
+    const running: ChatMessage = {
+      id: 'm1',
+      role: 'assistant',
+      content: '',
+      timestamp: '2026-01-01T10:00:00.000Z',
+      isStreaming: true,
+      toolCalls: [
+        { id: 't1', qualifiedName: 'weather__forecast', arguments: { city: 'Oslo' }, status: 'pending' } as never,
+      ],
+    };
+    const [message] = importTranscript(toJson({ ...conversation, messages: [running] })).messages;
+
+    expect(message.isStreaming).toBe(false);
+    expect(message.toolCalls?.[0]).toMatchObject({
+      displayName: 'forecast',
+      serverName: 'weather',
+      status: 'failed',
+      result: { isError: true },
+    });
+  });
+
+  it('rejects files that are not conversation exports', () => {
+    expect(() => importTranscript('{oops')).toThrow('Not a JSON file');
+    expect(() => importTranscript('{"messages": []}')).toThrow('Not a Skilljack conversation export');
+
+    const document = JSON.parse(toJson(conversation));
+    document.conversation.messages[1].role = 'robot';
+    expect(() => importTranscript(JSON.stringify(document))).toThrow('Message 2 is malformed');
+  });
+});
+
+describe('importTranscriptAsNew', () => {
+  const dataDir = join(tmpdir(), 'skilljack-transcript-test-' + Date.now());
+
+  afterEach(() => {
+    if (existsSync(dataDir)) {
+      rmSync(dataDir, { recursive: true });
+    }
+  });
+
+  it('never replaces the saved session the export came from', () => {
+    const store = createConversationStore({ dataDir });
+    const exported = toJson(conversation);
+
+    // The session goes on after it was exported
+    const later = [...conversation.messages, { ...conversation.messages[0], id: 'm3', content: 'Now run the tests' }];
+    store.save({ id: conversation.id, backend: conversation.backend, messages: later });
+
+    const imported = importTranscriptAsNew(exported, 'session-2');
+    store.save({ id: imported.id, backend: imported.backend, messages: imported.messages });
+
+    expect(imported.messages).toEqual(conversation.messages);
+    expect(store.get(conversation.id)?.messages).toEqual(later);
+    expect(store.list().map((c) => c.id).sort()).toEqual(['session-1', 'session-2']);
+  });
+});
+
+describe('toMarkdown', () => {
+  it('folds tool calls into details blocks with diffs and plans', () => {
+    const markdown = toMarkdown(conversation);
+
+    expect(markdown).toContain('# Rename a variable');
+    expect(markdown).toContain('<summary>Codex · Edit a.ts (completed)</summary>');
+    expect(markdown).toContain('```diff\n- let a;\n+ let b;\n```');
+    expect(markdown).toContain('- [x] Rename the variable\n- [ ] Run the tests');
+  });
+
+  it('uses fences longer than any backticks in the result', () => {
+    const markdown = toMarkdown({
+      ...conversation,
+      messages: [
+        {
+          ...acpTurn,
+          toolCalls: [
+            {
+              id: 't1',
+              qualifiedName: 'docs__read',
+              displayName: 'read',
+              serverName: 'docs',
+              arguments: {},
+              status: 'completed',
+              result: { content: [{ type: 'text', text: '```js\nx\n```' }] },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(markdown).toContain('````\n```js\nx\n```\n````');
+  });
+});
+
+describe('toHtml', () => {
+  it('escapes text and carries only well-formed theme variables', () => {
+    const html = toHtml(conversation, {
+      '--bg-primary': '#101010',
+      '--accent': 'red;}</style><script>',
+    });
+
+    expect(html).toContain('--bg-primary: #101010;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('Rename a to b &lt;please&gt;');
+    expect(html).toContain('<span class="added">+ let b;</span>');
+  });
+});
+
+describe('transcriptFileName', () => {
+  it('names files after the title', () => {
+    expect(transcriptFileName(conversation, 'markdown')).toBe('rename-a-variable.md');
+  });
+});